@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+import { ROLES, Role } from "@/lib/roles";
+
+interface User {
+  id              : number;
+  email           : string;
+  role            : Role;
+  lockedUntil     : string | null;
+  failedLoginCount: number;
+  createdAt       : string;
+  lastLoginAt     : string | null;
+  activeSessions  : number;
+}
+
+function formatDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : "never";
+}
+
+export default function AdminPage() {
+  const router = useRouter();
+  const [users,      setUsers]      = useState<User[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [search,     setSearch]     = useState("");
+  const [loading,    setLoading]    = useState(true);
+  const [busyId,     setBusyId]     = useState<number | null>(null);
+  const [error,      setError]      = useState("");
+
+  const load = useCallback(async (cursor?: number) => {
+    setError("");
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (search.trim()) params.set("search", search.trim());
+      if (cursor)        params.set("cursor", String(cursor));
+
+      const res = await apiFetch(`/api/admin/users?${params}`);
+      if (res.status === 401) { router.push("/login"); return; }
+      if (res.status === 403) { router.push("/dashboard"); return; }
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? "Could not load users."); return; }
+
+      setUsers((list) => (cursor ? [...list, ...d.users] : d.users));
+      setNextCursor(d.nextCursor);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [router, search]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function update(user: User, path: string, init: { method: string; body?: string }, fallback: string) {
+    setBusyId(user.id);
+    setError("");
+    try {
+      const res = await apiFetch(path, { ...init, headers: { "Content-Type": "application/json" } });
+      const d = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(d.error ?? fallback); return; }
+
+      setUsers((list) => list.map((u) => (
+        u.id !== user.id ? u
+          : d.user ? d.user
+          : { ...u, lockedUntil: null, failedLoginCount: 0 }
+      )));
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function changeRole(user: User, role: Role) {
+    if (role === user.role) return;
+    update(user, `/api/admin/users/${user.id}`,
+           { method: "PATCH", body: JSON.stringify({ role }) }, "Could not change the role.");
+  }
+
+  function unlock(user: User) {
+    update(user, `/api/admin/users/${user.id}/unlock`, { method: "POST" }, "Could not unlock the account.");
+  }
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--color-bg)" }}>
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 py-10 space-y-6">
+
+        <div className="flex items-end gap-4">
+          <div className="mr-auto">
+            <Link href="/dashboard" className="text-xs hover:underline" style={{ color: "var(--color-accent)" }}>
+              ← Dashboard
+            </Link>
+            <h1 className="text-xl font-semibold mt-2" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+              Users
+            </h1>
+            <p className="text-sm mt-1" style={{ color: "var(--color-text-muted)" }}>
+              Viewers can read results, analysts can also run analyses and manage schedules and alerts,
+              admins can also manage users, the taxonomy and{" "}
+              <Link href="/admin/settings" className="underline">system settings</Link>.
+            </p>
+          </div>
+          <input type="search" value={search} onChange={(e) => setSearch(e.target.value)}
+                 placeholder="Search by email" className="input text-sm w-56" />
+        </div>
+
+        {error && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(240,77,77,0.08)", border: "1px solid rgba(240,77,77,0.25)", color: "#f87171" }}>
+            {error}
+          </div>
+        )}
+
+        <div className="card">
+          {loading && users.length === 0 ? (
+            <div className="p-5 space-y-3">
+              {[0, 1, 2].map((i) => <div key={i} className="skeleton h-12" />)}
+            </div>
+          ) : users.length === 0 ? (
+            <p className="p-5 text-sm" style={{ color: "var(--color-text-muted)" }}>No users found.</p>
+          ) : (
+            <ul>
+              {users.map((u, i) => {
+                const locked = u.lockedUntil !== null && new Date(u.lockedUntil) > new Date();
+                return (
+                  <li key={u.id} className="px-5 py-4 flex items-center gap-4"
+                      style={{ borderTop: i === 0 ? "none" : "1px solid var(--color-border)" }}>
+                    <div className="mr-auto min-w-0">
+                      <div className="text-sm font-medium flex items-center gap-2" style={{ color: "var(--color-text)" }}>
+                        <span className="truncate">{u.email}</span>
+                        {locked && (
+                          <span className="pill" style={{ color: "#f87171", backgroundColor: "rgba(240,77,77,0.12)", border: "1px solid rgba(240,77,77,0.25)" }}>
+                            Locked
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs mt-1 font-mono" style={{ color: "var(--color-text-dim)" }}>
+                        #{u.id} · last sign-in {formatDate(u.lastLoginAt)} · {u.activeSessions} active session{u.activeSessions === 1 ? "" : "s"}
+                      </div>
+                    </div>
+                    {(locked || u.failedLoginCount > 0) && (
+                      <button onClick={() => unlock(u)} disabled={busyId !== null}
+                              className="text-xs px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                              style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+                        Unlock
+                      </button>
+                    )}
+                    <select value={u.role} onChange={(e) => changeRole(u, e.target.value as Role)}
+                            disabled={busyId !== null} className="input text-xs w-28">
+                      {ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {nextCursor !== null && (
+          <button onClick={() => load(nextCursor)} disabled={loading}
+                  className="text-sm px-3 py-2 rounded-lg transition-colors disabled:opacity-40"
+                  style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+            {loading ? "Loading…" : "Load more"}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+
+interface Setting {
+  key         : string;
+  label       : string;
+  type        : "boolean" | "number";
+  value       : boolean | number;
+  defaultValue: boolean | number;
+  source      : "database" | "environment" | "default";
+  env         : string;
+  updatedAt   : string | null;
+  updatedBy   : string | null;
+}
+
+function sourceText(s: Setting) {
+  if (s.source === "database") {
+    return `set${s.updatedBy ? ` by ${s.updatedBy}` : ""}${s.updatedAt ? ` on ${new Date(s.updatedAt).toLocaleString()}` : ""}`;
+  }
+  return s.source === "environment" ? `from ${s.env}` : "built-in default";
+}
+
+export default function AdminSettingsPage() {
+  const router = useRouter();
+  const [settings, setSettings] = useState<Setting[]>([]);
+  const [drafts,   setDrafts]   = useState<Record<string, string>>({});
+  const [loading,  setLoading]  = useState(true);
+  const [busyKey,  setBusyKey]  = useState<string | null>(null);
+  const [error,    setError]    = useState("");
+
+  const load = useCallback(async () => {
+    setError("");
+    setLoading(true);
+    try {
+      const res = await apiFetch("/api/admin/settings");
+      if (res.status === 401) { router.push("/login"); return; }
+      if (res.status === 403) { router.push("/dashboard"); return; }
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? "Could not load settings."); return; }
+      setSettings(d.settings);
+      setDrafts({});
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function save(setting: Setting, value: boolean | number | null) {
+    setBusyKey(setting.key);
+    setError("");
+    try {
+      const res = await apiFetch("/api/admin/settings", {
+        method : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body   : JSON.stringify({ key: setting.key, value }),
+      });
+      const d = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(d.error ?? "Could not save the setting."); return; }
+
+      setSettings((list) => list.map((s) => (s.key === setting.key ? d.setting : s)));
+      setDrafts((d) => {
+        const next = { ...d };
+        delete next[setting.key];
+        return next;
+      });
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--color-bg)" }}>
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 py-10 space-y-6">
+
+        <div>
+          <Link href="/admin" className="text-xs hover:underline" style={{ color: "var(--color-accent)" }}>
+            ← Users
+          </Link>
+          <h1 className="text-xl font-semibold mt-2" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+            System settings
+          </h1>
+          <p className="text-sm mt-1" style={{ color: "var(--color-text-muted)" }}>
+            Saved values override the environment and reach every instance within a minute. Changes are audited.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(240,77,77,0.08)", border: "1px solid rgba(240,77,77,0.25)", color: "#f87171" }}>
+            {error}
+          </div>
+        )}
+
+        <div className="card">
+          {loading && settings.length === 0 ? (
+            <div className="p-5 space-y-3">
+              {[0, 1, 2].map((i) => <div key={i} className="skeleton h-12" />)}
+            </div>
+          ) : (
+            <ul>
+              {settings.map((s, i) => {
+                const draft = drafts[s.key];
+                return (
+                  <li key={s.key} className="px-5 py-4 flex items-center gap-4"
+                      style={{ borderTop: i === 0 ? "none" : "1px solid var(--color-border)" }}>
+                    <div className="mr-auto min-w-0">
+                      <div className="text-sm font-medium" style={{ color: "var(--color-text)" }}>{s.label}</div>
+                      <div className="text-xs mt-1 font-mono" style={{ color: "var(--color-text-dim)" }}>
+                        {s.key} · {sourceText(s)} · default {String(s.defaultValue)}
+                      </div>
+                    </div>
+
+                    {s.type === "boolean" ? (
+                      <select value={String(s.value)} disabled={busyKey !== null}
+                              onChange={(e) => save(s, e.target.value === "true")}
+                              className="input text-xs w-24">
+                        <option value="true">on</option>
+                        <option value="false">off</option>
+                      </select>
+                    ) : (
+                      <>
+                        <input type="number" step="any" value={draft ?? String(s.value)}
+                               onChange={(e) => setDrafts((d) => ({ ...d, [s.key]: e.target.value }))}
+                               className="input text-xs w-24" />
+                        <button onClick={() => save(s, Number(draft))}
+                                disabled={busyKey !== null || draft === undefined || draft.trim() === ""}
+                                className="text-xs px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                                style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+                          Save
+                        </button>
+                      </>
+                    )}
+
+                    {s.source === "database" && (
+                      <button onClick={() => save(s, null)} disabled={busyKey !== null}
+                              className="text-xs px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                              style={{ color: "var(--color-text-muted)", border: "1px solid var(--color-border)" }}>
+                        Reset
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
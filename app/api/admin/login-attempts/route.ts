@@ -0,0 +1,23 @@
+/**
+ * GET /api/admin/login-attempts?userId=&email=&suspicious=&limit=  (admin only)
+ * Recent login attempts, newest first. `suspicious=true` returns only
+ * successful logins that were flagged.
+ */
+
+import { withApi } from "@/lib/api";
+import { loginSecurity } from "@/lib/loginSecurity";
+import { parseQuery, v } from "@/lib/validation";
+
+const AttemptsQuery = {
+  userId    : v.optional(v.id()),
+  email     : v.optional(v.email()),
+  suspicious: v.optional(v.boolean(), false),
+  limit     : v.optional(v.int({ min: 1, max: 200 }), 50),
+};
+
+export const GET = withApi({ route: "/api/admin/login-attempts", role: "admin" }, async (req) => {
+  const query = parseQuery(req.nextUrl.searchParams, AttemptsQuery);
+
+  const attempts = await loginSecurity.listAttempts(query);
+  return { attempts };
+});
@@ -0,0 +1,32 @@
+/**
+ * GET   /api/admin/settings  (admin only)
+ * PATCH /api/admin/settings  (admin only)  Body: { key, value }
+ * List the system settings with their defaults and where each value comes
+ * from, or change one. `value: null` goes back to the environment default.
+ * Changes are audited as SETTINGS_CHANGED.
+ */
+
+import { withApi } from "@/lib/api";
+import { ValidationError } from "@/lib/errors";
+import { SETTING_KEYS, settingsStore } from "@/lib/settings";
+import { parseBody, v } from "@/lib/validation";
+
+const SettingBody = {
+  key  : v.enum(SETTING_KEYS),
+  value: v.any(),
+};
+
+export const GET = withApi({ route: "/api/admin/settings", role: "admin" }, async () => {
+  return { settings: await settingsStore.list() };
+});
+
+export const PATCH = withApi(
+  { route: "/api/admin/settings", role: "admin" },
+  async (req, { user, ip }) => {
+    const { key, value } = await parseBody(req, SettingBody);
+    // A missing value is a mistake, not a reset
+    if (value === undefined) throw new ValidationError("value is required; send null to reset.", { field: "value" });
+
+    return { setting: await settingsStore.set(key, value, user.userId, ip) };
+  }
+);
@@ -0,0 +1,27 @@
+/**
+ * PATCH /api/admin/users/[id]  (admin only)
+ * Body: { role: "viewer" | "analyst" | "admin" }
+ * Admins cannot change their own role, and the last admin cannot be demoted.
+ */
+
+import { withApi } from "@/lib/api";
+import { ConflictError } from "@/lib/errors";
+import { ROLES } from "@/lib/roles";
+import { userStore } from "@/lib/users";
+import { parseBody, parseParam, v } from "@/lib/validation";
+
+const RoleBody = {
+  role: v.enum(ROLES),
+};
+
+export const PATCH = withApi<{ id: string }>(
+  { route: "/api/admin/users/[id]", role: "admin" },
+  async (req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.id(), "id");
+    const { role } = await parseBody(req, RoleBody);
+
+    if (id === user.userId) throw new ConflictError("You cannot change your own role.");
+
+    return { user: await userStore.setRole(id, role, user.userId, ip) };
+  }
+);
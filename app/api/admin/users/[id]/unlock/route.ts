@@ -0,0 +1,20 @@
+/**
+ * POST /api/admin/users/[id]/unlock  (admin only)
+ * Clear a login lockout and the account's failed-login count.
+ */
+
+import { withApi } from "@/lib/api";
+import { loginSecurity } from "@/lib/loginSecurity";
+import { NotFoundError } from "@/lib/errors";
+import { parseParam, v } from "@/lib/validation";
+
+export const POST = withApi<{ id: string }>(
+  { route: "/api/admin/users/[id]/unlock", role: "admin" },
+  async (_req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.id(), "id");
+
+    const unlocked = await loginSecurity.unlock(id, user.userId, ip);
+    if (!unlocked) throw new NotFoundError("User not found.");
+    return { success: true };
+  }
+);
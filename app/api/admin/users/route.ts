@@ -0,0 +1,22 @@
+/**
+ * GET /api/admin/users?search=&role=&cursor=&limit=  (admin only)
+ * Accounts, newest first, with role, lockout state and active sessions.
+ * Pass `nextCursor` back as `cursor` for the next page.
+ */
+
+import { withApi } from "@/lib/api";
+import { ROLES } from "@/lib/roles";
+import { userStore } from "@/lib/users";
+import { parseQuery, v } from "@/lib/validation";
+
+const UsersQuery = {
+  search: v.optional(v.string({ max: 255 })),
+  role  : v.optional(v.enum(ROLES)),
+  cursor: v.optional(v.id()),
+  limit : v.optional(v.int({ min: 1, max: 200 }), 50),
+};
+
+export const GET = withApi({ route: "/api/admin/users", role: "admin" }, async (req) => {
+  const { cursor, ...query } = parseQuery(req.nextUrl.searchParams, UsersQuery);
+  return userStore.list({ ...query, before: cursor });
+});
@@ -0,0 +1,52 @@
+/**
+ * /api/alerts/[id]
+ *   PATCH  — update any rule field; changing ruleType requires new params
+ *   DELETE — remove the rule and its delivery log
+ */
+
+import { withApi } from "@/lib/api";
+import { alertStore } from "@/lib/alerts";
+import { auditLog } from "@/lib/auditLog";
+import { NotFoundError } from "@/lib/errors";
+import { currentOrg } from "@/lib/orgs";
+import { parseBody, parseParam, v } from "@/lib/validation";
+
+// Field contents are checked by alertStore.updateRule.
+const UpdateRuleBody = {
+  name    : v.any(),
+  ruleType: v.any(),
+  params  : v.any(),
+  channel : v.any(),
+  target  : v.any(),
+  enabled : v.any(),
+};
+
+export const PATCH = withApi<{ id: string }>(
+  { route: "/api/alerts/[id]", role: "analyst" },
+  async (req, { user, params, ip }) => {
+    const id   = parseParam(params.id, v.id(), "id");
+    const body = await parseBody(req, UpdateRuleBody);
+
+    const org  = await currentOrg(user);
+    const rule = await alertStore.updateRule(org.orgId, id, body);
+    if (!rule) throw new NotFoundError("Alert rule not found.");
+    // Field names only: targets and params can hold webhook URLs
+    auditLog.configChanged("ALERT_RULE_CHANGED", user.userId, `alert_rule:${id}`, "updated", ip, {
+      fields: Object.keys(body).filter((k) => body[k as keyof typeof body] !== undefined),
+    });
+    return { rule };
+  }
+);
+
+export const DELETE = withApi<{ id: string }>(
+  { route: "/api/alerts/[id]", role: "analyst" },
+  async (_req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.id(), "id");
+
+    const org = await currentOrg(user);
+    const deleted = await alertStore.deleteRule(org.orgId, id);
+    if (!deleted) throw new NotFoundError("Alert rule not found.");
+    auditLog.configChanged("ALERT_RULE_CHANGED", user.userId, `alert_rule:${id}`, "deleted", ip);
+    return { success: true };
+  }
+);
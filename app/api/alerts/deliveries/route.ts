@@ -0,0 +1,22 @@
+/**
+ * GET /api/alerts/deliveries?ruleId=&limit=
+ * Delivery log for the current organization's alert rules, newest first.
+ */
+
+import { withApi } from "@/lib/api";
+import { alertStore } from "@/lib/alerts";
+import { currentOrg } from "@/lib/orgs";
+import { parseQuery, v } from "@/lib/validation";
+
+const DeliveriesQuery = {
+  limit : v.optional(v.int({ min: 1, max: 200 }), 50),
+  ruleId: v.optional(v.id()),
+};
+
+export const GET = withApi({ route: "/api/alerts/deliveries" }, async (req, { user }) => {
+  const { limit, ruleId } = parseQuery(req.nextUrl.searchParams, DeliveriesQuery);
+
+  const org = await currentOrg(user);
+  const deliveries = await alertStore.listDeliveries(org.orgId, { limit, ruleId });
+  return { deliveries };
+});
@@ -0,0 +1,39 @@
+/**
+ * /api/alerts
+ *   GET  — list the current organization's alert rules
+ *   POST — create a rule { name, ruleType, params, channel, target, enabled? }
+ *
+ * Webhook rules get a generated signing secret, returned with the rule.
+ */
+
+import { withApi, reply } from "@/lib/api";
+import { alertStore } from "@/lib/alerts";
+import { auditLog } from "@/lib/auditLog";
+import { currentOrg } from "@/lib/orgs";
+import { parseBody, v } from "@/lib/validation";
+
+// Field contents are checked by alertStore, which knows each rule type's params.
+const CreateRuleBody = {
+  name    : v.any(),
+  ruleType: v.any(),
+  params  : v.any(),
+  channel : v.any(),
+  target  : v.any(),
+  enabled : v.any(),
+};
+
+export const GET = withApi({ route: "/api/alerts" }, async (_req, { user }) => {
+  const org = await currentOrg(user);
+  const rules = await alertStore.listRules(org.orgId);
+  return { rules };
+});
+
+export const POST = withApi({ route: "/api/alerts", role: "analyst" }, async (req, { user, ip }) => {
+  const body = await parseBody(req, CreateRuleBody);
+  const org = await currentOrg(user);
+  const rule = await alertStore.createRule(org.orgId, user.userId, body);
+  auditLog.configChanged("ALERT_RULE_CHANGED", user.userId, `alert_rule:${rule.id}`, "created", ip, {
+    channel: rule.channel,
+  });
+  return reply({ rule }, 201);
+});
@@ -0,0 +1,38 @@
+/**
+ * GET /api/assessments/[id]/export
+ *
+ * PDF executive brief for one of the current organization's runs: score gauge, key
+ * facts, category breakdown, top events and the AI summary. Generated
+ * in-process by lib/brief.ts.
+ */
+
+import { NextResponse } from "next/server";
+import { withApi } from "@/lib/api";
+import { auditLog } from "@/lib/auditLog";
+import { loadBrief, renderBrief } from "@/lib/brief";
+import { EXPORT_CONTENT_TYPES, attachmentHeader } from "@/lib/export";
+import { NotFoundError } from "@/lib/errors";
+import { currentOrg } from "@/lib/orgs";
+import { parseParam, v } from "@/lib/validation";
+
+export const GET = withApi<{ id: string }>(
+  { route: "/api/assessments/[id]/export", scope: "assessments:read" },
+  async (_req, { user, params, ip }) => {
+    const assessmentId = parseParam(params.id, v.id(), "id");
+    const org   = await currentOrg(user);
+    const brief = await loadBrief(org.orgId, assessmentId);
+    if (!brief) throw new NotFoundError("Assessment not found.");
+
+    const pdf = renderBrief(brief);
+    auditLog.assessmentExported(user.userId, `assessment:${assessmentId}`, "pdf", ip);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type"       : EXPORT_CONTENT_TYPES.pdf,
+        "Content-Disposition": attachmentHeader(`assessment-${assessmentId}`, "pdf"),
+        "Content-Length"     : String(pdf.length),
+        "Cache-Control"      : "no-store",
+      },
+    });
+  }
+);
@@ -0,0 +1,145 @@
+/**
+ * GET /api/assessments/[id]
+ *
+ * Full detail for a single analysis run: complete AI summary, category
+ * breakdown and every event linked through assessment_events.
+ * The response mirrors POST /api/analyze so the dashboard can render a
+ * past run exactly like a fresh one.
+ */
+
+import { withApi } from "@/lib/api";
+import { auditLog } from "@/lib/auditLog";
+import db from "@/lib/db";
+import { NotFoundError } from "@/lib/errors";
+import { currentOrg } from "@/lib/orgs";
+import { parseParam, v } from "@/lib/validation";
+import { ScoreExplanation } from "@/lib/classifier";
+import { WeightingConfig } from "@/lib/weighting";
+import { RowDataPacket } from "mysql2";
+
+interface AssessmentDetailRow extends RowDataPacket {
+  id                : number;
+  overall_score     : string;
+  weighted_score    : string | null;
+  weighting_config  : WeightingConfig | null;
+  impact_level      : "LOW" | "MEDIUM" | "HIGH";
+  dominant_category : string;
+  category_breakdown: Record<string, number>;
+  article_count     : number;
+  ai_summary        : string | null;
+  taxonomy_version  : number | null;
+  created_at        : string;
+}
+
+interface EventRow extends RowDataPacket {
+  id             : number;
+  title          : string;
+  description    : string | null;
+  source_name    : string | null;
+  url            : string | null;
+  published_at   : string | null;
+  risk_category  : string;
+  article_score  : string;
+  keyword_matches: Record<string, string[]> | null;
+  explanation    : ScoreExplanation | null;   // null for runs before explanations were recorded
+  recency_weight    : string | null;
+  credibility_weight: string | null;
+  source_count   : number;
+  cluster_sources: Array<{ name: string; url: string }> | null;
+  run_count      : number;
+  first_seen_at  : string;
+  last_seen_at   : string;
+}
+
+export const GET = withApi<{ id: string }>(
+  { route: "/api/assessments/[id]", scope: "assessments:read" },
+  async (_req, { user, params, ip }) => {
+    const assessmentId = parseParam(params.id, v.id(), "id");
+    const org = await currentOrg(user);
+
+    // Ownership is part of the lookup — another organization's run is simply "not found".
+    const [rows] = await db.query<AssessmentDetailRow[]>(
+      `SELECT
+         id,
+         overall_score,
+         weighted_score,
+         weighting_config,
+         impact_level,
+         dominant_category,
+         category_breakdown,
+         article_count,
+         ai_summary,
+         taxonomy_version,
+         DATE_FORMAT(created_at, '%Y-%m-%dT%H:%i:%sZ') AS created_at
+       FROM impact_assessments
+       WHERE id = ? AND org_id = ?`,
+      [assessmentId, org.orgId]
+    );
+
+    if (rows.length === 0) throw new NotFoundError("Assessment not found.");
+
+    const [events] = await db.query<EventRow[]>(
+      `SELECT
+         e.id,
+         e.title,
+         e.description,
+         e.source_name,
+         e.url,
+         DATE_FORMAT(e.published_at, '%Y-%m-%dT%H:%i:%sZ') AS published_at,
+         ae.risk_category,
+         ae.article_score,
+         ae.explanation,
+         ae.recency_weight,
+         ae.credibility_weight,
+         e.keyword_matches,
+         e.source_count,
+         e.cluster_sources,
+         e.run_count,
+         DATE_FORMAT(e.first_seen_at, '%Y-%m-%dT%H:%i:%sZ') AS first_seen_at,
+         DATE_FORMAT(e.last_seen_at,  '%Y-%m-%dT%H:%i:%sZ') AS last_seen_at
+       FROM assessment_events ae
+       JOIN events e ON e.id = ae.event_id
+       WHERE ae.assessment_id = ?
+       ORDER BY ae.article_score DESC, e.id ASC`,
+      [assessmentId]
+    );
+
+    const a = rows[0];
+    auditLog.assessmentViewed(user.userId, assessmentId, ip);
+
+    return {
+      assessmentId     : a.id,
+      overallScore     : Number(a.overall_score),
+      weightedScore    : a.weighted_score === null ? null : Number(a.weighted_score),
+      weightingConfig  : a.weighting_config,
+      impactLevel      : a.impact_level,
+      dominantCategory : a.dominant_category,
+      categoryBreakdown: a.category_breakdown,
+      articleCount     : a.article_count,
+      aiSummary        : a.ai_summary ?? "",
+      taxonomyVersion  : a.taxonomy_version,
+      createdAt        : a.created_at,
+      articles: events.map((e) => ({
+        id            : e.id,
+        title         : e.title,
+        description   : e.description ?? "",
+        source        : e.source_name ?? "Unknown",
+        url           : e.url ?? "",
+        publishedAt   : e.published_at ?? "",
+        riskCategory  : e.risk_category,
+        articleScore  : Number(e.article_score),
+        keywordMatches: e.keyword_matches ?? {},
+        explanation   : e.explanation,
+        weighting     : e.recency_weight === null ? undefined : {
+          recency    : Number(e.recency_weight),
+          credibility: Number(e.credibility_weight),
+        },
+        sourceCount   : e.source_count,
+        sources       : e.cluster_sources ?? [],
+        runCount      : e.run_count,
+        firstSeenAt   : e.first_seen_at,
+        lastSeenAt    : e.last_seen_at,
+      })),
+    };
+  }
+);
@@ -0,0 +1,32 @@
+/**
+ * GET /api/assessments/compare?a=<id>&b=<id>
+ *
+ * Diff two of the current organization's runs, A as the baseline and B as the newer
+ * state: score and level deltas, per-category share deltas, events new
+ * in B, events dropped since A, and events whose score or category changed.
+ */
+
+import { withApi } from "@/lib/api";
+import { auditLog } from "@/lib/auditLog";
+import { compareAssessments } from "@/lib/compare";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { currentOrg } from "@/lib/orgs";
+import { parseQuery, v } from "@/lib/validation";
+
+const CompareQuery = {
+  a: v.id(),
+  b: v.id(),
+};
+
+export const GET = withApi({ route: "/api/assessments/compare", scope: "assessments:read" }, async (req, { user, ip }) => {
+  const { a, b } = parseQuery(req.nextUrl.searchParams, CompareQuery);
+  if (a === b) throw new ValidationError("a and b must be different assessments.", { field: "b" });
+
+  const org = await currentOrg(user);
+  const comparison = await compareAssessments(org.orgId, a, b);
+  if (!comparison) throw new NotFoundError("Assessment not found.");
+
+  auditLog.assessmentViewed(user.userId, a, ip, "compare");
+  auditLog.assessmentViewed(user.userId, b, ip, "compare");
+  return comparison;
+});
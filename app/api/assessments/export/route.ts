@@ -0,0 +1,43 @@
+/**
+ * GET /api/assessments/export?format=csv|jsonl
+ *
+ * Streams the current organization's assessment history as CSV or JSON Lines. Accepts
+ * the same filter and sort parameters as /api/assessments/advanced
+ * (minScore, maxScore, impactLevel, dominantCategory, search, sortBy,
+ * sortOrder); there is no page limit.
+ */
+
+import { NextResponse } from "next/server";
+import { withApi } from "@/lib/api";
+import { auditLog } from "@/lib/auditLog";
+import { currentOrg } from "@/lib/orgs";
+import { parseAssessmentFilters } from "@/lib/queryBuilder";
+import { parseQuery, v } from "@/lib/validation";
+import {
+  EXPORT_CONTENT_TYPES, HISTORY_EXPORT_FORMATS,
+  attachmentHeader, streamHistoryExport,
+} from "@/lib/export";
+
+const ExportQuery = {
+  format: v.optional(v.enum(HISTORY_EXPORT_FORMATS), "csv"),
+};
+
+export const GET = withApi({ route: "/api/assessments/export", scope: "assessments:read" }, async (req, { user, ip }) => {
+  const { searchParams } = req.nextUrl;
+  const { format } = parseQuery(searchParams, ExportQuery);
+  const org = await currentOrg(user);
+
+  const stream = streamHistoryExport(
+    { orgId: org.orgId, ...parseAssessmentFilters(searchParams) },
+    format
+  );
+  auditLog.assessmentExported(user.userId, "assessments", format, ip);
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type"       : EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": attachmentHeader("assessments", format),
+      "Cache-Control"      : "no-store",
+    },
+  });
+});
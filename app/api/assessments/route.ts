@@ -1,47 +1,51 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getAuthUser } from "@/lib/auth";
+import { withApi } from "@/lib/api";
 import db from "@/lib/db";
+import { currentOrg } from "@/lib/orgs";
+import { parseQuery, v } from "@/lib/validation";
 import { RowDataPacket } from "mysql2";
 
 interface AssessmentRow extends RowDataPacket {
   id                : number;
   overall_score     : number;
+  weighted_score    : number | null;
   impact_level      : string;
   dominant_category : string;
   category_breakdown: string;
   article_count     : number;
   ai_summary_preview: string;
+  taxonomy_version  : number | null;
+  triggered_by_email: string | null;
   created_at        : string;
 }
 
-export async function GET(req: NextRequest) {
-  const user = await getAuthUser();
-  if (!user) return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+const HistoryQuery = {
+  limit: v.optional(v.int({ min: 1, max: 50 }), 10),
+};
 
-  const { searchParams } = new URL(req.url);
-  const limit = Math.min(parseInt(searchParams.get("limit") ?? "10", 10), 50);
+export const GET = withApi({ route: "/api/assessments", scope: "assessments:read" }, async (req, { user }) => {
+  const { limit } = parseQuery(req.nextUrl.searchParams, HistoryQuery);
+  const org = await currentOrg(user);
 
-  try {
-    const [rows] = await db.query<AssessmentRow[]>(
-      `SELECT
-         id,
-         overall_score,
-         impact_level,
-         dominant_category,
-         category_breakdown,
-         article_count,
-         LEFT(ai_summary, 250)  AS ai_summary_preview,
-         DATE_FORMAT(created_at, '%Y-%m-%dT%H:%i:%sZ') AS created_at
-       FROM impact_assessments
-       WHERE triggered_by = ?
-       ORDER BY created_at DESC
-       LIMIT ?`,
-      [user.userId, limit]
-    );
+  const [rows] = await db.query<AssessmentRow[]>(
+    `SELECT
+       ia.id,
+       ia.overall_score,
+       ia.weighted_score,
+       ia.impact_level,
+       ia.dominant_category,
+       ia.category_breakdown,
+       ia.article_count,
+       LEFT(ia.ai_summary, 250)  AS ai_summary_preview,
+       ia.taxonomy_version,
+       u.email                   AS triggered_by_email,
+       DATE_FORMAT(ia.created_at, '%Y-%m-%dT%H:%i:%sZ') AS created_at
+     FROM impact_assessments ia
+     LEFT JOIN users u ON u.id = ia.triggered_by
+     WHERE ia.org_id = ?
+     ORDER BY ia.created_at DESC
+     LIMIT ?`,
+    [org.orgId, limit]
+  );
 
-    return NextResponse.json({ assessments: rows });
-  } catch (err) {
-    console.error("[GET /api/assessments]", err);
-    return NextResponse.json({ error: "Internal server error." }, { status: 500 });
-  }
-}
+  return { assessments: rows };
+});
@@ -0,0 +1,31 @@
+/**
+ * GET /api/assessments/timeseries?bucket=hour|day|week&from=&to=
+ *
+ * The current organization's runs aggregated per UTC bucket: average, max and min
+ * overall score, average weighted score, impact level counts and average
+ * share per category. `from` / `to` are ISO-8601; `to` defaults to now and
+ * `from` to 48 hours, 30 days or 12 weeks earlier depending on the bucket.
+ */
+
+import { withApi } from "@/lib/api";
+import { auditLog } from "@/lib/auditLog";
+import { currentOrg } from "@/lib/orgs";
+import { BUCKETS, getTimeseries, resolveRange } from "@/lib/timeseries";
+import { parseQuery, v } from "@/lib/validation";
+
+const TimeseriesQuery = {
+  bucket: v.optional(v.enum(BUCKETS), "day"),
+  from  : v.optional(v.date()),
+  to    : v.optional(v.date()),
+};
+
+export const GET = withApi({ route: "/api/assessments/timeseries", scope: "assessments:read" }, async (req, { user, ip }) => {
+  const query = parseQuery(req.nextUrl.searchParams, TimeseriesQuery);
+  const { bucket, from, to } = resolveRange(query.bucket, query.from, query.to);
+
+  const org = await currentOrg(user);
+  const series = await getTimeseries(org.orgId, bucket, from, to);
+
+  auditLog.assessmentsViewed(user.userId, "timeseries", { bucket, from: from.toISOString(), to: to.toISOString() }, ip);
+  return series;
+});
@@ -0,0 +1,33 @@
+/**
+ * GET /api/audit?userId=&action=&resource=&from=&to=&cursor=&limit=  (admin only)
+ *
+ * Audit events from the audit_events table, newest first. `resource` is
+ * an exact value such as `assessment:42`, or a prefix ending in `*`
+ * (`assessment:*`). `from` (inclusive) and `to` (exclusive) are ISO-8601.
+ * Pass `nextCursor` back as `cursor` for the next page.
+ */
+
+import { withApi } from "@/lib/api";
+import { AUDIT_ACTIONS } from "@/lib/auditLog";
+import { auditStore } from "@/lib/auditStore";
+import { ValidationError } from "@/lib/errors";
+import { parseQuery, v } from "@/lib/validation";
+
+const AuditQuery = {
+  userId  : v.optional(v.id()),
+  action  : v.optional(v.enum(AUDIT_ACTIONS)),
+  resource: v.optional(v.string({ max: 255 })),
+  from    : v.optional(v.date()),
+  to      : v.optional(v.date()),
+  cursor  : v.optional(v.id()),
+  limit   : v.optional(v.int({ min: 1, max: 500 }), 100),
+};
+
+export const GET = withApi({ route: "/api/audit", role: "admin" }, async (req) => {
+  const { cursor, ...query } = parseQuery(req.nextUrl.searchParams, AuditQuery);
+  if (query.from && query.to && query.from >= query.to) {
+    throw new ValidationError("from must be before to.", { field: "to" });
+  }
+
+  return auditStore.query({ ...query, before: cursor });
+});
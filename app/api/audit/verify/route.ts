@@ -0,0 +1,20 @@
+/**
+ * GET /api/audit/verify?after=  (admin only)
+ *
+ * Recompute the audit_events hash chain and report the first row that does
+ * not match. `after` starts from a row already verified instead of the
+ * beginning.
+ */
+
+import { withApi } from "@/lib/api";
+import { auditStore } from "@/lib/auditStore";
+import { parseQuery, v } from "@/lib/validation";
+
+const VerifyQuery = {
+  after: v.optional(v.id(), 0),
+};
+
+export const GET = withApi({ route: "/api/audit/verify", role: "admin" }, async (req) => {
+  const { after } = parseQuery(req.nextUrl.searchParams, VerifyQuery);
+  return auditStore.verify(after);
+});
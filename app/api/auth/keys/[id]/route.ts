@@ -0,0 +1,21 @@
+/**
+ * DELETE /api/auth/keys/[id]
+ * Revoke one of the caller's API keys. Other instances may accept it for
+ * up to a minute more (cached lookups).
+ */
+
+import { withApi } from "@/lib/api";
+import { apiKeyStore } from "@/lib/apiKeys";
+import { NotFoundError } from "@/lib/errors";
+import { parseParam, v } from "@/lib/validation";
+
+export const DELETE = withApi<{ id: string }>(
+  { route: "/api/auth/keys/[id]" },
+  async (_req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.id(), "id");
+
+    const revoked = await apiKeyStore.revoke(user.userId, id, ip);
+    if (!revoked) throw new NotFoundError("API key not found.");
+    return { success: true };
+  }
+);
@@ -0,0 +1,32 @@
+/**
+ * /api/auth/keys
+ *   GET  — the caller's API keys (never the secrets), newest first
+ *   POST — create a key in the current organization
+ *          { name, scopes, expiresInDays?, rateLimit? }; the response holds
+ *          the full key, which is not shown again
+ *
+ * Browser sessions only: an API key cannot list or mint keys.
+ */
+
+import { withApi, reply } from "@/lib/api";
+import { MAX_API_KEY_RATE_LIMIT, apiKeyStore } from "@/lib/apiKeys";
+import { currentOrg } from "@/lib/orgs";
+import { parseBody, v } from "@/lib/validation";
+
+const CreateKeyBody = {
+  name         : v.string({ max: 100 }),
+  scopes       : v.array({ max: 10 }),
+  expiresInDays: v.optional(v.int({ min: 1, max: 365 })),
+  rateLimit    : v.optional(v.int({ min: 1, max: MAX_API_KEY_RATE_LIMIT })),
+};
+
+export const GET = withApi({ route: "/api/auth/keys" }, async (_req, { user }) => {
+  return { keys: await apiKeyStore.list(user.userId) };
+});
+
+export const POST = withApi({ route: "/api/auth/keys" }, async (req, { user, ip }) => {
+  const body = await parseBody(req, CreateKeyBody);
+  const org = await currentOrg(user);
+  const { key, info } = await apiKeyStore.create(user, org.orgId, body, ip);
+  return reply({ key, apiKey: info }, 201);
+});
@@ -1,61 +1,76 @@
-import { NextRequest, NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import db from "@/lib/db";
-import { signToken, COOKIE_NAME, COOKIE_OPTIONS } from "@/lib/auth";
+import { withApi } from "@/lib/api";
+import { endSession, startSession } from "@/lib/auth";
+import { auditLog } from "@/lib/auditLog";
+import { AuthenticationError } from "@/lib/errors";
+import { LoginAccount, loginSecurity } from "@/lib/loginSecurity";
+import { Role, isBootstrapAdmin } from "@/lib/roles";
+import { userStore } from "@/lib/users";
+import { parseBody, v } from "@/lib/validation";
 import { RowDataPacket } from "mysql2";
 
-interface UserRow extends RowDataPacket {
-  id           : number;
-  email        : string;
-  password_hash: string;
+interface UserRow extends RowDataPacket, LoginAccount {
+  password_hash    : string;
+  role             : Role;
+  email_verified_at: Date | null;
 }
 
-export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json().catch(() => null);
-    if (!body) return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+const LoginBody = {
+  email   : v.email(),
+  password: v.string({ max: 1024, trim: false }),
+};
 
-    const { email, password } = body as Record<string, unknown>;
+// Identical error message — prevents user enumeration
+const INVALID_MSG = "Invalid email or password.";
 
-    if (typeof email !== "string" || typeof password !== "string") {
-      return NextResponse.json({ error: "Email and password are required." }, { status: 400 });
-    }
+export const POST = withApi(
+  { route: "/api/auth/login", auth: "none", limiter: "auth" },
+  async (req, { ip, userAgent, rateLimit }) => {
+    const { email, password } = await parseBody(req, LoginBody);
+    await rateLimit("account", email);
+    const client = { ip, userAgent };
 
     const [rows] = await db.query<UserRow[]>(
-      "SELECT id, email, password_hash FROM users WHERE email = ?",
-      [email.toLowerCase().trim()]
+      `SELECT id, email, password_hash, role, email_verified_at, failed_login_count, locked_until
+         FROM users WHERE email = ?`,
+      [email]
     );
 
-    // Identical error message — prevents user enumeration
-    const INVALID_MSG = "Invalid email or password.";
-
     if (rows.length === 0) {
       // Still run bcrypt compare to prevent timing attacks
       await bcrypt.compare(password, "$2b$12$invalidhashfortimingnormalization");
-      return NextResponse.json({ error: INVALID_MSG }, { status: 401 });
+      await loginSecurity.unknownEmail(email, client);
+      throw new AuthenticationError(INVALID_MSG);
     }
 
-    const user      = rows[0];
+    const user = rows[0];
+    await loginSecurity.assertNotLocked(user, client);
+
     const passwordOk = await bcrypt.compare(password, user.password_hash);
 
     if (!passwordOk) {
-      return NextResponse.json({ error: INVALID_MSG }, { status: 401 });
+      await loginSecurity.wrongPassword(user, client);
+      throw new AuthenticationError(INVALID_MSG);
     }
 
-    const token = signToken({ userId: user.id, email: user.email });
+    await loginSecurity.succeeded(user, client);
+
+    if (user.role !== "admin" && user.email_verified_at && isBootstrapAdmin(user.email)) {
+      user.role = (await userStore.setRole(user.id, "admin", null, ip)).role;
+    }
+    await startSession(user, client);
 
-    const response = NextResponse.json({ user: { id: user.id, email: user.email } });
-    response.cookies.set(COOKIE_NAME, token, COOKIE_OPTIONS);
-    return response;
-  } catch (err) {
-    console.error("[POST /api/auth/login]", err);
-    return NextResponse.json({ error: "Internal server error." }, { status: 500 });
+    return { user: { id: user.id, email: user.email, role: user.role, emailVerified: user.email_verified_at !== null } };
   }
-}
+);
 
-// Logout — wipe session cookie
-export async function DELETE() {
-  const response = NextResponse.json({ success: true });
-  response.cookies.set(COOKIE_NAME, "", { maxAge: 0, path: "/" });
-  return response;
-}
+// Logout — revoke this session and wipe both cookies
+export const DELETE = withApi(
+  { route: "/api/auth/login", auth: "none", limiter: null },
+  async (_req, { ip }) => {
+    const userId = await endSession(ip);
+    if (userId) auditLog.logout(userId, ip);
+    return { success: true };
+  }
+);
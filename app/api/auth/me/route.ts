@@ -1,8 +1,7 @@
-import { NextResponse } from "next/server";
-import { getAuthUser } from "@/lib/auth";
+import { withApi } from "@/lib/api";
+import { accountStore } from "@/lib/account";
 
-export async function GET() {
-  const user = await getAuthUser();
-  if (!user) return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
-  return NextResponse.json({ user: { id: user.userId, email: user.email } });
-}
+export const GET = withApi({ route: "/api/auth/me" }, async (_req, { user }) => {
+  const emailVerified = await accountStore.isVerified(user.userId);
+  return { user: { id: user.userId, email: user.email, role: user.role, emailVerified } };
+});
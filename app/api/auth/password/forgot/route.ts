@@ -0,0 +1,24 @@
+/**
+ * POST /api/auth/password/forgot
+ * Email a password reset link { email }. The response is the same
+ * whether or not the address has an account.
+ */
+
+import { appUrl, withApi } from "@/lib/api";
+import { accountStore } from "@/lib/account";
+import { parseBody, v } from "@/lib/validation";
+
+const ForgotBody = {
+  email: v.email(),
+};
+
+export const POST = withApi(
+  { route: "/api/auth/password/forgot", auth: "none", limiter: "auth" },
+  async (req, { ip, rateLimit }) => {
+    const { email } = await parseBody(req, ForgotBody);
+    await rateLimit("account", email);
+
+    await accountStore.requestPasswordReset(email, appUrl(), ip);
+    return { success: true };
+  }
+);
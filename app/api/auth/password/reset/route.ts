@@ -0,0 +1,23 @@
+/**
+ * POST /api/auth/password/reset
+ * Set a new password with the token from a reset link { token, password }.
+ * Signs the account out everywhere; the user then signs in again.
+ */
+
+import { withApi } from "@/lib/api";
+import { accountStore, passwordField } from "@/lib/account";
+import { parseBody, v } from "@/lib/validation";
+
+const ResetBody = {
+  token   : v.string({ max: 128 }),
+  password: passwordField(),
+};
+
+export const POST = withApi(
+  { route: "/api/auth/password/reset", auth: "none", limiter: "auth" },
+  async (req, { ip }) => {
+    const { token, password } = await parseBody(req, ResetBody);
+    await accountStore.resetPassword(token, password, ip);
+    return { success: true };
+  }
+);
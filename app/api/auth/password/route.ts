@@ -0,0 +1,26 @@
+/**
+ * POST /api/auth/password
+ * Change the caller's password { currentPassword, newPassword }. Every
+ * other session of the account is signed out; this one stays.
+ */
+
+import { withApi } from "@/lib/api";
+import { accountStore, passwordField } from "@/lib/account";
+import { parseBody, v } from "@/lib/validation";
+
+const ChangePasswordBody = {
+  currentPassword: v.string({ max: 1024, trim: false }),
+  newPassword    : passwordField(),
+};
+
+export const POST = withApi(
+  { route: "/api/auth/password" },
+  async (req, { user, ip, rateLimit }) => {
+    const { currentPassword, newPassword } = await parseBody(req, ChangePasswordBody);
+    // Same budget as login attempts, so this cannot be used to guess the password
+    await rateLimit("account", user.email);
+
+    const revokedSessions = await accountStore.changePassword(user, currentPassword, newPassword, ip);
+    return { success: true, revokedSessions };
+  }
+);
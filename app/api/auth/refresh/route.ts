@@ -0,0 +1,26 @@
+/**
+ * POST /api/auth/refresh
+ * Exchange the eip_refresh cookie for a new access token and a rotated
+ * refresh token. 401 (with both cookies cleared) when the session has
+ * ended, expired or been revoked.
+ *
+ * Limited per session rather than per IP: every signed-in tab refreshes
+ * on a timer, and many users can share one address.
+ */
+
+import { withApi } from "@/lib/api";
+import { refreshCookieSessionId, refreshSession } from "@/lib/auth";
+import { AuthenticationError } from "@/lib/errors";
+
+export const POST = withApi(
+  { route: "/api/auth/refresh", auth: "none", limiter: null },
+  async (_req, { ip, userAgent, rateLimit }) => {
+    const sessionId = await refreshCookieSessionId();
+    if (sessionId) await rateLimit("refresh", `session:${sessionId}`);
+
+    const user = await refreshSession({ ip, userAgent });
+    if (!user) throw new AuthenticationError("Session expired. Please sign in again.");
+
+    return { user: { id: user.userId, email: user.email } };
+  }
+);
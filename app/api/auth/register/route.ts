@@ -1,24 +1,25 @@
-import { NextRequest, NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import db from "@/lib/db";
-import { signToken, COOKIE_NAME, COOKIE_OPTIONS } from "@/lib/auth";
+import { appUrl, withApi, reply } from "@/lib/api";
+import { startSession } from "@/lib/auth";
+import { auditLog } from "@/lib/auditLog";
+import { ConflictError } from "@/lib/errors";
+import { accountStore, passwordField } from "@/lib/account";
+import { DEFAULT_ROLE } from "@/lib/roles";
+import { logger } from "@/lib/logger";
+import { parseBody, v } from "@/lib/validation";
 import { RowDataPacket } from "mysql2";
 
-export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json().catch(() => null);
-    if (!body) return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+const RegisterBody = {
+  email   : v.email(),
+  password: passwordField(),
+};
 
-    const { email, password } = body as Record<string, unknown>;
-
-    if (typeof email !== "string" || !email.includes("@") || email.length > 255) {
-      return NextResponse.json({ error: "Provide a valid email address." }, { status: 400 });
-    }
-    if (typeof password !== "string" || password.length < 8) {
-      return NextResponse.json({ error: "Password must be at least 8 characters." }, { status: 400 });
-    }
-
-    const normalEmail = email.toLowerCase().trim();
+export const POST = withApi(
+  { route: "/api/auth/register", auth: "none", limiter: "auth" },
+  async (req, { ip, userAgent, rateLimit }) => {
+    const { email: normalEmail, password } = await parseBody(req, RegisterBody);
+    await rateLimit("account", normalEmail);
 
     // Check duplicate
     const [existing] = await db.query<RowDataPacket[]>(
@@ -26,27 +27,29 @@ export async function POST(req: NextRequest) {
       [normalEmail]
     );
     if ((existing as RowDataPacket[]).length > 0) {
-      return NextResponse.json({ error: "An account with this email already exists." }, { status: 409 });
+      throw new ConflictError("An account with this email already exists.");
     }
 
     const passwordHash = await bcrypt.hash(password, 12);
+    // ADMIN_EMAILS accounts are promoted once the address is verified
+    const role = DEFAULT_ROLE;
 
     const [result]: any = await db.query(
-      "INSERT INTO users (email, password_hash) VALUES (?, ?)",
-      [normalEmail, passwordHash]
+      "INSERT INTO users (email, password_hash, role) VALUES (?, ?, ?)",
+      [normalEmail, passwordHash, role]
     );
 
     const userId = result.insertId as number;
-    const token  = signToken({ userId, email: normalEmail });
+    await startSession({ id: userId, email: normalEmail, role }, { ip, userAgent });
+    auditLog.register(userId, normalEmail, ip);
+
+    // The account works without it; the dashboard offers to resend
+    try {
+      await accountStore.sendVerification(userId, appUrl());
+    } catch (err) {
+      logger.error("Verification email failed", { userId, error: err instanceof Error ? err.message : String(err) });
+    }
 
-    const response = NextResponse.json(
-      { user: { id: userId, email: normalEmail } },
-      { status: 201 }
-    );
-    response.cookies.set(COOKIE_NAME, token, COOKIE_OPTIONS);
-    return response;
-  } catch (err) {
-    console.error("[POST /api/auth/register]", err);
-    return NextResponse.json({ error: "Internal server error." }, { status: 500 });
+    return reply({ user: { id: userId, email: normalEmail, role, emailVerified: false } }, 201);
   }
-}
+);
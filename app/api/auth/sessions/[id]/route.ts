@@ -0,0 +1,24 @@
+/**
+ * DELETE /api/auth/sessions/[id]
+ * Revoke one of the caller's sessions. Revoking the current session also
+ * clears this browser's cookies.
+ */
+
+import { withApi } from "@/lib/api";
+import { clearAuthCookies } from "@/lib/auth";
+import { sessionStore } from "@/lib/sessions";
+import { NotFoundError } from "@/lib/errors";
+import { parseParam, v } from "@/lib/validation";
+
+export const DELETE = withApi<{ id: string }>(
+  { route: "/api/auth/sessions/[id]" },
+  async (_req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.string({ pattern: /^[0-9a-f-]{36}$/, hint: "must be a session id" }), "id");
+
+    const revoked = await sessionStore.revoke(user.userId, id, "revoked", ip);
+    if (!revoked) throw new NotFoundError("Session not found.");
+
+    if (id === user.jti) await clearAuthCookies();
+    return { success: true };
+  }
+);
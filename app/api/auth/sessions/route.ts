@@ -0,0 +1,23 @@
+/**
+ * /api/auth/sessions
+ *   GET    — the caller's active sessions (devices), most recent first;
+ *            `current` marks the one making the request
+ *   DELETE — sign out everywhere: revoke every session, this one included
+ */
+
+import { withApi } from "@/lib/api";
+import { clearAuthCookies } from "@/lib/auth";
+import { sessionStore } from "@/lib/sessions";
+
+export const GET = withApi({ route: "/api/auth/sessions" }, async (_req, { user }) => {
+  const sessions = await sessionStore.list(user.userId);
+  return {
+    sessions: sessions.map((s) => ({ ...s, current: s.id === user.jti })),
+  };
+});
+
+export const DELETE = withApi({ route: "/api/auth/sessions" }, async (_req, { user, ip }) => {
+  const revoked = await sessionStore.revokeAll(user.userId, "sign_out_everywhere", ip);
+  await clearAuthCookies();
+  return { revoked };
+});
@@ -0,0 +1,19 @@
+/**
+ * POST /api/auth/verify-email/resend
+ * Email the caller a new verification link; earlier links stop working.
+ */
+
+import { appUrl, withApi } from "@/lib/api";
+import { accountStore } from "@/lib/account";
+import { ConflictError } from "@/lib/errors";
+
+export const POST = withApi(
+  { route: "/api/auth/verify-email/resend" },
+  async (_req, { user, rateLimit }) => {
+    await rateLimit("account", user.email);
+
+    const sent = await accountStore.sendVerification(user.userId, appUrl());
+    if (!sent) throw new ConflictError("Your email address is already verified.");
+    return { sent };
+  }
+);
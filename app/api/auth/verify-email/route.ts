@@ -0,0 +1,23 @@
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address with the token from a verification link
+ * { token }. Works without a session, since the link may be opened in
+ * another browser.
+ */
+
+import { withApi } from "@/lib/api";
+import { accountStore } from "@/lib/account";
+import { parseBody, v } from "@/lib/validation";
+
+const VerifyBody = {
+  token: v.string({ max: 128 }),
+};
+
+export const POST = withApi(
+  { route: "/api/auth/verify-email", auth: "none", limiter: "auth" },
+  async (req, { ip }) => {
+    const { token } = await parseBody(req, VerifyBody);
+    const { email } = await accountStore.verifyEmail(token, ip);
+    return { email, emailVerified: true };
+  }
+);
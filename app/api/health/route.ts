@@ -4,13 +4,13 @@
  * Returns 200 if healthy, 503 if degraded/unhealthy.
  */
 
-import { NextResponse } from 'next/server';
+import { withApi, reply } from '@/lib/api';
 import { healthChecker } from '@/lib/health';
 
-export async function GET() {
+export const GET = withApi({ route: '/api/health', auth: 'none', limiter: null }, async () => {
   const health = await healthChecker.check();
 
   const status = health.status === 'healthy' ? 200 : 503;
 
-  return NextResponse.json(health, { status });
-}
+  return reply(health, status);
+});
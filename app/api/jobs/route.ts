@@ -0,0 +1,23 @@
+/**
+ * GET /api/jobs?scheduleId=&limit=
+ * Recent background jobs in the current organization: status, attempts,
+ * error, duration.
+ */
+
+import { withApi } from "@/lib/api";
+import { currentOrg } from "@/lib/orgs";
+import { scheduleStore } from "@/lib/schedules";
+import { parseQuery, v } from "@/lib/validation";
+
+const JobsQuery = {
+  limit     : v.optional(v.int({ min: 1, max: 100 }), 20),
+  scheduleId: v.optional(v.id()),
+};
+
+export const GET = withApi({ route: "/api/jobs" }, async (req, { user }) => {
+  const { limit, scheduleId } = parseQuery(req.nextUrl.searchParams, JobsQuery);
+
+  const org = await currentOrg(user);
+  const jobs = await scheduleStore.listJobs(org.orgId, { limit, scheduleId });
+  return { jobs };
+});
@@ -2,29 +2,19 @@
  * app/api/metrics/route.ts
  * Expose application metrics for monitoring/observability.
  * Can be scraped by Prometheus or queried by monitoring dashboards.
- *
- * NOTE: In production, protect this endpoint with authentication!
+ * Admin only; scrapers use an API key with the metrics:read scope.
  */
 
-import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
 import { metrics } from '@/lib/metrics';
 
-export async function GET() {
-  // TODO: In production, verify that the requester is authorized
-  // For now, this is disabled in production via environment check
-  if (process.env.NODE_ENV === 'production') {
-    return NextResponse.json(
-      { error: 'Metrics endpoint disabled in production without auth' },
-      { status: 403 }
-    );
-  }
-
+export const GET = withApi({ route: '/api/metrics', role: 'admin', scope: 'metrics:read', limiter: null }, async () => {
   const metricsData = metrics.export();
 
-  return NextResponse.json({
+  return {
     timestamp: new Date().toISOString(),
     metrics: metricsData,
     uptime: process.uptime(),
     memory: process.memoryUsage(),
-  });
-}
+  };
+});
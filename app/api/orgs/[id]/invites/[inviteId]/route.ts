@@ -0,0 +1,21 @@
+/**
+ * DELETE /api/orgs/[id]/invites/[inviteId]  (organization owners)
+ * Withdraw a pending invite; its link stops working.
+ */
+
+import { withApi } from "@/lib/api";
+import { NotFoundError } from "@/lib/errors";
+import { orgStore } from "@/lib/orgs";
+import { parseParam, v } from "@/lib/validation";
+
+export const DELETE = withApi<{ id: string; inviteId: string }>(
+  { route: "/api/orgs/[id]/invites/[inviteId]" },
+  async (_req, { user, params, ip }) => {
+    const id       = parseParam(params.id, v.id(), "id");
+    const inviteId = parseParam(params.inviteId, v.id(), "inviteId");
+
+    const revoked = await orgStore.revokeInvite(id, inviteId, user.userId, ip);
+    if (!revoked) throw new NotFoundError("Invite not found.");
+    return { success: true };
+  }
+);
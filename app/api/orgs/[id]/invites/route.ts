@@ -0,0 +1,35 @@
+/**
+ * /api/orgs/[id]/invites  (organization owners)
+ *   GET  — pending invites
+ *   POST — invite { email }; the invitee is emailed a link to /invite/<token>
+ *          (APP_URL, or this request's origin) valid for 7 days
+ */
+
+import { appUrl, withApi, reply } from "@/lib/api";
+import { orgStore } from "@/lib/orgs";
+import { parseBody, parseParam, v } from "@/lib/validation";
+
+const InviteBody = {
+  email: v.email(),
+};
+
+export const GET = withApi<{ id: string }>(
+  { route: "/api/orgs/[id]/invites" },
+  async (_req, { user, params }) => {
+    const id = parseParam(params.id, v.id(), "id");
+
+    await orgStore.requireMembership(id, user.userId, "owner");
+    return { invites: await orgStore.listInvites(id) };
+  }
+);
+
+export const POST = withApi<{ id: string }>(
+  { route: "/api/orgs/[id]/invites" },
+  async (req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.id(), "id");
+    const { email } = await parseBody(req, InviteBody);
+
+    const invite = await orgStore.invite(id, email, user.userId, appUrl(), ip);
+    return reply({ invite }, 201);
+  }
+);
@@ -0,0 +1,20 @@
+/**
+ * DELETE /api/orgs/[id]/members/[userId]
+ * Owners remove a member; any member removes themselves to leave.
+ * Personal organizations cannot be left and the last owner cannot go.
+ */
+
+import { withApi } from "@/lib/api";
+import { orgStore } from "@/lib/orgs";
+import { parseParam, v } from "@/lib/validation";
+
+export const DELETE = withApi<{ id: string; userId: string }>(
+  { route: "/api/orgs/[id]/members/[userId]" },
+  async (_req, { user, params, ip }) => {
+    const id       = parseParam(params.id, v.id(), "id");
+    const memberId = parseParam(params.userId, v.id(), "userId");
+
+    await orgStore.removeMember(id, memberId, user.userId, ip);
+    return { success: true };
+  }
+);
@@ -0,0 +1,18 @@
+/**
+ * GET /api/orgs/[id]/members
+ * Members of one of the caller's organizations, owners first.
+ */
+
+import { withApi } from "@/lib/api";
+import { orgStore } from "@/lib/orgs";
+import { parseParam, v } from "@/lib/validation";
+
+export const GET = withApi<{ id: string }>(
+  { route: "/api/orgs/[id]/members" },
+  async (_req, { user, params }) => {
+    const id = parseParam(params.id, v.id(), "id");
+
+    await orgStore.requireMembership(id, user.userId);
+    return { members: await orgStore.members(id) };
+  }
+);
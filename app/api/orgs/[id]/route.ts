@@ -0,0 +1,21 @@
+/**
+ * PATCH /api/orgs/[id]  { name }  (organization owners)
+ */
+
+import { withApi } from "@/lib/api";
+import { orgStore } from "@/lib/orgs";
+import { parseBody, parseParam, v } from "@/lib/validation";
+
+const RenameBody = {
+  name: v.string({ max: 120 }),
+};
+
+export const PATCH = withApi<{ id: string }>(
+  { route: "/api/orgs/[id]" },
+  async (req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.id(), "id");
+    const { name } = await parseBody(req, RenameBody);
+
+    return { org: await orgStore.rename(id, name, user.userId, ip) };
+  }
+);
@@ -0,0 +1,21 @@
+/**
+ * PUT /api/orgs/current  { orgId }
+ * Switch the organization that assessments, schedules and alert rules are
+ * read from and written to (the eip_org cookie).
+ */
+
+import { withApi } from "@/lib/api";
+import { orgStore, selectOrg } from "@/lib/orgs";
+import { parseBody, v } from "@/lib/validation";
+
+const SwitchBody = {
+  orgId: v.id(),
+};
+
+export const PUT = withApi({ route: "/api/orgs/current" }, async (req, { user }) => {
+  const { orgId } = await parseBody(req, SwitchBody);
+
+  const org = await orgStore.requireMembership(orgId, user.userId);
+  await selectOrg(org.orgId);
+  return { org };
+});
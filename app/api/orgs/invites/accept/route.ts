@@ -0,0 +1,24 @@
+/**
+ * POST /api/orgs/invites/accept  { token }
+ * Join the organization an invite link points at and make it current.
+ * The caller must be signed in with the invited email address.
+ */
+
+import { withApi } from "@/lib/api";
+import { orgStore, selectOrg } from "@/lib/orgs";
+import { parseBody, v } from "@/lib/validation";
+
+const AcceptBody = {
+  token: v.string({ max: 128, pattern: /^[A-Za-z0-9_-]+$/, hint: "must be an invite token" }),
+};
+
+export const POST = withApi(
+  { route: "/api/orgs/invites/accept", limiter: "auth" },
+  async (req, { user, ip }) => {
+    const { token } = await parseBody(req, AcceptBody);
+
+    const org = await orgStore.acceptInvite(token, user, ip);
+    await selectOrg(org.orgId);
+    return { org };
+  }
+);
@@ -0,0 +1,27 @@
+/**
+ * /api/orgs
+ *   GET  — the caller's organizations and which one is current
+ *   POST — create an organization { name }; the caller becomes its owner
+ */
+
+import { withApi, reply } from "@/lib/api";
+import { currentOrg, orgStore } from "@/lib/orgs";
+import { parseBody, v } from "@/lib/validation";
+
+const CreateOrgBody = {
+  name: v.string({ max: 120 }),
+};
+
+export const GET = withApi({ route: "/api/orgs" }, async (_req, { user }) => {
+  const [orgs, current] = await Promise.all([
+    orgStore.listForUser(user.userId),
+    currentOrg(user),
+  ]);
+  return { orgs, currentOrgId: current.orgId };
+});
+
+export const POST = withApi({ route: "/api/orgs" }, async (req, { user, ip }) => {
+  const { name } = await parseBody(req, CreateOrgBody);
+  const org = await orgStore.create(user.userId, name, ip);
+  return reply({ org }, 201);
+});
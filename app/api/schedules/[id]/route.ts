@@ -0,0 +1,48 @@
+/**
+ * /api/schedules/[id]
+ *   PATCH  — update name, cronExpression and/or enabled
+ *   DELETE — remove the schedule (its job history is kept)
+ */
+
+import { withApi } from "@/lib/api";
+import { currentOrg } from "@/lib/orgs";
+import { scheduleStore } from "@/lib/schedules";
+import { auditLog } from "@/lib/auditLog";
+import { NotFoundError } from "@/lib/errors";
+import { parseBody, parseParam, v } from "@/lib/validation";
+
+const UpdateScheduleBody = {
+  name          : v.optional(v.string({ max: 120 })),
+  cronExpression: v.optional(v.string({ max: 120 })),
+  enabled       : v.optional(v.boolean()),
+};
+
+export const PATCH = withApi<{ id: string }>(
+  { route: "/api/schedules/[id]", role: "analyst" },
+  async (req, { user, params, ip }) => {
+    const id   = parseParam(params.id, v.id(), "id");
+    const body = await parseBody(req, UpdateScheduleBody);
+
+    const org = await currentOrg(user);
+    const schedule = await scheduleStore.update(org.orgId, id, body);
+
+    if (!schedule) throw new NotFoundError("Schedule not found.");
+    auditLog.configChanged("SCHEDULE_CHANGED", user.userId, `schedule:${id}`, "updated", ip, {
+      fields: Object.keys(body).filter((k) => body[k as keyof typeof body] !== undefined),
+    });
+    return { schedule };
+  }
+);
+
+export const DELETE = withApi<{ id: string }>(
+  { route: "/api/schedules/[id]", role: "analyst" },
+  async (_req, { user, params, ip }) => {
+    const id = parseParam(params.id, v.id(), "id");
+
+    const org = await currentOrg(user);
+    const deleted = await scheduleStore.delete(org.orgId, id);
+    if (!deleted) throw new NotFoundError("Schedule not found.");
+    auditLog.configChanged("SCHEDULE_CHANGED", user.userId, `schedule:${id}`, "deleted", ip);
+    return { success: true };
+  }
+);
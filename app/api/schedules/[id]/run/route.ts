@@ -0,0 +1,27 @@
+/**
+ * POST /api/schedules/[id]/run
+ * Queue an immediate job for a schedule without touching its cron timing.
+ * The job is picked up on the scheduler's next tick. Counts against the
+ * caller's daily analysis quota, like POST /api/analyze.
+ */
+
+import { withApi, reply } from "@/lib/api";
+import { currentOrg } from "@/lib/orgs";
+import { scheduleStore } from "@/lib/schedules";
+import { scheduler } from "@/lib/scheduler";
+import { NotFoundError } from "@/lib/errors";
+import { parseParam, v } from "@/lib/validation";
+
+export const POST = withApi<{ id: string }>(
+  { route: "/api/schedules/[id]/run", role: "analyst", limiter: ["api", "analysis"] },
+  async (_req, { user, params }) => {
+    const id = parseParam(params.id, v.id(), "id");
+
+    const org = await currentOrg(user);
+    const schedule = await scheduleStore.get(org.orgId, id);
+    if (!schedule) throw new NotFoundError("Schedule not found.");
+
+    const jobId = await scheduler.enqueue(org.orgId, user.userId, schedule.id);
+    return reply({ jobId }, 202);
+  }
+);
@@ -0,0 +1,32 @@
+/**
+ * /api/schedules
+ *   GET  — list the current organization's analysis schedules
+ *   POST — create a schedule { name, cronExpression, enabled? }
+ */
+
+import { withApi, reply } from "@/lib/api";
+import { currentOrg } from "@/lib/orgs";
+import { scheduleStore } from "@/lib/schedules";
+import { auditLog } from "@/lib/auditLog";
+import { parseBody, v } from "@/lib/validation";
+
+const CreateScheduleBody = {
+  name          : v.string({ max: 120 }),
+  cronExpression: v.string({ max: 120 }),
+  enabled       : v.optional(v.boolean(), true),
+};
+
+export const GET = withApi({ route: "/api/schedules" }, async (_req, { user }) => {
+  const org = await currentOrg(user);
+  const schedules = await scheduleStore.list(org.orgId);
+  return { schedules };
+});
+
+export const POST = withApi({ route: "/api/schedules", role: "analyst" }, async (req, { user, ip }) => {
+  const body = await parseBody(req, CreateScheduleBody);
+  const org = await currentOrg(user);
+  const schedule = await scheduleStore.create(org.orgId, user.userId, body);
+  auditLog.configChanged("SCHEDULE_CHANGED", user.userId, `schedule:${schedule.id}`, "created", ip);
+
+  return reply({ schedule }, 201);
+});
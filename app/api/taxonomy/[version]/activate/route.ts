@@ -0,0 +1,23 @@
+/**
+ * POST /api/taxonomy/[version]/activate  (admin only)
+ * Make a version the active taxonomy. The previously active version is
+ * archived; analysis runs started afterwards record the new version.
+ */
+
+import { withApi } from "@/lib/api";
+import { taxonomyStore } from "@/lib/taxonomy";
+import { auditLog } from "@/lib/auditLog";
+import { NotFoundError } from "@/lib/errors";
+import { parseParam, v } from "@/lib/validation";
+
+export const POST = withApi<{ version: string }>(
+  { route: "/api/taxonomy/[version]/activate", role: "admin" },
+  async (_req, { user, params, ip }) => {
+    const version = parseParam(params.version, v.id(), "version");
+
+    const activated = await taxonomyStore.activate(version);
+    if (!activated) throw new NotFoundError("Taxonomy version not found.");
+    auditLog.configChanged("TAXONOMY_CHANGED", user.userId, `taxonomy:${version}`, "activated", ip);
+    return { version: activated };
+  }
+);
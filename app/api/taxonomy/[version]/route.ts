@@ -0,0 +1,54 @@
+/**
+ * /api/taxonomy/[version]  (admin only)
+ *   GET    — full taxonomy of one version
+ *   PATCH  — edit a draft (same fields as POST /api/taxonomy, minus basedOn;
+ *            all optional)
+ *   DELETE — delete a draft
+ *
+ * Active and archived versions are immutable (409).
+ */
+
+import { withApi } from "@/lib/api";
+import { taxonomyStore } from "@/lib/taxonomy";
+import { auditLog } from "@/lib/auditLog";
+import { NotFoundError } from "@/lib/errors";
+import { parseBody, parseParam, v } from "@/lib/validation";
+
+// Category and tier contents are checked by taxonomyStore.
+const UpdateVersionBody = {
+  label        : v.optional(v.string({ max: 120 })),
+  categories   : v.optional(v.array()),
+  severityTiers: v.optional(v.array()),
+  baselineBoost: v.optional(v.number({ min: 0, max: 100 })),
+};
+
+const ROUTE = "/api/taxonomy/[version]";
+
+export const GET = withApi<{ version: string }>({ route: ROUTE, role: "admin" }, async (_req, { params }) => {
+  const version = parseParam(params.version, v.id(), "version");
+
+  const found = await taxonomyStore.getVersion(version);
+  if (!found) throw new NotFoundError("Taxonomy version not found.");
+  return { version: found };
+});
+
+export const PATCH = withApi<{ version: string }>({ route: ROUTE, role: "admin" }, async (req, { user, params, ip }) => {
+  const version = parseParam(params.version, v.id(), "version");
+  const changes = await parseBody(req, UpdateVersionBody);
+
+  const updated = await taxonomyStore.updateVersion(version, changes);
+  if (!updated) throw new NotFoundError("Taxonomy version not found.");
+  auditLog.configChanged("TAXONOMY_CHANGED", user.userId, `taxonomy:${version}`, "updated", ip, {
+    fields: Object.keys(changes).filter((k) => changes[k as keyof typeof changes] !== undefined),
+  });
+  return { version: updated };
+});
+
+export const DELETE = withApi<{ version: string }>({ route: ROUTE, role: "admin" }, async (_req, { user, params, ip }) => {
+  const version = parseParam(params.version, v.id(), "version");
+
+  const deleted = await taxonomyStore.deleteDraft(version);
+  if (!deleted) throw new NotFoundError("Taxonomy version not found.");
+  auditLog.configChanged("TAXONOMY_CHANGED", user.userId, `taxonomy:${version}`, "deleted", ip);
+  return { success: true };
+});
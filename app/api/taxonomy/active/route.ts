@@ -0,0 +1,11 @@
+/**
+ * GET /api/taxonomy/active
+ * The taxonomy new analysis runs are scored with. Readable by any user.
+ */
+
+import { withApi } from "@/lib/api";
+import { taxonomyStore } from "@/lib/taxonomy";
+
+export const GET = withApi({ route: "/api/taxonomy/active" }, async () => {
+  return taxonomyStore.getActive();
+});
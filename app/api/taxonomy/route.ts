@@ -0,0 +1,33 @@
+/**
+ * /api/taxonomy  (admin only)
+ *   GET  — list taxonomy versions, newest first
+ *   POST — create a draft { label, basedOn?, categories?, severityTiers?, baselineBoost? }
+ *          Omitted fields are copied from `basedOn` (default: the active version).
+ */
+
+import { withApi, reply } from "@/lib/api";
+import { taxonomyStore } from "@/lib/taxonomy";
+import { auditLog } from "@/lib/auditLog";
+import { parseBody, v } from "@/lib/validation";
+
+// Category and tier contents are checked by taxonomyStore.
+const CreateVersionBody = {
+  label        : v.string({ max: 120 }),
+  basedOn      : v.optional(v.id()),
+  categories   : v.optional(v.array()),
+  severityTiers: v.optional(v.array()),
+  baselineBoost: v.optional(v.number({ min: 0, max: 100 })),
+};
+
+export const GET = withApi({ route: "/api/taxonomy", role: "admin" }, async () => {
+  const versions = await taxonomyStore.listVersions();
+  return { versions };
+});
+
+export const POST = withApi({ route: "/api/taxonomy", role: "admin" }, async (req, { user, ip }) => {
+  const body = await parseBody(req, CreateVersionBody);
+
+  const version = await taxonomyStore.createVersion(user.userId, body);
+  auditLog.configChanged("TAXONOMY_CHANGED", user.userId, `taxonomy:${version.version}`, "created", ip);
+  return reply({ version }, 201);
+});
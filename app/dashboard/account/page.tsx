@@ -0,0 +1,160 @@
+"use client";
+
+import { useState, useEffect, useCallback, FormEvent } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+
+interface Me {
+  email        : string;
+  role         : string;
+  emailVerified: boolean;
+}
+
+export default function AccountPage() {
+  const router = useRouter();
+  const [me,       setMe]       = useState<Me | null>(null);
+  const [current,  setCurrent]  = useState("");
+  const [next,     setNext]     = useState("");
+  const [confirm,  setConfirm]  = useState("");
+  const [busy,     setBusy]     = useState(false);
+  const [error,    setError]    = useState("");
+  const [notice,   setNotice]   = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await apiFetch("/api/auth/me");
+      if (res.status === 401) { router.push("/login"); return; }
+      const d = await res.json();
+      if (!res.ok) setError(d.error ?? "Could not load your account.");
+      else setMe(d.user);
+    } catch {
+      setError("Network error. Please try again.");
+    }
+  }, [router]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function resend() {
+    setBusy(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await apiFetch("/api/auth/verify-email/resend", { method: "POST" });
+      const d = await res.json().catch(() => ({}));
+      if (!res.ok) setError(d.error ?? "Could not send the verification email.");
+      else setNotice(`Verification link sent to ${me?.email}.`);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function changePassword(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+    setNotice("");
+    if (next !== confirm) { setError("New passwords do not match."); return; }
+    if (next.length < 8)  { setError("Password must be at least 8 characters."); return; }
+    setBusy(true);
+    try {
+      const res = await apiFetch("/api/auth/password", {
+        method : "POST",
+        headers: { "Content-Type": "application/json" },
+        body   : JSON.stringify({ currentPassword: current, newPassword: next }),
+      });
+      const d = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(d.error ?? "Could not change the password."); return; }
+
+      setCurrent("");
+      setNext("");
+      setConfirm("");
+      setNotice(d.revokedSessions > 0
+        ? `Password changed. ${d.revokedSessions} other session${d.revokedSessions === 1 ? " was" : "s were"} signed out.`
+        : "Password changed.");
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--color-bg)" }}>
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-10 space-y-6">
+
+        <div>
+          <Link href="/dashboard" className="text-xs hover:underline" style={{ color: "var(--color-accent)" }}>
+            ← Dashboard
+          </Link>
+          <h1 className="text-xl font-semibold mt-2" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+            Account
+          </h1>
+        </div>
+
+        {error && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(240,77,77,0.08)", border: "1px solid rgba(240,77,77,0.25)", color: "#f87171" }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(34,211,165,0.08)", border: "1px solid rgba(34,211,165,0.25)", color: "#22d3a5" }}>
+            {notice}
+          </div>
+        )}
+
+        <div className="card p-5 flex items-center gap-4">
+          {me === null ? (
+            <div className="skeleton h-10 flex-1" />
+          ) : (
+            <>
+              <div className="mr-auto min-w-0">
+                <div className="text-sm font-medium flex items-center gap-2" style={{ color: "var(--color-text)" }}>
+                  <span className="truncate">{me.email}</span>
+                  {me.emailVerified ? (
+                    <span className="pill" style={{ color: "#22d3a5", backgroundColor: "rgba(34,211,165,0.12)", border: "1px solid rgba(34,211,165,0.25)" }}>
+                      Verified
+                    </span>
+                  ) : (
+                    <span className="pill" style={{ color: "#fbbf24", backgroundColor: "rgba(251,191,36,0.12)", border: "1px solid rgba(251,191,36,0.25)" }}>
+                      Unverified
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs mt-1" style={{ color: "var(--color-text-dim)" }}>Role: {me.role}</div>
+              </div>
+              {!me.emailVerified && (
+                <button onClick={resend} disabled={busy}
+                        className="text-xs px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                        style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+                  Resend verification email
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        <form onSubmit={changePassword} className="card p-5 space-y-4">
+          <div>
+            <h2 className="text-sm font-semibold" style={{ color: "#e8edfb" }}>Change password</h2>
+            <p className="text-xs mt-1" style={{ color: "var(--color-text-muted)" }}>
+              Your other devices will be signed out. API keys keep working.
+            </p>
+          </div>
+          <input type="password" required value={current} onChange={(e) => setCurrent(e.target.value)}
+                 placeholder="Current password" autoComplete="current-password" className="input text-sm w-full" />
+          <input type="password" required value={next} onChange={(e) => setNext(e.target.value)}
+                 placeholder="New password (min. 8 characters)" autoComplete="new-password" className="input text-sm w-full" />
+          <input type="password" required value={confirm} onChange={(e) => setConfirm(e.target.value)}
+                 placeholder="Confirm new password" autoComplete="new-password" className="input text-sm w-full" />
+          <button type="submit" disabled={busy || !current || !next} className="btn-primary">
+            Change password
+          </button>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useEffect, useCallback, FormEvent } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+
+type Scope = "assessments:read" | "analyze:run" | "metrics:read";
+
+interface ApiKey {
+  id        : number;
+  name      : string;
+  prefix    : string;
+  orgName   : string;
+  scopes    : Scope[];
+  rateLimit : number;
+  expiresAt : string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt : string;
+}
+
+const SCOPES: Array<{ scope: Scope; label: string }> = [
+  { scope: "assessments:read", label: "Read assessments, trends and exports" },
+  { scope: "analyze:run",      label: "Run analyses" },
+  { scope: "metrics:read",     label: "Read /api/metrics (admins)" },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 30,  label: "30 days" },
+  { days: 90,  label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: 0,   label: "Never" },
+];
+
+function formatDate(iso: string | null, fallback: string) {
+  return iso ? new Date(iso).toLocaleDateString() : fallback;
+}
+
+export default function ApiKeysPage() {
+  const router = useRouter();
+  const [keys,    setKeys]    = useState<ApiKey[]>([]);
+  const [name,    setName]    = useState("");
+  const [scopes,  setScopes]  = useState<Scope[]>(["assessments:read"]);
+  const [expiry,  setExpiry]  = useState(90);
+  const [created, setCreated] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId,  setBusyId]  = useState<number | "new" | null>(null);
+  const [error,   setError]   = useState("");
+
+  const load = useCallback(async () => {
+    setError("");
+    try {
+      const res = await apiFetch("/api/auth/keys");
+      if (res.status === 401) { router.push("/login"); return; }
+      const d = await res.json();
+      if (!res.ok) setError(d.error ?? "Could not load API keys.");
+      else setKeys(d.keys);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => { load(); }, [load]);
+
+  function toggleScope(scope: Scope) {
+    setScopes((list) => (list.includes(scope) ? list.filter((s) => s !== scope) : [...list, scope]));
+  }
+
+  async function create(e: FormEvent) {
+    e.preventDefault();
+    setBusyId("new");
+    setError("");
+    setCreated(null);
+    try {
+      const res = await apiFetch("/api/auth/keys", {
+        method : "POST",
+        headers: { "Content-Type": "application/json" },
+        body   : JSON.stringify({ name, scopes, expiresInDays: expiry || undefined }),
+      });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? "Could not create the key."); return; }
+      setCreated(d.key);
+      setKeys((list) => [d.apiKey, ...list]);
+      setName("");
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function revoke(key: ApiKey) {
+    if (!window.confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) return;
+    setBusyId(key.id);
+    setError("");
+    try {
+      const res = await apiFetch(`/api/auth/keys/${key.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const d = await res.json().catch(() => ({}));
+        setError(d.error ?? "Could not revoke the key.");
+        return;
+      }
+      setKeys((list) => list.filter((k) => k.id !== key.id));
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--color-bg)" }}>
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-10 space-y-6">
+
+        <div>
+          <Link href="/dashboard" className="text-xs hover:underline" style={{ color: "var(--color-accent)" }}>
+            ← Dashboard
+          </Link>
+          <h1 className="text-xl font-semibold mt-2" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+            API keys
+          </h1>
+          <p className="text-sm mt-1" style={{ color: "var(--color-text-muted)" }}>
+            Send a key as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>. Keys act as you,
+            in the organization that is current when they are created.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(240,77,77,0.08)", border: "1px solid rgba(240,77,77,0.25)", color: "#f87171" }}>
+            {error}
+          </div>
+        )}
+
+        {created && (
+          <div className="rounded-xl px-5 py-4 text-sm space-y-2"
+               style={{ backgroundColor: "rgba(34,211,165,0.08)", border: "1px solid rgba(34,211,165,0.25)", color: "#22d3a5" }}>
+            <p>Copy your new key now. It will not be shown again.</p>
+            <code className="block font-mono text-xs break-all select-all" style={{ color: "var(--color-text)" }}>{created}</code>
+          </div>
+        )}
+
+        <form onSubmit={create} className="card p-5 space-y-4">
+          <h2 className="text-sm font-semibold" style={{ color: "#e8edfb" }}>New key</h2>
+          <div className="flex gap-3">
+            <input required maxLength={100} value={name} onChange={(e) => setName(e.target.value)}
+                   placeholder="e.g. Research notebook" className="input text-sm flex-1" />
+            <select value={expiry} onChange={(e) => setExpiry(Number(e.target.value))} className="input text-sm w-32">
+              {EXPIRY_OPTIONS.map((o) => <option key={o.days} value={o.days}>{o.label}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            {SCOPES.map(({ scope, label }) => (
+              <label key={scope} className="flex items-center gap-2 text-sm cursor-pointer select-none"
+                     style={{ color: "var(--color-text-muted)" }}>
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                <span className="font-mono text-xs">{scope}</span> — {label}
+              </label>
+            ))}
+          </div>
+          <button type="submit" disabled={busyId !== null || !name.trim() || scopes.length === 0} className="btn-primary">
+            {busyId === "new" ? "Creating…" : "Create key"}
+          </button>
+        </form>
+
+        <div className="card">
+          {loading ? (
+            <div className="p-5 space-y-3">
+              {[0, 1, 2].map((i) => <div key={i} className="skeleton h-12" />)}
+            </div>
+          ) : keys.length === 0 ? (
+            <p className="p-5 text-sm" style={{ color: "var(--color-text-muted)" }}>No API keys.</p>
+          ) : (
+            <ul>
+              {keys.map((k, i) => {
+                const expired = k.expiresAt !== null && new Date(k.expiresAt) <= new Date();
+                return (
+                  <li key={k.id} className="px-5 py-4 flex items-center gap-4"
+                      style={{ borderTop: i === 0 ? "none" : "1px solid var(--color-border)" }}>
+                    <div className="mr-auto min-w-0">
+                      <div className="text-sm font-medium flex items-center gap-2" style={{ color: "var(--color-text)" }}>
+                        <span className="truncate">{k.name}</span>
+                        {expired && (
+                          <span className="pill" style={{ color: "#f87171", backgroundColor: "rgba(240,77,77,0.12)", border: "1px solid rgba(240,77,77,0.25)" }}>
+                            Expired
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs mt-1 font-mono truncate" style={{ color: "var(--color-text-dim)" }}>
+                        {k.prefix}… · {k.orgName} · {k.scopes.join(", ")} · {k.rateLimit}/min
+                      </div>
+                      <div className="text-xs mt-1" style={{ color: "var(--color-text-dim)" }}>
+                        expires {formatDate(k.expiresAt, "never")} · last used {formatDate(k.lastUsedAt, "never")}
+                        {k.lastUsedIp && ` from ${k.lastUsedIp}`}
+                      </div>
+                    </div>
+                    <button onClick={() => revoke(k)} disabled={busyId !== null}
+                            className="text-xs px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                            style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+                      {busyId === k.id ? "Revoking…" : "Revoke"}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
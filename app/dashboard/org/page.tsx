@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect, useCallback, FormEvent } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+
+interface Org {
+  orgId   : number;
+  name    : string;
+  personal: boolean;
+  role    : "owner" | "member";
+}
+
+interface Member {
+  userId  : number;
+  email   : string;
+  role    : "owner" | "member";
+  joinedAt: string;
+}
+
+interface Invite {
+  id       : number;
+  email    : string;
+  invitedBy: string | null;
+  expiresAt: string;
+}
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+
+export default function OrgPage() {
+  const router = useRouter();
+  const [org,      setOrg]      = useState<Org | null>(null);
+  const [userId,   setUserId]   = useState<number | null>(null);
+  const [members,  setMembers]  = useState<Member[]>([]);
+  const [invites,  setInvites]  = useState<Invite[]>([]);
+  const [email,    setEmail]    = useState("");
+  const [newName,  setNewName]  = useState("");
+  const [loading,  setLoading]  = useState(true);
+  const [busy,     setBusy]     = useState(false);
+  const [error,    setError]    = useState("");
+  const [notice,   setNotice]   = useState("");
+
+  const load = useCallback(async () => {
+    setError("");
+    try {
+      const [meRes, orgsRes] = await Promise.all([apiFetch("/api/auth/me"), apiFetch("/api/orgs")]);
+      if (meRes.status === 401 || orgsRes.status === 401) { router.push("/login"); return; }
+      const me = await meRes.json();
+      const d  = await orgsRes.json();
+      if (!orgsRes.ok) { setError(d.error ?? "Could not load the organization."); return; }
+
+      const current: Org = d.orgs.find((o: Org) => o.orgId === d.currentOrgId);
+      setUserId(me.user.id);
+      setOrg(current);
+
+      const membersRes = await apiFetch(`/api/orgs/${current.orgId}/members`);
+      if (membersRes.ok) setMembers((await membersRes.json()).members);
+
+      if (current.role === "owner" && !current.personal) {
+        const invitesRes = await apiFetch(`/api/orgs/${current.orgId}/invites`);
+        if (invitesRes.ok) setInvites((await invitesRes.json()).invites);
+      } else {
+        setInvites([]);
+      }
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => { load(); }, [load]);
+
+  /** Run a mutation; reload on success, show the API error otherwise. */
+  async function mutate(url: string, init: { method: string; body?: string }, fallback: string, done?: string) {
+    setBusy(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await apiFetch(url, { ...init, headers: JSON_HEADERS });
+      const d = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(d.error ?? fallback); return false; }
+      if (done) setNotice(done);
+      await load();
+      return true;
+    } catch {
+      setError("Network error. Please try again.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function invite(e: FormEvent) {
+    e.preventDefault();
+    if (!org) return;
+    const sent = await mutate(`/api/orgs/${org.orgId}/invites`,
+      { method: "POST", body: JSON.stringify({ email }) }, "Could not send the invite.", `Invite sent to ${email}.`);
+    if (sent) setEmail("");
+  }
+
+  async function createOrg(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      const res = await apiFetch("/api/orgs", { method: "POST", headers: JSON_HEADERS, body: JSON.stringify({ name: newName }) });
+      const d = await res.json();
+      if (!res.ok) { setError(d.error ?? "Could not create the organization."); return; }
+      await apiFetch("/api/orgs/current", { method: "PUT", headers: JSON_HEADERS, body: JSON.stringify({ orgId: d.org.orgId }) });
+      setNewName("");
+      await load();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function remove(member: Member) {
+    if (!org) return;
+    const leaving = member.userId === userId;
+    if (!window.confirm(leaving ? `Leave ${org.name}?` : `Remove ${member.email} from ${org.name}?`)) return;
+    mutate(`/api/orgs/${org.orgId}/members/${member.userId}`, { method: "DELETE" }, "Could not remove the member.");
+  }
+
+  function rename() {
+    if (!org) return;
+    const name = window.prompt("Organization name", org.name)?.trim();
+    if (!name || name === org.name) return;
+    mutate(`/api/orgs/${org.orgId}`, { method: "PATCH", body: JSON.stringify({ name }) }, "Could not rename the organization.");
+  }
+
+  const isOwner = org?.role === "owner";
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--color-bg)" }}>
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-10 space-y-6">
+
+        <div className="flex items-end gap-4">
+          <div className="mr-auto">
+            <Link href="/dashboard" className="text-xs hover:underline" style={{ color: "var(--color-accent)" }}>
+              ← Dashboard
+            </Link>
+            <h1 className="text-xl font-semibold mt-2" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+              {org?.name ?? "Team"}
+            </h1>
+            <p className="text-sm mt-1" style={{ color: "var(--color-text-muted)" }}>
+              {org?.personal
+                ? "Your personal organization. Create a team to share runs, schedules and alerts."
+                : "Everyone here shares assessment history, schedules and alert rules."}
+            </p>
+          </div>
+          {isOwner && (
+            <button onClick={rename} disabled={busy}
+                    className="text-sm px-3 py-2 rounded-lg transition-colors disabled:opacity-40"
+                    style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+              Rename
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(240,77,77,0.08)", border: "1px solid rgba(240,77,77,0.25)", color: "#f87171" }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(34,211,165,0.08)", border: "1px solid rgba(34,211,165,0.25)", color: "#22d3a5" }}>
+            {notice}
+          </div>
+        )}
+
+        <div className="card">
+          {loading ? (
+            <div className="p-5 space-y-3">
+              {[0, 1, 2].map((i) => <div key={i} className="skeleton h-12" />)}
+            </div>
+          ) : (
+            <ul>
+              {members.map((m, i) => (
+                <li key={m.userId} className="px-5 py-4 flex items-center gap-4"
+                    style={{ borderTop: i === 0 ? "none" : "1px solid var(--color-border)" }}>
+                  <div className="mr-auto min-w-0 text-sm truncate" style={{ color: "var(--color-text)" }}>
+                    {m.email}
+                    {m.userId === userId && <span style={{ color: "var(--color-text-dim)" }}> (you)</span>}
+                  </div>
+                  <span className="text-xs" style={{ color: "var(--color-text-muted)" }}>{m.role}</span>
+                  {!org?.personal && (isOwner || m.userId === userId) && (
+                    <button onClick={() => remove(m)} disabled={busy}
+                            className="text-xs px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                            style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+                      {m.userId === userId ? "Leave" : "Remove"}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {isOwner && !org?.personal && (
+          <div className="card p-5 space-y-4">
+            <h2 className="text-sm font-semibold" style={{ color: "#e8edfb" }}>Invite a colleague</h2>
+            <form onSubmit={invite} className="flex gap-3">
+              <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)}
+                     placeholder="colleague@company.com" className="input text-sm flex-1" />
+              <button type="submit" disabled={busy || !email} className="btn-primary">Send invite</button>
+            </form>
+            {invites.length > 0 && (
+              <ul className="space-y-2">
+                {invites.map((inv) => (
+                  <li key={inv.id} className="flex items-center gap-3 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                    <span className="mr-auto">
+                      {inv.email} · expires {new Date(inv.expiresAt).toLocaleDateString()}
+                    </span>
+                    <button onClick={() => mutate(`/api/orgs/${org!.orgId}/invites/${inv.id}`, { method: "DELETE" }, "Could not withdraw the invite.")}
+                            disabled={busy} className="hover:underline disabled:opacity-40" style={{ color: "#f87171" }}>
+                      Withdraw
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="card p-5 space-y-4">
+          <h2 className="text-sm font-semibold" style={{ color: "#e8edfb" }}>New organization</h2>
+          <form onSubmit={createOrg} className="flex gap-3">
+            <input required maxLength={120} value={newName} onChange={(e) => setNewName(e.target.value)}
+                   placeholder="e.g. Macro desk" className="input text-sm flex-1" />
+            <button type="submit" disabled={busy || !newName.trim()} className="btn-primary">Create</button>
+          </form>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,30 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, MouseEvent } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
   RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis,
   ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, Cell,
+  LineChart, Line, AreaChart, Area, CartesianGrid, Legend,
 } from "recharts";
+import { apiFetch, downloadFile } from "@/lib/apiClient";
+import { Role, hasRole } from "@/lib/roles";
 
 // ─────────────────────────── Types ───────────────────────────────
 
+interface ScoreExplanation {
+  candidates: { category: string; matches: string[]; weight: number; score: number }[];
+  decision  : "single_match" | "highest_score" | "tie_weight" | "tie_order" | "fallback";
+  negated   : string[];
+  severity  : { tier: number | null; boost: number; trigger: string | null; deEscalation: string | null };
+  weight    : number;
+  base      : number;
+  boost     : number;
+  unclamped : number;
+  score     : number;
+}
+
 interface Article {
   title      : string;
   description: string;
@@ -17,17 +33,25 @@ interface Article {
   publishedAt: string;
   riskCategory: string;
   articleScore: number;
+  keywordMatches?: Record<string, string[]>;
+  explanation?   : ScoreExplanation | null;
+  weighting?     : { recency: number; credibility: number; ageHours?: number | null; sourceTier?: string | null };
+  sourceCount?   : number;
+  sources?       : { name: string; url: string }[];
+  runCount?      : number;   // detail view only: runs this event appeared in
 }
 
 interface Assessment {
   assessmentId     : number;
   overallScore     : number;
+  weightedScore?   : number | null;   // set when the run used recency × credibility weighting
   impactLevel      : "LOW" | "MEDIUM" | "HIGH";
   dominantCategory : string;
   categoryBreakdown: Record<string, number>;
   articleCount     : number;
   aiSummary        : string;
   articles         : Article[];
+  createdAt?       : string;   // present when opened from history
 }
 
 interface HistoryRow {
@@ -37,9 +61,71 @@ interface HistoryRow {
   dominant_category : string;
   article_count     : number;
   ai_summary_preview: string;
+  triggered_by_email: string | null;
   created_at        : string;
 }
 
+interface OrgOption {
+  orgId   : number;
+  name    : string;
+  personal: boolean;
+}
+
+interface TimeseriesPoint {
+  bucketStart     : string;
+  runs            : number;
+  avgScore        : number | null;
+  maxScore        : number | null;
+  minScore        : number | null;
+  avgWeightedScore: number | null;
+  levels          : Record<"LOW" | "MEDIUM" | "HIGH", number>;
+  categories      : Record<string, number | null>;
+}
+
+interface Timeseries {
+  bucket    : "hour" | "day" | "week";
+  categories: string[];
+  points    : TimeseriesPoint[];
+}
+
+interface CompareRun {
+  assessmentId : number;
+  overallScore : number;
+  weightedScore: number | null;
+  impactLevel  : "LOW" | "MEDIUM" | "HIGH";
+  articleCount : number;
+  createdAt    : string;
+}
+
+interface CompareEvent {
+  eventId     : number;
+  title       : string;
+  source      : string;
+  url         : string;
+  riskCategory: string;
+  articleScore: number;
+}
+
+interface Comparison {
+  a             : CompareRun;
+  b             : CompareRun;
+  scoreDelta    : number;
+  weightedDelta : number | null;
+  levelChange   : { from: string; to: string; direction: "up" | "down" | "same" };
+  categoryDeltas: { category: string; a: number; b: number; delta: number }[];
+  newEvents     : CompareEvent[];
+  droppedEvents : CompareEvent[];
+  changedEvents : {
+    eventId: number;
+    title  : string;
+    url    : string;
+    a      : { riskCategory: string; articleScore: number };
+    b      : { riskCategory: string; articleScore: number };
+    delta  : number;
+  }[];
+  unchangedCount: number;
+}
+
 // ────────────────────────── Constants ────────────────────────────
 
 const CAT_COLOR: Record<string, string> = {
@@ -50,12 +136,23 @@ const CAT_COLOR: Record<string, string> = {
   General     : "#4b6080",
 };
 
+// Categories added through the taxonomy admin API get a stable colour from here
+const EXTRA_CAT_COLORS = ["#2dd4bf", "#f472b6", "#84cc16", "#fb923c", "#38bdf8", "#e879f9"];
+
 const LEVEL_COLOR: Record<string, string> = {
   LOW   : "#22d3a5",
   MEDIUM: "#f5a623",
   HIGH  : "#f04d4d",
 };
 
+const DECISION_TEXT: Record<ScoreExplanation["decision"], string> = {
+  single_match : "Only category with keyword matches.",
+  highest_score: "Highest match count × weight.",
+  tie_weight   : "Tied on match score; higher category weight wins.",
+  tie_order    : "Tied on score and weight; first in taxonomy order wins.",
+  fallback     : "No keywords matched; fallback category.",
+};
+
 const LEVEL_BG: Record<string, string> = {
   LOW   : "rgba(34,211,165,0.12)",
   MEDIUM: "rgba(245,166,35,0.12)",
@@ -64,6 +161,18 @@ const LEVEL_BG: Record<string, string> = {
 
 // ────────────────────────── Helpers ──────────────────────────────
 
+function handleDownload(e: MouseEvent<HTMLAnchorElement>) {
+  e.preventDefault();
+  downloadFile(e.currentTarget.href);
+}
+
+function categoryColor(category: string) {
+  if (CAT_COLOR[category]) return CAT_COLOR[category];
+  let hash = 0;
+  for (const ch of category) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return EXTRA_CAT_COLORS[hash % EXTRA_CAT_COLORS.length];
+}
+
 function formatDate(iso: string) {
   return new Date(iso).toLocaleString("en-US", {
     month : "short", day: "numeric",
@@ -84,7 +193,7 @@ function formatRelative(iso: string) {
 // ─────────────────── Sub-components ──────────────────────────────
 
 function CategoryPill({ category }: { category: string }) {
-  const color = CAT_COLOR[category] ?? "#4b6080";
+  const color = categoryColor(category);
   return (
     <span className="pill" style={{ color, backgroundColor: color + "1a", border: `1px solid ${color}33` }}>
       <span className="w-1.5 h-1.5 rounded-full inline-block" style={{ backgroundColor: color }} />
@@ -153,6 +262,329 @@ function ScoreGauge({ score, level }: { score: number; level: string }) {
   );
 }
 
+/** "Why this score" — renders the classifier's ScoreExplanation */
+function ExplanationPanel({ category, explanation: x, weighting }: {
+  category   : string;
+  explanation: ScoreExplanation;
+  weighting? : Article["weighting"];
+}) {
+  const fmt = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(2));
+
+  return (
+    <div className="mt-3 rounded-lg p-3 text-xs space-y-3"
+         style={{ backgroundColor: "var(--color-surface-alt)", border: "1px solid var(--color-border)", fontFamily: "DM Mono, monospace" }}>
+      {/* Arithmetic */}
+      <div style={{ color: "#cdd8f6" }}>
+        {category} weight {x.weight.toFixed(2)} × 60 = <b>{fmt(x.base)}</b>
+        {"  +  "}severity <b>{x.boost}</b>
+        {"  =  "}<b>{x.score}</b>
+        {x.unclamped !== x.score && (
+          <span style={{ color: "var(--color-text-dim)" }}> (rounded/clamped from {fmt(x.unclamped)})</span>
+        )}
+      </div>
+
+      {/* Severity */}
+      <div style={{ color: "var(--color-text-muted)" }}>
+        {x.severity.tier !== null
+          ? <>Severity tier {x.severity.tier} (+{x.severity.boost}) triggered by “{x.severity.trigger}”.</>
+          : <>No severity word matched; baseline +{x.severity.boost}.</>}
+        {x.severity.deEscalation && <> De-escalation phrase “{x.severity.deEscalation}” cancels severity tiers.</>}
+      </div>
+
+      {/* Category candidates */}
+      <div>
+        <div className="mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+          Category: {DECISION_TEXT[x.decision]}
+        </div>
+        {x.candidates.length > 0 && (
+          <table className="w-full">
+            <thead>
+              <tr style={{ color: "var(--color-text-dim)" }}>
+                <th className="text-left font-normal pb-1">Candidate</th>
+                <th className="text-left font-normal pb-1">Matched</th>
+                <th className="text-right font-normal pb-1">Weight</th>
+                <th className="text-right font-normal pb-1">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {x.candidates.map((c) => (
+                <tr key={c.category} style={{ color: c.category === category ? "#e8edfb" : "var(--color-text-muted)" }}>
+                  <td className="py-0.5">{c.category === category ? "▸ " : ""}{c.category}</td>
+                  <td className="py-0.5">{c.matches.join(", ")}</td>
+                  <td className="py-0.5 text-right">{c.weight.toFixed(2)}</td>
+                  <td className="py-0.5 text-right">{fmt(c.score)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {x.negated.length > 0 && (
+        <div style={{ color: "var(--color-text-dim)" }}>
+          Ignored (negated): {x.negated.join(", ")}
+        </div>
+      )}
+
+      {weighting && (
+        <div style={{ color: "var(--color-text-muted)" }}>
+          Weighted aggregate: × recency {weighting.recency.toFixed(2)}
+          {weighting.ageHours != null && <> ({weighting.ageHours}h old)</>}
+          {" "}× credibility {weighting.credibility.toFixed(2)}
+          {weighting.sourceTier && <> ({weighting.sourceTier})</>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Score and category trends from GET /api/assessments/timeseries */
+function TrendsCard({ refreshKey }: { refreshKey: number }) {
+  const [bucket,  setBucket]  = useState<Timeseries["bucket"]>("day");
+  const [series,  setSeries]  = useState<Timeseries | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error,   setError]   = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+
+    apiFetch(`/api/assessments/timeseries?bucket=${bucket}`)
+      .then(async (r) => {
+        const d = await r.json();
+        if (cancelled) return;
+        if (!r.ok) setError(d.error ?? "Could not load trends.");
+        else setSeries(d);
+      })
+      .catch(() => { if (!cancelled) setError("Could not load trends."); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [bucket, refreshKey]);
+
+  const label = (iso: string) => {
+    const d = new Date(iso);
+    return bucket === "hour"
+      ? d.toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", timeZone: "UTC" })
+      : d.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  };
+
+  const data = (series?.points ?? []).map((p) => ({
+    label   : label(p.bucketStart),
+    avg     : p.avgScore,
+    max     : p.maxScore,
+    min     : p.minScore,
+    weighted: p.avgWeightedScore,
+    ...p.categories,
+  }));
+
+  const hasRuns     = series?.points.some((p) => p.runs > 0) ?? false;
+  const hasWeighted = series?.points.some((p) => p.avgWeightedScore !== null) ?? false;
+  const axisTick    = { fill: "#8ba0c8", fontSize: 10, fontFamily: "DM Mono, monospace" };
+  const tooltip     = {
+    contentStyle: { backgroundColor: "#0d1230", border: "1px solid #1c2855", borderRadius: 10, fontSize: 12 },
+    labelStyle  : { color: "#ffffff" },
+  };
+
+  return (
+    <div className="card p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+          Risk Trends
+        </h3>
+        <div className="flex gap-1">
+          {(["hour", "day", "week"] as const).map((b) => (
+            <button key={b} onClick={() => setBucket(b)}
+                    className="text-xs px-2.5 py-1 rounded-md transition-colors"
+                    style={{
+                      color          : bucket === b ? "#e8edfb" : "var(--color-text-muted)",
+                      backgroundColor: bucket === b ? "rgba(59,123,250,0.15)" : "transparent",
+                      border         : "1px solid var(--color-border)",
+                    }}>
+              {b === "hour" ? "48h" : b === "day" ? "30d" : "12w"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Skeleton className="h-56" />
+          <Skeleton className="h-56" />
+        </div>
+      ) : error ? (
+        <div className="text-sm py-10 text-center" style={{ color: "#f87171" }}>{error}</div>
+      ) : !hasRuns ? (
+        <div className="text-sm py-10 text-center" style={{ color: "var(--color-text-muted)" }}>
+          No runs in this period.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Overall score */}
+          <div>
+            <div className="text-xs uppercase tracking-widest mb-2" style={{ color: "var(--color-text-muted)" }}>
+              Impact score
+            </div>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                <CartesianGrid stroke="#1c2855" strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} minTickGap={16} />
+                <YAxis domain={[0, 100]} tick={axisTick} axisLine={false} tickLine={false} />
+                <Tooltip {...tooltip} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="max" name="Max" stroke="#f04d4d" strokeWidth={1} dot={false} connectNulls />
+                <Line type="monotone" dataKey="avg" name="Avg" stroke="#3b7bfa" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="min" name="Min" stroke="#22d3a5" strokeWidth={1} dot={false} connectNulls />
+                {hasWeighted && (
+                  <Line type="monotone" dataKey="weighted" name="Weighted" stroke="#f5a623" strokeWidth={1.5}
+                        strokeDasharray="4 3" dot={false} connectNulls />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Category shares */}
+          <div>
+            <div className="text-xs uppercase tracking-widest mb-2" style={{ color: "var(--color-text-muted)" }}>
+              Category share (avg %)
+            </div>
+            <ResponsiveContainer width="100%" height={220}>
+              <AreaChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                <CartesianGrid stroke="#1c2855" strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} minTickGap={16} />
+                <YAxis domain={[0, 100]} tick={axisTick} axisLine={false} tickLine={false} />
+                <Tooltip {...tooltip} formatter={(v: number) => `${v}%`} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {series!.categories.map((cat) => (
+                  <Area key={cat} type="monotone" dataKey={cat} stackId="share"
+                        stroke={categoryColor(cat)} fill={categoryColor(cat)} fillOpacity={0.35} connectNulls />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Signed delta, e.g. "+4.5" / "−3" / "±0" */
+function formatDelta(n: number, suffix = "") {
+  if (n === 0) return `±0${suffix}`;
+  return `${n > 0 ? "+" : "−"}${Math.abs(n)}${suffix}`;
+}
+
+function deltaColor(n: number) {
+  return n > 0 ? "#f04d4d" : n < 0 ? "#22d3a5" : "var(--color-text-muted)";
+}
+
+/** Side-by-side diff of two runs from GET /api/assessments/compare */
+function CompareCard({ comparison: c, onClose }: { comparison: Comparison; onClose: () => void }) {
+  const eventList = (title: string, events: CompareEvent[], color: string) => (
+    <div>
+      <div className="text-xs uppercase tracking-widest mb-2" style={{ color: "var(--color-text-muted)" }}>
+        {title} ({events.length})
+      </div>
+      {events.length === 0 ? (
+        <div className="text-xs" style={{ color: "var(--color-text-dim)" }}>None</div>
+      ) : (
+        <ul className="space-y-1.5">
+          {events.map((e) => (
+            <li key={e.eventId} className="flex items-start gap-2 text-xs">
+              <span className="font-mono flex-shrink-0 w-6 text-right" style={{ color }}>{e.articleScore}</span>
+              <a href={e.url} target="_blank" rel="noopener noreferrer" className="line-clamp-1 hover:underline"
+                 style={{ color: "#cdd8f6" }} title={`${e.title} · ${e.source}`}>
+                {e.title}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="card p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+          Compare runs · {formatDate(c.a.createdAt)} → {formatDate(c.b.createdAt)}
+        </h3>
+        <button onClick={onClose} className="text-xs px-2.5 py-1 rounded-md"
+                style={{ color: "var(--color-text-muted)", border: "1px solid var(--color-border)" }}>
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <MetricCard label="Score" value={formatDelta(c.scoreDelta)} color={deltaColor(c.scoreDelta)}
+                    sub={`${c.a.overallScore} → ${c.b.overallScore}`} />
+        <MetricCard label="Impact level"
+                    value={c.levelChange.direction === "same" ? "Unchanged" : c.levelChange.direction === "up" ? "Escalated" : "Eased"}
+                    color={LEVEL_COLOR[c.levelChange.to]}
+                    sub={`${c.levelChange.from} → ${c.levelChange.to}`} />
+        <MetricCard label="Weighted" value={c.weightedDelta === null ? "—" : formatDelta(c.weightedDelta)}
+                    color={c.weightedDelta === null ? undefined : deltaColor(c.weightedDelta)}
+                    sub={c.weightedDelta === null ? "both runs must be weighted" : `${c.a.weightedScore} → ${c.b.weightedScore}`} />
+        <MetricCard label="Events" value={`${c.newEvents.length} new`}
+                    sub={`${c.droppedEvents.length} dropped · ${c.changedEvents.length} changed · ${c.unchangedCount} same`} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Category shares */}
+        <div>
+          <div className="text-xs uppercase tracking-widest mb-2" style={{ color: "var(--color-text-muted)" }}>
+            Category share
+          </div>
+          <table className="w-full text-xs">
+            <tbody>
+              {c.categoryDeltas.map((d) => (
+                <tr key={d.category}>
+                  <td className="py-1"><CategoryPill category={d.category} /></td>
+                  <td className="py-1 font-mono text-right" style={{ color: "var(--color-text-muted)" }}>{d.a}% → {d.b}%</td>
+                  <td className="py-1 font-mono text-right" style={{ color: deltaColor(d.delta) }}>{formatDelta(d.delta, " pp")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {eventList("New in later run", c.newEvents, "#f5a623")}
+        {eventList("Dropped since earlier run", c.droppedEvents, "var(--color-text-dim)")}
+      </div>
+
+      {c.changedEvents.length > 0 && (
+        <div className="mt-6">
+          <div className="text-xs uppercase tracking-widest mb-2" style={{ color: "var(--color-text-muted)" }}>
+            Score changed ({c.changedEvents.length})
+          </div>
+          <ul className="space-y-1.5">
+            {c.changedEvents.map((e) => (
+              <li key={e.eventId} className="flex items-center gap-3 text-xs">
+                <span className="font-mono flex-shrink-0 w-24" style={{ color: "var(--color-text-muted)" }}>
+                  {e.a.articleScore} → {e.b.articleScore}
+                </span>
+                <span className="font-mono flex-shrink-0 w-10 text-right" style={{ color: deltaColor(e.delta) }}>
+                  {formatDelta(e.delta)}
+                </span>
+                {e.a.riskCategory !== e.b.riskCategory && (
+                  <span className="flex-shrink-0" style={{ color: "var(--color-text-dim)" }}>
+                    {e.a.riskCategory} → {e.b.riskCategory}
+                  </span>
+                )}
+                <a href={e.url} target="_blank" rel="noopener noreferrer" className="line-clamp-1 hover:underline"
+                   style={{ color: "#cdd8f6" }}>
+                  {e.title}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /** Metric card */
 function MetricCard({ label, value, sub, color }: { label: string; value: string | number; sub?: string; color?: string }) {
   return (
@@ -179,6 +611,10 @@ export default function DashboardPage() {
   const router = useRouter();
 
   const [userEmail,   setUserEmail]   = useState<string | null>(null);
+  const [userRole,    setUserRole]    = useState<Role | null>(null);
+  const [verified,    setVerified]    = useState(true);
+  const [orgs,        setOrgs]        = useState<OrgOption[]>([]);
+  const [orgId,       setOrgId]       = useState<number | null>(null);
   const [assessment,  setAssessment]  = useState<Assessment | null>(null);
   const [history,     setHistory]     = useState<HistoryRow[]>([]);
   const [loading,     setLoading]     = useState(false);
@@ -186,23 +622,46 @@ export default function DashboardPage() {
   const [error,       setError]       = useState("");
   const [activeTab,   setActiveTab]   = useState<"news" | "history">("news");
   const [lastRun,     setLastRun]     = useState<string | null>(null);
+  const [openingId,   setOpeningId]   = useState<number | null>(null);
+  const [explainIdx,  setExplainIdx]  = useState<number | null>(null);
+  const [weighted,    setWeighted]    = useState(false);
+  const [compareIds,  setCompareIds]  = useState<number[]>([]);
+  const [comparison,  setComparison]  = useState<Comparison | null>(null);
+  const [comparing,   setComparing]   = useState(false);
   const analysisRef = useRef<HTMLDivElement>(null);
 
   // Auth guard
   useEffect(() => {
-    fetch("/api/auth/me")
+    apiFetch("/api/auth/me")
       .then((r) => r.json())
       .then((d) => {
         if (d.error) router.push("/login");
-        else setUserEmail(d.user.email);
+        else { setUserEmail(d.user.email); setUserRole(d.user.role); setVerified(d.user.emailVerified); }
       })
       .catch(() => router.push("/login"));
+
+    apiFetch("/api/orgs")
+      .then((r) => r.json())
+      .then((d) => {
+        if (d.orgs) { setOrgs(d.orgs); setOrgId(d.currentOrgId); }
+      })
+      .catch(() => { /* non-fatal */ });
   }, [router]);
 
+  // Every panel reads the current organization, so reload after a switch
+  async function switchOrg(id: number) {
+    const res = await apiFetch("/api/orgs/current", {
+      method : "PUT",
+      headers: { "Content-Type": "application/json" },
+      body   : JSON.stringify({ orgId: id }),
+    });
+    if (res.ok) window.location.reload();
+  }
+
   const loadHistory = useCallback(async () => {
     setHistLoading(true);
     try {
-      const res = await fetch("/api/assessments?limit=10");
+      const res = await apiFetch("/api/assessments?limit=10");
       const d   = await res.json();
       if (d.assessments) setHistory(d.assessments);
     } catch { /* non-fatal */ }
@@ -216,12 +675,17 @@ export default function DashboardPage() {
     setError("");
 
     try {
-      const res  = await fetch("/api/analyze", { method: "POST" });
+      const res  = await apiFetch("/api/analyze", {
+        method : "POST",
+        headers: { "Content-Type": "application/json" },
+        body   : JSON.stringify({ weighting: weighted }),
+      });
       const data = await res.json();
 
       if (!res.ok) { setError(data.error ?? "Analysis failed."); return; }
 
       setAssessment(data);
+      setExplainIdx(null);
       setLastRun(new Date().toISOString());
       setActiveTab("news");
       await loadHistory();
@@ -235,6 +699,54 @@ export default function DashboardPage() {
     }
   }
 
+  async function openAssessment(id: number) {
+    setOpeningId(id);
+    setError("");
+
+    try {
+      const res  = await apiFetch(`/api/assessments/${id}`);
+      const data = await res.json();
+
+      if (!res.ok) { setError(data.error ?? "Could not load assessment."); return; }
+
+      setAssessment(data);
+      setExplainIdx(null);
+      setActiveTab("news");
+      setTimeout(() => analysisRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }), 100);
+    } catch {
+      setError("Network error. Check your connection and try again.");
+    } finally {
+      setOpeningId(null);
+    }
+  }
+
+  // Keeps at most two selections; picking a third replaces the oldest pick
+  function toggleCompare(id: number) {
+    setCompareIds((ids) =>
+      ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id].slice(-2)
+    );
+  }
+
+  async function handleCompare() {
+    if (compareIds.length !== 2) return;
+    // Ids are sequential, so the lower id is the earlier run (the baseline)
+    const [a, b] = [...compareIds].sort((x, y) => x - y);
+    setComparing(true);
+    setError("");
+
+    try {
+      const res  = await apiFetch(`/api/assessments/compare?a=${a}&b=${b}`);
+      const data = await res.json();
+
+      if (!res.ok) { setError(data.error ?? "Could not compare assessments."); return; }
+      setComparison(data);
+    } catch {
+      setError("Network error. Check your connection and try again.");
+    } finally {
+      setComparing(false);
+    }
+  }
+
   async function handleLogout() {
     await fetch("/api/auth/login", { method: "DELETE" });
     router.push("/login");
@@ -285,16 +797,42 @@ export default function DashboardPage() {
           </div>
         )}
 
-        {/* User */}
+        {/* Organization */}
+        {orgs.length > 0 && orgId !== null && (
+          <div className="hidden sm:flex items-center gap-2">
+            <select value={orgId} onChange={(e) => switchOrg(Number(e.target.value))}
+                    className="input text-xs py-1.5" aria-label="Organization">
+              {orgs.map((o) => (
+                <option key={o.orgId} value={o.orgId}>{o.personal ? `${o.name} (just you)` : o.name}</option>
+              ))}
+            </select>
+            <Link href="/dashboard/org" className="text-xs hover:underline" style={{ color: "var(--color-accent)" }}>
+              Team
+            </Link>
+          </div>
+        )}
+
+        {/* User → account settings */}
         {userEmail && (
-          <div className="hidden sm:block text-xs font-mono px-3 py-1.5 rounded-lg"
-               style={{ backgroundColor: "var(--color-surface)", border: "1px solid var(--color-border)", color: "var(--color-text-muted)" }}>
+          <Link href="/dashboard/account" title="Account settings"
+                className="hidden sm:block text-xs font-mono px-3 py-1.5 rounded-lg"
+                style={{ backgroundColor: "var(--color-surface)", border: "1px solid var(--color-border)", color: "var(--color-text-muted)" }}>
             {userEmail}
-          </div>
+          </Link>
         )}
 
+        {/* Weighting toggle */}
+        <label className="hidden md:flex items-center gap-2 text-xs cursor-pointer select-none"
+               style={{ color: "var(--color-text-muted)" }}
+               title="Weight the aggregate by article recency and source credibility">
+          <input type="checkbox" checked={weighted} onChange={(e) => setWeighted(e.target.checked)} disabled={loading} />
+          Recency &amp; credibility
+        </label>
+
         {/* Analyze button */}
-        <button onClick={handleAnalyze} disabled={loading} className="btn-primary">
+        <button onClick={handleAnalyze} disabled={loading || !hasRole({ role: userRole }, "analyst")}
+                className="btn-primary"
+                title={userRole === "viewer" ? "Viewers cannot run analyses" : undefined}>
           {loading ? (
             <>
               <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
@@ -313,6 +851,35 @@ export default function DashboardPage() {
           )}
         </button>
 
+        {/* Sessions */}
+        <Link href="/dashboard/sessions"
+              className="hidden sm:block text-sm transition-colors"
+              style={{ color: "var(--color-text-muted)" }}
+              onMouseEnter={(e) => (e.currentTarget.style.color = "var(--color-text)")}
+              onMouseLeave={(e) => (e.currentTarget.style.color = "var(--color-text-muted)")}>
+          Sessions
+        </Link>
+
+        {/* API keys */}
+        <Link href="/dashboard/keys"
+              className="hidden sm:block text-sm transition-colors"
+              style={{ color: "var(--color-text-muted)" }}
+              onMouseEnter={(e) => (e.currentTarget.style.color = "var(--color-text)")}
+              onMouseLeave={(e) => (e.currentTarget.style.color = "var(--color-text-muted)")}>
+          API keys
+        </Link>
+
+        {/* Admin */}
+        {userRole === "admin" && (
+          <Link href="/admin"
+                className="hidden sm:block text-sm transition-colors"
+                style={{ color: "var(--color-text-muted)" }}
+                onMouseEnter={(e) => (e.currentTarget.style.color = "var(--color-text)")}
+                onMouseLeave={(e) => (e.currentTarget.style.color = "var(--color-text-muted)")}>
+            Admin
+          </Link>
+        )}
+
         {/* Logout */}
         <button onClick={handleLogout}
                 className="text-sm transition-colors"
@@ -325,6 +892,15 @@ export default function DashboardPage() {
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 py-8 space-y-8">
 
+        {/* ── Unverified email ──────────────────────────────────── */}
+        {!verified && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(251,191,36,0.08)", border: "1px solid rgba(251,191,36,0.25)", color: "#fbbf24" }}>
+            Please confirm your email address using the link we sent you.{" "}
+            <Link href="/dashboard/account" className="underline">Resend it</Link>
+          </div>
+        )}
+
         {/* ── Error ────────────────────────────────────────────── */}
         {error && (
           <div className="flex items-center gap-3 rounded-xl px-5 py-4 text-sm animate-fade-in"
@@ -360,6 +936,15 @@ export default function DashboardPage() {
               </svg>
               Run First Analysis
             </button>
+            {history.length > 0 && (
+              <button onClick={() => openAssessment(history[0].id)} disabled={openingId !== null}
+                      className="mt-4 text-sm transition-colors"
+                      style={{ color: "var(--color-text-muted)" }}
+                      onMouseEnter={(e) => (e.currentTarget.style.color = "var(--color-text)")}
+                      onMouseLeave={(e) => (e.currentTarget.style.color = "var(--color-text-muted)")}>
+                {openingId !== null ? "Opening…" : `Open last assessment · ${formatDate(history[0].created_at)}`}
+              </button>
+            )}
           </div>
         )}
 
@@ -394,12 +979,22 @@ export default function DashboardPage() {
         {assessment && !loading && (
           <div ref={analysisRef} className="animate-slide-up space-y-6">
 
+            {/* Past-run banner */}
+            {assessment.createdAt && (
+              <div className="flex items-center gap-2 px-5 py-3 rounded-xl text-sm"
+                   style={{ backgroundColor: "var(--color-surface)", border: "1px solid var(--color-border)", color: "var(--color-text-muted)" }}>
+                Viewing assessment #{assessment.assessmentId} from {formatDate(assessment.createdAt)}
+              </div>
+            )}
+
             {/* Metric row */}
             <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-              <MetricCard label="Impact Score"    value={assessment.overallScore}    sub="out of 100"           color={LEVEL_COLOR[assessment.impactLevel]} />
+              <MetricCard label="Impact Score"    value={assessment.overallScore}
+                          sub={assessment.weightedScore != null ? `raw · weighted ${assessment.weightedScore}` : "out of 100"}
+                          color={LEVEL_COLOR[assessment.impactLevel]} />
               <MetricCard label="Impact Level"    value={assessment.impactLevel}     sub="threshold classification" color={LEVEL_COLOR[assessment.impactLevel]} />
-              <MetricCard label="Dominant Risk"   value={assessment.dominantCategory} sub="highest exposure"    color={CAT_COLOR[assessment.dominantCategory]} />
-              <MetricCard label="Articles Scanned" value={assessment.articleCount}   sub="from NewsAPI"         />
+              <MetricCard label="Dominant Risk"   value={assessment.dominantCategory} sub="highest exposure"    color={categoryColor(assessment.dominantCategory)} />
+              <MetricCard label="Articles Scanned" value={assessment.articleCount}   sub="across news sources"  />
             </div>
 
             {/* Main grid */}
@@ -422,11 +1017,11 @@ export default function DashboardPage() {
                       .sort(([, a], [, b]) => b - a)
                       .map(([cat, pct]) => (
                         <div key={cat} className="flex items-center gap-2">
-                          <div className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: CAT_COLOR[cat] }} />
+                          <div className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: categoryColor(cat) }} />
                           <div className="text-xs flex-1" style={{ color: "var(--color-text-muted)" }}>{cat}</div>
                           <div className="flex items-center gap-2 flex-1">
                             <div className="flex-1 h-1 rounded-full overflow-hidden" style={{ backgroundColor: "var(--color-border)" }}>
-                              <div className="h-full rounded-full transition-all" style={{ width: `${pct}%`, backgroundColor: CAT_COLOR[cat] }} />
+                              <div className="h-full rounded-full transition-all" style={{ width: `${pct}%`, backgroundColor: categoryColor(cat) }} />
                             </div>
                             <span className="text-xs font-mono w-8 text-right" style={{ color: "var(--color-text-muted)" }}>{pct}%</span>
                           </div>
@@ -471,7 +1066,11 @@ export default function DashboardPage() {
                     <h3 className="text-xs font-semibold uppercase tracking-widest" style={{ color: "var(--color-text-muted)" }}>
                       AI Executive Brief
                     </h3>
-                    <span className="ml-auto text-xs px-2.5 py-1 rounded-full"
+                    <a href={`/api/assessments/${assessment.assessmentId}/export`} download onClick={handleDownload}
+                       className="ml-auto text-xs underline-offset-2 hover:underline" style={{ color: "var(--color-accent)" }}>
+                      Download PDF
+                    </a>
+                    <span className="text-xs px-2.5 py-1 rounded-full"
                           style={{ backgroundColor: "rgba(167,139,250,0.12)", color: "#a78bfa", border: "1px solid rgba(167,139,250,0.25)", fontFamily: "DM Mono, monospace" }}>
                       Gemini 1.5 Flash
                     </span>
@@ -498,7 +1097,7 @@ export default function DashboardPage() {
                         formatter={(v: number) => [`${v}%`, "Share"]}
                       />
                       <Bar dataKey="value" radius={[0, 4, 4, 0]} maxBarSize={16}>
-                        {barData.map((e) => <Cell key={e.name} fill={CAT_COLOR[e.name] ?? "#4b6080"} />)}
+                        {barData.map((e) => <Cell key={e.name} fill={categoryColor(e.name)} />)}
                       </Bar>
                     </BarChart>
                   </ResponsiveContainer>
@@ -550,10 +1149,31 @@ export default function DashboardPage() {
                                 <div className="flex items-center gap-2 flex-wrap">
                                   <CategoryPill category={a.riskCategory} />
                                   <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>{a.source}</span>
+                                  {(a.sourceCount ?? 1) > 1 && (
+                                    <span className="text-xs" style={{ color: "var(--color-text-muted)" }}
+                                          title={a.sources?.map((s) => s.name).join(", ")}>
+                                      reported by {a.sourceCount} sources
+                                    </span>
+                                  )}
+                                  {(a.runCount ?? 1) > 1 && (
+                                    <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                                      seen in {a.runCount} runs
+                                    </span>
+                                  )}
                                   <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
                                     {formatDate(a.publishedAt)}
                                   </span>
+                                  {a.explanation && (
+                                    <button className="text-xs underline-offset-2 hover:underline"
+                                            style={{ color: "var(--color-accent)" }}
+                                            onClick={() => setExplainIdx(explainIdx === i ? null : i)}>
+                                      {explainIdx === i ? "Hide explanation" : "Why this score?"}
+                                    </button>
+                                  )}
                                 </div>
+                                {explainIdx === i && a.explanation && (
+                                  <ExplanationPanel category={a.riskCategory} explanation={a.explanation} weighting={a.weighting} />
+                                )}
                               </div>
                               {/* Score */}
                               <div className="flex-shrink-0 text-right">
@@ -583,13 +1203,43 @@ export default function DashboardPage() {
                             No past assessments found.
                           </div>
                         ) : (
-                          history.map((row) => (
-                            <div key={row.id} className="px-5 py-4 transition-colors"
-                                 style={{ borderBottom: "1px solid var(--color-border)" }}
+                          <>
+                          <div className="px-5 py-2.5 flex items-center justify-between text-xs"
+                               style={{ borderBottom: "1px solid var(--color-border)", color: "var(--color-text-muted)" }}>
+                            <span>
+                              {compareIds.length === 2 ? "2 runs selected" : "Tick two runs to compare them"}
+                            </span>
+                            <span className="ml-auto mr-3">
+                              Export all:{" "}
+                              <a href="/api/assessments/export?format=csv" download onClick={handleDownload} className="hover:underline" style={{ color: "var(--color-accent)" }}>CSV</a>
+                              {" · "}
+                              <a href="/api/assessments/export?format=jsonl" download onClick={handleDownload} className="hover:underline" style={{ color: "var(--color-accent)" }}>JSONL</a>
+                            </span>
+                            <button onClick={handleCompare} disabled={compareIds.length !== 2 || comparing}
+                                    className="px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                                    style={{ color: "#e8edfb", border: "1px solid var(--color-border)", backgroundColor: "rgba(59,123,250,0.15)" }}>
+                              {comparing ? "Comparing…" : "Compare"}
+                            </button>
+                          </div>
+                          {history.map((row) => (
+                            <div key={row.id} className="px-5 py-4 transition-colors cursor-pointer"
+                                 role="button" tabIndex={0}
+                                 onClick={() => openAssessment(row.id)}
+                                 onKeyDown={(e) => { if (e.key === "Enter") openAssessment(row.id); }}
+                                 style={{
+                                   borderBottom   : "1px solid var(--color-border)",
+                                   borderLeft     : row.id === assessment.assessmentId ? "2px solid var(--color-accent)" : "2px solid transparent",
+                                   opacity        : openingId === row.id ? 0.6 : 1,
+                                 }}
                                  onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = "var(--color-surface-alt)")}
                                  onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = "transparent")}>
                               <div className="flex items-center justify-between mb-2">
                                 <div className="flex items-center gap-2 flex-wrap">
+                                  <input type="checkbox" aria-label="Select for comparison"
+                                         checked={compareIds.includes(row.id)}
+                                         onClick={(e) => e.stopPropagation()}
+                                         onKeyDown={(e) => e.stopPropagation()}
+                                         onChange={() => toggleCompare(row.id)} />
                                   <LevelBadge level={row.impact_level} />
                                   <span className="text-sm font-bold" style={{ fontFamily: "Sora, sans-serif", color: LEVEL_COLOR[row.impact_level] }}>
                                     {Math.round(row.overall_score)}
@@ -598,6 +1248,11 @@ export default function DashboardPage() {
                                   <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
                                     {row.article_count} articles
                                   </span>
+                                  {row.triggered_by_email && row.triggered_by_email !== userEmail && (
+                                    <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                                      by {row.triggered_by_email}
+                                    </span>
+                                  )}
                                 </div>
                                 <span className="text-xs font-mono" style={{ color: "var(--color-text-dim)" }}>
                                   {formatDate(row.created_at)}
@@ -609,7 +1264,8 @@ export default function DashboardPage() {
                                 </p>
                               )}
                             </div>
-                          ))
+                          ))}
+                          </>
                         )}
                       </div>
                     )}
@@ -618,6 +1274,12 @@ export default function DashboardPage() {
 
               </div>
             </div>
+
+            {/* Compare */}
+            {comparison && <CompareCard comparison={comparison} onClose={() => setComparison(null)} />}
+
+            {/* Trends */}
+            <TrendsCard refreshKey={assessment.assessmentId} />
           </div>
         )}
       </main>
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+
+interface Session {
+  id        : string;
+  device    : string;
+  userAgent : string;
+  ipAddress : string;
+  createdAt : string;
+  lastSeenAt: string;
+  current   : boolean;
+}
+
+function formatRelative(iso: string) {
+  const diff = Date.now() - new Date(iso).getTime();
+  const mins  = Math.floor(diff / 60000);
+  if (mins < 1)  return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs  < 24) return `${hrs}h ago`;
+  return `${Math.floor(hrs / 24)}d ago`;
+}
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading,  setLoading]  = useState(true);
+  const [busyId,   setBusyId]   = useState<string | null>(null);
+  const [error,    setError]    = useState("");
+
+  const load = useCallback(async () => {
+    setError("");
+    try {
+      const res = await apiFetch("/api/auth/sessions");
+      if (res.status === 401) { router.push("/login"); return; }
+      const d = await res.json();
+      if (!res.ok) setError(d.error ?? "Could not load sessions.");
+      else setSessions(d.sessions);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function revoke(session: Session) {
+    setBusyId(session.id);
+    setError("");
+    try {
+      const res = await apiFetch(`/api/auth/sessions/${session.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const d = await res.json().catch(() => ({}));
+        setError(d.error ?? "Could not revoke the session.");
+        return;
+      }
+      if (session.current) { router.push("/login"); return; }
+      setSessions((list) => list.filter((s) => s.id !== session.id));
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function signOutEverywhere() {
+    if (!window.confirm("Sign out of every device, including this one?")) return;
+    setBusyId("*");
+    try {
+      await apiFetch("/api/auth/sessions", { method: "DELETE" });
+    } finally {
+      router.push("/login");
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--color-bg)" }}>
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-10 space-y-6">
+
+        <div className="flex items-center gap-4">
+          <div className="mr-auto">
+            <Link href="/dashboard" className="text-xs hover:underline" style={{ color: "var(--color-accent)" }}>
+              ← Dashboard
+            </Link>
+            <h1 className="text-xl font-semibold mt-2" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+              Sessions
+            </h1>
+            <p className="text-sm mt-1" style={{ color: "var(--color-text-muted)" }}>
+              Devices currently signed in to your account.
+            </p>
+          </div>
+          <button onClick={signOutEverywhere} disabled={busyId !== null || loading}
+                  className="text-sm px-3 py-2 rounded-lg transition-colors disabled:opacity-40"
+                  style={{ color: "#f87171", border: "1px solid rgba(240,77,77,0.3)", backgroundColor: "rgba(240,77,77,0.08)" }}>
+            Sign out everywhere
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-xl px-5 py-4 text-sm"
+               style={{ backgroundColor: "rgba(240,77,77,0.08)", border: "1px solid rgba(240,77,77,0.25)", color: "#f87171" }}>
+            {error}
+          </div>
+        )}
+
+        <div className="card">
+          {loading ? (
+            <div className="p-5 space-y-3">
+              {[0, 1, 2].map((i) => <div key={i} className="skeleton h-12" />)}
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="p-5 text-sm" style={{ color: "var(--color-text-muted)" }}>No active sessions.</p>
+          ) : (
+            <ul>
+              {sessions.map((s, i) => (
+                <li key={s.id} className="px-5 py-4 flex items-center gap-4"
+                    style={{ borderTop: i === 0 ? "none" : "1px solid var(--color-border)" }}>
+                  <div className="mr-auto min-w-0">
+                    <div className="text-sm font-medium flex items-center gap-2" style={{ color: "var(--color-text)" }}>
+                      {s.device}
+                      {s.current && (
+                        <span className="pill" style={{ color: "#22d3a5", backgroundColor: "rgba(34,211,165,0.12)", border: "1px solid rgba(34,211,165,0.25)" }}>
+                          This device
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs mt-1 font-mono truncate" style={{ color: "var(--color-text-dim)" }} title={s.userAgent}>
+                      {s.ipAddress} · signed in {formatRelative(s.createdAt)} · active {formatRelative(s.lastSeenAt)}
+                    </div>
+                  </div>
+                  <button onClick={() => revoke(s)} disabled={busyId !== null}
+                          className="text-xs px-2.5 py-1 rounded-md transition-colors disabled:opacity-40"
+                          style={{ color: "#e8edfb", border: "1px solid var(--color-border)" }}>
+                    {busyId === s.id ? "Revoking…" : s.current ? "Sign out" : "Revoke"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
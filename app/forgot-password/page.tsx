@@ -0,0 +1,77 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import Link from "next/link";
+
+export default function ForgotPasswordPage() {
+  const [email,   setEmail]   = useState("");
+  const [sent,    setSent]    = useState(false);
+  const [error,   setError]   = useState("");
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      const res  = await fetch("/api/auth/password/forgot", {
+        method : "POST",
+        headers: { "Content-Type": "application/json" },
+        body   : JSON.stringify({ email }),
+      });
+      const data = await res.json();
+      if (!res.ok) setError(data.error ?? "Could not send the reset link.");
+      else setSent(true);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div style={{ minHeight:"100vh", display:"flex", alignItems:"center", justifyContent:"center", backgroundColor:"#07091a", padding:"24px" }}>
+      <div style={{ width:"100%", maxWidth:"400px" }}>
+        <div style={{ background:"#0d1230", border:"1px solid #1c2855", borderRadius:"16px", padding:"32px" }}>
+          <h2 style={{ color:"#e8edfb", fontSize:"18px", fontWeight:600, marginBottom:"12px", fontFamily:"sans-serif" }}>Reset your password</h2>
+
+          {sent ? (
+            <p style={{ color:"#6278a8", fontSize:"14px", lineHeight:1.6 }}>
+              If an account exists for <strong style={{ color:"#cdd8f6" }}>{email}</strong>, we have emailed it a link
+              to choose a new password. The link works once and expires soon.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <p style={{ color:"#6278a8", fontSize:"14px", marginBottom:"20px" }}>
+                Enter your account email and we will send you a reset link.
+              </p>
+              <div style={{ marginBottom:"16px" }}>
+                <label style={{ display:"block", color:"#6278a8", fontSize:"13px", marginBottom:"6px" }}>Email</label>
+                <input
+                  type="email" value={email} onChange={e => setEmail(e.target.value)}
+                  required placeholder="you@company.com"
+                  style={{ width:"100%", background:"#080c20", border:"1px solid #1c2855", borderRadius:"8px", padding:"10px 12px", color:"#cdd8f6", fontSize:"14px", outline:"none", boxSizing:"border-box" }}
+                />
+              </div>
+              {error && (
+                <div style={{ background:"rgba(240,77,77,0.1)", border:"1px solid rgba(240,77,77,0.3)", color:"#f87171", borderRadius:"8px", padding:"10px 12px", fontSize:"13px", marginBottom:"16px" }}>
+                  {error}
+                </div>
+              )}
+              <button
+                type="submit" disabled={loading}
+                style={{ width:"100%", background:"linear-gradient(135deg,#2d6cf5,#1a4fd8)", color:"white", border:"none", borderRadius:"8px", padding:"11px", fontSize:"14px", fontWeight:600, cursor: loading ? "not-allowed" : "pointer", opacity: loading ? 0.6 : 1 }}
+              >
+                {loading ? "Sending..." : "Send reset link"}
+              </button>
+            </form>
+          )}
+
+          <p style={{ textAlign:"center", color:"#6278a8", fontSize:"13px", marginTop:"20px" }}>
+            <Link href="/login" style={{ color:"#3b7bfa" }}>Back to sign in</Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+
+type State =
+  | { status: "joining" }
+  | { status: "joined"; name: string }
+  | { status: "signed_out" }
+  | { status: "failed"; message: string };
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<State>({ status: "joining" });
+  const sent = useRef(false);
+
+  // Invites are single-use, so never send twice (React runs effects twice in dev)
+  useEffect(() => {
+    if (sent.current) return;
+    sent.current = true;
+
+    apiFetch("/api/orgs/invites/accept", {
+      method : "POST",
+      headers: { "Content-Type": "application/json" },
+      body   : JSON.stringify({ token }),
+    })
+      .then(async (res) => {
+        const d = await res.json().catch(() => ({}));
+        if (res.status === 401) setState({ status: "signed_out" });
+        else if (!res.ok) setState({ status: "failed", message: d.error ?? "Could not accept the invite." });
+        else setState({ status: "joined", name: d.org.name });
+      })
+      .catch(() => setState({ status: "failed", message: "Network error. Please try again." }));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6" style={{ backgroundColor: "var(--color-bg)" }}>
+      <div className="card p-8 max-w-md w-full space-y-4 text-sm" style={{ color: "var(--color-text-muted)" }}>
+        <h1 className="text-lg font-semibold" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+          Organization invite
+        </h1>
+
+        {state.status === "joining" && <p>Joining…</p>}
+
+        {state.status === "joined" && (
+          <>
+            <p>You are now a member of <strong style={{ color: "#e8edfb" }}>{state.name}</strong>.</p>
+            <Link href="/dashboard" className="btn-primary inline-flex">Open dashboard</Link>
+          </>
+        )}
+
+        {state.status === "signed_out" && (
+          <p>
+            <Link href="/login" className="hover:underline" style={{ color: "var(--color-accent)" }}>Sign in</Link> or{" "}
+            <Link href="/register" className="hover:underline" style={{ color: "var(--color-accent)" }}>register</Link>{" "}
+            with the email address the invite was sent to, then open this link again.
+          </p>
+        )}
+
+        {state.status === "failed" && <p style={{ color: "#f87171" }}>{state.message}</p>}
+      </div>
+    </div>
+  );
+}
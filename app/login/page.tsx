@@ -63,6 +63,9 @@ export default function LoginPage() {
                 required placeholder="••••••••"
                 style={{ width:"100%", background:"#080c20", border:"1px solid #1c2855", borderRadius:"8px", padding:"10px 12px", color:"#cdd8f6", fontSize:"14px", outline:"none", boxSizing:"border-box" }}
               />
+              <div style={{ textAlign:"right", marginTop:"6px" }}>
+                <Link href="/forgot-password" style={{ color:"#3b7bfa", fontSize:"12px" }}>Forgot password?</Link>
+              </div>
             </div>
             {error && (
               <div style={{ background:"rgba(240,77,77,0.1)", border:"1px solid rgba(240,77,77,0.3)", color:"#f87171", borderRadius:"8px", padding:"10px 12px", fontSize:"13px", marginBottom:"16px" }}>
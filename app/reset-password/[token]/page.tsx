@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState("");
+  const [confirm,  setConfirm]  = useState("");
+  const [done,     setDone]     = useState(false);
+  const [error,    setError]    = useState("");
+  const [loading,  setLoading]  = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+    if (password !== confirm) { setError("Passwords do not match."); return; }
+    if (password.length < 8)  { setError("Password must be at least 8 characters."); return; }
+    setLoading(true);
+    try {
+      const res  = await fetch("/api/auth/password/reset", {
+        method : "POST",
+        headers: { "Content-Type": "application/json" },
+        body   : JSON.stringify({ token, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) setError(data.error ?? "Could not reset the password.");
+      else setDone(true);
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div style={{ minHeight:"100vh", display:"flex", alignItems:"center", justifyContent:"center", backgroundColor:"#07091a", padding:"24px" }}>
+      <div style={{ width:"100%", maxWidth:"400px" }}>
+        <div style={{ background:"#0d1230", border:"1px solid #1c2855", borderRadius:"16px", padding:"32px" }}>
+          <h2 style={{ color:"#e8edfb", fontSize:"18px", fontWeight:600, marginBottom:"24px", fontFamily:"sans-serif" }}>Choose a new password</h2>
+
+          {done ? (
+            <>
+              <p style={{ color:"#6278a8", fontSize:"14px", lineHeight:1.6, marginBottom:"20px" }}>
+                Your password has been changed and every device has been signed out.
+              </p>
+              <Link href="/login"
+                    style={{ display:"block", textAlign:"center", background:"linear-gradient(135deg,#2d6cf5,#1a4fd8)", color:"white", borderRadius:"8px", padding:"11px", fontSize:"14px", fontWeight:600 }}>
+                Sign in
+              </Link>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div style={{ marginBottom:"16px" }}>
+                <label style={{ display:"block", color:"#6278a8", fontSize:"13px", marginBottom:"6px" }}>New password</label>
+                <input
+                  type="password" value={password} onChange={e => setPassword(e.target.value)}
+                  required placeholder="Min. 8 characters" autoComplete="new-password"
+                  style={{ width:"100%", background:"#080c20", border:"1px solid #1c2855", borderRadius:"8px", padding:"10px 12px", color:"#cdd8f6", fontSize:"14px", outline:"none", boxSizing:"border-box" }}
+                />
+              </div>
+              <div style={{ marginBottom:"16px" }}>
+                <label style={{ display:"block", color:"#6278a8", fontSize:"13px", marginBottom:"6px" }}>Confirm password</label>
+                <input
+                  type="password" value={confirm} onChange={e => setConfirm(e.target.value)}
+                  required placeholder="••••••••" autoComplete="new-password"
+                  style={{ width:"100%", background:"#080c20", border:"1px solid #1c2855", borderRadius:"8px", padding:"10px 12px", color:"#cdd8f6", fontSize:"14px", outline:"none", boxSizing:"border-box" }}
+                />
+              </div>
+              {error && (
+                <div style={{ background:"rgba(240,77,77,0.1)", border:"1px solid rgba(240,77,77,0.3)", color:"#f87171", borderRadius:"8px", padding:"10px 12px", fontSize:"13px", marginBottom:"16px" }}>
+                  {error}
+                </div>
+              )}
+              <button
+                type="submit" disabled={loading}
+                style={{ width:"100%", background:"linear-gradient(135deg,#2d6cf5,#1a4fd8)", color:"white", border:"none", borderRadius:"8px", padding:"11px", fontSize:"14px", fontWeight:600, cursor: loading ? "not-allowed" : "pointer", opacity: loading ? 0.6 : 1 }}
+              >
+                {loading ? "Saving..." : "Set new password"}
+              </button>
+              <p style={{ textAlign:"center", color:"#6278a8", fontSize:"13px", marginTop:"20px" }}>
+                Link expired?{" "}
+                <Link href="/forgot-password" style={{ color:"#3b7bfa" }}>Request a new one</Link>
+              </p>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
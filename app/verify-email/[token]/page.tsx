@@ -0,0 +1,64 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { apiFetch } from "@/lib/apiClient";
+
+type State =
+  | { status: "verifying" }
+  | { status: "verified"; email: string }
+  | { status: "failed"; message: string };
+
+export default function VerifyEmailPage() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<State>({ status: "verifying" });
+  const sent = useRef(false);
+
+  // Links are single-use, so never send twice (React runs effects twice in dev)
+  useEffect(() => {
+    if (sent.current) return;
+    sent.current = true;
+
+    apiFetch("/api/auth/verify-email", {
+      method : "POST",
+      headers: { "Content-Type": "application/json" },
+      body   : JSON.stringify({ token }),
+    })
+      .then(async (res) => {
+        const d = await res.json().catch(() => ({}));
+        if (!res.ok) setState({ status: "failed", message: d.error ?? "Could not verify the email address." });
+        else setState({ status: "verified", email: d.email });
+      })
+      .catch(() => setState({ status: "failed", message: "Network error. Please try again." }));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6" style={{ backgroundColor: "var(--color-bg)" }}>
+      <div className="card p-8 max-w-md w-full space-y-4 text-sm" style={{ color: "var(--color-text-muted)" }}>
+        <h1 className="text-lg font-semibold" style={{ fontFamily: "Sora, sans-serif", color: "#e8edfb" }}>
+          Email verification
+        </h1>
+
+        {state.status === "verifying" && <p>Verifying…</p>}
+
+        {state.status === "verified" && (
+          <>
+            <p><strong style={{ color: "#e8edfb" }}>{state.email}</strong> is verified.</p>
+            <Link href="/dashboard" className="btn-primary inline-flex">Open dashboard</Link>
+          </>
+        )}
+
+        {state.status === "failed" && (
+          <>
+            <p style={{ color: "#f87171" }}>{state.message}</p>
+            <p>
+              Signed in? Request a new link from your{" "}
+              <Link href="/dashboard/account" className="hover:underline" style={{ color: "var(--color-accent)" }}>account page</Link>.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
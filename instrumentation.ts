@@ -0,0 +1,15 @@
+/**
+ * instrumentation.ts
+ * Next.js server start-up hook. Boots the background scheduler on the
+ * Node.js runtime when SCHEDULER_ENABLED=true. Run it on exactly the
+ * instances that should execute jobs (claims are safe across several).
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (process.env.SCHEDULER_ENABLED !== "true") return;
+
+  const { scheduler } = await import("./lib/scheduler");
+  const interval = parseInt(process.env.SCHEDULER_INTERVAL_MS ?? "", 10);
+  scheduler.start(Number.isFinite(interval) && interval > 0 ? interval : undefined);
+}
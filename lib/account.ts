@@ -0,0 +1,268 @@
+/**
+ * lib/account.ts
+ * Self-service account flows that go through email: address
+ * verification, forgotten-password reset, and changing the password while
+ * signed in.
+ *
+ * Emailed links carry a random token; only its SHA-256 is stored in
+ * email_tokens, and each token works once. Verification links last
+ * EMAIL_VERIFY_TTL_HOURS (default 48), reset links
+ * PASSWORD_RESET_TTL_MINUTES (default 60), and requesting a new reset
+ * link cancels the previous one.
+ *
+ * A verified address is what lets an ADMIN_EMAILS account become an
+ * admin. Setting a new password ends the user's other sessions; a reset
+ * ends all of them, also clears any login lockout, and counts as
+ * verifying the address, since the link could only be read there.
+ */
+
+import bcrypt from "bcryptjs";
+import { createHash, randomBytes } from "crypto";
+import { RowDataPacket } from "mysql2";
+import type { PoolConnection } from "mysql2/promise";
+import db from "./db";
+import { auditLog } from "./auditLog";
+import { getMailer } from "./mailer";
+import { logger } from "./logger";
+import { sessionStore } from "./sessions";
+import { userStore } from "./users";
+import { NotFoundError, ValidationError } from "./errors";
+import { Role, isBootstrapAdmin } from "./roles";
+import { v } from "./validation";
+
+export type EmailTokenPurpose = "verify_email" | "reset_password";
+
+interface TokenRow extends RowDataPacket {
+  id        : number;
+  user_id   : number;
+  email     : string;
+  expires_at: Date;
+  used_at   : Date | null;
+}
+
+interface AccountRow extends RowDataPacket {
+  id               : number;
+  email            : string;
+  password_hash    : string;
+  role             : Role;
+  email_verified_at: Date | null;
+}
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+const TOKEN_TTL_MS: Record<EmailTokenPurpose, number> = {
+  verify_email  : envInt("EMAIL_VERIFY_TTL_HOURS", 48) * 60 * 60 * 1000,
+  reset_password: envInt("PASSWORD_RESET_TTL_MINUTES", 60) * 60 * 1000,
+};
+
+const BCRYPT_COST = 12;
+
+/** New passwords: 8 to 1024 characters, kept exactly as typed. */
+export function passwordField() {
+  return v.string({ min: 8, max: 1024, trim: false });
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** "48 hours", "1 hour", "30 minutes" */
+function describeTtl(ms: number): string {
+  const mins = Math.round(ms / 60_000);
+  if (mins % 60 !== 0) return `${mins} minutes`;
+  return mins === 60 ? "1 hour" : `${mins / 60} hours`;
+}
+
+class AccountStore {
+  /**
+   * Store a new single-use token for `userId` and return it. Outstanding
+   * tokens for the same purpose are cancelled.
+   */
+  private async issueToken(userId: number, email: string, purpose: EmailTokenPurpose): Promise<string> {
+    const token = randomBytes(32).toString("base64url");
+    const now   = new Date();
+
+    await db.query(
+      "UPDATE email_tokens SET used_at = ? WHERE user_id = ? AND purpose = ? AND used_at IS NULL",
+      [now, userId, purpose]
+    );
+    await db.query(
+      `INSERT INTO email_tokens (user_id, purpose, email, token_hash, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [userId, purpose, email, hashToken(token), new Date(now.getTime() + TOKEN_TTL_MS[purpose]), now]
+    );
+    return token;
+  }
+
+  /** Mark a token used inside `conn`'s transaction. Throws NotFoundError when it does not work. */
+  private async consumeToken(conn: PoolConnection, token: string, purpose: EmailTokenPurpose): Promise<TokenRow> {
+    const [rows] = await conn.query<TokenRow[]>(
+      `SELECT id, user_id, email, expires_at, used_at
+         FROM email_tokens WHERE token_hash = ? AND purpose = ? FOR UPDATE`,
+      [hashToken(token), purpose]
+    );
+    const row = rows[0];
+    if (!row || row.used_at || row.expires_at <= new Date()) {
+      throw new NotFoundError("This link is invalid or has expired.");
+    }
+    await conn.query("UPDATE email_tokens SET used_at = ? WHERE id = ?", [new Date(), row.id]);
+    return row;
+  }
+
+  private async account(userId: number): Promise<AccountRow | null> {
+    const [rows] = await db.query<AccountRow[]>(
+      "SELECT id, email, password_hash, role, email_verified_at FROM users WHERE id = ?",
+      [userId]
+    );
+    return rows[0] ?? null;
+  }
+
+  async isVerified(userId: number): Promise<boolean> {
+    return (await this.account(userId))?.email_verified_at != null;
+  }
+
+  /**
+   * Email a verification link to the user's address. Returns false (and
+   * sends nothing) when it is already verified.
+   */
+  async sendVerification(userId: number, baseUrl: string): Promise<boolean> {
+    const user = await this.account(userId);
+    if (!user || user.email_verified_at) return false;
+
+    const token = await this.issueToken(user.id, user.email, "verify_email");
+    await getMailer().send({
+      to     : user.email,
+      subject: "Confirm your email address",
+      text   : `Confirm the email address for your Event Intelligence account:\n\n` +
+               `${baseUrl}/verify-email/${token}\n\n` +
+               `The link expires in ${describeTtl(TOKEN_TTL_MS.verify_email)}. ` +
+               `If you did not create an account, ignore this email.`,
+    });
+    return true;
+  }
+
+  /**
+   * Verify the address a token was sent to. ADMIN_EMAILS accounts become
+   * admins here. Returns the account's email and (possibly new) role.
+   */
+  async verifyEmail(token: string, ip?: string): Promise<{ userId: number; email: string; role: Role }> {
+    const conn = await db.getConnection();
+    let row: TokenRow;
+    try {
+      await conn.beginTransaction();
+      row = await this.consumeToken(conn, token, "verify_email");
+      await conn.query(
+        "UPDATE users SET email_verified_at = COALESCE(email_verified_at, ?) WHERE id = ? AND email = ?",
+        [new Date(), row.user_id, row.email]
+      );
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    const user = await this.account(row.user_id);
+    if (!user?.email_verified_at) throw new NotFoundError("This link is invalid or has expired.");
+    auditLog.emailVerified(user.id, user.email, ip);
+
+    let role = user.role;
+    if (role !== "admin" && isBootstrapAdmin(user.email)) {
+      role = (await userStore.setRole(user.id, "admin", null, ip)).role;
+    }
+    return { userId: user.id, email: user.email, role };
+  }
+
+  /**
+   * Email a reset link when `email` belongs to an account. Unknown
+   * addresses are ignored silently, so the response cannot reveal which
+   * emails are registered.
+   */
+  async requestPasswordReset(email: string, baseUrl: string, ip?: string): Promise<void> {
+    const [rows] = await db.query<AccountRow[]>("SELECT id, email FROM users WHERE email = ?", [email]);
+    const user = rows[0];
+    if (!user) return;
+
+    const token = await this.issueToken(user.id, user.email, "reset_password");
+    // Not awaited, so the response time does not reveal whether the account exists
+    getMailer().send({
+      to     : user.email,
+      subject: "Reset your password",
+      text   : `Someone asked to reset the password for your Event Intelligence account.\n\n` +
+               `Choose a new password here:\n${baseUrl}/reset-password/${token}\n\n` +
+               `The link works once and expires in ${describeTtl(TOKEN_TTL_MS.reset_password)}. ` +
+               `If this was not you, ignore this email; your password is unchanged.`,
+    }).catch((err) => {
+      logger.error("Password reset email failed", { userId: user.id, error: err instanceof Error ? err.message : String(err) });
+    });
+    auditLog.passwordResetRequested(user.id, ip);
+  }
+
+  /**
+   * Set a new password from a reset link. Ends every session, clears a
+   * login lockout and marks the address verified. Returns the user id.
+   */
+  async resetPassword(token: string, password: string, ip?: string): Promise<number> {
+    const passwordHash = await bcrypt.hash(password, BCRYPT_COST);
+
+    const conn = await db.getConnection();
+    let row: TokenRow;
+    try {
+      await conn.beginTransaction();
+      row = await this.consumeToken(conn, token, "reset_password");
+      await conn.query(
+        `UPDATE users
+            SET password_hash = ?, failed_login_count = 0, locked_until = NULL,
+                email_verified_at = COALESCE(email_verified_at, ?)
+          WHERE id = ?`,
+        [passwordHash, new Date(), row.user_id]
+      );
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    const revoked = await sessionStore.revokeAll(row.user_id, "password_reset", ip);
+    auditLog.passwordChanged(row.user_id, "reset", revoked, ip);
+    return row.user_id;
+  }
+
+  /**
+   * Change the password of a signed-in user who knows the current one.
+   * Ends their other sessions; returns how many.
+   */
+  async changePassword(
+    user: { userId: number; jti: string },
+    currentPassword: string,
+    newPassword: string,
+    ip?: string
+  ): Promise<number> {
+    const account = await this.account(user.userId);
+    if (!account) throw new NotFoundError("Account not found.");
+
+    if (!(await bcrypt.compare(currentPassword, account.password_hash))) {
+      throw new ValidationError("Current password is incorrect.", { field: "currentPassword" });
+    }
+    if (currentPassword === newPassword) {
+      throw new ValidationError("The new password must be different.", { field: "newPassword" });
+    }
+
+    await db.query(
+      "UPDATE users SET password_hash = ? WHERE id = ?",
+      [await bcrypt.hash(newPassword, BCRYPT_COST), user.userId]
+    );
+
+    const revoked = await sessionStore.revokeAll(user.userId, "password_changed", ip, user.jti);
+    auditLog.passwordChanged(user.userId, "change", revoked, ip);
+    return revoked;
+  }
+}
+
+export const accountStore = new AccountStore();
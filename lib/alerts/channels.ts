@@ -0,0 +1,150 @@
+/**
+ * lib/alerts/channels.ts
+ * Delivery channels for matched alert rules.
+ *
+ *   webhook → JSON POST, signed with HMAC-SHA256 over "<timestamp>.<body>"
+ *             using the rule's secret (X-EIP-Signature / X-EIP-Timestamp)
+ *   slack   → Slack-compatible incoming-webhook payload ({ text, blocks })
+ *   email   → plain-text message through lib/mailer
+ *
+ * Webhook and Slack targets go through the address policy in ./targets.
+ * A channel throws on failure; retries are handled by the engine.
+ */
+
+import { createHmac } from "crypto";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { getMailer } from "../mailer";
+import { AlertChannelType, AlertRule, AssessmentSnapshot } from "./rules";
+import { assertDeliverableUrl, publicOnlyLookup } from "./targets";
+
+export interface AlertPayload {
+  rule      : { id: number; name: string; type: string };
+  reason    : string;
+  assessment: AssessmentSnapshot;
+  triggeredAt: string;
+}
+
+export interface DeliveryResult {
+  responseStatus?: number;
+}
+
+export interface AlertChannel {
+  deliver(rule: AlertRule, payload: AlertPayload): Promise<DeliveryResult>;
+}
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Signature verifiers recompute this over the raw request body. */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * POSTs through node:http(s) rather than fetch so every connection is made
+ * via publicOnlyLookup. Redirects are not followed: a 3xx counts as a
+ * failed delivery, since the next hop could be an internal address.
+ */
+function postJson(target: string, body: string, headers: Record<string, string> = {}): Promise<DeliveryResult> {
+  const url = assertDeliverableUrl(target);
+  const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = send(url, {
+      method : "POST",
+      headers: {
+        "Content-Type"  : "application/json",
+        "Content-Length": String(Buffer.byteLength(body)),
+        "User-Agent"    : "EventIntelligencePlatform/1.0",
+        ...headers,
+      },
+      lookup : publicOnlyLookup,
+      timeout: DELIVERY_TIMEOUT_MS,
+    }, (res) => {
+      const status = res.statusCode ?? 0;
+      let text = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => { if (text.length < 200) text += chunk; });
+      res.on("end", () => {
+        if (status >= 200 && status < 300) return resolve({ responseStatus: status });
+        const err = new Error(`HTTP ${status}: ${text.slice(0, 200)}`) as Error & { responseStatus?: number };
+        err.responseStatus = status;
+        reject(err);
+      });
+      res.on("error", reject);
+    });
+
+    req.on("timeout", () => req.destroy(new Error(`Timed out after ${DELIVERY_TIMEOUT_MS} ms`)));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function summaryLine(payload: AlertPayload): string {
+  const a = payload.assessment;
+  return `${a.impactLevel} risk · score ${a.overallScore} · dominant ${a.dominantCategory}`;
+}
+
+const webhookChannel: AlertChannel = {
+  async deliver(rule, payload) {
+    const body      = JSON.stringify(payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = { "X-EIP-Timestamp": timestamp };
+
+    if (rule.secret) {
+      headers["X-EIP-Signature"] = `sha256=${signPayload(rule.secret, timestamp, body)}`;
+    }
+
+    return postJson(rule.target, body, headers);
+  },
+};
+
+const slackChannel: AlertChannel = {
+  async deliver(rule, payload) {
+    const text = `:rotating_light: *${rule.name}* — ${payload.reason}`;
+
+    return postJson(rule.target, JSON.stringify({
+      text,
+      blocks: [
+        { type: "section", text: { type: "mrkdwn", text } },
+        {
+          type    : "context",
+          elements: [{ type: "mrkdwn", text: `${summaryLine(payload)} · assessment #${payload.assessment.assessmentId}` }],
+        },
+      ],
+    }));
+  },
+};
+
+const emailChannel: AlertChannel = {
+  async deliver(rule, payload) {
+    const breakdown = Object.entries(payload.assessment.categoryBreakdown)
+      .filter(([, pct]) => pct > 0)
+      .sort(([, a], [, b]) => b - a)
+      .map(([cat, pct]) => `  ${cat}: ${pct}%`)
+      .join("\n");
+
+    await getMailer().send({
+      to     : rule.target,
+      subject: `[EIP alert] ${rule.name}`,
+      text   : [
+        payload.reason,
+        "",
+        summaryLine(payload),
+        "",
+        "Category breakdown:",
+        breakdown,
+        "",
+        `Assessment #${payload.assessment.assessmentId} · ${payload.triggeredAt}`,
+      ].join("\n"),
+    });
+
+    return {};
+  },
+};
+
+export const CHANNELS: Record<AlertChannelType, AlertChannel> = {
+  webhook: webhookChannel,
+  slack  : slackChannel,
+  email  : emailChannel,
+};
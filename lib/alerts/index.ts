@@ -0,0 +1,117 @@
+/**
+ * lib/alerts/index.ts
+ * Alert engine: evaluates an organization's rules after each persisted assessment
+ * and delivers matches through the rule's channel.
+ *
+ * Every match gets an alert_deliveries row before the first attempt, so a
+ * crash mid-delivery still leaves a trace. Failed attempts are retried
+ * in-process with exponential backoff (MAX_ATTEMPTS in total).
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "../db";
+import { logger } from "../logger";
+import { AlertRule, AssessmentSnapshot, evaluateRule } from "./rules";
+import { CHANNELS, AlertPayload } from "./channels";
+import { alertStore } from "./store";
+
+export { alertStore } from "./store";
+export type { AlertRule, AssessmentSnapshot } from "./rules";
+
+const MAX_ATTEMPTS    = 3;
+const BASE_BACKOFF_MS = 2_000;
+
+interface PreviousRow extends RowDataPacket {
+  id                : number;
+  overall_score     : string;
+  impact_level      : AssessmentSnapshot["impactLevel"];
+  dominant_category : string;
+  category_breakdown: Record<string, number>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+class AlertEngine {
+  /**
+   * Evaluate all enabled rules of organization `orgId` against a freshly
+   * persisted run.
+   * Resolves once every matched rule has been delivered or given up on.
+   */
+  async evaluate(orgId: number, current: AssessmentSnapshot): Promise<void> {
+    const rules = await alertStore.listEnabledRules(orgId);
+    if (rules.length === 0) return;
+
+    const previous = await this.previousAssessment(orgId, current.assessmentId);
+
+    const matches: Array<{ rule: AlertRule; reason: string }> = [];
+    for (const rule of rules) {
+      const reason = evaluateRule(rule, current, previous);
+      if (reason) matches.push({ rule, reason });
+    }
+
+    await Promise.all(matches.map(({ rule, reason }) => this.dispatch(rule, reason, current)));
+  }
+
+  private async previousAssessment(orgId: number, beforeId: number): Promise<AssessmentSnapshot | null> {
+    const [rows] = await db.query<PreviousRow[]>(
+      `SELECT id, overall_score, impact_level, dominant_category, category_breakdown
+         FROM impact_assessments
+        WHERE org_id = ? AND id < ?
+        ORDER BY id DESC
+        LIMIT 1`,
+      [orgId, beforeId]
+    );
+
+    const r = rows[0];
+    if (!r) return null;
+
+    return {
+      assessmentId     : r.id,
+      overallScore     : Number(r.overall_score),
+      impactLevel      : r.impact_level,
+      dominantCategory : r.dominant_category,
+      categoryBreakdown: r.category_breakdown,
+    };
+  }
+
+  private async dispatch(rule: AlertRule, reason: string, current: AssessmentSnapshot): Promise<void> {
+    const payload: AlertPayload = {
+      rule       : { id: rule.id, name: rule.name, type: rule.ruleType },
+      reason,
+      assessment : current,
+      triggeredAt: new Date().toISOString(),
+    };
+
+    const deliveryId = await alertStore.createDelivery(rule.id, current.assessmentId, rule.channel, reason);
+    await alertStore.markTriggered(rule.id);
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        const result = await CHANNELS[rule.channel].deliver(rule, payload);
+        await alertStore.recordAttempt(deliveryId, { status: "delivered", responseStatus: result.responseStatus });
+        logger.info("Alert delivered", { ruleId: rule.id, deliveryId, channel: rule.channel, attempt });
+        return;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const final   = attempt === MAX_ATTEMPTS;
+
+        await alertStore.recordAttempt(deliveryId, {
+          status        : final ? "failed" : "pending",
+          responseStatus: (err as { responseStatus?: number }).responseStatus,
+          error         : message,
+        });
+
+        if (final) {
+          logger.warn("Alert delivery failed", { ruleId: rule.id, deliveryId, channel: rule.channel, error: message });
+          return;
+        }
+
+        await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+}
+
+export const alertEngine = new AlertEngine();
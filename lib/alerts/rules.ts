@@ -0,0 +1,170 @@
+/**
+ * lib/alerts/rules.ts
+ * Alert rule types, input validation and evaluation.
+ *
+ * Rule types:
+ *   score_threshold   { operator: "gte" | "lte", value }  overallScore ≥ / ≤ value
+ *   level_transition  { to, from? }                     impactLevel changed into `to`
+ *   category_shift    { category, delta }               category share moved by ≥ delta
+ *                                                        points vs. previous run
+ *                                                        (negative delta = a fall)
+ *
+ * Transition and shift rules need a previous run; on an organization's first run
+ * they never fire.
+ */
+
+import { ImpactLevel } from "../classifier";
+import { ValidationError } from "../errors";
+
+export type AlertRuleType = "score_threshold" | "level_transition" | "category_shift";
+export type AlertChannelType = "webhook" | "email" | "slack";
+
+export interface ScoreThresholdParams  { operator: "gte" | "lte"; value: number }
+export interface LevelTransitionParams { to: ImpactLevel; from?: ImpactLevel }
+export interface CategoryShiftParams   { category: string; delta: number }
+
+export type AlertRuleParams = ScoreThresholdParams | LevelTransitionParams | CategoryShiftParams;
+
+export interface AlertRule {
+  id       : number;
+  orgId    : number;
+  userId   : number;   // creator
+  name     : string;
+  ruleType : AlertRuleType;
+  params   : AlertRuleParams;
+  channel  : AlertChannelType;
+  target   : string;
+  secret   : string | null;
+  enabled  : boolean;
+}
+
+/** The parts of an assessment a rule can look at. */
+export interface AssessmentSnapshot {
+  assessmentId     : number;
+  overallScore     : number;
+  impactLevel      : ImpactLevel;
+  dominantCategory : string;
+  categoryBreakdown: Record<string, number>;
+}
+
+const RULE_TYPES: AlertRuleType[]    = ["score_threshold", "level_transition", "category_shift"];
+const CHANNELS  : AlertChannelType[] = ["webhook", "email", "slack"];
+const LEVELS    : ImpactLevel[]      = ["LOW", "MEDIUM", "HIGH"];
+
+// ─── Validation ───────────────────────────────────────────────────
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+export function validateRuleType(value: unknown): AlertRuleType {
+  if (!RULE_TYPES.includes(value as AlertRuleType)) {
+    throw new ValidationError(`ruleType must be one of ${RULE_TYPES.join(", ")}.`, { field: "ruleType" });
+  }
+  return value as AlertRuleType;
+}
+
+export function validateChannel(channel: unknown, target: unknown): { channel: AlertChannelType; target: string } {
+  if (!CHANNELS.includes(channel as AlertChannelType)) {
+    throw new ValidationError(`channel must be one of ${CHANNELS.join(", ")}.`, { field: "channel" });
+  }
+  if (typeof target !== "string" || !target.trim() || target.length > 1000) {
+    throw new ValidationError("target is required.", { field: "target" });
+  }
+
+  const t = target.trim();
+  if (channel === "email" && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(t)) {
+    throw new ValidationError("target must be an email address for the email channel.", { field: "target" });
+  }
+  if (channel !== "email" && !isHttpUrl(t)) {
+    throw new ValidationError("target must be an http(s) URL for webhook and slack channels.", { field: "target" });
+  }
+
+  return { channel: channel as AlertChannelType, target: t };
+}
+
+export function validateRuleParams(ruleType: AlertRuleType, raw: unknown): AlertRuleParams {
+  const p = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+
+  switch (ruleType) {
+    case "score_threshold": {
+      if (p.operator !== "gte" && p.operator !== "lte") {
+        throw new ValidationError('params.operator must be "gte" or "lte".', { field: "params.operator" });
+      }
+      if (typeof p.value !== "number" || p.value < 0 || p.value > 100) {
+        throw new ValidationError("params.value must be a number between 0 and 100.", { field: "params.value" });
+      }
+      return { operator: p.operator, value: p.value };
+    }
+
+    case "level_transition": {
+      if (!LEVELS.includes(p.to as ImpactLevel)) {
+        throw new ValidationError("params.to must be LOW, MEDIUM or HIGH.", { field: "params.to" });
+      }
+      if (p.from !== undefined && !LEVELS.includes(p.from as ImpactLevel)) {
+        throw new ValidationError("params.from must be LOW, MEDIUM or HIGH.", { field: "params.from" });
+      }
+      if (p.from === p.to) {
+        throw new ValidationError("params.from and params.to must differ.", { field: "params.from" });
+      }
+      return { to: p.to as ImpactLevel, ...(p.from !== undefined && { from: p.from as ImpactLevel }) };
+    }
+
+    case "category_shift": {
+      if (typeof p.category !== "string" || !p.category.trim()) {
+        throw new ValidationError("params.category is required.", { field: "params.category" });
+      }
+      if (typeof p.delta !== "number" || p.delta === 0 || Math.abs(p.delta) > 100) {
+        throw new ValidationError("params.delta must be a non-zero number between -100 and 100.", { field: "params.delta" });
+      }
+      return { category: p.category.trim(), delta: p.delta };
+    }
+  }
+}
+
+// ─── Evaluation ───────────────────────────────────────────────────
+
+/**
+ * Returns a human-readable reason when the rule matches, otherwise null.
+ */
+export function evaluateRule(
+  rule: Pick<AlertRule, "ruleType" | "params">,
+  current: AssessmentSnapshot,
+  previous: AssessmentSnapshot | null
+): string | null {
+  switch (rule.ruleType) {
+    case "score_threshold": {
+      const { operator, value } = rule.params as ScoreThresholdParams;
+      const hit = operator === "gte" ? current.overallScore >= value : current.overallScore <= value;
+      return hit
+        ? `Overall score ${current.overallScore} is ${operator === "gte" ? "≥" : "≤"} ${value}.`
+        : null;
+    }
+
+    case "level_transition": {
+      const { to, from } = rule.params as LevelTransitionParams;
+      if (!previous || current.impactLevel !== to || previous.impactLevel === to) return null;
+      if (from && previous.impactLevel !== from) return null;
+      return `Impact level moved from ${previous.impactLevel} to ${current.impactLevel}.`;
+    }
+
+    case "category_shift": {
+      const { category, delta } = rule.params as CategoryShiftParams;
+      if (!previous) return null;
+
+      const before = previous.categoryBreakdown[category] ?? 0;
+      const after  = current.categoryBreakdown[category] ?? 0;
+      const moved  = after - before;
+
+      const hit = delta > 0 ? moved >= delta : moved <= delta;
+      return hit
+        ? `${category} share ${moved > 0 ? "rose" : "fell"} ${Math.abs(moved)} points (${before}% → ${after}%).`
+        : null;
+    }
+  }
+}
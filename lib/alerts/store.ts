@@ -0,0 +1,256 @@
+/**
+ * lib/alerts/store.ts
+ * Data access for alert rules and the delivery log. Scoped to the owning
+ * organization; user_id records which member created a rule.
+ */
+
+import { randomBytes } from "crypto";
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import db from "../db";
+import {
+  AlertRule, AlertRuleType, AlertRuleParams, AlertChannelType,
+  validateRuleType, validateRuleParams, validateChannel,
+} from "./rules";
+import { ValidationError } from "../errors";
+import { assertPublicTarget } from "./targets";
+
+interface AlertRuleRow extends RowDataPacket {
+  id       : number;
+  org_id   : number;
+  user_id  : number;
+  name     : string;
+  rule_type: AlertRuleType;
+  params   : AlertRuleParams;
+  channel  : AlertChannelType;
+  target   : string;
+  secret   : string | null;
+  enabled  : number;
+  last_triggered_at: Date | null;
+  created_at: Date;
+}
+
+interface DeliveryRow extends RowDataPacket {
+  id             : number;
+  rule_id        : number;
+  assessment_id  : number;
+  channel        : AlertChannelType;
+  status         : "pending" | "delivered" | "failed";
+  attempts       : number;
+  response_status: number | null;
+  reason         : string;
+  error          : string | null;
+  created_at     : Date;
+  delivered_at   : Date | null;
+}
+
+export interface AlertRuleInput {
+  name?    : unknown;
+  ruleType?: unknown;
+  params?  : unknown;
+  channel? : unknown;
+  target?  : unknown;
+  enabled? : unknown;
+}
+
+const MAX_RULES_PER_ORG = 50;
+
+function toRule(r: AlertRuleRow): AlertRule & { lastTriggeredAt: Date | null; createdAt: Date } {
+  return {
+    id      : r.id,
+    orgId   : r.org_id,
+    userId  : r.user_id,
+    name    : r.name,
+    ruleType: r.rule_type,
+    params  : r.params,
+    channel : r.channel,
+    target  : r.target,
+    secret  : r.secret,
+    enabled : r.enabled === 1,
+    lastTriggeredAt: r.last_triggered_at,
+    createdAt      : r.created_at,
+  };
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== "string" || !name.trim() || name.length > 120) {
+    throw new ValidationError("name must be 1-120 characters.", { field: "name" });
+  }
+  return name.trim();
+}
+
+function validateEnabled(enabled: unknown): boolean {
+  if (typeof enabled !== "boolean") {
+    throw new ValidationError("enabled must be a boolean.", { field: "enabled" });
+  }
+  return enabled;
+}
+
+/** Webhook signing secret; shown to the owner so receivers can verify. */
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+const RULE_COLUMNS =
+  "id, org_id, user_id, name, rule_type, params, channel, target, secret, enabled, last_triggered_at, created_at";
+
+class AlertStore {
+  async listRules(orgId: number) {
+    const [rows] = await db.query<AlertRuleRow[]>(
+      `SELECT ${RULE_COLUMNS} FROM alert_rules WHERE org_id = ? ORDER BY created_at DESC`,
+      [orgId]
+    );
+    return rows.map(toRule);
+  }
+
+  async listEnabledRules(orgId: number) {
+    const [rows] = await db.query<AlertRuleRow[]>(
+      `SELECT ${RULE_COLUMNS} FROM alert_rules WHERE org_id = ? AND enabled = 1`,
+      [orgId]
+    );
+    return rows.map(toRule);
+  }
+
+  async getRule(orgId: number, id: number) {
+    const [rows] = await db.query<AlertRuleRow[]>(
+      `SELECT ${RULE_COLUMNS} FROM alert_rules WHERE id = ? AND org_id = ?`,
+      [id, orgId]
+    );
+    return rows[0] ? toRule(rows[0]) : null;
+  }
+
+  async createRule(orgId: number, userId: number, input: AlertRuleInput) {
+    const name     = validateName(input.name);
+    const ruleType = validateRuleType(input.ruleType);
+    const params   = validateRuleParams(ruleType, input.params);
+    const { channel, target } = validateChannel(input.channel, input.target);
+    if (channel !== "email") await assertPublicTarget(target);
+    const enabled  = input.enabled === undefined ? true : validateEnabled(input.enabled);
+
+    const [countRows] = await db.query<RowDataPacket[]>(
+      "SELECT COUNT(*) AS total FROM alert_rules WHERE org_id = ?",
+      [orgId]
+    );
+    if ((countRows[0]?.total as number) >= MAX_RULES_PER_ORG) {
+      throw new ValidationError(`An organization may have at most ${MAX_RULES_PER_ORG} alert rules.`);
+    }
+
+    const [result] = await db.query<ResultSetHeader>(
+      `INSERT INTO alert_rules (org_id, user_id, name, rule_type, params, channel, target, secret, enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        orgId, userId, name, ruleType, JSON.stringify(params), channel, target,
+        channel === "webhook" ? generateSecret() : null,
+        enabled ? 1 : 0,
+      ]
+    );
+
+    return (await this.getRule(orgId, result.insertId))!;
+  }
+
+  async updateRule(orgId: number, id: number, input: AlertRuleInput) {
+    const current = await this.getRule(orgId, id);
+    if (!current) return null;
+
+    const name     = input.name === undefined ? current.name : validateName(input.name);
+    const ruleType = input.ruleType === undefined ? current.ruleType : validateRuleType(input.ruleType);
+    // Changing the type invalidates the old params, so they must be resent.
+    const params   = input.params === undefined && ruleType === current.ruleType
+      ? current.params
+      : validateRuleParams(ruleType, input.params);
+    const { channel, target } = validateChannel(
+      input.channel ?? current.channel,
+      input.target ?? current.target
+    );
+    if (channel !== "email") await assertPublicTarget(target);
+    const enabled  = input.enabled === undefined ? current.enabled : validateEnabled(input.enabled);
+    const secret   = channel === "webhook" ? (current.secret ?? generateSecret()) : null;
+
+    await db.query(
+      `UPDATE alert_rules
+          SET name = ?, rule_type = ?, params = ?, channel = ?, target = ?, secret = ?, enabled = ?
+        WHERE id = ? AND org_id = ?`,
+      [name, ruleType, JSON.stringify(params), channel, target, secret, enabled ? 1 : 0, id, orgId]
+    );
+
+    return this.getRule(orgId, id);
+  }
+
+  async deleteRule(orgId: number, id: number): Promise<boolean> {
+    const [result] = await db.query<ResultSetHeader>(
+      "DELETE FROM alert_rules WHERE id = ? AND org_id = ?",
+      [id, orgId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async markTriggered(ruleId: number): Promise<void> {
+    await db.query("UPDATE alert_rules SET last_triggered_at = UTC_TIMESTAMP() WHERE id = ?", [ruleId]);
+  }
+
+  async createDelivery(ruleId: number, assessmentId: number, channel: AlertChannelType, reason: string): Promise<number> {
+    const [result] = await db.query<ResultSetHeader>(
+      `INSERT INTO alert_deliveries (rule_id, assessment_id, channel, reason) VALUES (?, ?, ?, ?)`,
+      [ruleId, assessmentId, channel, reason.slice(0, 500)]
+    );
+    return result.insertId;
+  }
+
+  async recordAttempt(
+    deliveryId: number,
+    outcome: { status: "pending" | "delivered" | "failed"; responseStatus?: number; error?: string }
+  ): Promise<void> {
+    await db.query(
+      `UPDATE alert_deliveries
+          SET attempts        = attempts + 1,
+              status          = ?,
+              response_status = ?,
+              error           = ?,
+              delivered_at    = IF(? = 'delivered', UTC_TIMESTAMP(), delivered_at)
+        WHERE id = ?`,
+      [
+        outcome.status,
+        outcome.responseStatus ?? null,
+        outcome.error?.slice(0, 2000) ?? null,
+        outcome.status,
+        deliveryId,
+      ]
+    );
+  }
+
+  async listDeliveries(orgId: number, opts: { ruleId?: number; limit?: number } = {}) {
+    const conditions = ["r.org_id = ?"];
+    const params: number[] = [orgId];
+
+    if (opts.ruleId !== undefined) {
+      conditions.push("d.rule_id = ?");
+      params.push(opts.ruleId);
+    }
+
+    const [rows] = await db.query<DeliveryRow[]>(
+      `SELECT d.id, d.rule_id, d.assessment_id, d.channel, d.status, d.attempts,
+              d.response_status, d.reason, d.error, d.created_at, d.delivered_at
+         FROM alert_deliveries d
+         JOIN alert_rules r ON r.id = d.rule_id
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY d.created_at DESC, d.id DESC
+        LIMIT ?`,
+      [...params, Math.min(opts.limit ?? 50, 200)]
+    );
+
+    return rows.map((d) => ({
+      id            : d.id,
+      ruleId        : d.rule_id,
+      assessmentId  : d.assessment_id,
+      channel       : d.channel,
+      status        : d.status,
+      attempts      : d.attempts,
+      responseStatus: d.response_status,
+      reason        : d.reason,
+      error         : d.error,
+      createdAt     : d.created_at,
+      deliveredAt   : d.delivered_at,
+    }));
+  }
+}
+
+export const alertStore = new AlertStore();
@@ -0,0 +1,118 @@
+/**
+ * lib/alerts/targets.ts
+ * Outbound address policy for webhook and Slack targets.
+ *
+ * The server POSTs to URLs chosen by analysts, so a target must not reach
+ * loopback, private, link-local or otherwise internal addresses (cloud
+ * metadata at 169.254.169.254 included). Targets are checked when a rule
+ * is saved, and every connection made at delivery time goes through
+ * publicOnlyLookup, so a hostname re-pointed at an internal address after
+ * the rule was saved is still refused. Production requires https.
+ */
+
+import { BlockList, LookupFunction, isIP } from "net";
+import { LookupAddress, lookup, promises as dnsPromises } from "dns";
+import { ValidationError } from "../errors";
+
+const BLOCKED = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0",     8],  // "this" network
+  ["10.0.0.0",    8],  // private
+  ["100.64.0.0",  10], // carrier-grade NAT
+  ["127.0.0.0",   8],  // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0",  12], // private
+  ["192.0.0.0",   24], // IETF protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0",  15], // benchmarking
+  ["224.0.0.0",   4],  // multicast
+  ["240.0.0.0",   4],  // reserved, broadcast
+] as const) {
+  BLOCKED.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::",        128], // unspecified
+  ["::1",       128], // loopback
+  ["64:ff9b::",  96], // NAT64
+  ["fc00::",      7], // unique local
+  ["fe80::",     10], // link-local
+  ["ff00::",      8], // multicast
+] as const) {
+  BLOCKED.addSubnet(net, prefix, "ipv6");
+}
+// BlockList matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 rules.
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function requireHttps(): boolean {
+  return process.env.NODE_ENV === "production";
+}
+
+/** Strips the brackets URL keeps around IPv6 literals. */
+export function targetHost(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "");
+}
+
+/**
+ * Checks the scheme and every address the host currently resolves to.
+ * Throws a ValidationError on the target field; used when a rule is saved.
+ */
+export async function assertPublicTarget(target: string): Promise<URL> {
+  const url = new URL(target);
+  if (requireHttps() && url.protocol !== "https:") {
+    throw new ValidationError("target must be an https URL.", { field: "target" });
+  }
+
+  const host = targetHost(url);
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await dnsPromises.lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    throw new ValidationError(`target host ${host} could not be resolved.`, { field: "target" });
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new ValidationError("target must not point to a loopback, private or link-local address.", { field: "target" });
+  }
+  return url;
+}
+
+/**
+ * dns.lookup replacement for outbound requests: resolves as usual and
+ * fails the connection if any returned address is blocked.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 4);
+
+    const blocked = addresses.find((a) => isBlockedAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      const reason = blocked ? `${hostname} resolves to blocked address ${blocked.address}` : `${hostname} did not resolve`;
+      return callback(Object.assign(new Error(reason), { code: "EADDRBLOCKED" }), "", 4);
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, all: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** Synchronous part of the policy, re-checked before each delivery. */
+export function assertDeliverableUrl(target: string): URL {
+  const url = new URL(target);
+  if (url.protocol !== "https:" && (requireHttps() || url.protocol !== "http:")) {
+    throw new Error(`Refusing to deliver to ${url.protocol} target.`);
+  }
+  // IP literals never go through the lookup hook, so they are checked here.
+  const host = targetHost(url);
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new Error(`Refusing to deliver to blocked address ${host}.`);
+  }
+  return url;
+}
@@ -0,0 +1,237 @@
+/**
+ * lib/analysisService.ts
+ * The analysis pipeline, shared by POST /api/analyze and the scheduler.
+ *
+ *   1. Fetch news from every configured source (lib/sources)
+ *   2. Deduplicate syndicated copies (lib/dedup)
+ *      and classify articles against the active taxonomy
+ *      (deterministic — lib/classifier, lib/taxonomy)
+ *   3. Generate AI summary (Gemini — lib/gemini)
+ *   4. Persist to MySQL inside a single transaction
+ *   5. Evaluate alert rules (lib/alerts) in the background
+ */
+
+import { fetchFromSources, SourceReport } from "./sources";
+import { classifyArticles, ClassifiedArticle, CategoryBreakdown, ImpactLevel, RiskCategory } from "./classifier";
+import { dedupeArticles, canonicalUrlHash } from "./dedup";
+import { taxonomyStore } from "./taxonomy";
+import { createWeighting, weightingEnabledByDefault, WeightingConfig } from "./weighting";
+import { generateExecutiveSummary } from "./gemini";
+import { alertEngine } from "./alerts";
+import { AppError } from "./errors";
+import { logger } from "./logger";
+import { metrics, METRIC_NAMES } from "./metrics";
+import db from "./db";
+
+export interface AnalysisOptions {
+  // Recency × credibility weighting (lib/weighting); default WEIGHTING_DEFAULT
+  weighting?: boolean;
+}
+
+export interface AnalysisResult {
+  assessmentId     : number;
+  overallScore     : number;
+  weightedScore    : number | null;
+  weightingConfig  : WeightingConfig | null;
+  impactLevel      : ImpactLevel;
+  dominantCategory : RiskCategory;
+  categoryBreakdown: CategoryBreakdown;
+  articleCount     : number;
+  rawArticleCount  : number;
+  taxonomyVersion  : number | null;
+  aiSummary        : string;
+  sources          : SourceReport[];
+  articles         : ClassifiedArticle[];
+}
+
+function buildGeminiFallback(err: unknown): string {
+  const msg = err instanceof Error ? err.message.toLowerCase() : "";
+
+  if (msg.includes("api_key_invalid") || msg.includes("api key not valid")) {
+    return "AI summary unavailable: GEMINI_API_KEY is invalid. Generate a new key in Google AI Studio and update .env.local.";
+  }
+
+  if (msg.includes("not found") && msg.includes("models/")) {
+    return "AI summary unavailable: GEMINI_MODEL is unavailable for this API key. Update GEMINI_MODEL in .env.local.";
+  }
+
+  if (msg.includes("quota") || msg.includes("rate limit")) {
+    return "AI summary unavailable: Gemini quota/rate limit reached. Retry later; risk scoring is unaffected.";
+  }
+
+  return "AI summary temporarily unavailable. The risk scoring above is unaffected. Check GEMINI_API_KEY, GEMINI_MODEL, and Gemini API access.";
+}
+
+/**
+ * Run the full pipeline on behalf of `userId` and persist the result in
+ * organization `orgId`.
+ * Throws AppError('NO_ARTICLES', 502) when every source comes back empty.
+ */
+export async function runAnalysis(userId: number, orgId: number, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+  metrics.increment(METRIC_NAMES.ANALYSIS_STARTED);
+  const started = Date.now();
+
+  try {
+    const result = await executePipeline(userId, orgId, options.weighting ?? (await weightingEnabledByDefault()));
+    metrics.increment(METRIC_NAMES.ANALYSIS_COMPLETED);
+    return result;
+  } catch (err) {
+    metrics.increment(METRIC_NAMES.ANALYSIS_FAILED);
+    throw err;
+  } finally {
+    metrics.recordTimer(METRIC_NAMES.ANALYSIS_DURATION, Date.now() - started);
+  }
+}
+
+async function executePipeline(userId: number, orgId: number, weighted: boolean): Promise<AnalysisResult> {
+  // ── 1. Fetch news ──────────────────────────────────────────────
+  const { articles: rawArticles, reports: sourceReports } = await fetchFromSources();
+
+  if (rawArticles.length === 0) {
+    throw new AppError(
+      "NO_ARTICLES",
+      502,
+      "News sources returned no articles. Verify NEWS_SOURCES and each source's credentials and quota."
+    );
+  }
+
+  // ── 2. Dedup + classify (deterministic, no AI) ────────────────
+  const { version: taxonomyVersion, taxonomy } = await taxonomyStore.getActive();
+  const weighting  = weighted ? await createWeighting() : null;
+  const assessment = classifyArticles(dedupeArticles(rawArticles), taxonomy, weighting?.weighting);
+
+  // ── 3. Gemini AI summary ───────────────────────────────────────
+  let aiSummary: string;
+  try {
+    aiSummary = await generateExecutiveSummary(assessment);
+  } catch (geminiErr) {
+    const geminiMessage = geminiErr instanceof Error ? geminiErr.message : String(geminiErr);
+    logger.warn("Gemini summary failed", { userId, orgId, error: geminiMessage });
+    aiSummary = buildGeminiFallback(geminiErr);
+  }
+
+  // ── 4. Persist — single MySQL transaction ─────────────────────
+  const conn = await db.getConnection();
+  let assessmentId: number;
+
+  try {
+    await conn.beginTransaction();
+
+    // Insert assessment row
+    const [aResult]: any = await conn.query(
+      `INSERT INTO impact_assessments
+         (org_id, triggered_by, overall_score, weighted_score, weighting_config, impact_level,
+          dominant_category, category_breakdown, article_count, ai_summary, taxonomy_version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        orgId,
+        userId,
+        assessment.overallScore,
+        assessment.weightedScore,
+        weighting ? JSON.stringify(weighting.config) : null,
+        assessment.impactLevel,
+        assessment.dominantCategory,
+        JSON.stringify(assessment.categoryBreakdown),
+        assessment.articles.length,
+        aiSummary,
+        taxonomyVersion,
+      ]
+    );
+    assessmentId = aResult.insertId as number;
+
+    // Upsert each event into the global store (keyed by canonical URL hash)
+    // and link it to this assessment with the score (and its explanation)
+    // computed in this run.
+    for (const article of assessment.articles) {
+      const publishedDate = article.publishedAt
+        ? new Date(article.publishedAt).toISOString().slice(0, 19).replace("T", " ")
+        : null;
+
+      // LAST_INSERT_ID(id) makes insertId return the existing row on duplicate.
+      const [eResult]: any = await conn.query(
+        `INSERT INTO events
+           (url_hash, title, description, source_name, url, published_at,
+            risk_category, article_score, keyword_matches,
+            source_count, cluster_sources)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE
+           id              = LAST_INSERT_ID(id),
+           title           = VALUES(title),
+           description     = VALUES(description),
+           published_at    = COALESCE(published_at, VALUES(published_at)),
+           risk_category   = VALUES(risk_category),
+           article_score   = VALUES(article_score),
+           keyword_matches = VALUES(keyword_matches),
+           source_count    = GREATEST(source_count, VALUES(source_count)),
+           cluster_sources = IF(VALUES(source_count) >= source_count, VALUES(cluster_sources), cluster_sources),
+           run_count       = run_count + 1,
+           last_seen_at    = CURRENT_TIMESTAMP`,
+        [
+          canonicalUrlHash(article.url),
+          article.title.slice(0, 999),
+          article.description?.slice(0, 2000) ?? null,
+          article.source,
+          article.url?.slice(0, 2000) ?? null,
+          publishedDate,
+          article.riskCategory,
+          article.articleScore,
+          JSON.stringify(article.keywordMatches),
+          article.sourceCount,
+          JSON.stringify(article.sources),
+        ]
+      );
+
+      await conn.query(
+        `INSERT INTO assessment_events
+           (assessment_id, event_id, risk_category, article_score, explanation,
+            recency_weight, credibility_weight)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          assessmentId,
+          eResult.insertId,
+          article.riskCategory,
+          article.articleScore,
+          JSON.stringify(article.explanation),
+          article.weighting?.recency ?? null,
+          article.weighting?.credibility ?? null,
+        ]
+      );
+    }
+
+    await conn.commit();
+  } catch (dbErr) {
+    await conn.rollback();
+    throw dbErr;
+  } finally {
+    conn.release();
+  }
+
+  // ── 5. Alerts — after commit; never delays or fails the run ───
+  alertEngine
+    .evaluate(orgId, {
+      assessmentId,
+      overallScore     : assessment.overallScore,
+      impactLevel      : assessment.impactLevel,
+      dominantCategory : assessment.dominantCategory,
+      categoryBreakdown: { ...assessment.categoryBreakdown },
+    })
+    .catch((err) => {
+      logger.error("Alert evaluation failed", err instanceof Error ? err : new Error(String(err)));
+    });
+
+  return {
+    assessmentId,
+    overallScore     : assessment.overallScore,
+    weightedScore    : assessment.weightedScore,
+    weightingConfig  : weighting?.config ?? null,
+    impactLevel      : assessment.impactLevel,
+    dominantCategory : assessment.dominantCategory,
+    categoryBreakdown: assessment.categoryBreakdown,
+    articleCount     : assessment.articles.length,
+    rawArticleCount  : rawArticles.length,
+    taxonomyVersion,
+    aiSummary,
+    sources          : sourceReports,
+    articles         : assessment.articles,
+  };
+}
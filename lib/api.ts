@@ -0,0 +1,236 @@
+/**
+ * lib/api.ts
+ * withApi() — the common wrapper for every API route handler.
+ *
+ * For each request it runs the handler inside a fresh request context
+ * (lib/requestContext, so log lines carry the request ID, user and
+ * route), authenticates the session or API key (required unless `auth`
+ * says otherwise), applies the key's own limit and the named rate
+ * limiters, runs the handler, maps thrown errors through errorToResponse(),
+ * records request metrics and sets X-Request-ID on the response.
+ *
+ *   export const GET = withApi({ route: '/api/jobs' }, async (req, { user }) => {
+ *     const org = await currentOrg(user);
+ *     return { jobs: await scheduleStore.listJobs(org.orgId) };
+ *   });
+ *
+ * Handlers return plain data (sent with 200), reply(data, status) for any
+ * other status, or a Response for streams and files, which is passed
+ * through with only headers added.
+ *
+ * Response shape: the ApiResponse envelope by default. Clients that still
+ * read the bare payload send `X-Response-Format: legacy`; setting
+ * API_RESPONSE_FORMAT=legacy makes that the default for everyone.
+ *
+ * API keys (lib/apiKeys.ts) only work on routes that declare a `scope`
+ * the key holds; every other route answers them with 403. Each keyed
+ * request is audited as API_KEY_USED.
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuthUser, JWTPayload } from './auth';
+import { AuthenticationError, AuthorizationError, InternalError, RateLimitError, errorToResponse } from './errors';
+import {
+  RequestContext, UNKNOWN_IP, createRequestContext, runWithRequestContext, updateRequestContext,
+} from './requestContext';
+import { LimiterName, RateLimiter, apiKeyLimiter, limiters } from './rateLimiter';
+import { metrics, METRIC_NAMES } from './metrics';
+import { logger } from './logger';
+import { auditLog } from './auditLog';
+import { RESPONSE_FORMATS, ResponseBuilder, ResponseFormat } from './response';
+import { Role, hasRole } from './roles';
+import type { ApiKeyScope } from './apiKeys';
+
+export type AuthMode = 'required' | 'optional' | 'none';
+
+export interface ApiOptions<A extends AuthMode> {
+  /** Route pattern recorded in logs and audit entries, e.g. '/api/assessments/[id]'. */
+  route: string;
+  /** 'required' (default) rejects requests without a valid session with 401. */
+  auth?: A;
+  /** Minimum role (lib/roles); lower roles get 403. Implies auth: 'required'. */
+  role?: Role;
+  /** Scope an API key needs to call this route. Without one, only browser sessions may. */
+  scope?: ApiKeyScope;
+  /**
+   * Limiter(s) from lib/rateLimiter, keyed by user (or IP when anonymous;
+   * skipped when the IP is unknown), checked in order. Default 'api'; null disables.
+   */
+  limiter?: LimiterName | LimiterName[] | null;
+}
+
+export interface ApiContext<U, P> {
+  user: U;
+  params: P;
+  requestId: string;
+  ip: string;
+  userAgent: string;
+  /** Apply another limiter with a handler-chosen key, e.g. per account on login. */
+  rateLimit(name: LimiterName, key: string): Promise<void>;
+}
+
+type ApiUser<A extends AuthMode> = A extends 'required' ? JWTPayload : JWTPayload | null;
+
+type RouteParams = Record<string, string>;
+
+type Handler<A extends AuthMode, P extends RouteParams> = (
+  req: NextRequest,
+  ctx: ApiContext<ApiUser<A>, P>
+) => Promise<unknown>;
+
+/** Handler result with a status other than 200. */
+export class ApiReply<T = unknown> {
+  constructor(public readonly data: T, public readonly status: number) {}
+}
+
+export function reply<T>(data: T, status: number): ApiReply<T> {
+  return new ApiReply(data, status);
+}
+
+/**
+ * Consume one request from `limiter` for `key`, record the most restrictive
+ * limit seen so far in the RateLimit-* headers and throw when exhausted.
+ */
+async function applyLimit(limiter: RateLimiter, key: string, headers: Headers): Promise<void> {
+  const result = await limiter.check(key);
+
+  const shown = headers.get('RateLimit-Remaining');
+  if (!result.allowed || shown === null || result.remaining < Number(shown)) {
+    headers.set('RateLimit-Limit', String(result.limit));
+    headers.set('RateLimit-Remaining', String(result.remaining));
+    headers.set('RateLimit-Reset', String(Math.ceil(result.resetIn / 1000)));
+    headers.set('RateLimit-Policy', result.policy);
+  }
+  if (!result.allowed) throw new RateLimitError(result.resetIn, limiter.message);
+}
+
+/**
+ * Throw AuthorizationError (403, audited as permission.denied by withApi)
+ * unless `user` holds at least role `min`. For checks that depend on the
+ * request body or the resource; fixed requirements use the `role` option.
+ */
+export function requireRole(user: JWTPayload | null, min: Role): void {
+  if (!hasRole(user, min)) throw new AuthorizationError('Forbidden.');
+}
+
+/**
+ * Base URL for links in emails (verification, password reset, invites).
+ * Always APP_URL, never the request's Host header, which the client
+ * controls. In production a missing or malformed APP_URL throws, so no
+ * link is sent; elsewhere it defaults to http://localhost:<PORT>.
+ */
+export function appUrl(): string {
+  const configured = process.env.APP_URL?.trim().replace(/\/+$/, '');
+  if (configured && /^https?:\/\/[^/?#\s]+(\/[^?#\s]*)?$/.test(configured)) return configured;
+  if (configured || process.env.NODE_ENV === 'production') {
+    throw new InternalError('APP_URL is not configured correctly; links cannot be sent.');
+  }
+  return `http://localhost:${process.env.PORT || 3000}`;
+}
+
+let warnedUnknownIp = false;
+
+function warnUnknownClientIp(): void {
+  if (warnedUnknownIp) return;
+  warnedUnknownIp = true;
+  logger.warn('Client IP unknown; IP rate limits are not applied. Set TRUST_PROXY_HOPS behind a reverse proxy.');
+}
+
+function responseFormat(req: NextRequest): ResponseFormat {
+  const requested = req.headers.get('x-response-format') as ResponseFormat | null;
+  if (requested && RESPONSE_FORMATS.includes(requested)) return requested;
+  return process.env.API_RESPONSE_FORMAT === 'legacy' ? 'legacy' : 'envelope';
+}
+
+/**
+ * Wrap a route handler. Dynamic segments are typed through the first type
+ * parameter: withApi<{ id: string }>({ route: '/api/x/[id]' }, handler).
+ */
+export function withApi<P extends RouteParams = RouteParams, A extends AuthMode = 'required'>(
+  opts: ApiOptions<A>,
+  handler: Handler<A, P>
+): (req: NextRequest, segment: { params: P }) => Promise<Response> {
+  const authMode: AuthMode = opts.role ? 'required' : opts.auth ?? 'required';
+  const limiterNames: LimiterName[] =
+    opts.limiter === undefined ? ['api'] : opts.limiter === null ? [] : ([] as LimiterName[]).concat(opts.limiter);
+
+  return (req, segment) => {
+    const context = createRequestContext(req.headers, `${req.method} ${opts.route}`, req.ip);
+    return runWithRequestContext(context, () => handle(req, segment, context));
+  };
+
+  async function handle(req: NextRequest, segment: { params: P }, context: RequestContext): Promise<Response> {
+    const started = Date.now();
+    const { requestId } = context;
+    const ip = context.ipAddress ?? UNKNOWN_IP;
+    const format = responseFormat(req);
+    const headers = new Headers({ 'X-Request-ID': requestId, Vary: 'X-Response-Format' });
+    let user: JWTPayload | null = null;
+    let response: Response;
+
+    metrics.increment(METRIC_NAMES.API_REQUEST_TOTAL);
+
+    try {
+      if (authMode !== 'none') {
+        user = await getAuthUser();
+        if (!user && authMode === 'required') throw new AuthenticationError('Unauthorized.');
+        updateRequestContext(user?.userId);
+      }
+      if (user?.apiKey) {
+        auditLog.apiKeyUsed(user.userId, user.apiKey.id, context.route!, ip);
+        await applyLimit(apiKeyLimiter(user.apiKey.rateLimit), String(user.apiKey.id), headers);
+        if (!opts.scope) throw new AuthorizationError('API keys cannot be used for this endpoint.');
+        if (!user.apiKey.scopes.includes(opts.scope)) {
+          throw new AuthorizationError(`This API key does not have the ${opts.scope} scope.`);
+        }
+      }
+      if (opts.role) requireRole(user, opts.role);
+
+      // Anonymous requests with no known client address are not IP-limited:
+      // a shared 'ip:unknown' bucket would turn the limit into a global one.
+      // Routes that take an email still apply the per-account limiter.
+      const limitKey = user ? `user:${user.userId}` : ip !== UNKNOWN_IP ? `ip:${ip}` : null;
+      if (limitKey) {
+        for (const name of limiterNames) {
+          await applyLimit(limiters[name], limitKey, headers);
+        }
+      } else if (limiterNames.length > 0) {
+        warnUnknownClientIp();
+      }
+
+      const result = await handler(req, {
+        user: user as ApiUser<A>,
+        params: segment?.params ?? ({} as P),
+        requestId,
+        ip,
+        userAgent: context.userAgent ?? 'unknown',
+        rateLimit: (name, key) => applyLimit(limiters[name], key, headers),
+      });
+
+      if (result instanceof Response) {
+        headers.forEach((value, name) => result.headers.set(name, value));
+        response = result;
+      } else if (result instanceof ApiReply) {
+        response = ResponseBuilder.success(result.data, result.status, { format, requestId, headers });
+      } else {
+        response = ResponseBuilder.success(result, 200, { format, requestId, headers });
+      }
+    } catch (err) {
+      metrics.increment(METRIC_NAMES.API_ERROR_TOTAL);
+
+      if (err instanceof AuthorizationError) {
+        auditLog.permissionDenied(user?.userId, context.route!, ip);
+      }
+      if (err instanceof RateLimitError) {
+        headers.set('Retry-After', String(Math.ceil(err.resetIn / 1000)));
+      }
+
+      const { error, code, details, statusCode } = errorToResponse(err);
+      response = ResponseBuilder.error(error, statusCode, code, details, { format, requestId, headers });
+    } finally {
+      metrics.recordTimer(METRIC_NAMES.API_REQUEST_DURATION, Date.now() - started);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * lib/apiClient.ts
+ * Browser-side fetch wrapper for the app's own API.
+ *
+ * Access tokens expire after 15 minutes. When a request comes back 401,
+ * apiFetch() calls POST /api/auth/refresh once (shared by every request
+ * that failed at the same time) and retries; if the refresh fails the
+ * original 401 is returned and the caller sends the user to /login.
+ */
+
+// The dashboard still reads bare payloads rather than the API envelope
+export const API_HEADERS = { "X-Response-Format": "legacy" };
+
+let refreshing: Promise<boolean> | null = null;
+
+function refreshAccessToken(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = fetch("/api/auth/refresh", { method: "POST", headers: API_HEADERS })
+      .then((r) => r.ok)
+      .catch(() => false)
+      .finally(() => { refreshing = null; });
+  }
+  return refreshing;
+}
+
+export async function apiFetch(
+  url: string,
+  init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const send = () => fetch(url, { ...init, headers: { ...API_HEADERS, ...init.headers } });
+
+  const res = await send();
+  if (res.status !== 401) return res;
+
+  return (await refreshAccessToken()) ? send() : res;
+}
+
+/**
+ * Start a file download (PDF, CSV) from an API route. Plain links cannot
+ * refresh an expired access token, so check the session first.
+ */
+export async function downloadFile(url: string): Promise<void> {
+  await apiFetch("/api/auth/me");
+  window.location.assign(url);
+}
@@ -0,0 +1,270 @@
+/**
+ * lib/apiKeys.ts
+ * Personal API keys for scripts and notebooks, sent as
+ * `Authorization: Bearer eip_<prefix>_<secret>`.
+ *
+ * A key belongs to one user and one organization (the current one when it
+ * was created) and acts with the user's current role, limited to its
+ * scopes. Only the SHA-256 of the secret is stored; the prefix identifies
+ * the key in lists and logs. A key stops working when it is revoked, when
+ * it expires, or when its user leaves the organization.
+ *
+ * Lookups are cached for a minute, like session state, so a revocation
+ * can take that long to reach other instances; last_used_at is written on
+ * each cache miss.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import db from "./db";
+import { apiKeyCache } from "./cache";
+import { auditLog } from "./auditLog";
+import { ConflictError, ValidationError } from "./errors";
+import { Role, hasRole } from "./roles";
+
+export type ApiKeyScope = "assessments:read" | "analyze:run" | "metrics:read";
+
+/** Every scope and the account role needed to grant it. */
+export const API_KEY_SCOPES: Record<ApiKeyScope, Role> = {
+  "assessments:read": "viewer",
+  "analyze:run"     : "analyst",
+  "metrics:read"    : "admin",
+};
+
+export interface ApiKeyInfo {
+  id        : number;
+  name      : string;
+  prefix    : string;
+  orgId     : number;
+  orgName   : string;
+  scopes    : ApiKeyScope[];
+  rateLimit : number;
+  expiresAt : Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt : Date;
+}
+
+/** What a verified key grants; attached to the request's user as `apiKey`. */
+export interface ApiKeyGrant {
+  id       : number;
+  orgId    : number;
+  scopes   : ApiKeyScope[];
+  rateLimit: number;   // requests per minute
+}
+
+/** The user a key acts for, with their current role. */
+export interface ApiKeyOwner {
+  userId: number;
+  email : string;
+  role  : Role;
+  grant : ApiKeyGrant;
+}
+
+/** What apiKeyCache holds per prefix; owner is null once the key no longer works. */
+export interface CachedApiKey {
+  hash     : string;
+  expiresAt: Date | null;
+  owner    : ApiKeyOwner | null;
+}
+
+export interface NewApiKey {
+  name          : string;
+  scopes        : unknown[];   // checked against API_KEY_SCOPES
+  expiresInDays?: number;
+  rateLimit?    : number;
+}
+
+interface ApiKeyRow extends RowDataPacket {
+  id          : number;
+  user_id     : number;
+  org_id      : number;
+  org_name    : string;
+  name        : string;
+  prefix      : string;
+  key_hash    : string;
+  scopes      : ApiKeyScope[] | string;
+  rate_limit  : number;
+  expires_at  : Date | null;
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  created_at  : Date;
+  email       : string;
+  role        : Role;
+}
+
+const KEY_PATTERN   = /^eip_([0-9a-f]{8})_([A-Za-z0-9_-]{43})$/;
+const MAX_KEYS      = 20;
+const CACHE_SECONDS = 60;
+const DAY_MS        = 24 * 60 * 60 * 1000;
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/** Requests per minute for keys created without their own limit. */
+export const DEFAULT_API_KEY_RATE_LIMIT = envInt("API_KEY_RATE_LIMIT", 60);
+export const MAX_API_KEY_RATE_LIMIT     = envInt("API_KEY_MAX_RATE_LIMIT", 600);
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function parseScopes(value: ApiKeyScope[] | string): ApiKeyScope[] {
+  return typeof value === "string" ? JSON.parse(value) : value;
+}
+
+function toInfo(r: ApiKeyRow): ApiKeyInfo {
+  return {
+    id        : r.id,
+    name      : r.name,
+    prefix    : r.prefix,
+    orgId     : r.org_id,
+    orgName   : r.org_name,
+    scopes    : parseScopes(r.scopes),
+    rateLimit : r.rate_limit,
+    expiresAt : r.expires_at,
+    lastUsedAt: r.last_used_at,
+    lastUsedIp: r.last_used_ip,
+    createdAt : r.created_at,
+  };
+}
+
+class ApiKeyStore {
+  /** The user's active keys (not revoked; expired ones included), newest first. */
+  async list(userId: number): Promise<ApiKeyInfo[]> {
+    const [rows] = await db.query<ApiKeyRow[]>(
+      `SELECT k.*, o.name AS org_name
+         FROM api_keys k JOIN organizations o ON o.id = k.org_id
+        WHERE k.user_id = ? AND k.revoked_at IS NULL
+        ORDER BY k.created_at DESC, k.id DESC`,
+      [userId]
+    );
+    return rows.map(toInfo);
+  }
+
+  /**
+   * Create a key for the user in `orgId` (the caller checks membership).
+   * Scopes must exist and be within the user's role.
+   * Returns the full key, which is shown once and cannot be recovered.
+   */
+  async create(
+    user: { userId: number; role: Role },
+    orgId: number,
+    input: NewApiKey,
+    ip?: string
+  ): Promise<{ key: string; info: ApiKeyInfo }> {
+    const names = Object.keys(API_KEY_SCOPES);
+    if (input.scopes.length === 0 || input.scopes.some((s) => typeof s !== "string" || !names.includes(s))) {
+      throw new ValidationError(`scopes must list one or more of ${names.join(", ")}.`, { field: "scopes" });
+    }
+    const scopes = Array.from(new Set(input.scopes as ApiKeyScope[]));
+    const denied = scopes.filter((s) => !hasRole(user, API_KEY_SCOPES[s]));
+    if (denied.length > 0) {
+      throw new ValidationError(`Your role cannot grant ${denied.join(", ")}.`, { field: "scopes" });
+    }
+
+    const [counts] = await db.query<RowDataPacket[]>(
+      "SELECT COUNT(*) AS n FROM api_keys WHERE user_id = ? AND revoked_at IS NULL",
+      [user.userId]
+    );
+    if (Number(counts[0].n) >= MAX_KEYS) {
+      throw new ConflictError(`You can have at most ${MAX_KEYS} API keys. Revoke one first.`);
+    }
+
+    const prefix    = `eip_${randomBytes(4).toString("hex")}`;
+    const secret    = randomBytes(32).toString("base64url");
+    const now       = new Date();
+    const expiresAt = input.expiresInDays ? new Date(now.getTime() + input.expiresInDays * DAY_MS) : null;
+
+    const [result] = await db.query<ResultSetHeader>(
+      `INSERT INTO api_keys (user_id, org_id, name, prefix, key_hash, scopes, rate_limit, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [user.userId, orgId, input.name, prefix, hashSecret(secret), JSON.stringify(scopes),
+       input.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT, expiresAt, now]
+    );
+
+    auditLog.apiKeyChanged(user.userId, result.insertId, "created", ip, { prefix, orgId, scopes });
+
+    const [rows] = await db.query<ApiKeyRow[]>(
+      `SELECT k.*, o.name AS org_name FROM api_keys k JOIN organizations o ON o.id = k.org_id WHERE k.id = ?`,
+      [result.insertId]
+    );
+    return { key: `${prefix}_${secret}`, info: toInfo(rows[0]) };
+  }
+
+  /** Revoke one of the user's keys. False when it is not theirs or already revoked. */
+  async revoke(userId: number, keyId: number, ip?: string): Promise<boolean> {
+    const [rows] = await db.query<ApiKeyRow[]>(
+      "SELECT prefix FROM api_keys WHERE id = ? AND user_id = ? AND revoked_at IS NULL",
+      [keyId, userId]
+    );
+    if (rows.length === 0) return false;
+
+    const [result] = await db.query<ResultSetHeader>(
+      "UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL",
+      [new Date(), keyId]
+    );
+    apiKeyCache.delete(rows[0].prefix);
+    if (result.affectedRows === 0) return false;
+
+    auditLog.apiKeyChanged(userId, keyId, "revoked", ip, { prefix: rows[0].prefix });
+    return true;
+  }
+
+  /**
+   * Check a presented key. Returns the owner and what the key grants, or
+   * null when the key is malformed, unknown, revoked, expired, or its user
+   * is no longer a member of its organization.
+   */
+  async verify(key: string, ip: string): Promise<ApiKeyOwner | null> {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) return null;
+    const prefix    = `eip_${match[1]}`;
+    const presented = Buffer.from(hashSecret(match[2]), "hex");
+
+    let entry = apiKeyCache.get(prefix);
+    const loaded = !entry;
+    if (!entry) {
+      entry = await this.load(prefix);
+      apiKeyCache.set(prefix, entry, CACHE_SECONDS);
+    }
+    if (!entry.owner || (entry.expiresAt && entry.expiresAt <= new Date())) return null;
+    if (!timingSafeEqual(presented, Buffer.from(entry.hash, "hex"))) return null;
+
+    if (loaded) {
+      await db.query(
+        "UPDATE api_keys SET last_used_at = ?, last_used_ip = ? WHERE id = ?",
+        [new Date(), ip, entry.owner.grant.id]
+      );
+    }
+    return entry.owner;
+  }
+
+  private async load(prefix: string): Promise<CachedApiKey> {
+    const [rows] = await db.query<ApiKeyRow[]>(
+      `SELECT k.*, u.email, u.role
+         FROM api_keys k
+         JOIN users u           ON u.id = k.user_id
+         JOIN org_memberships m ON m.org_id = k.org_id AND m.user_id = k.user_id
+        WHERE k.prefix = ? AND k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > ?)`,
+      [prefix, new Date()]
+    );
+    const r = rows[0];
+    if (!r) return { hash: "", expiresAt: null, owner: null };
+
+    return {
+      hash     : r.key_hash,
+      expiresAt: r.expires_at,
+      owner    : {
+        userId: r.user_id,
+        email : r.email,
+        role  : r.role,
+        grant : { id: r.id, orgId: r.org_id, scopes: parseScopes(r.scopes), rateLimit: r.rate_limit },
+      },
+    };
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore();
@@ -1,10 +1,17 @@
 /**
  * lib/auditLog.ts
- * Audit trail for sensitive operations: auth, analysis, etc.
- * Writes to console/file and can be integrated with external audit platforms.
+ * Audit trail for sensitive operations: auth, analysis, assessments and
+ * configuration changes. Each event is handed to every sink configured in
+ * AUDIT_SINKS (lib/auditSinks.ts): the console, the hash-chained
+ * audit_events table, a JSONL file or an HTTP collector.
+ *
+ * Writes happen in the background; a failing sink is logged and never
+ * fails the request that produced the event.
  */
 
 import { logger } from './logger';
+import { getRequestContext } from './requestContext';
+import { getAuditSinks } from './auditSinks';
 
 export type AuditAction =
   | 'USER_REGISTER'
@@ -13,11 +20,40 @@ export type AuditAction =
   | 'ANALYSIS_STARTED'
   | 'ANALYSIS_COMPLETED'
   | 'ASSESSMENT_VIEWED'
-  | 'ASSESSMENT_DELETED'
+  | 'ASSESSMENT_EXPORTED'
   | 'AUTH_FAILED'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_UNLOCKED'
+  | 'SUSPICIOUS_LOGIN'
+  | 'SESSION_REVOKED'
+  | 'EMAIL_VERIFIED'
+  | 'PASSWORD_RESET_REQUESTED'
+  | 'PASSWORD_CHANGED'
+  | 'ROLE_CHANGED'
+  | 'TAXONOMY_CHANGED'
+  | 'SETTINGS_CHANGED'
+  | 'SCHEDULE_CHANGED'
+  | 'ALERT_RULE_CHANGED'
+  | 'ORG_CHANGED'
+  | 'ORG_MEMBER_CHANGED'
+  | 'API_KEY_CHANGED'
+  | 'API_KEY_USED'
   | 'PERMISSION_DENIED';
 
-interface AuditLogEntry {
+export const AUDIT_ACTIONS: readonly AuditAction[] = [
+  'USER_REGISTER', 'USER_LOGIN', 'USER_LOGOUT', 'ANALYSIS_STARTED', 'ANALYSIS_COMPLETED',
+  'ASSESSMENT_VIEWED', 'ASSESSMENT_EXPORTED', 'AUTH_FAILED',
+  'ACCOUNT_LOCKED', 'ACCOUNT_UNLOCKED', 'SUSPICIOUS_LOGIN', 'SESSION_REVOKED',
+  'EMAIL_VERIFIED', 'PASSWORD_RESET_REQUESTED', 'PASSWORD_CHANGED', 'ROLE_CHANGED',
+  'TAXONOMY_CHANGED', 'SETTINGS_CHANGED', 'SCHEDULE_CHANGED', 'ALERT_RULE_CHANGED', 'ORG_CHANGED', 'ORG_MEMBER_CHANGED',
+  'API_KEY_CHANGED', 'API_KEY_USED', 'PERMISSION_DENIED',
+];
+
+/** Configuration changes recorded through configChanged(). */
+export type ConfigAction =
+  | 'TAXONOMY_CHANGED' | 'SETTINGS_CHANGED' | 'SCHEDULE_CHANGED' | 'ALERT_RULE_CHANGED' | 'ORG_CHANGED';
+
+export interface AuditEvent {
   action: AuditAction;
   userId?: number;
   ipAddress?: string;
@@ -25,32 +61,39 @@ interface AuditLogEntry {
   resource?: string;
   status: 'success' | 'failure';
   details?: Record<string, unknown>;
+  requestId?: string;
   timestamp: string;
 }
 
 class AuditLogger {
-  log(entry: Omit<AuditLogEntry, 'timestamp'>): void {
-    const logEntry: AuditLogEntry = {
+  log(entry: Omit<AuditEvent, 'timestamp' | 'requestId'>): void {
+    // Inside a request, fill in what the caller did not pass
+    const request = getRequestContext();
+    const event: AuditEvent = {
       ...entry,
+      ipAddress: entry.ipAddress ?? request?.ipAddress,
+      userAgent: entry.userAgent ?? request?.userAgent,
+      requestId: request?.requestId,
       timestamp: new Date().toISOString(),
     };
 
-    logger.info(`[AUDIT] ${entry.action}`, {
-      action: entry.action,
-      userId: entry.userId,
-      ip: entry.ipAddress,
-      resource: entry.resource,
-      status: entry.status,
-      details: entry.details,
-    });
+    let sinks;
+    try {
+      sinks = getAuditSinks();
+    } catch (err) {
+      logger.error('Audit sinks are misconfigured', err as Error);
+      return;
+    }
 
-    /**
-     * TODO: Send to external audit system (Datadog, Splunk, etc)
-     * Example:
-     *   if (process.env.AUDIT_ENDPOINT) {
-     *     fetch(process.env.AUDIT_ENDPOINT, { method: 'POST', body: JSON.stringify(logEntry) })
-     *   }
-     */
+    for (const sink of sinks) {
+      sink.write(event).catch((err) => {
+        logger.error('Audit sink write failed', {
+          sink: sink.name,
+          action: event.action,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    }
   }
 
   register(userId: number, email: string, ipAddress?: string) {
@@ -75,6 +118,27 @@ class AuditLogger {
     });
   }
 
+  /** A Bearer token that is not a working API key. `prefix` is its first characters. */
+  apiKeyRejected(prefix: string, ipAddress?: string) {
+    this.log({
+      action: 'AUTH_FAILED',
+      ipAddress,
+      resource: `auth:api_key`,
+      status: 'failure',
+      details: { prefix },
+    });
+  }
+
+  logout(userId: number, ipAddress?: string) {
+    this.log({
+      action: 'USER_LOGOUT',
+      userId,
+      ipAddress,
+      resource: `user:${userId}`,
+      status: 'success',
+    });
+  }
+
   loginFailed(email: string, ipAddress?: string, reason?: string) {
     this.log({
       action: 'AUTH_FAILED',
@@ -85,6 +149,97 @@ class AuditLogger {
     });
   }
 
+  accountLocked(userId: number, email: string, lockedUntil: Date, failures: number, ipAddress?: string) {
+    this.log({
+      action: 'ACCOUNT_LOCKED',
+      userId,
+      ipAddress,
+      resource: `user:${userId}`,
+      status: 'failure',
+      details: { email, failures, lockedUntil: lockedUntil.toISOString() },
+    });
+  }
+
+  accountUnlocked(userId: number, adminId: number, ipAddress?: string) {
+    this.log({
+      action: 'ACCOUNT_UNLOCKED',
+      userId: adminId,
+      ipAddress,
+      resource: `user:${userId}`,
+      status: 'success',
+    });
+  }
+
+  /** `adminId` is null when an ADMIN_EMAILS account was promoted at sign-in. */
+  roleChanged(userId: number, previous: string, role: string, adminId: number | null, ipAddress?: string) {
+    this.log({
+      action: 'ROLE_CHANGED',
+      userId: adminId ?? userId,
+      ipAddress,
+      resource: `user:${userId}`,
+      status: 'success',
+      details: adminId === null ? { previous, role, bootstrap: true } : { previous, role },
+    });
+  }
+
+  suspiciousLogin(userId: number, email: string, reasons: string[], ipAddress?: string, userAgent?: string) {
+    this.log({
+      action: 'SUSPICIOUS_LOGIN',
+      userId,
+      ipAddress,
+      userAgent,
+      resource: `user:${userId}`,
+      status: 'success',
+      details: { email, reasons },
+    });
+  }
+
+  /** `sessionId` is '*' when every session of the user was revoked. */
+  sessionRevoked(userId: number, sessionId: string, reason: string, ipAddress?: string, count?: number) {
+    this.log({
+      action: 'SESSION_REVOKED',
+      userId,
+      ipAddress,
+      resource: `session:${sessionId}`,
+      // A reused refresh token means it was copied, so flag it
+      status: reason === 'refresh_reuse' ? 'failure' : 'success',
+      details: count === undefined ? { reason } : { reason, count },
+    });
+  }
+
+  emailVerified(userId: number, email: string, ipAddress?: string) {
+    this.log({
+      action: 'EMAIL_VERIFIED',
+      userId,
+      ipAddress,
+      resource: `user:${userId}`,
+      status: 'success',
+      details: { email },
+    });
+  }
+
+  passwordResetRequested(userId: number, ipAddress?: string) {
+    this.log({
+      action: 'PASSWORD_RESET_REQUESTED',
+      userId,
+      ipAddress,
+      resource: `user:${userId}`,
+      status: 'success',
+    });
+  }
+
+  /** `via` is 'change' (signed in, knew the old password) or 'reset' (emailed token). */
+  passwordChanged(userId: number, via: 'change' | 'reset', revokedSessions: number, ipAddress?: string) {
+    this.log({
+      action: 'PASSWORD_CHANGED',
+      userId,
+      ipAddress,
+      resource: `user:${userId}`,
+      status: 'success',
+      details: { via, revokedSessions },
+    });
+  }
+
   analysisStarted(userId: number, ipAddress?: string) {
     this.log({
       action: 'ANALYSIS_STARTED',
@@ -111,6 +266,107 @@ class AuditLogger {
     });
   }
 
+  /** `via` names the endpoint when the run was read as part of another view, e.g. 'compare'. */
+  assessmentViewed(userId: number, assessmentId: number, ipAddress?: string, via?: string) {
+    this.log({
+      action: 'ASSESSMENT_VIEWED',
+      userId,
+      ipAddress,
+      resource: `assessment:${assessmentId}`,
+      status: 'success',
+      ...(via ? { details: { via } } : {}),
+    });
+  }
+
+  /** Aggregate reads across an organization's runs, such as the trend series. */
+  assessmentsViewed(userId: number, view: string, details: Record<string, unknown>, ipAddress?: string) {
+    this.log({
+      action: 'ASSESSMENT_VIEWED',
+      userId,
+      ipAddress,
+      resource: 'assessments',
+      status: 'success',
+      details: { view, ...details },
+    });
+  }
+
+  /** `resource` is 'assessment:<id>' for one brief or 'assessments' for a history export. */
+  assessmentExported(userId: number, resource: string, format: string, ipAddress?: string) {
+    this.log({
+      action: 'ASSESSMENT_EXPORTED',
+      userId,
+      ipAddress,
+      resource,
+      status: 'success',
+      details: { format },
+    });
+  }
+
+  configChanged(
+    action: ConfigAction,
+    userId: number,
+    resource: string,
+    change: 'created' | 'updated' | 'deleted' | 'activated',
+    ipAddress?: string,
+    details?: Record<string, unknown>
+  ) {
+    this.log({
+      action,
+      userId,
+      ipAddress,
+      resource,
+      status: 'success',
+      details: { change, ...details },
+    });
+  }
+
+  /** Membership changes in organization `orgId`, made by `userId`. */
+  orgMemberChanged(
+    userId: number,
+    orgId: number,
+    change: 'invited' | 'invite_revoked' | 'joined' | 'removed' | 'left',
+    ipAddress?: string,
+    details?: Record<string, unknown>
+  ) {
+    this.log({
+      action: 'ORG_MEMBER_CHANGED',
+      userId,
+      ipAddress,
+      resource: `org:${orgId}`,
+      status: 'success',
+      details: { change, ...details },
+    });
+  }
+
+  apiKeyChanged(
+    userId: number,
+    keyId: number,
+    change: 'created' | 'revoked',
+    ipAddress?: string,
+    details?: Record<string, unknown>
+  ) {
+    this.log({
+      action: 'API_KEY_CHANGED',
+      userId,
+      ipAddress,
+      resource: `api_key:${keyId}`,
+      status: 'success',
+      details: { change, ...details },
+    });
+  }
+
+  /** One request authenticated with API key `keyId`; `route` is e.g. 'GET /api/assessments'. */
+  apiKeyUsed(userId: number, keyId: number, route: string, ipAddress?: string) {
+    this.log({
+      action: 'API_KEY_USED',
+      userId,
+      ipAddress,
+      resource: `api_key:${keyId}`,
+      status: 'success',
+      details: { route },
+    });
+  }
+
   permissionDenied(userId: number | undefined, resource: string, ipAddress?: string) {
     this.log({
       action: 'PERMISSION_DENIED',
@@ -0,0 +1,105 @@
+/**
+ * lib/auditSinks.ts
+ * Where audit events are written. AUDIT_SINKS is a comma-separated list:
+ *   console → a structured logger line (the previous behaviour)
+ *   db      → the hash-chained audit_events table (lib/auditStore.ts)
+ *   file    → one JSON line per event appended to AUDIT_FILE_PATH
+ *   http    → JSON POST to AUDIT_HTTP_URL (Bearer AUDIT_HTTP_TOKEN if set),
+ *             e.g. a SIEM or log-collector intake
+ *
+ * A sink throws on failure; lib/auditLog.ts logs the failure and carries on
+ * with the other sinks.
+ */
+
+import { appendFile } from 'fs/promises';
+import { logger } from './logger';
+import { auditStore } from './auditStore';
+import type { AuditEvent } from './auditLog';
+
+export interface AuditSink {
+  readonly name: string;
+  write(event: AuditEvent): Promise<void>;
+}
+
+const HTTP_TIMEOUT_MS = 5_000;
+
+export const consoleAuditSink: AuditSink = {
+  name: 'console',
+  async write(event) {
+    logger.info(`[AUDIT] ${event.action}`, {
+      action: event.action,
+      userId: event.userId,
+      ip: event.ipAddress,
+      resource: event.resource,
+      status: event.status,
+      details: event.details,
+    });
+  },
+};
+
+export const dbAuditSink: AuditSink = {
+  name: 'db',
+  async write(event) {
+    await auditStore.append(event);
+  },
+};
+
+export class FileAuditSink implements AuditSink {
+  readonly name = 'file';
+
+  constructor(private path: string) {}
+
+  async write(event: AuditEvent): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify(event)}\n`, 'utf8');
+  }
+}
+
+export class HttpAuditSink implements AuditSink {
+  readonly name = 'http';
+
+  constructor(private url: string, private token?: string) {}
+
+  async write(event: AuditEvent): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  }
+}
+
+let sinks: AuditSink[] | null = null;
+
+/** Lazily build the configured sinks. */
+export function getAuditSinks(): AuditSink[] {
+  if (sinks) return sinks;
+
+  const names = (process.env.AUDIT_SINKS ?? 'console,db')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+
+  sinks = names.map((name): AuditSink => {
+    switch (name) {
+      case 'console':
+        return consoleAuditSink;
+      case 'db':
+        return dbAuditSink;
+      case 'file':
+        if (!process.env.AUDIT_FILE_PATH) throw new Error('AUDIT_SINKS includes "file" but AUDIT_FILE_PATH is not set.');
+        return new FileAuditSink(process.env.AUDIT_FILE_PATH);
+      case 'http':
+        if (!process.env.AUDIT_HTTP_URL) throw new Error('AUDIT_SINKS includes "http" but AUDIT_HTTP_URL is not set.');
+        return new HttpAuditSink(process.env.AUDIT_HTTP_URL, process.env.AUDIT_HTTP_TOKEN);
+      default:
+        throw new Error(`Unknown audit sink "${name}".`);
+    }
+  });
+
+  return sinks;
+}
@@ -0,0 +1,263 @@
+/**
+ * lib/auditStore.ts
+ * The audit_events table: an append-only, hash-chained record of audit
+ * events. Each row stores the hash of the row before it and
+ *
+ *   hash = SHA-256(prev_hash + "\n" + canonical JSON of the event)
+ *
+ * so editing, deleting or reordering rows breaks the chain from that point
+ * on, which verify() reports. The chain head (last id and hash) lives in
+ * the single audit_chain row; appends lock it, so writers on several
+ * instances still produce one linear chain.
+ */
+
+import { createHash } from 'crypto';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import db from './db';
+import type { AuditAction, AuditEvent } from './auditLog';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const USER_AGENT_MAX = 255;
+const RESOURCE_MAX = 255;
+const VERIFY_BATCH = 1000;
+
+export interface StoredAuditEvent extends AuditEvent {
+  id: number;
+  hash: string;
+}
+
+export interface AuditQuery {
+  userId?: number;
+  action?: AuditAction;
+  /** Exact resource, or a prefix ending in '*', e.g. 'assessment:*'. */
+  resource?: string;
+  from?: Date;
+  to?: Date;
+  /** Return events with an id below this one (the previous page's nextCursor). */
+  before?: number;
+  limit: number;
+}
+
+export interface AuditPage {
+  events: StoredAuditEvent[];
+  nextCursor: number | null;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  lastId: number;
+  /** First row whose hash or link does not match, when invalid. */
+  brokenAt?: number;
+  reason?: string;
+}
+
+interface EventRow extends RowDataPacket {
+  id: number;
+  action: AuditAction;
+  user_id: number | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  resource: string | null;
+  status: 'success' | 'failure';
+  details: Record<string, unknown> | null;
+  request_id: string | null;
+  created_at: Date;
+  prev_hash: string;
+  hash: string;
+}
+
+interface HeadRow extends RowDataPacket {
+  last_id: number;
+  last_hash: string;
+}
+
+/** JSON with object keys sorted at every level, so MySQL's JSON key reordering does not change the hash. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj).filter((k) => obj[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashEvent(prevHash: string, event: AuditEvent): string {
+  const body = canonicalJson({
+    action: event.action,
+    userId: event.userId ?? null,
+    ipAddress: event.ipAddress ?? null,
+    userAgent: event.userAgent ?? null,
+    resource: event.resource ?? null,
+    status: event.status,
+    details: event.details ?? null,
+    requestId: event.requestId ?? null,
+    timestamp: event.timestamp,
+  });
+  return createHash('sha256').update(`${prevHash}\n${body}`).digest('hex');
+}
+
+function toEvent(r: EventRow): StoredAuditEvent {
+  return {
+    id: r.id,
+    action: r.action,
+    userId: r.user_id ?? undefined,
+    ipAddress: r.ip_address ?? undefined,
+    userAgent: r.user_agent ?? undefined,
+    resource: r.resource ?? undefined,
+    status: r.status,
+    details: r.details ?? undefined,
+    requestId: r.request_id ?? undefined,
+    timestamp: r.created_at.toISOString(),
+    hash: r.hash,
+  };
+}
+
+class AuditStore {
+  // Appends from this process are queued so they do not wait on each other's row lock
+  private tail: Promise<unknown> = Promise.resolve();
+
+  append(event: AuditEvent): Promise<number> {
+    const run = this.tail.then(() => this.insert(event));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async insert(input: AuditEvent): Promise<number> {
+    // Store exactly what is hashed: truncated to column sizes, millisecond timestamp
+    const event: AuditEvent = {
+      ...input,
+      userAgent: input.userAgent?.slice(0, USER_AGENT_MAX),
+      resource: input.resource?.slice(0, RESOURCE_MAX),
+      timestamp: new Date(input.timestamp).toISOString(),
+    };
+
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+      const [heads] = await conn.query<HeadRow[]>(
+        'SELECT last_id, last_hash FROM audit_chain WHERE id = 1 FOR UPDATE'
+      );
+      if (heads.length === 0) throw new Error('audit_chain head row is missing; re-run schema.sql');
+
+      const prevHash = heads[0].last_hash;
+      const hash = hashEvent(prevHash, event);
+
+      const [result] = await conn.query<ResultSetHeader>(
+        `INSERT INTO audit_events
+           (action, user_id, ip_address, user_agent, resource, status, details, request_id, created_at, prev_hash, hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.action,
+          event.userId ?? null,
+          event.ipAddress ?? null,
+          event.userAgent ?? null,
+          event.resource ?? null,
+          event.status,
+          event.details ? JSON.stringify(event.details) : null,
+          event.requestId ?? null,
+          new Date(event.timestamp),
+          prevHash,
+          hash,
+        ]
+      );
+      await conn.query('UPDATE audit_chain SET last_id = ?, last_hash = ? WHERE id = 1', [result.insertId, hash]);
+      await conn.commit();
+      return result.insertId;
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+  }
+
+  /** Events matching `q`, newest first. */
+  async query(q: AuditQuery): Promise<AuditPage> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (q.userId !== undefined) { where.push('user_id = ?'); params.push(q.userId); }
+    if (q.action !== undefined) { where.push('action = ?'); params.push(q.action); }
+    if (q.resource !== undefined) {
+      if (q.resource.endsWith('*')) {
+        where.push('resource LIKE ?');
+        params.push(`${q.resource.slice(0, -1).replace(/[\\%_]/g, '\\$&')}%`);
+      } else {
+        where.push('resource = ?');
+        params.push(q.resource);
+      }
+    }
+    if (q.from !== undefined) { where.push('created_at >= ?'); params.push(q.from); }
+    if (q.to !== undefined) { where.push('created_at < ?'); params.push(q.to); }
+    if (q.before !== undefined) { where.push('id < ?'); params.push(q.before); }
+
+    const [rows] = await db.query<EventRow[]>(
+      `SELECT id, action, user_id, ip_address, user_agent, resource, status, details,
+              request_id, created_at, prev_hash, hash
+         FROM audit_events
+        ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY id DESC
+        LIMIT ?`,
+      [...params, q.limit + 1]
+    );
+
+    const page = rows.slice(0, q.limit).map(toEvent);
+    return {
+      events: page,
+      nextCursor: rows.length > q.limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Recompute the chain from the first row (or the row after `afterId`)
+   * and check it ends at the recorded head.
+   */
+  async verify(afterId = 0): Promise<ChainVerification> {
+    let prevHash = GENESIS_HASH;
+    if (afterId > 0) {
+      const [prev] = await db.query<EventRow[]>('SELECT hash FROM audit_events WHERE id = ?', [afterId]);
+      if (prev.length === 0) return { valid: false, checked: 0, lastId: afterId, brokenAt: afterId, reason: 'start row not found' };
+      prevHash = prev[0].hash;
+    }
+
+    let lastId = afterId;
+    let checked = 0;
+
+    for (;;) {
+      const [rows] = await db.query<EventRow[]>(
+        `SELECT id, action, user_id, ip_address, user_agent, resource, status, details,
+                request_id, created_at, prev_hash, hash
+           FROM audit_events WHERE id > ? ORDER BY id LIMIT ?`,
+        [lastId, VERIFY_BATCH]
+      );
+
+      for (const row of rows) {
+        if (row.prev_hash !== prevHash) {
+          return { valid: false, checked, lastId, brokenAt: row.id, reason: 'link to previous row does not match' };
+        }
+        if (hashEvent(prevHash, toEvent(row)) !== row.hash) {
+          return { valid: false, checked, lastId, brokenAt: row.id, reason: 'row contents do not match its hash' };
+        }
+        prevHash = row.hash;
+        lastId = row.id;
+        checked++;
+      }
+
+      if (rows.length < VERIFY_BATCH) break;
+    }
+
+    // Rows deleted from the end leave the head pointing past the last row
+    const [heads] = await db.query<HeadRow[]>('SELECT last_id, last_hash FROM audit_chain WHERE id = 1');
+    const head = heads[0];
+    if (head && Number(head.last_id) > 0 && (Number(head.last_id) !== lastId || head.last_hash !== prevHash)) {
+      return { valid: false, checked, lastId, brokenAt: Number(head.last_id), reason: 'chain head does not match the last row' };
+    }
+
+    return { valid: true, checked, lastId };
+  }
+}
+
+export const auditStore = new AuditStore();
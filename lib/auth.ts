@@ -1,26 +1,45 @@
 /**
  * lib/auth.ts
  * JWT signing/verification and server-side cookie helpers.
- * The token is stored in an httpOnly cookie — never accessible from JS.
+ * Tokens are stored in httpOnly cookies — never accessible from JS.
+ *
+ *   eip_session → short-lived access JWT (jti = session id, see lib/sessions.ts)
+ *   eip_refresh → rotating refresh token, sent only to /api/auth
+ *
+ * Scripts authenticate with `Authorization: Bearer <API key>` instead
+ * (lib/apiKeys.ts); getAuthUser() accepts either.
  */
 
 import jwt from "jsonwebtoken";
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
+import {
+  ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_SECONDS,
+  SessionClient, sessionStore,
+} from "./sessions";
+import { Role } from "./roles";
+import { ApiKeyGrant, apiKeyStore } from "./apiKeys";
+import { auditLog } from "./auditLog";
+import { getRequestContext } from "./requestContext";
 
-const JWT_SECRET  = process.env.JWT_SECRET!;
-const COOKIE_NAME = "eip_session";
-const TOKEN_TTL   = "7d";
+const JWT_SECRET          = process.env.JWT_SECRET!;
+const COOKIE_NAME         = "eip_session";
+const REFRESH_COOKIE_NAME = "eip_refresh";
+const REFRESH_COOKIE_PATH = "/api/auth";
 
 export interface JWTPayload {
   userId: number;
   email : string;
+  role  : Role;
+  jti   : string;   // session id, or "api_key:<id>" for API key requests
+  /** Set when the request was authenticated with an API key; never part of a token. */
+  apiKey?: ApiKeyGrant;
   iat?  : number;
   exp?  : number;
 }
 
 export function signToken(payload: Omit<JWTPayload, "iat" | "exp">): string {
   if (!JWT_SECRET) throw new Error("JWT_SECRET is not configured.");
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: TOKEN_TTL });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
 }
 
 export function verifyToken(token: string): JWTPayload | null {
@@ -31,20 +50,136 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
-/** Read and verify the session cookie (server-side only). */
+/**
+ * Read and verify the access token cookie (server-side only). Tokens whose
+ * session was revoked, and tokens issued before sessions existed (no jti),
+ * are rejected. `role` is the user's current role, which may be newer
+ * than the one in the token.
+ *
+ * A request with an `Authorization: Bearer` header is authenticated by
+ * that API key alone, and the cookie is ignored; a key that does not work
+ * is audited and the request treated as anonymous.
+ */
 export async function getAuthUser(): Promise<JWTPayload | null> {
+  const bearer = /^Bearer\s+(\S+)$/i.exec((await headers()).get("authorization") ?? "");
+  if (bearer) return apiKeyUser(bearer[1]);
+
   const store = await cookies();
   const token = store.get(COOKIE_NAME)?.value;
   if (!token) return null;
-  return verifyToken(token);
+
+  const payload = verifyToken(token);
+  if (!payload?.jti) return null;
+
+  const role = await sessionStore.currentRole(payload.jti, payload.userId);
+  return role ? { ...payload, role } : null;
+}
+
+async function apiKeyUser(key: string): Promise<JWTPayload | null> {
+  const ip = getRequestContext()?.ipAddress ?? "unknown";
+  const owner = await apiKeyStore.verify(key, ip);
+  if (!owner) {
+    auditLog.apiKeyRejected(key.slice(0, 12), ip);
+    return null;
+  }
+  return {
+    userId: owner.userId,
+    email : owner.email,
+    role  : owner.role,
+    jti   : `api_key:${owner.grant.id}`,
+    apiKey: owner.grant,
+  };
+}
+
+async function setAuthCookies(accessToken: string, refreshToken: string | null): Promise<void> {
+  const store = await cookies();
+  store.set(COOKIE_NAME, accessToken, COOKIE_OPTIONS);
+  if (refreshToken) {
+    store.set(REFRESH_COOKIE_NAME, refreshToken, REFRESH_COOKIE_OPTIONS);
+  }
+}
+
+/** Clear both cookies without touching the session. */
+export async function clearAuthCookies(): Promise<void> {
+  const store = await cookies();
+  store.set(COOKIE_NAME, "", { maxAge: 0, path: "/" });
+  store.set(REFRESH_COOKIE_NAME, "", { maxAge: 0, path: REFRESH_COOKIE_PATH });
+}
+
+/** Create a session for a user who just signed in and set both cookies. */
+export async function startSession(
+  user: { id: number; email: string; role: Role },
+  client: SessionClient
+): Promise<string> {
+  const { sessionId, refreshToken } = await sessionStore.create(user.id, client);
+  await setAuthCookies(
+    signToken({ userId: user.id, email: user.email, role: user.role, jti: sessionId }),
+    refreshToken
+  );
+  return sessionId;
+}
+
+/** Session id named by the refresh cookie, unverified; used as a rate-limit key. */
+export async function refreshCookieSessionId(): Promise<string | null> {
+  const store = await cookies();
+  const sessionId = store.get(REFRESH_COOKIE_NAME)?.value.split(".")[0];
+  return sessionId && /^[0-9a-f-]{36}$/i.test(sessionId) ? sessionId : null;
+}
+
+/**
+ * Exchange the refresh cookie for a new access token (and rotated refresh
+ * token). Clears both cookies and returns null when the session is over.
+ */
+export async function refreshSession(client: SessionClient): Promise<JWTPayload | null> {
+  const store = await cookies();
+  const refreshToken = store.get(REFRESH_COOKIE_NAME)?.value;
+  const rotated = refreshToken ? await sessionStore.rotate(refreshToken, client) : null;
+
+  if (!rotated) {
+    await clearAuthCookies();
+    return null;
+  }
+
+  const payload = { userId: rotated.userId, email: rotated.email, role: rotated.role, jti: rotated.sessionId };
+  await setAuthCookies(signToken(payload), rotated.refreshToken);
+  return payload;
 }
 
+/**
+ * Sign out: revoke the current session (identified by the access token, or
+ * by the refresh cookie once the access token has expired) and clear the
+ * cookies. Returns the user id when a session was ended.
+ */
+export async function endSession(ip?: string): Promise<number | null> {
+  const store = await cookies();
+  const access = verifyToken(store.get(COOKIE_NAME)?.value ?? "");
+  let userId: number | null = null;
+
+  if (access?.jti) {
+    if (await sessionStore.revoke(access.userId, access.jti, "logout", ip)) userId = access.userId;
+  } else {
+    const refreshToken = store.get(REFRESH_COOKIE_NAME)?.value;
+    if (refreshToken) userId = await sessionStore.revokeByRefreshToken(refreshToken, "logout", ip);
+  }
+
+  await clearAuthCookies();
+  return userId;
+}
+
+// The access cookie outlives the JWT inside it so middleware still sees a
+// session after the token expires; the client then refreshes it.
 export const COOKIE_OPTIONS = {
   httpOnly: true,
   secure  : process.env.NODE_ENV === "production",
   sameSite: "lax" as const,
-  maxAge  : 60 * 60 * 24 * 7, // 7 days
+  maxAge  : REFRESH_TOKEN_TTL_SECONDS,
   path    : "/",
 };
 
-export { COOKIE_NAME };
+export const REFRESH_COOKIE_OPTIONS = {
+  ...COOKIE_OPTIONS,
+  sameSite: "strict" as const,
+  path    : REFRESH_COOKIE_PATH,
+};
+
+export { COOKIE_NAME, REFRESH_COOKIE_NAME };
@@ -0,0 +1,259 @@
+/**
+ * lib/brief.ts
+ * One-page (or longer) PDF executive brief for a single assessment:
+ * score gauge, key facts, category breakdown, top events and the
+ * Gemini summary. Rendered locally with lib/pdf.ts.
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "./db";
+import { ImpactLevel } from "./classifier";
+import { A4, PdfDocument } from "./pdf";
+
+const TOP_EVENTS = 10;
+
+export interface BriefEvent {
+  title       : string;
+  source      : string;
+  publishedAt : string | null;
+  riskCategory: string;
+  articleScore: number;
+}
+
+export interface BriefData {
+  assessmentId     : number;
+  overallScore     : number;
+  weightedScore    : number | null;
+  impactLevel      : ImpactLevel;
+  dominantCategory : string;
+  categoryBreakdown: Record<string, number>;
+  articleCount     : number;
+  aiSummary        : string;
+  taxonomyVersion  : number | null;
+  createdAt        : string;
+  topEvents        : BriefEvent[];
+}
+
+interface AssessmentRow extends RowDataPacket {
+  id                : number;
+  overall_score     : string;
+  weighted_score    : string | null;
+  impact_level      : ImpactLevel;
+  dominant_category : string;
+  category_breakdown: Record<string, number>;
+  article_count     : number;
+  ai_summary        : string | null;
+  taxonomy_version  : number | null;
+  created_at        : string;
+}
+
+interface EventRow extends RowDataPacket {
+  title        : string;
+  source_name  : string | null;
+  published_at : string | null;
+  risk_category: string;
+  article_score: string;
+}
+
+const LEVEL_COLOR: Record<ImpactLevel, string> = {
+  LOW   : "#1aa884",
+  MEDIUM: "#d98c0b",
+  HIGH  : "#d93636",
+};
+
+const CAT_COLOR: Record<string, string> = {
+  Geopolitical: "#d93636",
+  Monetary    : "#d98c0b",
+  Commodity   : "#7c5ce0",
+  SupplyChain : "#2d6cf5",
+};
+
+const INK   = "#111827";
+const MUTED = "#6b7280";
+const RULE  = "#d1d5db";
+
+const MARGIN = 50;
+
+/** Loads the brief for one of organization `orgId`'s runs, or null if not found. */
+export async function loadBrief(orgId: number, assessmentId: number): Promise<BriefData | null> {
+  const [rows] = await db.query<AssessmentRow[]>(
+    `SELECT id, overall_score, weighted_score, impact_level, dominant_category,
+            category_breakdown, article_count, ai_summary, taxonomy_version,
+            DATE_FORMAT(created_at, '%Y-%m-%dT%H:%i:%sZ') AS created_at
+       FROM impact_assessments
+      WHERE id = ? AND org_id = ?`,
+    [assessmentId, orgId]
+  );
+  if (rows.length === 0) return null;
+
+  const [events] = await db.query<EventRow[]>(
+    `SELECT e.title, e.source_name,
+            DATE_FORMAT(e.published_at, '%Y-%m-%dT%H:%i:%sZ') AS published_at,
+            ae.risk_category, ae.article_score
+       FROM assessment_events ae
+       JOIN events e ON e.id = ae.event_id
+      WHERE ae.assessment_id = ?
+      ORDER BY ae.article_score DESC, e.id ASC
+      LIMIT ?`,
+    [assessmentId, TOP_EVENTS]
+  );
+
+  const a = rows[0];
+  return {
+    assessmentId     : a.id,
+    overallScore     : Number(a.overall_score),
+    weightedScore    : a.weighted_score === null ? null : Number(a.weighted_score),
+    impactLevel      : a.impact_level,
+    dominantCategory : a.dominant_category,
+    categoryBreakdown: a.category_breakdown,
+    articleCount     : a.article_count,
+    aiSummary        : a.ai_summary ?? "",
+    taxonomyVersion  : a.taxonomy_version,
+    createdAt        : a.created_at,
+    topEvents        : events.map((e) => ({
+      title       : e.title,
+      source      : e.source_name ?? "Unknown",
+      publishedAt : e.published_at,
+      riskCategory: e.risk_category,
+      articleScore: Number(e.article_score),
+    })),
+  };
+}
+
+function formatUtc(iso: string): string {
+  return iso.replace("T", " ").replace(/:\d{2}Z$/, " UTC");
+}
+
+/** Gemini occasionally returns light markdown despite the prompt. */
+function plainText(summary: string): string {
+  return summary
+    .replace(/\*\*|__/g, "")
+    .replace(/^#+\s*/gm, "")
+    .replace(/^\s*[-*]\s+/gm, "• ");
+}
+
+/** Render `brief` as a PDF file. */
+export function renderBrief(brief: BriefData): Buffer {
+  const doc   = new PdfDocument(`Economic Impact Brief #${brief.assessmentId}`);
+  const top   = A4.height - MARGIN;
+  const right = A4.width - MARGIN;
+  const width = right - MARGIN;
+  let y = top;
+
+  // Start a new page when fewer than `height` points remain
+  const ensure = (height: number) => {
+    if (y - height < MARGIN) {
+      doc.addPage();
+      y = top;
+    }
+  };
+
+  const heading = (label: string) => {
+    ensure(40);
+    y -= 26;
+    doc.text(MARGIN, y, label.toUpperCase(), { size: 9, font: "bold", color: MUTED });
+    y -= 6;
+    doc.line(MARGIN, y, right, y, RULE, 0.5);
+    y -= 14;
+  };
+
+  // ── Title ──────────────────────────────────────────────────────
+  y -= 20;
+  doc.text(MARGIN, y, "Economic Impact Brief", { size: 20, font: "bold", color: INK });
+  y -= 16;
+  const meta = [
+    `Assessment #${brief.assessmentId}`,
+    formatUtc(brief.createdAt),
+    brief.taxonomyVersion !== null ? `taxonomy v${brief.taxonomyVersion}` : null,
+  ].filter(Boolean).join("  ·  ");
+  doc.text(MARGIN, y, meta, { size: 9, color: MUTED });
+  y -= 10;
+  doc.line(MARGIN, y, right, y, INK, 1);
+
+  // ── Gauge ──────────────────────────────────────────────────────
+  // 180° sweep, 0 at the left; bands match the LOW/MEDIUM/HIGH thresholds
+  const cx = MARGIN + 90;
+  const cy = y - 110;
+  const r  = 70;
+  const deg = (score: number) => 180 - score * 1.8;
+  doc.arc(cx, cy, r, deg(0),  deg(30),  LEVEL_COLOR.LOW,    14);
+  doc.arc(cx, cy, r, deg(30), deg(70),  LEVEL_COLOR.MEDIUM, 14);
+  doc.arc(cx, cy, r, deg(70), deg(100), LEVEL_COLOR.HIGH,   14);
+
+  const needle = (deg(Math.min(100, Math.max(0, brief.overallScore))) * Math.PI) / 180;
+  doc.line(cx, cy, cx + (r - 18) * Math.cos(needle), cy + (r - 18) * Math.sin(needle), INK, 2.5);
+
+  const scoreText = String(Math.round(brief.overallScore));
+  doc.text(cx - doc.textWidth(scoreText, 26, "bold") / 2, cy - 30, scoreText, { size: 26, font: "bold", color: INK });
+  doc.text(cx - doc.textWidth(brief.impactLevel, 11, "bold") / 2, cy - 46, brief.impactLevel,
+           { size: 11, font: "bold", color: LEVEL_COLOR[brief.impactLevel] });
+
+  // ── Key facts ──────────────────────────────────────────────────
+  const facts: Array<[string, string]> = [
+    ["Impact score",      `${brief.overallScore} / 100`],
+    ["Weighted score",    brief.weightedScore === null ? "not weighted" : `${brief.weightedScore} / 100`],
+    ["Dominant category", brief.dominantCategory],
+    ["Articles analysed", String(brief.articleCount)],
+  ];
+  let fy = y - 40;
+  for (const [label, value] of facts) {
+    doc.text(MARGIN + 220, fy, label, { size: 9, color: MUTED });
+    doc.text(MARGIN + 330, fy, value, { size: 11, font: "bold", color: INK });
+    fy -= 24;
+  }
+  y = cy - 60;
+
+  // ── Category breakdown ─────────────────────────────────────────
+  heading("Category breakdown");
+  const categories = Object.entries(brief.categoryBreakdown).sort(([, a], [, b]) => b - a);
+  const barX = MARGIN + 100;
+  const barW = width - 150;
+  for (const [category, pct] of categories) {
+    ensure(18);
+    doc.text(MARGIN, y, category, { size: 9, color: INK });
+    doc.rect(barX, y - 1, barW, 8, "#f3f4f6");
+    if (pct > 0) doc.rect(barX, y - 1, (barW * pct) / 100, 8, CAT_COLOR[category] ?? "#4b6080");
+    doc.text(barX + barW + 8, y, `${pct}%`, { size: 9, color: MUTED });
+    y -= 16;
+  }
+
+  // ── Top events ─────────────────────────────────────────────────
+  heading(`Top events (${brief.topEvents.length} of ${brief.articleCount})`);
+  if (brief.topEvents.length === 0) {
+    doc.text(MARGIN, y, "No events recorded for this run.", { size: 9, color: MUTED });
+    y -= 14;
+  }
+  for (const e of brief.topEvents) {
+    const titleLines = doc.wrap(e.title, width - 40, 10, "bold");
+    ensure(titleLines.length * 13 + 18);
+
+    doc.text(MARGIN, y, String(e.articleScore), {
+      size : 11,
+      font : "bold",
+      color: e.articleScore >= 71 ? LEVEL_COLOR.HIGH : e.articleScore >= 31 ? LEVEL_COLOR.MEDIUM : LEVEL_COLOR.LOW,
+    });
+    for (const line of titleLines) {
+      doc.text(MARGIN + 40, y, line, { size: 10, font: "bold", color: INK });
+      y -= 13;
+    }
+    const byline = [e.riskCategory, e.source, e.publishedAt ? formatUtc(e.publishedAt) : null].filter(Boolean).join("  ·  ");
+    doc.text(MARGIN + 40, y, byline, { size: 8, color: MUTED });
+    y -= 18;
+  }
+
+  // ── Summary ────────────────────────────────────────────────────
+  heading("Executive summary");
+  const summary = plainText(brief.aiSummary).trim() || "No AI summary was generated for this run.";
+  for (const line of doc.wrap(summary, width, 10)) {
+    ensure(14);
+    doc.text(MARGIN, y, line, { size: 10, color: INK });
+    y -= 14;
+  }
+
+  ensure(30);
+  y -= 16;
+  doc.text(MARGIN, y, `Generated ${formatUtc(new Date().toISOString().replace(/\.\d{3}Z$/, "Z"))} by Event Intelligence Platform`,
+           { size: 7, color: MUTED });
+
+  return doc.toBuffer();
+}
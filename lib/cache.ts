@@ -5,6 +5,10 @@
  */
 
 import { logger } from './logger';
+import type { ActiveTaxonomy } from './taxonomy';
+import type { CachedSession } from './sessions';
+import type { CachedApiKey } from './apiKeys';
+import type { SystemSettings } from './settings';
 
 interface CacheEntry<T> {
   value: T;
@@ -117,8 +121,17 @@ class Cache<T = unknown> {
 // Assessment cache: 5 minute TTL
 export const assessmentCache = new Cache<Record<string, unknown>>(300);
 
-// User session metadata cache: 7 day TTL
-export const sessionCache = new Cache<Record<string, unknown>>(7 * 24 * 60 * 60);
+// Session revocation state by session id (access token jti): 1 minute TTL
+export const sessionCache = new Cache<CachedSession>(60);
+
+// API key lookups by prefix: 1 minute TTL, cleared on revocation
+export const apiKeyCache = new Cache<CachedApiKey>(60);
 
 // API response cache: 1 minute TTL
 export const apiCache = new Cache<Record<string, unknown>>(60);
+
+// Active classifier taxonomy: 1 minute TTL, cleared on activation
+export const taxonomyCache = new Cache<ActiveTaxonomy>(60);
+
+// Admin-editable system settings: 1 minute TTL, cleared on save
+export const settingsCache = new Cache<SystemSettings>(60);
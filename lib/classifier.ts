@@ -3,34 +3,48 @@
  * ─────────────────────────────────────────────────────────────────
  * Deterministic backend risk classifier. Zero AI involvement.
  *
+ * Categories, keywords, weights and severity tiers come from a Taxonomy —
+ * the active version in the database (lib/taxonomy), or DEFAULT_TAXONOMY
+ * below, which also seeds version 1.
+ *
  * Pipeline per article:
- *   1. Keyword matching  → assign risk category
+ *   1. Keyword matching  → assign risk category (lib/matcher: word
+ *                          boundaries, stemming, phrases, negation)
  *   2. Severity scan     → compute severity boost
  *   3. Score formula     → articleScore = categoryWeight × 60 + severityBoost
+ *   Each step is recorded in the article's ScoreExplanation.
  *
  * Pipeline for batch:
- *   4. Weighted average  → overallScore
- *   5. Threshold mapping → impactLevel (LOW / MEDIUM / HIGH)
+ *   4. Weighted average  → overallScore (weight = category × corroboration)
+ *                          and, when an ArticleWeighting is supplied,
+ *                          weightedScore (× recency × credibility, lib/weighting)
+ *   5. Threshold mapping → impactLevel (LOW / MEDIUM / HIGH) from overallScore
  * ─────────────────────────────────────────────────────────────────
  */
 
+import { AnalyzedText, CompiledTerm, analyzeText, compileTerms, findTerms, findNegatedTerms } from "./matcher";
+
 // ─── Types ────────────────────────────────────────────────────────
 
-export type RiskCategory =
-  | "Geopolitical"
-  | "Monetary"
-  | "Commodity"
-  | "SupplyChain"
-  | "General";
+/** A category name from the active taxonomy, e.g. "Geopolitical". */
+export type RiskCategory = string;
 
 export type ImpactLevel = "LOW" | "MEDIUM" | "HIGH";
 
+export interface SourceRef {
+  name: string;
+  url : string;
+}
+
 export interface RawArticle {
   title      : string;
   description: string | null;
   source     : { name: string } | string;
   url        : string;
   publishedAt: string;
+  // Set by lib/dedup when syndicated copies were merged into this article
+  sourceCount?: number;
+  sources?    : SourceRef[];
 }
 
 export interface ClassifiedArticle {
@@ -42,136 +56,264 @@ export interface ClassifiedArticle {
   riskCategory   : RiskCategory;
   articleScore   : number;
   keywordMatches : Partial<Record<RiskCategory, string[]>>;
+  explanation    : ScoreExplanation;
+  weighting?     : AggregateWeights;   // only on weighted runs
+  sourceCount    : number;
+  sources        : SourceRef[];
+}
+
+/** Extra aggregate multipliers for one article (see lib/weighting). */
+export interface AggregateWeights {
+  recency    : number;
+  ageHours   : number | null;   // null when publishedAt is missing or invalid
+  credibility: number;
+  sourceTier : string | null;   // null when the outlet is not in `sources`
 }
 
-export interface CategoryBreakdown {
-  Geopolitical: number;
-  Monetary    : number;
-  Commodity   : number;
-  SupplyChain : number;
-  General     : number;
+export type ArticleWeighting = (article: ClassifiedArticle) => AggregateWeights;
+
+/** How the winning category was chosen among the candidates. */
+export type CategoryDecision =
+  | "single_match"    // only one category had keyword hits
+  | "highest_score"   // strictly highest matchCount × weight
+  | "tie_weight"      // tied on score; the higher-weighted category won
+  | "tie_order"       // tied on score and weight; earlier in the taxonomy won
+  | "fallback";       // no keyword hits; the taxonomy's fallback category
+
+export interface CategoryCandidate {
+  category: RiskCategory;
+  matches : string[];
+  weight  : number;
+  score   : number;   // matches.length × weight
 }
 
+/**
+ * Audit trail for one article score:
+ *   score = clamp( round(base + boost), 0, 100 ), base = weight × 60
+ */
+export interface ScoreExplanation {
+  candidates: CategoryCandidate[];   // best first
+  decision  : CategoryDecision;
+  negated   : string[];              // keywords present only in a negated context
+  severity  : {
+    tier        : number | null;     // 1-based tier index; null = baseline
+    boost       : number;
+    trigger     : string | null;     // the severity word that fired
+    deEscalation: string | null;     // phrase that cancelled the severity tier
+  };
+  weight    : number;
+  base      : number;
+  boost     : number;
+  unclamped : number;
+  score     : number;
+}
+
+/** Percentage of articles per category; every taxonomy category is present. */
+export type CategoryBreakdown = Record<RiskCategory, number>;
+
 export interface AssessmentResult {
   overallScore      : number;
+  weightedScore     : number | null;   // null when the run was not weighted
   impactLevel       : ImpactLevel;
   dominantCategory  : RiskCategory;
   categoryBreakdown : CategoryBreakdown;
   articles          : ClassifiedArticle[];
 }
 
-// ─── Keyword Dictionaries ─────────────────────────────────────────
+// ─── Taxonomy ─────────────────────────────────────────────────────
 
-const KEYWORDS: Record<RiskCategory, string[]> = {
-  Geopolitical: [
-    "war", "conflict", "sanction", "geopolitic", "military", "coup",
-    "invasion", "nuclear", "treaty", "nato", "terrorism", "ceasefire",
-    "troops", "missile", "airstrike", "alliance", "diplomatic crisis",
-    "political instability", "rebel", "insurgency", "annexation",
-  ],
-  Monetary: [
-    "inflation", "interest rate", "central bank", "federal reserve",
-    "fed rate", "ecb", "monetary policy", "rate hike", "rate cut",
-    "quantitative easing", "currency", "deflation", "stagflation",
-    "bond yield", "treasury", "repo rate", "liquidity",
-  ],
-  Commodity: [
-    "oil", "gold", "commodity", "energy", "crude oil", "brent",
-    "opec", "fuel", "copper", "wheat", "food price", "grain",
-    "natural gas", "lng", "rare earth", "silver", "coffee",
+export interface TaxonomyCategory {
+  name    : RiskCategory;
+  weight  : number;          // 0–1; base contribution is weight × 60
+  keywords: string[];
+  // Assigned when no keyword matches. Exactly one category per taxonomy.
+  fallback?: boolean;
+}
+
+export interface SeverityTier {
+  boost: number;
+  words: string[];
+}
+
+export interface Taxonomy {
+  categories   : TaxonomyCategory[];
+  severityTiers: SeverityTier[];   // checked in order; first hit wins
+  baselineBoost: number;           // boost when no severity word matches
+}
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  categories: [
+    {
+      name: "Geopolitical",
+      // Highest macro impact
+      weight: 1.00,
+      keywords: [
+        "war", "conflict", "sanction", "geopolitics", "geopolitical", "military", "coup",
+        "invasion", "nuclear", "treaty", "nato", "terrorism", "ceasefire",
+        "troops", "missile", "airstrike", "alliance", "diplomatic crisis",
+        "political instability", "rebel", "insurgency", "annexation",
+      ],
+    },
+    {
+      name: "Monetary",
+      weight: 0.90,
+      keywords: [
+        "inflation", "interest rate", "central bank", "federal reserve",
+        "fed rate", "ecb", "monetary policy", "rate hike", "rate cut",
+        "quantitative easing", "currency", "deflation", "stagflation",
+        "bond yield", "treasury", "repo rate", "liquidity",
+      ],
+    },
+    {
+      name: "Commodity",
+      weight: 0.80,
+      keywords: [
+        "oil", "gold", "commodity", "energy", "crude oil", "brent",
+        "opec", "fuel", "copper", "wheat", "food price", "grain",
+        "natural gas", "lng", "rare earth", "silver", "coffee",
+      ],
+    },
+    {
+      name: "SupplyChain",
+      weight: 0.70,
+      keywords: [
+        "supply chain", "logistics", "shortage", "disruption", "trade war",
+        "tariff", "import ban", "export ban", "shipping", "port",
+        "semiconductor", "chip shortage", "freight", "factory shutdown",
+        "manufacturing", "inventory", "bottleneck",
+      ],
+    },
+    { name: "General", weight: 0.30, keywords: [], fallback: true },
   ],
-  SupplyChain: [
-    "supply chain", "logistics", "shortage", "disruption", "trade war",
-    "tariff", "import ban", "export ban", "shipping", "port",
-    "semiconductor", "chip shortage", "freight", "factory shutdown",
-    "manufacturing", "inventory", "bottleneck",
+
+  severityTiers: [
+    {
+      boost: 40,
+      words: [
+        "war", "crash", "collapse", "invasion", "nuclear", "catastrophic",
+        "emergency", "meltdown", "default", "hyperinflation", "famine",
+      ],
+    },
+    {
+      boost: 25,
+      words: [
+        "surge", "spike", "sanction", "recession", "shock", "escalation",
+        "plunge", "ban", "freeze", "blockade", "halt",
+      ],
+    },
+    {
+      boost: 12,
+      words: [
+        "rise", "increase", "concern", "tension", "risk", "volatile",
+        "warning", "threat", "instability", "downgrade", "slowdown",
+      ],
+    },
   ],
-  General: [],
-};
 
-// Base weight per category — Geopolitical has highest macro impact
-const CATEGORY_WEIGHT: Record<RiskCategory, number> = {
-  Geopolitical: 1.00,
-  Monetary    : 0.90,
-  Commodity   : 0.80,
-  SupplyChain : 0.70,
-  General     : 0.30,
+  baselineBoost: 5,
 };
 
-// ─── Severity Tiers ───────────────────────────────────────────────
-
-const SEVERITY_TIERS: Array<{ words: string[]; boost: number }> = [
-  {
-    boost: 40,
-    words: [
-      "war", "crash", "collapse", "invasion", "nuclear", "catastrophic",
-      "emergency", "meltdown", "default", "hyperinflation", "famine",
-    ],
-  },
-  {
-    boost: 25,
-    words: [
-      "surge", "spike", "sanction", "recession", "shock", "escalation",
-      "plunge", "ban", "freeze", "blockade", "halt",
-    ],
-  },
-  {
-    boost: 12,
-    words: [
-      "rise", "increase", "concern", "tension", "risk", "volatile",
-      "warning", "threat", "instability", "downgrade", "slowdown",
-    ],
-  },
-];
-
-const BASELINE_BOOST = 5;
+// Extra aggregate weight per doubling of independent outlets reporting an event.
+// Logarithmic so a story syndicated five times counts ~1.6×, not 5×.
+const CORROBORATION_FACTOR = 0.25;
 
 // ─── Private Helpers ──────────────────────────────────────────────
 
-function lc(text: string): string {
-  return text.toLowerCase();
+interface CompiledTaxonomy {
+  categories   : Array<{ name: RiskCategory; terms: CompiledTerm[] }>;
+  severityTiers: Array<{ boost: number; terms: CompiledTerm[] }>;
 }
 
-function matchKeywords(text: string): Partial<Record<RiskCategory, string[]>> {
-  const lower = lc(text);
-  const result: Partial<Record<RiskCategory, string[]>> = {};
+// Keywords are stemmed once per taxonomy object, not once per article.
+const compiled = new WeakMap<Taxonomy, CompiledTaxonomy>();
 
-  for (const [cat, words] of Object.entries(KEYWORDS) as [RiskCategory, string[]][]) {
-    const matched = words.filter((w) => lower.includes(w));
-    if (matched.length > 0) result[cat] = matched;
+function compileTaxonomy(taxonomy: Taxonomy): CompiledTaxonomy {
+  let c = compiled.get(taxonomy);
+  if (!c) {
+    c = {
+      categories   : taxonomy.categories.map((cat) => ({ name: cat.name, terms: compileTerms(cat.keywords) })),
+      severityTiers: taxonomy.severityTiers.map((t) => ({ boost: t.boost, terms: compileTerms(t.words) })),
+    };
+    compiled.set(taxonomy, c);
   }
+  return c;
+}
 
-  return result;
+function fallbackCategory(taxonomy: Taxonomy): TaxonomyCategory {
+  return taxonomy.categories.find((c) => c.fallback) ?? taxonomy.categories[taxonomy.categories.length - 1];
 }
 
-function pickCategory(matches: Partial<Record<RiskCategory, string[]>>): RiskCategory {
-  let best: RiskCategory = "General";
-  let bestScore = -1;
+function matchKeywords(text: AnalyzedText, taxonomy: CompiledTaxonomy): Partial<Record<RiskCategory, string[]>> {
+  const result: Partial<Record<RiskCategory, string[]>> = {};
 
-  for (const [cat, words] of Object.entries(matches) as [RiskCategory, string[]][]) {
-    // Score = match count × category weight; tie-broken by weight alone
-    const score = words.length * CATEGORY_WEIGHT[cat];
-    if (score > bestScore) {
-      bestScore = score;
-      best = cat;
-    }
+  for (const { name, terms } of taxonomy.categories) {
+    const matched = findTerms(text, terms);
+    if (matched.length > 0) result[name] = matched;
   }
 
-  return best;
+  return result;
 }
 
-function severityBoost(text: string): number {
-  const lower = lc(text);
-  for (const tier of SEVERITY_TIERS) {
-    if (tier.words.some((w) => lower.includes(w))) return tier.boost;
+/**
+ * Rank categories by matchCount × weight. Ties go to the higher weight,
+ * then to the category listed first in the taxonomy.
+ */
+function pickCategory(
+  matches: Partial<Record<RiskCategory, string[]>>,
+  taxonomy: Taxonomy,
+  fallback: RiskCategory
+): { category: RiskCategory; candidates: CategoryCandidate[]; decision: CategoryDecision } {
+  const candidates: CategoryCandidate[] = taxonomy.categories
+    .filter((c) => matches[c.name])
+    .map((c) => ({
+      category: c.name,
+      matches : matches[c.name]!,
+      weight  : c.weight,
+      score   : round2(matches[c.name]!.length * c.weight),
+    }));
+
+  // Array.prototype.sort is stable, so equal entries keep taxonomy order.
+  candidates.sort((a, b) => b.score - a.score || b.weight - a.weight);
+
+  const [first, second] = candidates;
+  if (!first)  return { category: fallback, candidates, decision: "fallback" };
+  if (!second) return { category: first.category, candidates, decision: "single_match" };
+
+  const decision: CategoryDecision =
+    first.score  > second.score  ? "highest_score" :
+    first.weight > second.weight ? "tie_weight"    : "tie_order";
+
+  return { category: first.category, candidates, decision };
+}
+
+/** De-escalation language ("ceasefire holds") cancels any severity tier. */
+function severityBoost(
+  text: AnalyzedText,
+  taxonomy: CompiledTaxonomy,
+  baselineBoost: number
+): ScoreExplanation["severity"] {
+  const baseline = { tier: null, boost: baselineBoost, trigger: null, deEscalation: text.deEscalation };
+  if (text.deEscalation) return baseline;
+
+  for (const [i, tier] of Array.from(taxonomy.severityTiers.entries())) {
+    const [trigger] = findTerms(text, tier.terms);
+    if (trigger) return { tier: i + 1, boost: tier.boost, trigger, deEscalation: null };
   }
-  return BASELINE_BOOST;
+  return baseline;
+}
+
+function corroborationWeight(sourceCount: number): number {
+  return 1 + CORROBORATION_FACTOR * Math.log2(Math.max(1, sourceCount));
 }
 
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 // ─── Scoring ──────────────────────────────────────────────────────
 
 /**
@@ -179,13 +321,12 @@ function clamp(value: number, min: number, max: number): number {
  *   articleScore = clamp( categoryWeight × 60 + severityBoost , 0 , 100 )
  *
  * categoryWeight × 60 → base contribution from the risk category (0–60)
- * severityBoost       → language-driven amplifier (5–40)
- * Together: range is 35–100 for any non-General article.
+ * severityBoost       → language-driven amplifier (5–40 by default)
+ * With the default taxonomy the range is 35–100 for any non-General article.
  */
-function scoreArticle(category: RiskCategory, text: string): number {
-  const base  = CATEGORY_WEIGHT[category] * 60;
-  const boost = severityBoost(text);
-  return clamp(Math.round(base + boost), 0, 100);
+function scoreArticle(weight: number, boost: number): { base: number; unclamped: number; score: number } {
+  const base = round2(weight * 60);
+  return { base, unclamped: round2(base + boost), score: clamp(Math.round(base + boost), 0, 100) };
 }
 
 export function toImpactLevel(score: number): ImpactLevel {
@@ -197,16 +338,29 @@ export function toImpactLevel(score: number): ImpactLevel {
 // ─── Public API ───────────────────────────────────────────────────
 
 /**
- * Classify a batch of raw NewsAPI articles.
+ * Classify a batch of raw (ideally deduplicated) articles against `taxonomy`.
  * Returns the full assessment result including per-article and aggregate scores.
+ * With `weighting`, weightedScore is computed alongside the raw overallScore.
  */
-export function classifyArticles(rawArticles: RawArticle[]): AssessmentResult {
+export function classifyArticles(
+  rawArticles: RawArticle[],
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY,
+  weighting?: ArticleWeighting
+): AssessmentResult {
+  const weights  = new Map(taxonomy.categories.map((c) => [c.name, c.weight]));
+  const fallback = fallbackCategory(taxonomy).name;
+  const terms    = compileTaxonomy(taxonomy);
+  const allTerms = [...terms.categories, ...terms.severityTiers].flatMap((c) => c.terms);
+
   // ── Step 1: classify each article ──
   const classified: ClassifiedArticle[] = rawArticles.map((a) => {
-    const text        = `${a.title ?? ""} ${a.description ?? ""}`;
-    const matches     = matchKeywords(text);
-    const category    = pickCategory(matches);
-    const score       = scoreArticle(category, text);
+    const text        = analyzeText(`${a.title ?? ""}. ${a.description ?? ""}`);
+    const matches     = matchKeywords(text, terms);
+    const picked      = pickCategory(matches, taxonomy, fallback);
+    const category    = picked.category;
+    const weight      = weights.get(category) ?? 0;
+    const severity    = severityBoost(text, terms, taxonomy.baselineBoost);
+    const scored      = scoreArticle(weight, severity.boost);
     const sourceName  = typeof a.source === "string" ? a.source : (a.source?.name ?? "Unknown");
 
     return {
@@ -216,54 +370,78 @@ export function classifyArticles(rawArticles: RawArticle[]): AssessmentResult {
       url           : a.url,
       publishedAt   : a.publishedAt,
       riskCategory  : category,
-      articleScore  : score,
+      articleScore  : scored.score,
       keywordMatches: matches,
+      explanation   : {
+        candidates: picked.candidates,
+        decision  : picked.decision,
+        negated   : Array.from(new Set(findNegatedTerms(text, allTerms))),
+        severity,
+        weight,
+        base      : scored.base,
+        boost     : severity.boost,
+        unclamped : scored.unclamped,
+        score     : scored.score,
+      },
+      sourceCount   : a.sourceCount ?? 1,
+      sources       : a.sources ?? [{ name: sourceName, url: a.url }],
     };
   });
 
   // ── Step 2: weighted aggregate score ──
   //    Each article's contribution is weighted by its category's base weight.
   //    A cluster of Geopolitical articles moves the needle more than General.
+  //    Events reported by several outlets get a damped corroboration bonus.
+  //    The weighted variant further scales each weight by recency × credibility.
   let weightedSum  = 0;
   let totalWeight  = 0;
+  let adjustedSum  = 0;
+  let adjustedTotal = 0;
 
   for (const a of classified) {
-    const w = CATEGORY_WEIGHT[a.riskCategory];
+    const w = (weights.get(a.riskCategory) ?? 0) * corroborationWeight(a.sourceCount);
     weightedSum += a.articleScore * w;
     totalWeight += w;
+
+    if (weighting) {
+      a.weighting = weighting(a);
+      const aw = w * a.weighting.recency * a.weighting.credibility;
+      adjustedSum   += a.articleScore * aw;
+      adjustedTotal += aw;
+    }
   }
 
   const overallScore = totalWeight > 0
     ? clamp(Math.round(weightedSum / totalWeight), 0, 100)
     : 0;
 
-  // ── Step 3: category breakdown (% of articles per category) ──
-  const counts: CategoryBreakdown = {
-    Geopolitical: 0, Monetary: 0, Commodity: 0, SupplyChain: 0, General: 0,
-  };
+  const weightedScore = !weighting ? null
+    : adjustedTotal > 0 ? clamp(Math.round(adjustedSum / adjustedTotal), 0, 100)
+    : overallScore;
 
+  // ── Step 3: category breakdown (% of articles per category) ──
+  const counts: Record<RiskCategory, number> = {};
+  for (const c of taxonomy.categories) counts[c.name] = 0;
   for (const a of classified) counts[a.riskCategory]++;
 
   const total = classified.length || 1;
-  const categoryBreakdown: CategoryBreakdown = {
-    Geopolitical: Math.round((counts.Geopolitical / total) * 100),
-    Monetary    : Math.round((counts.Monetary / total) * 100),
-    Commodity   : Math.round((counts.Commodity / total) * 100),
-    SupplyChain : Math.round((counts.SupplyChain / total) * 100),
-    General     : Math.round((counts.General / total) * 100),
-  };
+  const categoryBreakdown: CategoryBreakdown = {};
+  for (const [cat, count] of Object.entries(counts)) {
+    categoryBreakdown[cat] = Math.round((count / total) * 100);
+  }
 
   // ── Step 4: dominant category ──
-  let dominant: RiskCategory = "General";
+  let dominant: RiskCategory = fallback;
   let domScore = -1;
 
-  for (const [cat, count] of Object.entries(counts) as [RiskCategory, number][]) {
-    const s = count * CATEGORY_WEIGHT[cat];
+  for (const [cat, count] of Object.entries(counts)) {
+    const s = count * (weights.get(cat) ?? 0);
     if (s > domScore) { domScore = s; dominant = cat; }
   }
 
   return {
     overallScore,
+    weightedScore,
     impactLevel     : toImpactLevel(overallScore),
     dominantCategory: dominant,
     categoryBreakdown,
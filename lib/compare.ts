@@ -0,0 +1,213 @@
+/**
+ * lib/compare.ts
+ * Diff two of an organization's assessments through their assessment_events links.
+ *
+ * Events are matched by event id (the global store keys events by
+ * canonical URL, so the same story in both runs is the same row). Scores
+ * and categories come from each run's own assessment_events snapshot.
+ * "A" is treated as the baseline and "B" as the newer state regardless
+ * of their actual order.
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "./db";
+import { ImpactLevel } from "./classifier";
+
+export interface RunSummary {
+  assessmentId     : number;
+  overallScore     : number;
+  weightedScore    : number | null;
+  impactLevel      : ImpactLevel;
+  dominantCategory : string;
+  articleCount     : number;
+  taxonomyVersion  : number | null;
+  createdAt        : string;
+}
+
+export interface EventRef {
+  eventId     : number;
+  title       : string;
+  source      : string;
+  url         : string;
+  riskCategory: string;
+  articleScore: number;
+}
+
+export interface ChangedEvent {
+  eventId : number;
+  title   : string;
+  url     : string;
+  a       : { riskCategory: string; articleScore: number };
+  b       : { riskCategory: string; articleScore: number };
+  delta   : number;
+}
+
+export interface AssessmentComparison {
+  a                : RunSummary;
+  b                : RunSummary;
+  scoreDelta       : number;
+  weightedDelta    : number | null;   // only when both runs were weighted
+  levelChange      : { from: ImpactLevel; to: ImpactLevel; direction: "up" | "down" | "same" };
+  categoryDeltas   : Array<{ category: string; a: number; b: number; delta: number }>;
+  newEvents        : EventRef[];
+  droppedEvents    : EventRef[];
+  changedEvents    : ChangedEvent[];
+  unchangedCount   : number;
+}
+
+interface RunRow extends RowDataPacket {
+  id                : number;
+  overall_score     : string;
+  weighted_score    : string | null;
+  impact_level      : ImpactLevel;
+  dominant_category : string;
+  category_breakdown: Record<string, number>;
+  article_count     : number;
+  taxonomy_version  : number | null;
+  created_at        : string;
+}
+
+interface LinkRow extends RowDataPacket {
+  assessment_id: number;
+  event_id     : number;
+  title        : string;
+  source_name  : string | null;
+  url          : string | null;
+  risk_category: string;
+  article_score: string;
+}
+
+const LEVEL_RANK: Record<ImpactLevel, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function toSummary(r: RunRow): RunSummary {
+  return {
+    assessmentId    : r.id,
+    overallScore    : Number(r.overall_score),
+    weightedScore   : r.weighted_score === null ? null : Number(r.weighted_score),
+    impactLevel     : r.impact_level,
+    dominantCategory: r.dominant_category,
+    articleCount    : r.article_count,
+    taxonomyVersion : r.taxonomy_version,
+    createdAt       : r.created_at,
+  };
+}
+
+function toEventRef(l: LinkRow): EventRef {
+  return {
+    eventId     : l.event_id,
+    title       : l.title,
+    source      : l.source_name ?? "Unknown",
+    url         : l.url ?? "",
+    riskCategory: l.risk_category,
+    articleScore: Number(l.article_score),
+  };
+}
+
+/**
+ * Compare run `aId` (baseline) with run `bId`. Returns null when either
+ * run does not exist or belongs to another organization.
+ */
+export async function compareAssessments(orgId: number, aId: number, bId: number): Promise<AssessmentComparison | null> {
+  const [runs] = await db.query<RunRow[]>(
+    `SELECT id, overall_score, weighted_score, impact_level, dominant_category,
+            category_breakdown, article_count, taxonomy_version,
+            DATE_FORMAT(created_at, '%Y-%m-%dT%H:%i:%sZ') AS created_at
+       FROM impact_assessments
+      WHERE id IN (?, ?) AND org_id = ?`,
+    [aId, bId, orgId]
+  );
+
+  const runA = runs.find((r) => r.id === aId);
+  const runB = runs.find((r) => r.id === bId);
+  if (!runA || !runB) return null;
+
+  const [links] = await db.query<LinkRow[]>(
+    `SELECT ae.assessment_id, ae.event_id, e.title, e.source_name, e.url,
+            ae.risk_category, ae.article_score
+       FROM assessment_events ae
+       JOIN events e ON e.id = ae.event_id
+      WHERE ae.assessment_id IN (?, ?)`,
+    [aId, bId]
+  );
+
+  const eventsA = new Map(links.filter((l) => l.assessment_id === aId).map((l) => [l.event_id, l]));
+  const eventsB = new Map(links.filter((l) => l.assessment_id === bId).map((l) => [l.event_id, l]));
+
+  const newEvents: EventRef[]         = [];
+  const droppedEvents: EventRef[]     = [];
+  const changedEvents: ChangedEvent[] = [];
+  let unchangedCount = 0;
+
+  for (const [id, b] of Array.from(eventsB)) {
+    const a = eventsA.get(id);
+    if (!a) {
+      newEvents.push(toEventRef(b));
+      continue;
+    }
+
+    const scoreA = Number(a.article_score);
+    const scoreB = Number(b.article_score);
+    if (scoreA === scoreB && a.risk_category === b.risk_category) {
+      unchangedCount++;
+      continue;
+    }
+
+    changedEvents.push({
+      eventId: id,
+      title  : b.title,
+      url    : b.url ?? "",
+      a      : { riskCategory: a.risk_category, articleScore: scoreA },
+      b      : { riskCategory: b.risk_category, articleScore: scoreB },
+      delta  : round1(scoreB - scoreA),
+    });
+  }
+
+  for (const [id, a] of Array.from(eventsA)) {
+    if (!eventsB.has(id)) droppedEvents.push(toEventRef(a));
+  }
+
+  const byScore = (x: EventRef, y: EventRef) => y.articleScore - x.articleScore;
+  newEvents.sort(byScore);
+  droppedEvents.sort(byScore);
+  changedEvents.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+  // Union of categories, so a category added in a newer taxonomy shows 0 → n.
+  const categories = Array.from(new Set([
+    ...Object.keys(runA.category_breakdown ?? {}),
+    ...Object.keys(runB.category_breakdown ?? {}),
+  ]));
+  const categoryDeltas = categories
+    .map((category) => {
+      const a = runA.category_breakdown?.[category] ?? 0;
+      const b = runB.category_breakdown?.[category] ?? 0;
+      return { category, a, b, delta: b - a };
+    })
+    .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+  const a = toSummary(runA);
+  const b = toSummary(runB);
+  const rankDelta = LEVEL_RANK[b.impactLevel] - LEVEL_RANK[a.impactLevel];
+
+  return {
+    a,
+    b,
+    scoreDelta   : round1(b.overallScore - a.overallScore),
+    weightedDelta: a.weightedScore !== null && b.weightedScore !== null
+      ? round1(b.weightedScore - a.weightedScore)
+      : null,
+    levelChange  : {
+      from     : a.impactLevel,
+      to       : b.impactLevel,
+      direction: rankDelta > 0 ? "up" : rankDelta < 0 ? "down" : "same",
+    },
+    categoryDeltas,
+    newEvents,
+    droppedEvents,
+    changedEvents,
+    unchangedCount,
+  };
+}
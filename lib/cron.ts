@@ -0,0 +1,189 @@
+/**
+ * lib/cron.ts
+ * Minimal five-field cron expression parser, evaluated in UTC.
+ *
+ *   ┌──────── minute        0-59
+ *   │ ┌────── hour          0-23
+ *   │ │ ┌──── day of month  1-31
+ *   │ │ │ ┌── month         1-12 (or JAN-DEC)
+ *   │ │ │ │ ┌ day of week   0-6  (0 = Sunday, 7 also accepted, or SUN-SAT)
+ *   * * * * *
+ *
+ * Supports "*", lists ("1,15"), ranges ("9-17"), steps ("*\/15", "0-30/10")
+ * and the macros @hourly, @daily, @weekly, @monthly.
+ * As in Vixie cron, when both day fields are restricted a day matches if
+ * EITHER matches.
+ */
+
+export interface CronSchedule {
+  minutes    : Set<number>;
+  hours      : Set<number>;
+  daysOfMonth: Set<number>;
+  months     : Set<number>;
+  daysOfWeek : Set<number>;
+  domWildcard: boolean;
+  dowWildcard: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly" : "0 * * * *",
+  "@daily"  : "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly" : "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES   = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// Search horizon for nextRun(): long enough for "29 Feb" style expressions.
+const MAX_SEARCH_YEARS = 5;
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronParseError";
+  }
+}
+
+function parseValue(token: string, names: string[] | null, offset: number): number {
+  if (names) {
+    const idx = names.indexOf(token.toUpperCase());
+    if (idx >= 0) return idx + offset;
+  }
+  if (!/^\d+$/.test(token)) throw new CronParseError(`Invalid value "${token}".`);
+  return parseInt(token, 10);
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  label: string,
+  names: string[] | null = null,
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`Invalid step "${stepPart}" in ${label}.`);
+    }
+
+    let start: number;
+    let end  : number;
+
+    if (rangePart === "*") {
+      start = min;
+      end   = max;
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-");
+      start = parseValue(a, names, nameOffset);
+      end   = parseValue(b, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, names, nameOffset);
+      // "5/15" means "from 5 every 15"
+      end   = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new CronParseError(`${label} value out of range in "${part}" (allowed ${min}-${max}).`);
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const expr   = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = expr.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new CronParseError(`Expected 5 fields, got ${fields.length}.`);
+  }
+
+  const [min, hour, dom, mon, dow] = fields;
+
+  const daysOfWeek = parseField(dow, 0, 7, "day-of-week", DAY_NAMES, 0);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes    : parseField(min,  0, 59, "minute"),
+    hours      : parseField(hour, 0, 23, "hour"),
+    daysOfMonth: parseField(dom,  1, 31, "day-of-month"),
+    months     : parseField(mon,  1, 12, "month", MONTH_NAMES, 1),
+    daysOfWeek,
+    domWildcard: dom === "*",
+    dowWildcard: dow === "*",
+  };
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+  const domOk = s.daysOfMonth.has(d.getUTCDate());
+  const dowOk = s.daysOfWeek.has(d.getUTCDay());
+  if (s.domWildcard && s.dowWildcard) return true;
+  if (s.domWildcard) return dowOk;
+  if (s.dowWildcard) return domOk;
+  return domOk || dowOk;
+}
+
+/**
+ * First minute strictly after `from` matching the schedule.
+ * Walks month → day → hour → minute, skipping whole non-matching units.
+ */
+export function nextRun(schedule: CronSchedule | string, from: Date = new Date()): Date {
+  const s = typeof schedule === "string" ? parseCron(schedule) : schedule;
+
+  const d = new Date(from.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (d.getTime() <= limit) {
+    if (!s.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(s, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!s.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!s.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+
+  throw new CronParseError("Expression never fires.");
+}
+
+/**
+ * Smallest gap (in minutes) between the next `samples` runs.
+ * Used to reject schedules that would burn through news/AI quotas.
+ */
+export function minIntervalMinutes(expression: string, samples = 10, from: Date = new Date()): number {
+  const s = parseCron(expression);
+  let prev = nextRun(s, from);
+  let min  = Infinity;
+
+  for (let i = 1; i < samples; i++) {
+    const next = nextRun(s, prev);
+    min  = Math.min(min, (next.getTime() - prev.getTime()) / 60000);
+    prev = next;
+  }
+
+  return min;
+}
@@ -0,0 +1,174 @@
+/**
+ * lib/dedup.ts
+ * Cross-source article deduplication, run between fetching and classifying.
+ *
+ * Syndicated stories (one wire piece republished by several outlets) are
+ * clustered so the classifier scores each event once. Two articles join the
+ * same cluster when either:
+ *   1. their canonical URLs are identical, or
+ *   2. their normalised titles have Jaccard similarity ≥ TITLE_SIMILARITY
+ *      over word shingles.
+ *
+ * Each cluster collapses into one representative carrying `sourceCount`
+ * and `sources[]`, which the classifier uses as a corroboration signal.
+ */
+
+import { createHash } from "crypto";
+import { RawArticle, SourceRef } from "./classifier";
+
+const TITLE_SIMILARITY = 0.6;
+
+// Query parameters that identify a campaign or referrer, never the content.
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|mc_cid|mc_eid|ocid|cmpid|ref|ref_src|smid|taid|guccounter)$/i;
+
+// ─── URL canonicalisation ─────────────────────────────────────────
+
+/**
+ * Reduce a URL to the form that identifies the underlying story:
+ * protocol, "www.", fragments, tracking parameters, AMP suffixes and
+ * trailing slashes are dropped; remaining parameters are sorted.
+ */
+export function canonicalUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return raw.trim().toLowerCase();
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m|amp)\./, "");
+
+  let pathname = url.pathname
+    .replace(/\/amp\/?$/i, "")
+    .replace(/\.amp(\.html)?$/i, "$1")
+    .replace(/\/+$/, "");
+
+  if (pathname === "") pathname = "/";
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const query = params.length > 0
+    ? "?" + params.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join("&")
+    : "";
+
+  return `${host}${pathname}${query}`;
+}
+
+/** Stable event key: SHA-256 hex of the canonical URL (events.url_hash). */
+export function canonicalUrlHash(raw: string): string {
+  return createHash("sha256").update(canonicalUrl(raw)).digest("hex");
+}
+
+// ─── Title similarity ─────────────────────────────────────────────
+
+function sourceName(a: RawArticle): string {
+  return typeof a.source === "string" ? a.source : (a.source?.name ?? "Unknown");
+}
+
+/**
+ * Lower-case word tokens of a headline with the outlet suffix removed
+ * ("Oil jumps on OPEC cut - Reuters" → ["oil", "jumps", "on", "opec", "cut"]).
+ */
+function titleTokens(title: string): string[] {
+  const stripped = title.replace(/\s+[-–—|]\s+[^-–—|]{1,60}$/, "");
+  return stripped
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\u024f\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function shingles(tokens: string[]): Set<string> {
+  // Very short headlines have too few bigrams to compare meaningfully.
+  if (tokens.length < 4) return new Set(tokens);
+
+  const out = new Set<string>();
+  for (let i = 0; i < tokens.length - 1; i++) out.add(`${tokens[i]} ${tokens[i + 1]}`);
+  return out;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  a.forEach((s) => { if (b.has(s)) intersection++; });
+  return intersection / (a.size + b.size - intersection);
+}
+
+// ─── Clustering ───────────────────────────────────────────────────
+
+function find(parent: number[], i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+function union(parent: number[], a: number, b: number): void {
+  const ra = find(parent, a);
+  const rb = find(parent, b);
+  if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+}
+
+/**
+ * Prefer the earliest-published article (usually the original wire copy);
+ * break ties with the richer description.
+ */
+function pickRepresentative(members: RawArticle[]): RawArticle {
+  return [...members].sort((a, b) => {
+    const ta = a.publishedAt ? Date.parse(a.publishedAt) : Infinity;
+    const tb = b.publishedAt ? Date.parse(b.publishedAt) : Infinity;
+    if (ta !== tb) return (Number.isNaN(ta) ? Infinity : ta) - (Number.isNaN(tb) ? Infinity : tb);
+    return (b.description?.length ?? 0) - (a.description?.length ?? 0);
+  })[0];
+}
+
+/**
+ * Collapse near-duplicate articles into one representative per cluster.
+ * Order of the returned list follows the first appearance of each cluster.
+ */
+export function dedupeArticles(articles: RawArticle[]): RawArticle[] {
+  const n      = articles.length;
+  const parent = articles.map((_, i) => i);
+  const urls   = articles.map((a) => canonicalUrl(a.url));
+  const grams  = articles.map((a) => shingles(titleTokens(a.title)));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (urls[i] === urls[j] || jaccard(grams[i], grams[j]) >= TITLE_SIMILARITY) {
+        union(parent, i, j);
+      }
+    }
+  }
+
+  const clusters = new Map<number, RawArticle[]>();
+  articles.forEach((a, i) => {
+    const root = find(parent, i);
+    const members = clusters.get(root);
+    if (members) members.push(a);
+    else clusters.set(root, [a]);
+  });
+
+  return Array.from(clusters.values()).map((members) => {
+    const rep = pickRepresentative(members);
+
+    const sources: SourceRef[] = [];
+    for (const m of members) {
+      // Members may themselves be pre-merged clusters.
+      const refs = m.sources ?? [{ name: sourceName(m), url: m.url }];
+      for (const ref of refs) {
+        if (!sources.some((s) => s.url === ref.url)) sources.push(ref);
+      }
+    }
+
+    const outlets = new Set(sources.map((s) => s.name.toLowerCase()));
+
+    return {
+      ...rep,
+      sourceCount: outlets.size,
+      sources,
+    };
+  });
+}
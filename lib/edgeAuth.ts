@@ -0,0 +1,47 @@
+/**
+ * lib/edgeAuth.ts
+ * Access-token signature check for middleware.ts. The Edge runtime has no
+ * Node.js crypto, so jsonwebtoken cannot run there; this verifies the
+ * HS256 signature with Web Crypto instead.
+ *
+ * Expiry is deliberately not checked: the access cookie outlives its JWT
+ * (see lib/auth.ts) and the page refreshes the token through the API,
+ * which does the full verification and session check. The claims are only
+ * good enough to decide which pages to show.
+ */
+
+export interface EdgeTokenClaims {
+  userId: number;
+  email : string;
+  role? : string;
+}
+
+function base64UrlDecode(input: string) {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** Claims of a correctly signed token, or null. */
+export async function readAccessToken(token: string | undefined): Promise<EdgeTokenClaims | null> {
+  const secret = process.env.JWT_SECRET;
+  const parts  = token?.split(".");
+  if (!secret || !parts || parts.length !== 3) return null;
+
+  try {
+    const header = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0])));
+    if (header.alg !== "HS256") return null;
+
+    const key = await crypto.subtle.importKey(
+      "raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]
+    );
+    const valid = await crypto.subtle.verify(
+      "HMAC", key, base64UrlDecode(parts[2]), new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!valid) return null;
+
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+  } catch {
+    return null;
+  }
+}
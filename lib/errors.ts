@@ -18,9 +18,20 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Invalid client input. `details.fields` maps each offending field to its
+ * message; a single `{ field }` detail is expanded into that shape so
+ * every validation error reads the same way.
+ */
 export class ValidationError extends AppError {
   constructor(message: string, details?: Record<string, unknown>) {
-    super('VALIDATION_ERROR', 400, message, details);
+    const single = typeof details?.field === 'string' && !details.fields;
+    super(
+      'VALIDATION_ERROR',
+      400,
+      message,
+      single ? { ...details, fields: { [details!.field as string]: message } } : details
+    );
     this.name = 'ValidationError';
   }
 }
@@ -54,12 +65,28 @@ export class ConflictError extends AppError {
 }
 
 export class RateLimitError extends AppError {
-  constructor(public resetIn: number) {
-    super('RATE_LIMITED', 429, 'Rate limit exceeded', { resetIn });
+  constructor(public resetIn: number, message: string = 'Rate limit exceeded') {
+    super('RATE_LIMITED', 429, message, { resetIn });
     this.name = 'RateLimitError';
   }
 }
 
+/**
+ * Login refused because the account is locked after repeated failures
+ * (see lib/loginSecurity.ts).
+ */
+export class AccountLockedError extends AppError {
+  constructor(public lockedUntil: Date) {
+    super(
+      'ACCOUNT_LOCKED',
+      423,
+      'This account is temporarily locked after repeated failed logins. Try again later.',
+      { lockedUntil: lockedUntil.toISOString() }
+    );
+    this.name = 'AccountLockedError';
+  }
+}
+
 export class InternalError extends AppError {
   constructor(message: string = 'Internal server error', error?: Error) {
     super('INTERNAL_ERROR', 500, message);
@@ -0,0 +1,127 @@
+/**
+ * lib/export.ts
+ * Streamed CSV / JSON Lines export of an organization's assessment history.
+ *
+ * Rows come from queryBuilder.iterate() in batches and are encoded as
+ * the response body is pulled, so memory use does not grow with the
+ * size of the history and a slow client slows the database reads.
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "./db";
+import { AssessmentExportRow, AssessmentQuery, queryBuilder } from "./queryBuilder";
+
+export type HistoryExportFormat = "csv" | "jsonl";
+
+export const HISTORY_EXPORT_FORMATS: HistoryExportFormat[] = ["csv", "jsonl"];
+
+export const EXPORT_CONTENT_TYPES: Record<HistoryExportFormat | "pdf", string> = {
+  csv  : "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+  pdf  : "application/pdf",
+};
+
+const CSV_BASE_COLUMNS = [
+  "assessment_id", "created_at", "overall_score", "weighted_score", "impact_level",
+  "dominant_category", "article_count", "taxonomy_version",
+];
+
+/** "export-2024-05-01.csv" style attachment header */
+export function attachmentHeader(basename: string, ext: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `attachment; filename="${basename}-${date}.${ext}"`;
+}
+
+/**
+ * Quote a CSV cell when needed (RFC 4180). Text cells that start with a
+ * spreadsheet formula character are prefixed with a quote so opening the
+ * file in Excel cannot execute them.
+ */
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Every category name defined in any taxonomy version, so CSV columns
+ * cover runs classified under older versions too.
+ */
+async function allCategoryNames(): Promise<string[]> {
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT name FROM taxonomy_categories GROUP BY name ORDER BY MIN(sort_order), name`
+  );
+  return rows.map((r) => r.name as string);
+}
+
+function toJsonLine(r: AssessmentExportRow): string {
+  return JSON.stringify({
+    assessmentId     : r.id,
+    createdAt        : r.created_at,
+    overallScore     : Number(r.overall_score),
+    weightedScore    : r.weighted_score === null ? null : Number(r.weighted_score),
+    impactLevel      : r.impact_level,
+    dominantCategory : r.dominant_category,
+    categoryBreakdown: r.category_breakdown,
+    articleCount     : r.article_count,
+    taxonomyVersion  : r.taxonomy_version,
+    aiSummary        : r.ai_summary ?? "",
+  }) + "\n";
+}
+
+function toCsvLine(r: AssessmentExportRow, categories: string[]): string {
+  const cells: Array<string | number | null> = [
+    r.id,
+    r.created_at,
+    Number(r.overall_score),
+    r.weighted_score === null ? null : Number(r.weighted_score),
+    r.impact_level,
+    r.dominant_category,
+    r.article_count,
+    r.taxonomy_version,
+    ...categories.map((c) => r.category_breakdown?.[c] ?? 0),
+    r.ai_summary ?? "",
+  ];
+  return cells.map(csvCell).join(",") + "\r\n";
+}
+
+/**
+ * Body stream for a history export. The CSV header has one
+ * `<category>_pct` column per known category, then `ai_summary`.
+ */
+export function streamHistoryExport(
+  query: Omit<AssessmentQuery, "limit" | "cursor">,
+  format: HistoryExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let rows: AsyncGenerator<AssessmentExportRow> | null = null;
+  let categories: string[] = [];
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      if (format === "csv") {
+        categories = await allCategoryNames();
+        const header = [...CSV_BASE_COLUMNS, ...categories.map((c) => `${c}_pct`), "ai_summary"];
+        controller.enqueue(encoder.encode(header.map(csvCell).join(",") + "\r\n"));
+      }
+      rows = queryBuilder.iterate(query);
+    },
+
+    async pull(controller) {
+      const next = await rows!.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+      const line = format === "csv" ? toCsvLine(next.value, categories) : toJsonLine(next.value);
+      controller.enqueue(encoder.encode(line));
+    },
+
+    async cancel() {
+      // Client went away; stop fetching further batches
+      await rows?.return(undefined);
+    },
+  });
+}
@@ -70,7 +70,9 @@ export async function generateExecutiveSummary(
   const articleContext = top5
     .map(
       (a, i) =>
-        `${i + 1}. [${a.riskCategory} | Score ${a.articleScore}] ${a.title}` +
+        `${i + 1}. [${a.riskCategory} | Score ${a.articleScore}` +
+        (a.sourceCount > 1 ? ` | ${a.sourceCount} outlets` : "") +
+        `] ${a.title}` +
         (a.description ? `\n   ${a.description.slice(0, 150)}` : "")
     )
     .join("\n\n");
@@ -85,7 +87,7 @@ export async function generateExecutiveSummary(
 
 CURRENT RISK SNAPSHOT
 ---------------------
-Impact Score    : ${assessment.overallScore} / 100
+Impact Score    : ${assessment.overallScore} / 100${assessment.weightedScore !== null ? ` (recency/credibility-weighted: ${assessment.weightedScore})` : ""}
 Impact Level    : ${assessment.impactLevel}
 Dominant Risk   : ${assessment.dominantCategory}
 Risk Distribution: ${breakdown}
@@ -2,8 +2,13 @@
  * lib/logger.ts
  * Structured logging with levels, context, and optional external integrations.
  * Designed for easy integration with monitoring platforms (DataDog, New Relic, etc).
+ *
+ * Inside a request (see lib/requestContext) every entry also carries the
+ * request's `requestId`, `userId` and `route`.
  */
 
+import { getRequestContext } from './requestContext';
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'fatal';
 
 interface LogContext {
@@ -14,6 +19,9 @@ interface LogEntry {
   timestamp: string;
   level: LogLevel;
   message: string;
+  requestId?: string;
+  userId?: number;
+  route?: string;
   context?: LogContext;
   error?: {
     name: string;
@@ -47,6 +55,13 @@ class Logger {
       message,
     };
 
+    const request = getRequestContext();
+    if (request) {
+      entry.requestId = request.requestId;
+      entry.userId = request.userId;
+      entry.route = request.route;
+    }
+
     if (context instanceof Error) {
       entry.error = {
         name: context.name,
@@ -0,0 +1,245 @@
+/**
+ * lib/loginSecurity.ts
+ * Login attempt log, progressive account lockout and suspicious-login
+ * detection. Every outcome is recorded in login_attempts and written
+ * through auditLog.
+ *
+ * Lockout: after LOGIN_LOCKOUT_THRESHOLD consecutive failures the account
+ * is locked for LOGIN_LOCKOUT_BASE_SECONDS, doubling with each further
+ * failure up to 24 hours. A lock ends when it expires or an administrator
+ * clears it; only a successful login resets the failure count.
+ *
+ * Suspicious: a successful login from an IP address or user agent the
+ * account has not signed in from in the last 90 days (accounts with no
+ * history are exempt), or one that follows several failures. 'unknown'
+ * is never a known address: a login without a client IP is flagged
+ * unknown_ip instead of being compared.
+ */
+
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import db from "./db";
+import { auditLog } from "./auditLog";
+import { AccountLockedError } from "./errors";
+import { UNKNOWN_IP } from "./requestContext";
+
+export type LoginOutcome = "success" | "wrong_password" | "unknown_email" | "locked";
+
+export type SuspiciousReason = "new_ip" | "unknown_ip" | "new_user_agent" | "after_failures";
+
+export interface LoginClient {
+  ip       : string;
+  userAgent: string;
+}
+
+export interface LoginAccount {
+  id                : number;
+  email             : string;
+  failed_login_count: number;
+  locked_until      : Date | null;
+}
+
+export interface LoginAttempt {
+  id        : number;
+  userId    : number | null;
+  email     : string;
+  ipAddress : string;
+  userAgent : string;
+  outcome   : LoginOutcome;
+  suspicious: SuspiciousReason[];
+  createdAt : Date;
+}
+
+interface AttemptRow extends RowDataPacket {
+  id                : number;
+  user_id           : number | null;
+  email             : string;
+  ip_address        : string;
+  user_agent        : string;
+  outcome           : LoginOutcome;
+  suspicious_reasons: SuspiciousReason[] | null;
+  created_at        : Date;
+}
+
+interface HistoryRow extends RowDataPacket {
+  total  : number;
+  same_ip: string | null;   // SUM() comes back as DECIMAL
+  same_ua: string | null;
+}
+
+const MAX_LOCK_MS     = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS    = 90;
+const FAILURES_ALERT  = 3;
+const USER_AGENT_MAX  = 255;
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/** Lock duration after `failures` consecutive failures; 0 below the threshold. */
+export function lockDuration(failures: number): number {
+  const threshold = envInt("LOGIN_LOCKOUT_THRESHOLD", 5);
+  const baseMs    = envInt("LOGIN_LOCKOUT_BASE_SECONDS", 60) * 1000;
+  if (failures < threshold) return 0;
+  return Math.min(MAX_LOCK_MS, baseMs * 2 ** Math.min(failures - threshold, 30));
+}
+
+function toAttempt(r: AttemptRow): LoginAttempt {
+  return {
+    id        : r.id,
+    userId    : r.user_id,
+    email     : r.email,
+    ipAddress : r.ip_address,
+    userAgent : r.user_agent,
+    outcome   : r.outcome,
+    suspicious: r.suspicious_reasons ?? [],
+    createdAt : r.created_at,
+  };
+}
+
+class LoginSecurity {
+  private async record(
+    email: string,
+    userId: number | null,
+    client: LoginClient,
+    outcome: LoginOutcome,
+    suspicious: SuspiciousReason[] = []
+  ): Promise<void> {
+    await db.query(
+      `INSERT INTO login_attempts (user_id, email, ip_address, user_agent, outcome, suspicious_reasons)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        userId, email, client.ip, client.userAgent.slice(0, USER_AGENT_MAX), outcome,
+        suspicious.length > 0 ? JSON.stringify(suspicious) : null,
+      ]
+    );
+  }
+
+  /** Throws AccountLockedError (and records the attempt) while `account` is locked. */
+  async assertNotLocked(account: LoginAccount, client: LoginClient): Promise<void> {
+    if (!account.locked_until || account.locked_until.getTime() <= Date.now()) return;
+
+    await this.record(account.email, account.id, client, "locked");
+    auditLog.loginFailed(account.email, client.ip, "account locked");
+    throw new AccountLockedError(account.locked_until);
+  }
+
+  /** Record a failed login for an email with no account. */
+  async unknownEmail(email: string, client: LoginClient): Promise<void> {
+    await this.record(email, null, client, "unknown_email");
+    auditLog.loginFailed(email, client.ip, "unknown email");
+  }
+
+  /** Count a wrong password against `account`, locking it once over the threshold. */
+  async wrongPassword(account: LoginAccount, client: LoginClient): Promise<void> {
+    const conn = await db.getConnection();
+    let failures: number;
+    let lockedUntil: Date | null = null;
+    try {
+      await conn.beginTransaction();
+      const [rows] = await conn.query<RowDataPacket[]>(
+        "SELECT failed_login_count FROM users WHERE id = ? FOR UPDATE",
+        [account.id]
+      );
+      failures = (rows[0]?.failed_login_count ?? 0) + 1;
+
+      const lockMs = lockDuration(failures);
+      if (lockMs > 0) lockedUntil = new Date(Date.now() + lockMs);
+
+      await conn.query(
+        "UPDATE users SET failed_login_count = ?, locked_until = COALESCE(?, locked_until) WHERE id = ?",
+        [failures, lockedUntil, account.id]
+      );
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    await this.record(account.email, account.id, client, "wrong_password");
+    auditLog.loginFailed(account.email, client.ip, "wrong password");
+    if (lockedUntil) auditLog.accountLocked(account.id, account.email, lockedUntil, failures, client.ip);
+  }
+
+  /**
+   * Record a successful login, reset the failure count and flag the login
+   * when it looks unusual for this account.
+   */
+  async succeeded(account: LoginAccount, client: LoginClient): Promise<SuspiciousReason[]> {
+    const userAgent = client.userAgent.slice(0, USER_AGENT_MAX);
+
+    const [history] = await db.query<HistoryRow[]>(
+      `SELECT COUNT(*)                 AS total,
+              SUM(ip_address = ?)      AS same_ip,
+              SUM(user_agent = ?)      AS same_ua
+         FROM login_attempts
+        WHERE user_id = ? AND outcome = 'success'
+          AND created_at >= NOW() - INTERVAL ? DAY`,
+      [client.ip, userAgent, account.id, HISTORY_DAYS]
+    );
+
+    const reasons: SuspiciousReason[] = [];
+    const h = history[0];
+    if (h && h.total > 0) {
+      if (client.ip === UNKNOWN_IP) reasons.push("unknown_ip");
+      else if (Number(h.same_ip ?? 0) === 0) reasons.push("new_ip");
+      if (Number(h.same_ua ?? 0) === 0) reasons.push("new_user_agent");
+    }
+    if (account.failed_login_count >= FAILURES_ALERT) reasons.push("after_failures");
+
+    if (account.failed_login_count > 0 || account.locked_until) {
+      await db.query(
+        "UPDATE users SET failed_login_count = 0, locked_until = NULL WHERE id = ?",
+        [account.id]
+      );
+    }
+    await this.record(account.email, account.id, client, "success", reasons);
+
+    auditLog.login(account.id, account.email, client.ip);
+    if (reasons.length > 0) {
+      auditLog.suspiciousLogin(account.id, account.email, reasons, client.ip, client.userAgent);
+    }
+    return reasons;
+  }
+
+  /** Administrator unlock: clears the lock and the failure count. */
+  async unlock(userId: number, adminId: number, ipAddress?: string): Promise<boolean> {
+    const [result] = await db.query<ResultSetHeader>(
+      "UPDATE users SET failed_login_count = 0, locked_until = NULL WHERE id = ?",
+      [userId]
+    );
+    if (result.affectedRows === 0) return false;
+
+    auditLog.accountUnlocked(userId, adminId, ipAddress);
+    return true;
+  }
+
+  /** Recent attempts, newest first. */
+  async listAttempts(opts: {
+    userId?    : number;
+    email?     : string;
+    suspicious?: boolean;
+    limit      : number;
+  }): Promise<LoginAttempt[]> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (opts.userId !== undefined) { where.push("user_id = ?"); params.push(opts.userId); }
+    if (opts.email !== undefined)  { where.push("email = ?");   params.push(opts.email); }
+    if (opts.suspicious)           { where.push("suspicious_reasons IS NOT NULL"); }
+
+    const [rows] = await db.query<AttemptRow[]>(
+      `SELECT id, user_id, email, ip_address, user_agent, outcome, suspicious_reasons, created_at
+         FROM login_attempts
+        ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+        ORDER BY id DESC
+        LIMIT ?`,
+      [...params, opts.limit]
+    );
+    return rows.map(toAttempt);
+  }
+}
+
+export const loginSecurity = new LoginSecurity();
@@ -0,0 +1,96 @@
+/**
+ * lib/mailer.ts
+ * Pluggable outbound email. MAIL_TRANSPORT selects the adapter:
+ *   smtp    → nodemailer over SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD
+ *   file    → append one JSON line per message to MAIL_FILE_PATH (local dev,
+ *             end-to-end tests: links in the emails can be read back)
+ *   console → log the message instead of sending it (default, for local dev)
+ */
+
+import { appendFile } from "fs/promises";
+import nodemailer, { Transporter } from "nodemailer";
+import { logger } from "./logger";
+
+export interface MailMessage {
+  to     : string;
+  subject: string;
+  text   : string;
+  html?  : string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM || "Event Intelligence <no-reply@localhost>";
+}
+
+class SmtpMailer implements Mailer {
+  private transport: Transporter;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error("MAIL_TRANSPORT=smtp requires SMTP_HOST.");
+
+    const port = parseInt(process.env.SMTP_PORT ?? "587", 10);
+
+    this.transport = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE === "true" || port === 465,
+      auth  : process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD ?? "" }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ from: mailFrom(), ...message });
+  }
+}
+
+class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    logger.info("Email (console transport)", {
+      from   : mailFrom(),
+      to     : message.to,
+      subject: message.subject,
+      text   : message.text,
+    });
+  }
+}
+
+class FileMailer implements Mailer {
+  constructor(private readonly path: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const line = { sentAt: new Date().toISOString(), from: mailFrom(), ...message };
+    await appendFile(this.path, `${JSON.stringify(line)}\n`, "utf8");
+  }
+}
+
+let instance: Mailer | null = null;
+
+/** Lazily build the configured mailer (SMTP config is only read when needed). */
+export function getMailer(): Mailer {
+  if (instance) return instance;
+
+  const transport = (process.env.MAIL_TRANSPORT ?? "console").toLowerCase();
+  switch (transport) {
+    case "smtp":
+      instance = new SmtpMailer();
+      break;
+    case "file":
+      if (!process.env.MAIL_FILE_PATH) throw new Error("MAIL_TRANSPORT=file requires MAIL_FILE_PATH.");
+      instance = new FileMailer(process.env.MAIL_FILE_PATH);
+      break;
+    case "console":
+      instance = new ConsoleMailer();
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}".`);
+  }
+
+  return instance;
+}
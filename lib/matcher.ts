@@ -0,0 +1,201 @@
+/**
+ * lib/matcher.ts
+ * ─────────────────────────────────────────────────────────────────
+ * Token-based keyword matcher used by the classifier.
+ *
+ * Text and keywords go through the same pipeline, so matching is a
+ * comparison of stem sequences rather than substrings:
+ *
+ *   1. Tokenize   → lowercase words; "n't" becomes "not"; punctuation
+ *                   and hyphens separate words ("war-torn" → war, torn)
+ *   2. Stem       → light suffix stripping (-s, -es, -ies, -ed, -ing,
+ *                   trailing -e, doubled consonants), so "sanctions",
+ *                   "sanctioned" and "sanctioning" all reduce to "sanction"
+ *   3. Match      → a keyword of N words matches N consecutive stems;
+ *                   "war" never matches "award", "software" or "warning"
+ *   4. Negation   → a match preceded within NEGATION_WINDOW tokens by a
+ *                   cue ("no", "not", "never", "without", "denies", …)
+ *                   does not count: "no war" is not a war signal.
+ *                   Neither negation nor phrases cross a sentence end.
+ *
+ * De-escalation phrases ("ceasefire holds", "tensions ease", …) are
+ * detected separately; the classifier drops the severity boost of an
+ * article that contains one.
+ * ─────────────────────────────────────────────────────────────────
+ */
+
+export interface CompiledTerm {
+  term : string;     // as written in the taxonomy
+  stems: string[];
+}
+
+export interface AnalyzedText {
+  stems: string[];
+  // negated[i] — stem i falls within NEGATION_WINDOW tokens after a cue
+  negated: boolean[];
+  deEscalation: string | null;   // the de-escalation phrase found, if any
+}
+
+const NEGATION_WINDOW = 3;
+
+// Stands between sentences in the stem sequence; no term can match it.
+const BOUNDARY = "";
+
+const NEGATION_CUES = [
+  "no", "not", "never", "without", "nor", "neither",
+  "deny", "denies", "denied", "rule out", "rules out", "ruled out",
+  "avert", "averts",
+];
+
+const DE_ESCALATION_PHRASES = [
+  "ceasefire holds", "ceasefire held", "truce holds", "truce held",
+  "tensions ease", "tensions eased", "tensions easing",
+  "peace deal", "peace agreement", "de-escalation", "de-escalate",
+  "talks resume", "sanctions lifted", "lifts sanctions", "ban lifted", "lifts ban",
+];
+
+// Doubled final consonants that stay doubled in the base word
+const KEEP_DOUBLE = new Set(["ll", "ss", "zz", "ff"]);
+
+// ─── Tokenizing & stemming ────────────────────────────────────────
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/n't\b/g, " not")
+    .replace(/'s\b/g, "")
+    .split(/[^a-z0-9À-ɏ]+/)
+    .filter(Boolean);
+}
+
+function undouble(word: string): string {
+  const tail = word.slice(-2);
+  if (tail[0] === tail[1] && /[b-df-hj-np-tv-z]/.test(tail[0]) && !KEEP_DOUBLE.has(tail)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Light, deterministic English stemmer. Not linguistically complete — it
+ * only needs to map a keyword and its inflections onto the same string.
+ */
+export function stem(word: string): string {
+  let w = word;
+  if (w.length <= 3 || /\d/.test(w)) return w;
+
+  if (w.endsWith("ies") && w.length > 4) {
+    w = w.slice(0, -3) + "y";
+  } else if (w.endsWith("ied") && w.length > 4) {
+    w = w.slice(0, -3) + "y";
+  } else if (w.endsWith("s") && !/(ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  } else if (w.endsWith("ing") && w.length - 3 >= 3) {
+    w = undouble(w.slice(0, -3));
+  } else if (w.endsWith("ed") && w.length - 2 >= 3) {
+    w = undouble(w.slice(0, -2));
+  }
+
+  // "rise" / "rising" / "rises" → "ris"
+  if (w.endsWith("e") && w.length > 3) w = w.slice(0, -1);
+  return w;
+}
+
+function stemAll(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+function stemSentences(text: string): string[] {
+  const stems: string[] = [];
+  for (const sentence of text.split(/[.!?;:]+(?:\s+|$)|\n+/)) {
+    const s = stemAll(sentence);
+    if (s.length === 0) continue;
+    if (stems.length > 0) stems.push(BOUNDARY);
+    stems.push(...s);
+  }
+  return stems;
+}
+
+// ─── Matching ─────────────────────────────────────────────────────
+
+function matchesAt(stems: string[], at: number, phrase: string[]): boolean {
+  if (phrase.length === 0 || at + phrase.length > stems.length) return false;
+  for (let j = 0; j < phrase.length; j++) {
+    if (stems[at + j] !== phrase[j]) return false;
+  }
+  return true;
+}
+
+function containsPhrase(stems: string[], phrase: string[]): boolean {
+  for (let i = 0; i < stems.length; i++) {
+    if (matchesAt(stems, i, phrase)) return true;
+  }
+  return false;
+}
+
+const NEGATION_STEMS      = NEGATION_CUES.map(stemAll);
+const DE_ESCALATION_STEMS = DE_ESCALATION_PHRASES.map(stemAll);
+
+/** Pre-process keywords once per taxonomy rather than once per article. */
+export function compileTerms(terms: string[]): CompiledTerm[] {
+  return terms
+    .map((term) => ({ term, stems: stemAll(term) }))
+    .filter((t) => t.stems.length > 0);
+}
+
+export function analyzeText(text: string): AnalyzedText {
+  const stems   = stemSentences(text);
+  const negated = new Array<boolean>(stems.length).fill(false);
+
+  for (let i = 0; i < stems.length; i++) {
+    for (const cue of NEGATION_STEMS) {
+      if (!matchesAt(stems, i, cue)) continue;
+      const end = Math.min(stems.length, i + cue.length + NEGATION_WINDOW);
+      for (let k = i + cue.length; k < end && stems[k] !== BOUNDARY; k++) negated[k] = true;
+    }
+  }
+
+  return {
+    stems,
+    negated,
+    deEscalation: DE_ESCALATION_PHRASES.find((_, i) => containsPhrase(stems, DE_ESCALATION_STEMS[i])) ?? null,
+  };
+}
+
+/**
+ * Terms with at least one non-negated occurrence in `text`, in the order
+ * they were given. Each term is reported once however often it occurs.
+ */
+export function findTerms(text: AnalyzedText, terms: CompiledTerm[]): string[] {
+  const found: string[] = [];
+
+  for (const t of terms) {
+    for (let i = 0; i < text.stems.length; i++) {
+      if (matchesAt(text.stems, i, t.stems) && !text.negated[i]) {
+        found.push(t.term);
+        break;
+      }
+    }
+  }
+
+  return found;
+}
+
+/** Terms that occur in `text` only inside a negation window. */
+export function findNegatedTerms(text: AnalyzedText, terms: CompiledTerm[]): string[] {
+  const found = new Set(findTerms(text, terms));
+  const negated: string[] = [];
+
+  for (const t of terms) {
+    if (found.has(t.term)) continue;
+    for (let i = 0; i < text.stems.length; i++) {
+      if (matchesAt(text.stems, i, t.stems)) {
+        negated.push(t.term);
+        break;
+      }
+    }
+  }
+
+  return negated;
+}
@@ -0,0 +1,386 @@
+/**
+ * lib/orgs.ts
+ * Organizations (shared team workspaces), their members and email invites.
+ *
+ * Assessments, schedules, jobs and alert rules belong to an organization,
+ * and every member sees them. A user with no organization gets a personal
+ * one on first use, so solo accounts work as before. The organization a
+ * request acts on comes from the eip_org cookie, or the API key's
+ * organization (currentOrg()); a missing or stale cookie falls back to the
+ * user's oldest membership.
+ *
+ * Organization roles are owner (rename, invite, remove members) and
+ * member. They sit beside the account role from lib/roles.ts, which still
+ * decides what a user may do inside any organization.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import db from "./db";
+import { auditLog } from "./auditLog";
+import { getMailer } from "./mailer";
+import { AuthorizationError, ConflictError, NotFoundError } from "./errors";
+import type { JWTPayload } from "./auth";
+
+export type OrgRole = "owner" | "member";
+
+export interface OrgMembership {
+  orgId   : number;
+  name    : string;
+  personal: boolean;
+  role    : OrgRole;
+  joinedAt: Date;
+}
+
+export interface OrgMember {
+  userId  : number;
+  email   : string;
+  role    : OrgRole;
+  joinedAt: Date;
+}
+
+export interface OrgInvite {
+  id       : number;
+  email    : string;
+  invitedBy: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+interface MembershipRow extends RowDataPacket {
+  org_id     : number;
+  name       : string;
+  personal   : number;
+  role       : OrgRole;
+  created_at : Date;
+}
+
+interface MemberRow extends RowDataPacket {
+  user_id   : number;
+  email     : string;
+  role      : OrgRole;
+  created_at: Date;
+}
+
+interface InviteRow extends RowDataPacket {
+  id              : number;
+  org_id          : number;
+  email           : string;
+  invited_by_email: string | null;
+  expires_at      : Date;
+  accepted_at     : Date | null;
+  created_at      : Date;
+}
+
+const ORG_COOKIE_NAME = "eip_org";
+const INVITE_TTL_DAYS = 7;
+const PERSONAL_NAME   = "Personal";
+
+const MEMBERSHIP_SELECT = `
+  SELECT m.org_id, o.name, o.personal_for IS NOT NULL AS personal, m.role, m.created_at
+    FROM org_memberships m
+    JOIN organizations o ON o.id = m.org_id`;
+
+function toMembership(r: MembershipRow): OrgMembership {
+  return {
+    orgId   : r.org_id,
+    name    : r.name,
+    personal: Number(r.personal) === 1,
+    role    : r.role,
+    joinedAt: r.created_at,
+  };
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+class OrgStore {
+  /** The user's organizations, oldest membership first. Creates the personal one if there are none. */
+  async listForUser(userId: number): Promise<OrgMembership[]> {
+    const [rows] = await db.query<MembershipRow[]>(
+      `${MEMBERSHIP_SELECT} WHERE m.user_id = ? ORDER BY m.created_at, m.org_id`,
+      [userId]
+    );
+    if (rows.length > 0) return rows.map(toMembership);
+
+    return [await this.ensurePersonal(userId)];
+  }
+
+  async membership(orgId: number, userId: number): Promise<OrgMembership | null> {
+    const [rows] = await db.query<MembershipRow[]>(
+      `${MEMBERSHIP_SELECT} WHERE m.org_id = ? AND m.user_id = ?`,
+      [orgId, userId]
+    );
+    return rows[0] ? toMembership(rows[0]) : null;
+  }
+
+  /**
+   * The user's membership of `orgId`. Throws NotFoundError for
+   * non-members (so org ids do not leak) and AuthorizationError when
+   * `role` is "owner" and the user is only a member.
+   */
+  async requireMembership(orgId: number, userId: number, role?: OrgRole): Promise<OrgMembership> {
+    const membership = await this.membership(orgId, userId);
+    if (!membership) throw new NotFoundError("Organization not found.");
+    if (role === "owner" && membership.role !== "owner") throw new AuthorizationError("Forbidden.");
+    return membership;
+  }
+
+  /**
+   * The user's personal organization, created on first call. personal_for
+   * is unique, so concurrent calls cannot create two.
+   */
+  async ensurePersonal(userId: number): Promise<OrgMembership> {
+    await db.query(
+      "INSERT IGNORE INTO organizations (name, personal_for, created_by) VALUES (?, ?, ?)",
+      [PERSONAL_NAME, userId, userId]
+    );
+    const [orgs] = await db.query<RowDataPacket[]>(
+      "SELECT id FROM organizations WHERE personal_for = ?",
+      [userId]
+    );
+    const orgId = orgs[0].id as number;
+
+    await db.query(
+      "INSERT IGNORE INTO org_memberships (org_id, user_id, role) VALUES (?, ?, 'owner')",
+      [orgId, userId]
+    );
+    return (await this.membership(orgId, userId))!;
+  }
+
+  async create(userId: number, name: string, ip?: string): Promise<OrgMembership> {
+    const conn = await db.getConnection();
+    let orgId: number;
+    try {
+      await conn.beginTransaction();
+      const [result] = await conn.query<ResultSetHeader>(
+        "INSERT INTO organizations (name, created_by) VALUES (?, ?)",
+        [name, userId]
+      );
+      orgId = result.insertId;
+      await conn.query(
+        "INSERT INTO org_memberships (org_id, user_id, role) VALUES (?, ?, 'owner')",
+        [orgId, userId]
+      );
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    auditLog.configChanged("ORG_CHANGED", userId, `org:${orgId}`, "created", ip, { name });
+    return (await this.membership(orgId, userId))!;
+  }
+
+  async rename(orgId: number, name: string, userId: number, ip?: string): Promise<OrgMembership> {
+    await this.requireMembership(orgId, userId, "owner");
+    await db.query("UPDATE organizations SET name = ? WHERE id = ?", [name, orgId]);
+
+    auditLog.configChanged("ORG_CHANGED", userId, `org:${orgId}`, "updated", ip, { name });
+    return (await this.membership(orgId, userId))!;
+  }
+
+  async members(orgId: number): Promise<OrgMember[]> {
+    const [rows] = await db.query<MemberRow[]>(
+      `SELECT m.user_id, u.email, m.role, m.created_at
+         FROM org_memberships m
+         JOIN users u ON u.id = m.user_id
+        WHERE m.org_id = ?
+        ORDER BY m.role = 'owner' DESC, u.email`,
+      [orgId]
+    );
+    return rows.map((r) => ({ userId: r.user_id, email: r.email, role: r.role, joinedAt: r.created_at }));
+  }
+
+  /**
+   * Remove `memberId` from the organization. Owners may remove anyone;
+   * members may only leave. Personal organizations cannot be left, and
+   * the last owner cannot go.
+   */
+  async removeMember(orgId: number, memberId: number, userId: number, ip?: string): Promise<void> {
+    const actor = await this.requireMembership(orgId, userId, memberId === userId ? undefined : "owner");
+    if (actor.personal) throw new ConflictError("You cannot leave your personal organization.");
+
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+      const [members] = await conn.query<MemberRow[]>(
+        "SELECT user_id, role FROM org_memberships WHERE org_id = ? FOR UPDATE",
+        [orgId]
+      );
+      const target = members.find((m) => m.user_id === memberId);
+      if (!target) throw new NotFoundError("Member not found.");
+
+      const owners = members.filter((m) => m.role === "owner").length;
+      if (target.role === "owner" && owners <= 1) {
+        throw new ConflictError("An organization needs at least one owner.");
+      }
+
+      await conn.query("DELETE FROM org_memberships WHERE org_id = ? AND user_id = ?", [orgId, memberId]);
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    auditLog.orgMemberChanged(
+      userId, orgId, memberId === userId ? "left" : "removed", ip,
+      memberId === userId ? undefined : { memberId }
+    );
+  }
+
+  /** Pending (unaccepted, unexpired) invites, newest first. */
+  async listInvites(orgId: number): Promise<OrgInvite[]> {
+    const [rows] = await db.query<InviteRow[]>(
+      `SELECT i.id, i.email, u.email AS invited_by_email, i.expires_at, i.created_at
+         FROM org_invites i
+         LEFT JOIN users u ON u.id = i.invited_by
+        WHERE i.org_id = ? AND i.accepted_at IS NULL AND i.expires_at > ?
+        ORDER BY i.created_at DESC`,
+      [orgId, new Date()]
+    );
+    return rows.map((r) => ({
+      id       : r.id,
+      email    : r.email,
+      invitedBy: r.invited_by_email,
+      expiresAt: r.expires_at,
+      createdAt: r.created_at,
+    }));
+  }
+
+  /**
+   * Invite `email` to the organization and mail them a link to
+   * `${baseUrl}/invite/<token>`. A pending invite for the same address is
+   * replaced. Only the token's hash is stored.
+   */
+  async invite(orgId: number, email: string, userId: number, baseUrl: string, ip?: string): Promise<OrgInvite> {
+    const actor = await this.requireMembership(orgId, userId, "owner");
+    if (actor.personal) throw new ConflictError("Personal organizations cannot have other members.");
+
+    const [existing] = await db.query<RowDataPacket[]>(
+      `SELECT 1 FROM org_memberships m JOIN users u ON u.id = m.user_id
+        WHERE m.org_id = ? AND u.email = ?`,
+      [orgId, email]
+    );
+    if (existing.length > 0) throw new ConflictError("That user is already a member.");
+
+    const token     = randomBytes(32).toString("base64url");
+    const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 86_400_000);
+
+    await db.query("DELETE FROM org_invites WHERE org_id = ? AND email = ? AND accepted_at IS NULL", [orgId, email]);
+    const [result] = await db.query<ResultSetHeader>(
+      `INSERT INTO org_invites (org_id, email, token_hash, invited_by, expires_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [orgId, email, hashToken(token), userId, expiresAt]
+    );
+
+    await getMailer().send({
+      to     : email,
+      subject: `You have been invited to ${actor.name} on Event Intelligence`,
+      text   : [
+        `You have been invited to join the ${actor.name} workspace on Event Intelligence.`,
+        "",
+        `Accept the invite (sign in or register with ${email} first):`,
+        `${baseUrl}/invite/${token}`,
+        "",
+        `The link expires in ${INVITE_TTL_DAYS} days.`,
+      ].join("\n"),
+    });
+
+    auditLog.orgMemberChanged(userId, orgId, "invited", ip, { email, inviteId: result.insertId });
+    return (await this.listInvites(orgId)).find((i) => i.id === result.insertId)!;
+  }
+
+  async revokeInvite(orgId: number, inviteId: number, userId: number, ip?: string): Promise<boolean> {
+    await this.requireMembership(orgId, userId, "owner");
+    const [result] = await db.query<ResultSetHeader>(
+      "DELETE FROM org_invites WHERE id = ? AND org_id = ? AND accepted_at IS NULL",
+      [inviteId, orgId]
+    );
+    if (result.affectedRows === 0) return false;
+
+    auditLog.orgMemberChanged(userId, orgId, "invite_revoked", ip, { inviteId });
+    return true;
+  }
+
+  /**
+   * Join the organization an invite token points at. The signed-in user's
+   * email must match the invited address.
+   */
+  async acceptInvite(token: string, user: { userId: number; email: string }, ip?: string): Promise<OrgMembership> {
+    const conn = await db.getConnection();
+    let orgId: number;
+    try {
+      await conn.beginTransaction();
+      const [rows] = await conn.query<InviteRow[]>(
+        "SELECT id, org_id, email, expires_at, accepted_at FROM org_invites WHERE token_hash = ? FOR UPDATE",
+        [hashToken(token)]
+      );
+      const invite = rows[0];
+      if (!invite || invite.accepted_at || invite.expires_at <= new Date()) {
+        throw new NotFoundError("This invite is invalid or has expired.");
+      }
+      if (invite.email.toLowerCase() !== user.email.toLowerCase()) {
+        throw new AuthorizationError("This invite was sent to a different email address.");
+      }
+
+      orgId = invite.org_id;
+      await conn.query(
+        "INSERT IGNORE INTO org_memberships (org_id, user_id, role) VALUES (?, ?, 'member')",
+        [orgId, user.userId]
+      );
+      await conn.query(
+        "UPDATE org_invites SET accepted_at = ?, accepted_by = ? WHERE id = ?",
+        [new Date(), user.userId, invite.id]
+      );
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    auditLog.orgMemberChanged(user.userId, orgId, "joined", ip);
+    return (await this.membership(orgId, user.userId))!;
+  }
+}
+
+export const orgStore = new OrgStore();
+
+/**
+ * The organization this request acts on: the API key's organization for
+ * keyed requests, else the eip_org cookie when the user still belongs to
+ * it, else their oldest membership (server-side only).
+ */
+export async function currentOrg(user: Pick<JWTPayload, "userId" | "apiKey">): Promise<OrgMembership> {
+  const { userId } = user;
+  if (user.apiKey) return orgStore.requireMembership(user.apiKey.orgId, userId);
+
+  const store = await cookies();
+  const selected = Number(store.get(ORG_COOKIE_NAME)?.value);
+
+  if (Number.isInteger(selected) && selected > 0) {
+    const membership = await orgStore.membership(selected, userId);
+    if (membership) return membership;
+  }
+  return (await orgStore.listForUser(userId))[0];
+}
+
+/** Make `orgId` the current organization. The caller checks membership. */
+export async function selectOrg(orgId: number): Promise<void> {
+  const store = await cookies();
+  store.set(ORG_COOKIE_NAME, String(orgId), {
+    httpOnly: true,
+    secure  : process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge  : 365 * 86_400,
+    path    : "/",
+  });
+}
@@ -0,0 +1,202 @@
+/**
+ * lib/pdf.ts
+ * Minimal PDF 1.4 writer for generated reports — no external renderer.
+ *
+ * Supports what the assessment brief needs: A4 pages, the two standard
+ * Helvetica fonts (no embedding), filled/stroked rectangles, lines,
+ * polyline arcs and word-wrapped text. Coordinates are PDF points with
+ * the origin at the bottom-left of the page.
+ *
+ * Text is encoded as WinAnsi; characters outside it become "?".
+ */
+
+export type FontName = "regular" | "bold";
+
+export interface TextOptions {
+  size? : number;
+  font? : FontName;
+  color?: string;   // "#rrggbb"
+}
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Helvetica-Bold is close to 5% wider on average; good enough for wrapping
+const BOLD_FACTOR = 1.05;
+
+// Unicode punctuation that WinAnsi places in 0x80–0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+function toWinAnsi(text: string): string {
+  let out = "";
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code >= 32 && code <= 126) out += ch;
+    else if (code >= 0xa0 && code <= 0xff) out += ch;
+    else if (WIN_ANSI_EXTRAS[ch]) out += String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+    else if (ch === "\t" || ch === "\n" || ch === "\r") out += " ";
+    else out += "?";
+  }
+  return out;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+function rgb(hex: string): string {
+  const n = parseInt(hex.replace("#", ""), 16);
+  const parts = [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((v) => (v / 255).toFixed(3));
+  return parts.join(" ");
+}
+
+function num(n: number): string {
+  return Number(n.toFixed(2)).toString();
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private title: string;
+
+  constructor(title: string) {
+    this.title = title;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /** Width of `text` in points. */
+  textWidth(text: string, size: number, font: FontName = "regular"): number {
+    let units = 0;
+    for (const ch of toWinAnsi(text)) {
+      const code = ch.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    }
+    return (units / 1000) * size * (font === "bold" ? BOLD_FACTOR : 1);
+  }
+
+  /** Split `text` into lines no wider than `maxWidth`; long words are hard-broken. */
+  wrap(text: string, maxWidth: number, size: number, font: FontName = "regular"): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, size, font) <= maxWidth) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+
+        // A single word wider than the column
+        let rest = word;
+        while (this.textWidth(rest, size, font) > maxWidth && rest.length > 1) {
+          let cut = rest.length - 1;
+          while (cut > 1 && this.textWidth(rest.slice(0, cut), size, font) > maxWidth) cut--;
+          lines.push(rest.slice(0, cut));
+          rest = rest.slice(cut);
+        }
+        line = rest;
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  text(x: number, y: number, text: string, opts: TextOptions = {}): void {
+    const size = opts.size ?? 10;
+    const font = opts.font === "bold" ? "F2" : "F1";
+    this.ops.push(
+      `BT ${rgb(opts.color ?? "#000000")} rg /${font} ${num(size)} Tf ${num(x)} ${num(y)} Td (${escapeText(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill: string): void {
+    this.ops.push(`${rgb(fill)} rg ${num(x)} ${num(y)} ${num(w)} ${num(h)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string, width = 1): void {
+    this.ops.push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  /**
+   * Stroke a circular arc from `startDeg` to `endDeg` (counter-clockwise,
+   * 0° = +x axis) as a polyline with a segment every 2°.
+   */
+  arc(cx: number, cy: number, r: number, startDeg: number, endDeg: number, color: string, width = 1): void {
+    const steps = Math.max(1, Math.ceil(Math.abs(endDeg - startDeg) / 2));
+    const path: string[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const rad = ((startDeg + ((endDeg - startDeg) * i) / steps) * Math.PI) / 180;
+      path.push(`${num(cx + r * Math.cos(rad))} ${num(cy + r * Math.sin(rad))} ${i === 0 ? "m" : "l"}`);
+    }
+    this.ops.push(`${rgb(color)} RG ${num(width)} w 0 J ${path.join(" ")} S`);
+  }
+
+  /** Serialise the document. */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => { objects.push(body); return objects.length; };
+
+    const catalogId = add("");   // filled in once the page tree id is known
+    const pagesId   = add("");
+    const regular   = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const bold      = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const pageIds: number[] = [];
+    for (const ops of this.pages) {
+      const content   = ops.join("\n");
+      const contentId = add(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+      pageIds.push(add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(A4.width)} ${num(A4.height)}] ` +
+        `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${contentId} 0 R >>`
+      ));
+    }
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1]   = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+    const created = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+    const infoId  = add(
+      `<< /Title (${escapeText(toWinAnsi(this.title))}) /Producer (Event Intelligence Platform) /CreationDate (D:${created}Z) >>`
+    );
+
+    let out = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(out, "latin1"));
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefAt = Buffer.byteLength(out, "latin1");
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+
+    return Buffer.from(out, "latin1");
+  }
+}
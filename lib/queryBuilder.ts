@@ -2,35 +2,182 @@
  * lib/queryBuilder.ts
  * Advanced query builder for assessments with filtering, sorting, and pagination.
  * Type-safe and resistant to SQL injection via parameterized queries.
+ *
+ * Pagination is keyset-based: each page ends with an opaque cursor that
+ * encodes the last row's sort value and id, and the next page continues
+ * strictly after it. Pages stay cheap however deep the history goes and
+ * do not shift when new runs are inserted.
+ *
+ * Text search uses the FULLTEXT indexes on impact_assessments.ai_summary
+ * and events(title, description) in BOOLEAN MODE. Relevance is the summary
+ * score plus the best-matching linked event's score.
  */
 
+import { createHash } from 'crypto';
 import db from './db';
 import { RowDataPacket } from 'mysql2';
+import { ValidationError } from './errors';
+import { parseQuery, v } from './validation';
 
 export interface AssessmentQuery {
-  userId: number;
+  orgId: number; // organization whose runs are searched (lib/orgs.ts)
   limit?: number;
-  offset?: number;
-  sortBy?: 'date' | 'score' | 'impact';
+  cursor?: string; // nextCursor from the previous page
+  sortBy?: 'date' | 'score' | 'impact' | 'relevance';
   sortOrder?: 'asc' | 'desc';
   minScore?: number;
   maxScore?: number;
   impactLevel?: 'LOW' | 'MEDIUM' | 'HIGH';
-  dominantCategory?:
-    | 'Geopolitical'
-    | 'Monetary'
-    | 'Commodity'
-    | 'SupplyChain'
-    | 'General';
-  search?: string; // search in title/description
+  dominantCategory?: string; // a category name from the taxonomy
+  search?: string; // full-text search in summary and event title/description
+}
+
+export type AssessmentFilters = Omit<AssessmentQuery, 'orgId' | 'limit' | 'cursor'>;
+
+/** A full assessment row, as iterated for exports */
+export interface AssessmentExportRow extends RowDataPacket {
+  id: number;
+  overall_score: string;
+  weighted_score: string | null;
+  impact_level: 'LOW' | 'MEDIUM' | 'HIGH';
+  dominant_category: string;
+  category_breakdown: Record<string, number>;
+  article_count: number;
+  ai_summary: string | null;
+  taxonomy_version: number | null;
+  created_at: string;
 }
 
 interface PaginatedResult<T> {
   data: T[];
   total: number;
-  page: number;
   pageSize: number;
   hasMore: boolean;
+  nextCursor: string | null;
+}
+
+interface CursorPayload {
+  k: string; // sort signature the cursor was issued for
+  v: string | number; // sort value of the last row
+  id: number;
+}
+
+interface SqlPart {
+  sql: string;
+  params: (string | number | Date)[];
+}
+
+const SORT_MAP = {
+  date: 'ia.created_at',
+  score: 'ia.overall_score',
+  impact: 'CASE ia.impact_level WHEN "HIGH" THEN 3 WHEN "MEDIUM" THEN 2 ELSE 1 END',
+  relevance: 'relevance',
+};
+
+const SORT_KEYS = ['date', 'score', 'impact', 'relevance'] as const;
+const IMPACT_LEVELS = ['LOW', 'MEDIUM', 'HIGH'] as const;
+
+// InnoDB's default innodb_ft_min_token_size; shorter words are not indexed
+const MIN_TERM_LENGTH = 3;
+
+const LIST_COLUMNS = `
+  ia.id,
+  ia.overall_score,
+  ia.weighted_score,
+  ia.impact_level,
+  ia.dominant_category,
+  ia.category_breakdown,
+  ia.article_count,
+  LEFT(ia.ai_summary, 300) as ai_summary_preview,
+  ia.taxonomy_version,
+  DATE_FORMAT(ia.created_at, '%Y-%m-%dT%H:%i:%sZ') as created_at`;
+
+const EXPORT_COLUMNS = `
+  ia.id,
+  ia.overall_score,
+  ia.weighted_score,
+  ia.impact_level,
+  ia.dominant_category,
+  ia.category_breakdown,
+  ia.article_count,
+  ia.ai_summary,
+  ia.taxonomy_version,
+  DATE_FORMAT(ia.created_at, '%Y-%m-%dT%H:%i:%sZ') as created_at`;
+
+function words(text: string): string[] {
+  return text.split(/[^A-Za-z0-9_À-ɏ]+/).filter(Boolean);
+}
+
+/**
+ * Turn free text into a BOOLEAN MODE query: every word is required and
+ * prefix-matched (`+sanction*`), "quoted phrases" match exactly, and a
+ * leading `-` excludes a word or phrase. Operator characters typed by the
+ * user are never passed through. Returns null when nothing searchable
+ * remains (only short words, or only exclusions).
+ */
+export function toBooleanQuery(search: string): string | null {
+  const parts: string[] = [];
+
+  for (const m of Array.from(search.matchAll(/(-?)"([^"]*)"|(-?)([^\s"]+)/g))) {
+    const exclude = (m[1] || m[3]) === '-';
+    const tokens = words(m[2] ?? m[4]);
+
+    if (m[2] !== undefined || tokens.length > 1) {
+      // Phrase, or a hyphenated/punctuated word such as "supply-chain"
+      if (tokens.length === 0) continue;
+      parts.push(`${exclude ? '-' : '+'}"${tokens.join(' ')}"`);
+    } else if (tokens.length === 1 && tokens[0].length >= MIN_TERM_LENGTH) {
+      parts.push(exclude ? `-${tokens[0]}` : `+${tokens[0]}*`);
+    }
+  }
+
+  // A query made only of exclusions matches nothing in boolean mode
+  return parts.some((p) => p.startsWith('+')) ? parts.join(' ') : null;
+}
+
+function resolveSearch(query: AssessmentFilters): string | null {
+  if (!query.search) {
+    if (query.sortBy === 'relevance') {
+      throw new ValidationError('sortBy=relevance requires a search term.', { field: 'sortBy' });
+    }
+    return null;
+  }
+
+  const boolean = toBooleanQuery(query.search);
+  if (!boolean) {
+    throw new ValidationError(
+      `search must contain at least one word of ${MIN_TERM_LENGTH} or more characters.`,
+      { field: 'search' }
+    );
+  }
+  return boolean;
+}
+
+const FiltersQuery = {
+  sortBy: v.optional(v.enum(SORT_KEYS)),
+  sortOrder: v.optional(v.enum(['asc', 'desc'] as const)),
+  minScore: v.optional(v.number({ min: 0, max: 100 })),
+  maxScore: v.optional(v.number({ min: 0, max: 100 })),
+  impactLevel: v.optional(v.enum(IMPACT_LEVELS)),
+  dominantCategory: v.optional(v.string({ max: 64 })),
+  search: v.optional(v.string({ max: 200 })),
+};
+
+/**
+ * Read the filter and sort parameters shared by the advanced query and
+ * export endpoints. Throws ValidationError for any malformed value, an
+ * inverted score range, an unusable search, or a relevance sort without
+ * a search.
+ */
+export function parseAssessmentFilters(searchParams: URLSearchParams): AssessmentFilters {
+  const filters = parseQuery(searchParams, FiltersQuery);
+
+  if (filters.minScore !== undefined && filters.maxScore !== undefined && filters.minScore > filters.maxScore) {
+    throw new ValidationError('minScore must not be greater than maxScore.', { field: 'minScore' });
+  }
+
+  resolveSearch(filters);
+  return filters;
 }
 
 class QueryBuilder {
@@ -38,10 +185,10 @@ class QueryBuilder {
    * Build a WHERE clause with type-safe parameters
    */
   private buildWhereClause(
-    query: Omit<AssessmentQuery, 'limit' | 'offset' | 'sortBy' | 'sortOrder'>
+    query: Omit<AssessmentQuery, 'limit' | 'cursor' | 'sortBy' | 'sortOrder'>
   ): { clause: string; params: (string | number)[] } {
-    const conditions: string[] = ['ia.triggered_by = ?'];
-    const params: (string | number)[] = [query.userId];
+    const conditions: string[] = ['ia.org_id = ?'];
+    const params: (string | number)[] = [query.orgId];
 
     if (query.minScore !== undefined) {
       conditions.push('ia.overall_score >= ?');
@@ -63,103 +210,219 @@ class QueryBuilder {
       params.push(query.dominantCategory);
     }
 
-    if (query.search) {
-      // Search in assessment summary or event titles
-      conditions.push(
-        '(ia.ai_summary LIKE ? OR e.title LIKE ? OR e.description LIKE ?)'
-      );
-      const searchTerm = `%${query.search}%`;
-      params.push(searchTerm, searchTerm, searchTerm);
+    return { clause: conditions.join(' AND '), params };
+  }
+
+  /**
+   * FROM + WHERE for the query, including the full-text match. Linked
+   * events are reduced to one row per assessment (their best relevance)
+   * before joining, so no DISTINCT is needed.
+   */
+  private buildSource(
+    query: Omit<AssessmentQuery, 'limit' | 'cursor'>,
+    boolean: string | null
+  ): { from: SqlPart; where: SqlPart; relevance: SqlPart } {
+    const { clause, params } = this.buildWhereClause(query);
+
+    if (!boolean) {
+      return {
+        from: { sql: 'impact_assessments ia', params: [] },
+        where: { sql: clause, params },
+        relevance: { sql: 'NULL', params: [] },
+      };
     }
 
-    return { clause: conditions.join(' AND '), params };
+    return {
+      from: {
+        sql: `impact_assessments ia
+          LEFT JOIN (
+            SELECT ae.assessment_id,
+                   MAX(MATCH(e.title, e.description) AGAINST (? IN BOOLEAN MODE)) AS event_relevance
+              FROM assessment_events ae
+              JOIN impact_assessments own ON own.id = ae.assessment_id AND own.org_id = ?
+              JOIN events e ON e.id = ae.event_id
+             WHERE MATCH(e.title, e.description) AGAINST (? IN BOOLEAN MODE)
+             GROUP BY ae.assessment_id
+          ) em ON em.assessment_id = ia.id`,
+        params: [boolean, query.orgId, boolean],
+      },
+      where: {
+        sql: `${clause} AND (MATCH(ia.ai_summary) AGAINST (? IN BOOLEAN MODE) OR em.assessment_id IS NOT NULL)`,
+        params: [...params, boolean],
+      },
+      // Rounded so the value survives the round trip through a cursor
+      relevance: {
+        sql: 'ROUND(MATCH(ia.ai_summary) AGAINST (? IN BOOLEAN MODE) + COALESCE(em.event_relevance, 0), 6)',
+        params: [boolean],
+      },
+    };
+  }
+
+  /** Cursors are only valid for the sort (and search) they were issued with. */
+  private sortSignature(query: Omit<AssessmentQuery, 'limit' | 'cursor'>): string {
+    const sortBy = query.sortBy ?? 'date';
+    const sortOrder = query.sortOrder ?? 'desc';
+    const search = query.search
+      ? createHash('sha256').update(query.search).digest('hex').slice(0, 12)
+      : '';
+    return `${sortBy}:${sortOrder}:${search}`;
+  }
+
+  private encodeCursor(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, signature: string): CursorPayload {
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new ValidationError('Invalid cursor.', { field: 'cursor' });
+    }
+
+    if (
+      !payload ||
+      typeof payload.k !== 'string' ||
+      !Number.isInteger(payload.id) ||
+      (typeof payload.v !== 'string' && typeof payload.v !== 'number')
+    ) {
+      throw new ValidationError('Invalid cursor.', { field: 'cursor' });
+    }
+    if (payload.k !== signature) {
+      throw new ValidationError('Cursor does not match the current sort or search.', { field: 'cursor' });
+    }
+    return payload;
   }
 
   /**
-   * Get paginated assessments matching the query
+   * One keyset page: rows strictly after `after` in (sort_key, id) order.
+   * `maxId` optionally pins the result to runs that existed at some point.
    */
-  async find(
-    query: AssessmentQuery
-  ): Promise<PaginatedResult<Record<string, unknown>>> {
-    const limit = Math.min(query.limit ?? 20, 100);
-    const offset = query.offset ?? 0;
+  private async fetchPage<T extends RowDataPacket>(
+    query: Omit<AssessmentQuery, 'limit' | 'cursor'>,
+    columns: string,
+    limit: number,
+    after: CursorPayload | null,
+    maxId?: number
+  ): Promise<T[]> {
     const sortBy = query.sortBy ?? 'date';
-    const sortOrder = (query.sortOrder ?? 'desc').toUpperCase();
+    const desc = (query.sortOrder ?? 'desc') === 'desc';
+    const { from, where, relevance } = this.buildSource(query, resolveSearch(query));
+
+    const sortKey: SqlPart =
+      sortBy === 'relevance' ? relevance : { sql: SORT_MAP[sortBy], params: [] };
+
+    const inner = `
+      SELECT ${columns},
+             ${relevance.sql} as relevance,
+             ${sortKey.sql} as sort_key
+      FROM ${from.sql}
+      WHERE ${where.sql}${maxId !== undefined ? ' AND ia.id <= ?' : ''}
+    `;
+    const params: (string | number | Date)[] = [
+      ...relevance.params,
+      ...sortKey.params,
+      ...from.params,
+      ...where.params,
+      ...(maxId !== undefined ? [maxId] : []),
+    ];
+
+    let seek = '';
+    if (after) {
+      const op = desc ? '<' : '>';
+      const value = sortBy === 'date' ? new Date(after.v) : after.v;
+      seek = `WHERE (r.sort_key ${op} ? OR (r.sort_key = ? AND r.id ${op} ?))`;
+      params.push(value, value, after.id);
+    }
+
+    const dir = desc ? 'DESC' : 'ASC';
+    const sql = `
+      SELECT * FROM (${inner}) r
+      ${seek}
+      ORDER BY r.sort_key ${dir}, r.id ${dir}
+      LIMIT ?
+    `;
+    params.push(limit);
+
+    const [rows] = await db.query<T[]>(sql, params);
+    return rows;
+  }
 
-    const sortMap = {
-      date: 'ia.created_at',
-      score: 'ia.overall_score',
-      impact: 'CASE ia.impact_level WHEN "HIGH" THEN 3 WHEN "MEDIUM" THEN 2 ELSE 1 END',
+  /** Cursor pointing just after `row`, which must still carry sort_key. */
+  private cursorAfter(query: Omit<AssessmentQuery, 'limit' | 'cursor'>, row: RowDataPacket): CursorPayload {
+    return {
+      k: this.sortSignature(query),
+      v: row.sort_key instanceof Date ? row.sort_key.toISOString() : row.sort_key,
+      id: row.id as number,
     };
+  }
 
-    const { clause, params } = this.buildWhereClause(query);
+  /** Drop the internal sort column (and relevance when not searching). */
+  private strip<T extends RowDataPacket>(row: T, searching: boolean): T {
+    delete row.sort_key;
+    if (!searching) delete row.relevance;
+    return row;
+  }
+
+  /**
+   * Get one page of assessments matching the query
+   */
+  async find(
+    query: AssessmentQuery
+  ): Promise<PaginatedResult<Record<string, unknown>>> {
+    const limit = Math.min(query.limit ?? 20, 100);
+    const after = query.cursor ? this.decodeCursor(query.cursor, this.sortSignature(query)) : null;
 
     // Count total matching records
-    const countSql = query.search
-      ? `
-        SELECT COUNT(DISTINCT ia.id) as total
-        FROM impact_assessments ia
-        LEFT JOIN assessment_events ae ON ia.id = ae.assessment_id
-        LEFT JOIN events e ON ae.event_id = e.id
-        WHERE ${clause}
-      `
-      : `
-        SELECT COUNT(*) as total
-        FROM impact_assessments ia
-        WHERE ${clause}
-      `;
-
-    const [countResult] = await db.query<RowDataPacket[]>(countSql, params);
+    const { from, where } = this.buildSource(query, resolveSearch(query));
+    const [countResult] = await db.query<RowDataPacket[]>(
+      `SELECT COUNT(*) as total FROM ${from.sql} WHERE ${where.sql}`,
+      [...from.params, ...where.params]
+    );
     const total = (countResult[0]?.total as number) || 0;
 
-    // Fetch paginated results
-    const dataSql = query.search
-      ? `
-        SELECT DISTINCT
-          ia.id,
-          ia.overall_score,
-          ia.impact_level,
-          ia.dominant_category,
-          ia.category_breakdown,
-          ia.article_count,
-          LEFT(ia.ai_summary, 300) as ai_summary_preview,
-          DATE_FORMAT(ia.created_at, '%Y-%m-%dT%H:%i:%sZ') as created_at
-        FROM impact_assessments ia
-        LEFT JOIN assessment_events ae ON ia.id = ae.assessment_id
-        LEFT JOIN events e ON ae.event_id = e.id
-        WHERE ${clause}
-        ORDER BY ${sortMap[sortBy]} ${sortOrder}
-        LIMIT ? OFFSET ?
-      `
-      : `
-        SELECT
-          ia.id,
-          ia.overall_score,
-          ia.impact_level,
-          ia.dominant_category,
-          ia.category_breakdown,
-          ia.article_count,
-          LEFT(ia.ai_summary, 300) as ai_summary_preview,
-          DATE_FORMAT(ia.created_at, '%Y-%m-%dT%H:%i:%sZ') as created_at
-        FROM impact_assessments ia
-        WHERE ${clause}
-        ORDER BY ${sortMap[sortBy]} ${sortOrder}
-        LIMIT ? OFFSET ?
-      `;
-
-    const [rows] = await db.query<RowDataPacket[]>(
-      dataSql,
-      [...params, limit, offset]
-    );
+    // One extra row tells us whether another page exists
+    const rows = await this.fetchPage<RowDataPacket>(query, LIST_COLUMNS, limit + 1, after);
+    const hasMore = rows.length > limit;
+    const data = rows.slice(0, limit);
+    const nextCursor = hasMore ? this.encodeCursor(this.cursorAfter(query, data[data.length - 1])) : null;
+
+    for (const row of data) this.strip(row, !!query.search);
 
     return {
-      data: rows as Record<string, unknown>[],
+      data: data as Record<string, unknown>[],
       total,
-      page: Math.floor(offset / limit) + 1,
       pageSize: limit,
-      hasMore: offset + limit < total,
+      hasMore,
+      nextCursor,
     };
   }
+
+  /**
+   * Iterate over every matching assessment, `batchSize` rows at a time, so
+   * exports never hold the full history in memory. Runs created after the
+   * iteration starts are excluded so the export is a consistent snapshot.
+   */
+  async *iterate(
+    query: Omit<AssessmentQuery, 'limit' | 'cursor'>,
+    batchSize = 500
+  ): AsyncGenerator<AssessmentExportRow> {
+    const [head] = await db.query<RowDataPacket[]>(
+      'SELECT COALESCE(MAX(id), 0) AS max_id FROM impact_assessments WHERE org_id = ?',
+      [query.orgId]
+    );
+    const maxId = head[0].max_id as number;
+
+    let after: CursorPayload | null = null;
+    for (;;) {
+      const rows = await this.fetchPage<AssessmentExportRow>(
+        query, EXPORT_COLUMNS, batchSize, after, maxId
+      );
+      if (rows.length > 0) after = this.cursorAfter(query, rows[rows.length - 1]);
+      for (const row of rows) yield this.strip(row, !!query.search);
+      if (rows.length < batchSize) return;
+    }
+  }
 }
 
 export const queryBuilder = new QueryBuilder();
@@ -0,0 +1,143 @@
+/**
+ * lib/rateLimitStore.ts
+ * Where rate limiter state lives. RATE_LIMIT_STORE selects the backend:
+ *   memory → a Map in this process (default; lost on restart, not shared)
+ *   mysql  → the rate_limit_buckets table, shared by every instance
+ *
+ * Stores only persist state; the limiting rules are in lib/rateLimiter.ts.
+ */
+
+import { RowDataPacket } from 'mysql2';
+import db from './db';
+
+export interface RateLimitState {
+  tokens: number; // tokens (bucket) or requests (window) left
+  lastRefill: number; // epoch ms of the last refill, or the window start
+}
+
+export interface RateLimitStore {
+  /**
+   * Read the state for `key` (null when there is none), replace it with
+   * `update`'s result and return that. Atomic per key.
+   */
+  update(key: string, update: (state: RateLimitState | null) => RateLimitState): Promise<RateLimitState>;
+
+  reset(key: string): Promise<void>;
+
+  /** Remove every key starting with `prefix`. */
+  clear(prefix: string): Promise<void>;
+
+  /** Remove state not touched for `maxAge` ms. */
+  cleanup(maxAge: number): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { state: RateLimitState; touchedAt: number }>();
+
+  async update(key: string, update: (state: RateLimitState | null) => RateLimitState): Promise<RateLimitState> {
+    // No await between read and write, so this is atomic within the process
+    const state = update(this.buckets.get(key)?.state ?? null);
+    this.buckets.set(key, { state, touchedAt: Date.now() });
+    return state;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+
+  async clear(prefix: string): Promise<void> {
+    for (const key of Array.from(this.buckets.keys())) {
+      if (key.startsWith(prefix)) this.buckets.delete(key);
+    }
+  }
+
+  async cleanup(maxAge: number): Promise<void> {
+    const now = Date.now();
+    for (const [key, bucket] of Array.from(this.buckets.entries())) {
+      if (now - bucket.touchedAt > maxAge) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+interface BucketRow extends RowDataPacket {
+  tokens: number;
+  last_refill: number;
+}
+
+export class MySqlRateLimitStore implements RateLimitStore {
+  async update(key: string, update: (state: RateLimitState | null) => RateLimitState): Promise<RateLimitState> {
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+
+      // Create the row first so concurrent first requests queue on the
+      // same row lock; last_refill = 0 marks it as having no state yet.
+      await conn.query(
+        'INSERT IGNORE INTO rate_limit_buckets (bucket_key, tokens, last_refill) VALUES (?, 0, 0)',
+        [key]
+      );
+      const [rows] = await conn.query<BucketRow[]>(
+        'SELECT tokens, last_refill FROM rate_limit_buckets WHERE bucket_key = ? FOR UPDATE',
+        [key]
+      );
+
+      const row = rows[0];
+      const current = row && Number(row.last_refill) > 0
+        ? { tokens: Number(row.tokens), lastRefill: Number(row.last_refill) }
+        : null;
+      const next = update(current);
+
+      await conn.query(
+        `UPDATE rate_limit_buckets
+            SET tokens = ?, last_refill = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE bucket_key = ?`,
+        [next.tokens, next.lastRefill, key]
+      );
+      await conn.commit();
+      return next;
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.query('DELETE FROM rate_limit_buckets WHERE bucket_key = ?', [key]);
+  }
+
+  async clear(prefix: string): Promise<void> {
+    await db.query('DELETE FROM rate_limit_buckets WHERE bucket_key LIKE ?', [`${prefix.replace(/[\\%_]/g, '\\$&')}%`]);
+  }
+
+  async cleanup(maxAge: number): Promise<void> {
+    await db.query(
+      'DELETE FROM rate_limit_buckets WHERE updated_at < CURRENT_TIMESTAMP - INTERVAL ? SECOND',
+      [Math.ceil(maxAge / 1000)]
+    );
+  }
+}
+
+let instance: RateLimitStore | null = null;
+
+/** Lazily build the configured store. */
+export function getRateLimitStore(): RateLimitStore {
+  if (instance) return instance;
+
+  const store = (process.env.RATE_LIMIT_STORE ?? 'memory').toLowerCase();
+  switch (store) {
+    case 'mysql':
+      instance = new MySqlRateLimitStore();
+      break;
+    case 'memory':
+      instance = new MemoryRateLimitStore();
+      break;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${store}".`);
+  }
+
+  return instance;
+}
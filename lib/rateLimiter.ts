@@ -1,18 +1,26 @@
 /**
  * lib/rateLimiter.ts
- * Token bucket rate limiter with in-memory storage (suitable for single-instance deployments).
- * For distributed systems, integrate with Redis.
+ * Token bucket and fixed-window rate limiters. State is kept in the
+ * configured RateLimitStore (lib/rateLimitStore.ts): in memory for
+ * single-instance deployments, in MySQL when limits must survive restarts
+ * or be shared between instances.
  */
 
-interface RateLimitBucket {
-  tokens: number;
-  lastRefill: number;
-}
+import { getRateLimitStore, RateLimitState, RateLimitStore } from './rateLimitStore';
+import { logger } from './logger';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   maxTokens: number;
   refillRate: number; // tokens per second
-  window?: number; // optional: hard limit per window (ms)
+  window?: number; // optional: hard limit of maxTokens per fixed window (ms); refillRate is then unused
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetIn: number; // ms until the next request is allowed (blocked) or the limit is fully restored
+  policy: string; // RateLimit-Policy value, e.g. "10;w=60"
 }
 
 const DEFAULT_CONFIG: RateLimitConfig = {
@@ -20,107 +28,180 @@ const DEFAULT_CONFIG: RateLimitConfig = {
   refillRate: 10, // 10 tokens per second = 600 per minute
 };
 
-class RateLimiter {
-  private buckets = new Map<string, RateLimitBucket>();
+export class RateLimiter {
   private config: RateLimitConfig;
 
-  constructor(config: Partial<RateLimitConfig> = {}) {
+  /**
+   * `name` prefixes this limiter's keys in the shared store. `message` is
+   * returned to clients that hit the limit.
+   */
+  constructor(
+    public readonly name: string,
+    config: Partial<RateLimitConfig> = {},
+    public readonly message: string = 'Rate limit exceeded',
+    private store?: RateLimitStore
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
+  private get backend(): RateLimitStore {
+    return this.store ?? getRateLimitStore();
+  }
+
+  private storeKey(key: string): string {
+    return `${this.name}:${key}`;
+  }
+
   /**
-   * Check if a requester (identified by key) is allowed to proceed.
-   * Returns { allowed: boolean, remaining: number, resetIn: number }
+   * Check if a requester (identified by key) is allowed to proceed, and
+   * consume one token if so.
    */
-  check(key: string): { allowed: boolean; remaining: number; resetIn: number } {
+  async check(key: string): Promise<RateLimitResult> {
     const now = Date.now();
-    let bucket = this.buckets.get(key);
-
-    if (!bucket) {
-      bucket = {
-        tokens: this.config.maxTokens,
-        lastRefill: now,
-      };
-      this.buckets.set(key, bucket);
-    }
-
-    // Refill tokens based on elapsed time
-    const elapsed = (now - bucket.lastRefill) / 1000;
-    const tokensToAdd = elapsed * this.config.refillRate;
-    bucket.tokens = Math.min(
-      this.config.maxTokens,
-      bucket.tokens + tokensToAdd
-    );
-    bucket.lastRefill = now;
+    const { maxTokens, refillRate, window } = this.config;
+    let allowed = false;
+
+    const state = await this.backend.update(this.storeKey(key), (prev) => {
+      let next: RateLimitState;
+
+      if (window) {
+        // Windows are aligned to the epoch, so a 24h window resets at 00:00 UTC
+        const start = Math.floor(now / window) * window;
+        next = prev && prev.lastRefill === start ? { ...prev } : { tokens: maxTokens, lastRefill: start };
+      } else if (prev) {
+        // Refill tokens based on elapsed time
+        const elapsed = Math.max(0, now - prev.lastRefill) / 1000;
+        next = { tokens: Math.min(maxTokens, prev.tokens + elapsed * refillRate), lastRefill: now };
+      } else {
+        next = { tokens: maxTokens, lastRefill: now };
+      }
 
-    const allowed = bucket.tokens >= 1;
-    if (allowed) {
-      bucket.tokens -= 1;
+      allowed = next.tokens >= 1;
+      if (allowed) {
+        next.tokens -= 1;
+      }
+      return next;
+    });
+
+    let resetIn: number;
+    if (window) {
+      resetIn = state.lastRefill + window - now;
+    } else {
+      const missing = allowed ? maxTokens - state.tokens : 1 - state.tokens;
+      resetIn = Math.ceil((missing / refillRate) * 1000);
     }
 
-    const resetIn = allowed
-      ? 0
-      : Math.ceil((1 - bucket.tokens) / this.config.refillRate) * 1000;
-
     return {
       allowed,
-      remaining: Math.floor(bucket.tokens),
+      limit: maxTokens,
+      remaining: Math.floor(state.tokens),
       resetIn,
+      policy: `${maxTokens};w=${Math.round((window ?? (maxTokens / refillRate) * 1000) / 1000)}`,
     };
   }
 
   /**
    * Reset a specific key (useful for testing or manual overrides)
    */
-  reset(key: string): void {
-    this.buckets.delete(key);
+  async reset(key: string): Promise<void> {
+    await this.backend.reset(this.storeKey(key));
   }
 
   /**
-   * Clear all buckets
+   * Clear all of this limiter's buckets
    */
-  clear(): void {
-    this.buckets.clear();
+  async clear(): Promise<void> {
+    await this.backend.clear(`${this.name}:`);
   }
+}
 
-  /**
-   * Clean up old buckets to prevent memory leaks (call periodically)
-   */
-  cleanup(maxAge: number = 24 * 60 * 60 * 1000) {
-    const now = Date.now();
-    for (const [key, bucket] of this.buckets) {
-      if (now - bucket.lastRefill > maxAge) {
-        this.buckets.delete(key);
-      }
-    }
-  }
+function positiveInt(value: string | undefined, fallback: number): number {
+  const n = parseInt(value ?? '', 10);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 // Default instance: 600 requests per minute per IP
-export const globalLimiter = new RateLimiter({
+export const globalLimiter = new RateLimiter('global', {
   maxTokens: 100,
   refillRate: 10, // 1 request per 100ms = 10/sec = 600/min
 });
 
 // Stricter limiter for auth endpoints: 10 per minute per IP
-export const authLimiter = new RateLimiter({
+export const authLimiter = new RateLimiter('auth', {
   maxTokens: 10,
   refillRate: 10 / 60, // ~1 token per 6 seconds
 });
 
+// Per account (email) on login/register, whichever IPs the attempts come from: 5 per 15 minutes
+export const accountLimiter = new RateLimiter(
+  'account',
+  { maxTokens: 5, refillRate: 5 / (15 * 60) },
+  'Too many attempts for this account. Try again later.'
+);
+
+// Token refresh per session (the id in the refresh cookie), so NAT and unknown IPs don't log users out: 20 per minute
+export const refreshLimiter = new RateLimiter('refresh', {
+  maxTokens: 20,
+  refillRate: 20 / 60,
+});
+
 // Lenient for general API: 1000 per minute
-export const apiLimiter = new RateLimiter({
+export const apiLimiter = new RateLimiter('api', {
   maxTokens: 200,
   refillRate: 200 / 60, // ~3.3 per second
 });
 
+// Analysis runs per user per UTC day; each run spends NewsAPI and Gemini quota
+export const analysisQuota = new RateLimiter(
+  'analysis',
+  { maxTokens: positiveInt(process.env.ANALYSIS_DAILY_QUOTA, 20), refillRate: 0, window: DAY_MS },
+  'Daily analysis quota reached. It resets at 00:00 UTC.'
+);
+
+// Per API key, at the rate stored with the key; keys with the same rate share an instance
+const apiKeyLimiters = new Map<number, RateLimiter>();
+
+/**
+ * Limiter allowing `perMinute` requests a minute, for API key requests.
+ * Check it with the key id; the user's named limiters still apply.
+ */
+export function apiKeyLimiter(perMinute: number): RateLimiter {
+  let limiter = apiKeyLimiters.get(perMinute);
+  if (!limiter) {
+    limiter = new RateLimiter(
+      'apikey',
+      { maxTokens: perMinute, refillRate: perMinute / 60 },
+      'Rate limit exceeded for this API key.'
+    );
+    apiKeyLimiters.set(perMinute, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Limiters selectable by name (see withApi's `limiter` option)
+ */
+export const limiters = {
+  global: globalLimiter,
+  auth: authLimiter,
+  account: accountLimiter,
+  refresh: refreshLimiter,
+  api: apiLimiter,
+  analysis: analysisQuota,
+};
+
+export type LimiterName = keyof typeof limiters;
+
 /**
- * Periodically clean up stale buckets every 6 hours
+ * Periodically clean up stale buckets every 6 hours. Buckets idle for a
+ * day are full again (or their window has ended), so dropping them is safe.
  */
 if (process.env.NODE_ENV !== 'test') {
   setInterval(() => {
-    globalLimiter.cleanup();
-    authLimiter.cleanup();
-    apiLimiter.cleanup();
+    Promise.resolve()
+      .then(() => getRateLimitStore().cleanup(DAY_MS))
+      .catch((err) => logger.warn('Rate limit cleanup failed', { error: String(err) }));
   }, 6 * 60 * 60 * 1000);
 }
@@ -2,73 +2,127 @@
  * lib/requestContext.ts
  * Request context tracking for observability and correlation.
  * Useful for tracing requests across multiple services and logs.
+ *
+ * The context lives in AsyncLocalStorage, so every await inside
+ * runWithRequestContext() sees its own request's context even when
+ * requests interleave. Outside a request (scheduler ticks, start-up)
+ * there is no context and getRequestId() returns 'unknown'.
  */
 
-import { headers } from 'next/headers';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { isIP } from 'net';
 
-interface RequestContext {
+export interface RequestContext {
   requestId: string;
+  route?: string;
   userId?: number;
   ipAddress?: string;
   userAgent?: string;
   timestamp: number;
 }
 
-let currentContext: RequestContext | null = null;
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Caller-supplied IDs are echoed in headers and logs, so keep them tame
+const REQUEST_ID_RE = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Proxies in front of the app that append to X-Forwarded-For
+ * (TRUST_PROXY_HOPS, default 0). Without any, the header is client input
+ * and is ignored.
+ */
+function trustedProxyHops(): number {
+  const n = Number(process.env.TRUST_PROXY_HOPS);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+/**
+ * Client address: with N trusted proxies, the entry the outermost one
+ * added, i.e. the Nth from the right of X-Forwarded-For (entries to its
+ * left were sent by the client and can be forged). Otherwise the address
+ * the platform reports for the connection.
+ */
+function clientIp(headers: Headers, platformIp?: string): string | undefined {
+  const hops = trustedProxyHops();
+  if (hops > 0) {
+    const forwarded = (headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map((part) => part.trim())
+      .filter(Boolean);
+    if (forwarded.length > 0) return forwarded[Math.max(forwarded.length - hops, 0)];
+    const realIp = headers.get('x-real-ip');
+    if (realIp) return realIp;
+  }
+  return platformIp;
+}
+
+/** ipAddress when no valid client address is available. */
+export const UNKNOWN_IP = 'unknown';
 
 /**
- * Initialize request context (call at the start of each request)
+ * The address as stored in login_attempts, sessions, api_keys and
+ * audit_events (VARCHAR(45)): a bare IPv4 or IPv6 address, with any port,
+ * brackets, zone or IPv4-mapped prefix removed. Anything else, such as a
+ * forged header value, becomes 'unknown'.
  */
-export async function initRequestContext(userId?: number): Promise<RequestContext> {
-  const hdrs = await headers();
+export function normalizeIp(raw: string | null | undefined): string {
+  let ip = (raw ?? '').trim();
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(ip);
+  if (bracketed) ip = bracketed[1];
+  else if (/^[\d.]+:\d+$/.test(ip)) ip = ip.slice(0, ip.lastIndexOf(':'));
 
+  ip = ip.replace(/%.*$/, '').replace(/^::ffff:(?=[\d.]+$)/i, '').toLowerCase();
+  return isIP(ip) !== 0 && ip.length <= 45 ? ip : UNKNOWN_IP;
+}
+
+/**
+ * Build the context for an incoming request. `route` is a label such as
+ * 'GET /api/assessments/[id]'; `platformIp` is the connection address
+ * (NextRequest.ip), used unless a trusted proxy supplied the client's.
+ */
+export function createRequestContext(headers: Headers, route?: string, platformIp?: string): RequestContext {
   // Prefer X-Request-ID header if provided (for distributed tracing)
-  const requestId =
-    hdrs.get('X-Request-ID') ||
-    hdrs.get('x-request-id') ||
-    `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const incoming = headers.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_RE.test(incoming) ? incoming : randomUUID();
 
-  const context: RequestContext = {
+  return {
     requestId,
-    userId,
-    ipAddress:
-      hdrs.get('X-Forwarded-For')?.split(',')[0].trim() ||
-      hdrs.get('X-Real-IP') ||
-      'unknown',
-    userAgent: hdrs.get('User-Agent') || 'unknown',
+    route,
+    ipAddress: normalizeIp(clientIp(headers, platformIp)),
+    userAgent: headers.get('user-agent') || 'unknown',
     timestamp: Date.now(),
   };
+}
 
-  currentContext = context;
-  return context;
+/**
+ * Run `fn` with `context` as the current request context.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
 }
 
 /**
  * Get the current request context
  */
 export function getRequestContext(): RequestContext | null {
-  return currentContext;
+  return storage.getStore() ?? null;
 }
 
 /**
  * Update user ID in current context
  */
 export function updateRequestContext(userId?: number): void {
-  if (currentContext) {
-    currentContext.userId = userId;
+  const context = storage.getStore();
+  if (context) {
+    context.userId = userId;
   }
 }
 
-/**
- * Clear the current context (call at end of request)
- */
-export function clearRequestContext(): void {
-  currentContext = null;
-}
-
 /**
  * Get request ID for correlation in logs
  */
 export function getRequestId(): string {
-  return currentContext?.requestId || 'unknown';
+  return storage.getStore()?.requestId || 'unknown';
 }
@@ -1,6 +1,10 @@
 /**
  * lib/response.ts
  * Standardized API response wrapper for consistent response formatting.
+ *
+ * Two shapes are supported while clients migrate:
+ *   envelope — { success, data | error, code, details, requestId, timestamp }
+ *   legacy   — the bare payload on success, { error, details } on failure
  */
 
 import { NextResponse } from 'next/server';
@@ -11,24 +15,36 @@ export interface ApiResponse<T = unknown> {
   data?: T;
   error?: string;
   code?: string;
+  details?: Record<string, unknown>;
   requestId: string;
   timestamp: string;
 }
 
+export type ResponseFormat = 'envelope' | 'legacy';
+
+export const RESPONSE_FORMATS: ResponseFormat[] = ['envelope', 'legacy'];
+
+interface BuildOptions {
+  format?: ResponseFormat;
+  requestId?: string;
+  headers?: HeadersInit;
+}
+
 export class ResponseBuilder {
   /**
    * Build a success response
    */
-  static success<T>(data: T, statusCode: number = 200): NextResponse<ApiResponse<T>> {
-    return NextResponse.json<ApiResponse<T>>(
-      {
-        success: true,
-        data,
-        requestId: getRequestId(),
-        timestamp: new Date().toISOString(),
-      },
-      { status: statusCode }
-    );
+  static success<T>(data: T, statusCode: number = 200, opts: BuildOptions = {}): NextResponse {
+    const body = opts.format === 'legacy'
+      ? data
+      : {
+          success: statusCode < 400,
+          data,
+          requestId: opts.requestId ?? getRequestId(),
+          timestamp: new Date().toISOString(),
+        } satisfies ApiResponse<T>;
+
+    return NextResponse.json(body, { status: statusCode, headers: opts.headers });
   }
 
   /**
@@ -37,18 +53,22 @@ export class ResponseBuilder {
   static error(
     message: string,
     statusCode: number = 400,
-    code?: string
-  ): NextResponse<ApiResponse> {
-    return NextResponse.json<ApiResponse>(
-      {
-        success: false,
-        error: message,
-        ...(code && { code }),
-        requestId: getRequestId(),
-        timestamp: new Date().toISOString(),
-      },
-      { status: statusCode }
-    );
+    code?: string,
+    details?: Record<string, unknown>,
+    opts: BuildOptions = {}
+  ): NextResponse {
+    const body = opts.format === 'legacy'
+      ? { error: message, ...(details && { details }) }
+      : {
+          success: false,
+          error: message,
+          ...(code && { code }),
+          ...(details && { details }),
+          requestId: opts.requestId ?? getRequestId(),
+          timestamp: new Date().toISOString(),
+        } satisfies ApiResponse;
+
+    return NextResponse.json(body, { status: statusCode, headers: opts.headers });
   }
 
   /**
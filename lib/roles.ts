@@ -0,0 +1,42 @@
+/**
+ * lib/roles.ts
+ * User roles, lowest to highest:
+ *   viewer  → read-only: history, trends, exports
+ *   analyst → also runs analyses and manages schedules and alert rules
+ *   admin   → also manages users, the taxonomy, system settings, the audit log
+ *             and metrics
+ *
+ * No Node.js or database imports, so middleware.ts (Edge runtime) can use
+ * it too. Route handlers enforce roles through withApi's `role` option or
+ * requireRole() in lib/api.ts.
+ */
+
+export type Role = "viewer" | "analyst" | "admin";
+
+export const ROLES: readonly Role[] = ["viewer", "analyst", "admin"];
+
+/** Role given to new accounts. */
+export const DEFAULT_ROLE: Role = "analyst";
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/** True when `user` holds `min` or a higher role. */
+export function hasRole(user: { role?: unknown } | null | undefined, min: Role): boolean {
+  if (!user || !isRole(user.role)) return false;
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(min);
+}
+
+/**
+ * Emails listed in ADMIN_EMAILS (comma-separated) are made admins when
+ * they register or sign in, so a fresh install has a way to get its first
+ * administrator.
+ */
+export function isBootstrapAdmin(email: string): boolean {
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
@@ -0,0 +1,275 @@
+/**
+ * lib/scheduler.ts
+ * Background job runner for scheduled analysis runs.
+ *
+ * Every tick:
+ *   1. Recover jobs left "running" by a crashed process
+ *   2. Enqueue a job for every enabled schedule whose next_run_at is due
+ *   3. Claim and execute queued jobs one at a time
+ *
+ * Each run counts against the schedule owner's daily analysis quota when
+ * it is queued (here for due schedules, by the route's limiter for "run
+ * now"), so retries are not charged again. A due run over quota is
+ * recorded as a failed job.
+ *
+ * A job runs as the user who queued it, so before executing it the
+ * scheduler checks that they are still a member of the job's organization
+ * with at least the analyst role. If not, the job fails and its schedule
+ * is disabled.
+ *
+ * While the schedulerPaused setting is on (lib/settings), ticks do
+ * nothing: due schedules wait and queued jobs stay queued.
+ *
+ * Claims use conditional UPDATEs, so several app instances can run the
+ * scheduler against the same database without executing a job twice.
+ * Started from instrumentation.ts when SCHEDULER_ENABLED=true.
+ */
+
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import db from "./db";
+import { nextRun } from "./cron";
+import { runAnalysis } from "./analysisService";
+import { isAppError } from "./errors";
+import { logger } from "./logger";
+import { analysisQuota } from "./rateLimiter";
+import { settingsStore } from "./settings";
+import { Role, hasRole } from "./roles";
+
+interface DueScheduleRow extends RowDataPacket {
+  id             : number;
+  org_id         : number;
+  user_id        : number;
+  cron_expression: string;
+  next_run_at    : Date;
+}
+
+interface JobRow extends RowDataPacket {
+  id          : number;
+  schedule_id : number | null;
+  org_id      : number;
+  user_id     : number;
+  attempts    : number;
+  max_attempts: number;
+}
+
+interface RunAsRow extends RowDataPacket {
+  role  : Role;
+  member: number;
+}
+
+const DEFAULT_INTERVAL_MS = 30_000;
+const MAX_JOBS_PER_TICK   = 5;
+const STALE_JOB_MINUTES   = 15;
+const BASE_BACKOFF_MS     = 60_000;
+
+/** 1 min, 2 min, 4 min … capped at one hour. */
+function backoffMs(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), 60 * 60 * 1000);
+}
+
+/** Client errors (bad config, quota exhausted) will not succeed on retry. */
+function isRetryable(err: unknown): boolean {
+  return !(isAppError(err) && err.statusCode < 500);
+}
+
+class JobScheduler {
+  private timer  : NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    logger.info("Scheduler started", { intervalMs });
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** One scheduler pass. Overlapping ticks are skipped, not queued. */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      if (await settingsStore.get("schedulerPaused")) return;
+
+      await this.recoverStaleJobs();
+      await this.enqueueDueSchedules();
+
+      for (let i = 0; i < MAX_JOBS_PER_TICK; i++) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+        await this.execute(job);
+      }
+    } catch (err) {
+      logger.error("Scheduler tick failed", err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /** Queue a job immediately (used by "run now" in the schedules API). */
+  async enqueue(orgId: number, userId: number, scheduleId: number | null = null): Promise<number> {
+    const [result] = await db.query<ResultSetHeader>(
+      "INSERT INTO jobs (schedule_id, org_id, user_id, run_after) VALUES (?, ?, ?, UTC_TIMESTAMP())",
+      [scheduleId, orgId, userId]
+    );
+    return result.insertId;
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    const [result] = await db.query<ResultSetHeader>(
+      `UPDATE jobs
+          SET status = IF(attempts >= max_attempts, 'failed', 'queued'),
+              error  = 'Job abandoned while running (process restart?)',
+              finished_at = IF(attempts >= max_attempts, UTC_TIMESTAMP(), NULL)
+        WHERE status = 'running'
+          AND started_at < UTC_TIMESTAMP() - INTERVAL ? MINUTE`,
+      [STALE_JOB_MINUTES]
+    );
+    if (result.affectedRows > 0) {
+      logger.warn("Recovered stale jobs", { count: result.affectedRows });
+    }
+  }
+
+  private async enqueueDueSchedules(): Promise<void> {
+    const [due] = await db.query<DueScheduleRow[]>(
+      `SELECT id, org_id, user_id, cron_expression, next_run_at
+         FROM schedules
+        WHERE enabled = 1 AND next_run_at <= UTC_TIMESTAMP()
+        ORDER BY next_run_at
+        LIMIT 50`
+    );
+
+    for (const s of due) {
+      let following: Date | null;
+      try {
+        following = nextRun(s.cron_expression);
+      } catch (err) {
+        // Expression stopped parsing (edited directly in DB?) — park the schedule.
+        logger.warn("Disabling schedule with invalid cron", { scheduleId: s.id, error: String(err) });
+        following = null;
+      }
+
+      // Only the instance that advances next_run_at gets to enqueue.
+      const [claim] = await db.query<ResultSetHeader>(
+        `UPDATE schedules
+            SET next_run_at = ?, last_run_at = UTC_TIMESTAMP(), enabled = ?
+          WHERE id = ? AND next_run_at = ?`,
+        [following, following ? 1 : 0, s.id, s.next_run_at]
+      );
+      if (claim.affectedRows === 0 || !following) continue;
+
+      // Same key withApi uses, so scheduled and interactive runs share the quota.
+      const quota = await analysisQuota.check(`user:${s.user_id}`);
+      if (!quota.allowed) {
+        await db.query(
+          `INSERT INTO jobs (schedule_id, org_id, user_id, run_after, status, error, finished_at)
+           VALUES (?, ?, ?, UTC_TIMESTAMP(), 'failed', ?, UTC_TIMESTAMP())`,
+          [s.id, s.org_id, s.user_id, analysisQuota.message]
+        );
+        logger.warn("Scheduled run skipped: analysis quota reached", { scheduleId: s.id, orgId: s.org_id, userId: s.user_id });
+        continue;
+      }
+
+      const jobId = await this.enqueue(s.org_id, s.user_id, s.id);
+      logger.info("Scheduled job queued", { scheduleId: s.id, jobId, orgId: s.org_id, userId: s.user_id });
+    }
+  }
+
+  private async claimNextJob(): Promise<JobRow | null> {
+    const [candidates] = await db.query<JobRow[]>(
+      `SELECT id, schedule_id, org_id, user_id, attempts, max_attempts
+         FROM jobs
+        WHERE status = 'queued' AND run_after <= UTC_TIMESTAMP()
+        ORDER BY run_after, id
+        LIMIT 5`
+    );
+
+    for (const job of candidates) {
+      const [claim] = await db.query<ResultSetHeader>(
+        `UPDATE jobs
+            SET status = 'running', attempts = attempts + 1, started_at = UTC_TIMESTAMP(), error = NULL
+          WHERE id = ? AND status = 'queued'`,
+        [job.id]
+      );
+      if (claim.affectedRows === 1) return { ...job, attempts: job.attempts + 1 } as JobRow;
+    }
+
+    return null;
+  }
+
+  /**
+   * Why the job's user may no longer run analyses in the job's organization,
+   * or null when they still may.
+   */
+  private async runAsProblem(job: JobRow): Promise<string | null> {
+    const [rows] = await db.query<RunAsRow[]>(
+      `SELECT u.role, m.user_id IS NOT NULL AS member
+         FROM users u
+         LEFT JOIN org_memberships m ON m.org_id = ? AND m.user_id = u.id
+        WHERE u.id = ?`,
+      [job.org_id, job.user_id]
+    );
+    const row = rows[0];
+    if (!row || Number(row.member) !== 1) return "The schedule's owner is no longer a member of this organization.";
+    if (!hasRole(row, "analyst")) return "The schedule's owner no longer has the analyst role.";
+    return null;
+  }
+
+  private async execute(job: JobRow): Promise<void> {
+    const started = Date.now();
+
+    const problem = await this.runAsProblem(job);
+    if (problem) {
+      await db.query(
+        "UPDATE jobs SET status = 'failed', error = ?, finished_at = UTC_TIMESTAMP() WHERE id = ?",
+        [problem, job.id]
+      );
+      if (job.schedule_id !== null) {
+        await db.query("UPDATE schedules SET enabled = 0, next_run_at = NULL WHERE id = ?", [job.schedule_id]);
+      }
+      logger.warn("Job refused; schedule disabled", {
+        jobId: job.id, scheduleId: job.schedule_id, orgId: job.org_id, userId: job.user_id, error: problem,
+      });
+      return;
+    }
+
+    try {
+      const result = await runAnalysis(job.user_id, job.org_id);
+
+      await db.query(
+        `UPDATE jobs
+            SET status = 'succeeded', assessment_id = ?, duration_ms = ?, finished_at = UTC_TIMESTAMP()
+          WHERE id = ?`,
+        [result.assessmentId, Date.now() - started, job.id]
+      );
+      logger.info("Job succeeded", { jobId: job.id, assessmentId: result.assessmentId });
+    } catch (err) {
+      const message  = err instanceof Error ? err.message : String(err);
+      const duration = Date.now() - started;
+
+      if (isRetryable(err) && job.attempts < job.max_attempts) {
+        const retryAt = new Date(Date.now() + backoffMs(job.attempts));
+        await db.query(
+          `UPDATE jobs SET status = 'queued', error = ?, duration_ms = ?, run_after = ? WHERE id = ?`,
+          [message.slice(0, 5000), duration, retryAt, job.id]
+        );
+        logger.warn("Job failed, retrying", { jobId: job.id, attempt: job.attempts, retryAt: retryAt.toISOString(), error: message });
+      } else {
+        await db.query(
+          `UPDATE jobs
+              SET status = 'failed', error = ?, duration_ms = ?, finished_at = UTC_TIMESTAMP()
+            WHERE id = ?`,
+          [message.slice(0, 5000), duration, job.id]
+        );
+        logger.error("Job failed", { jobId: job.id, attempts: job.attempts, error: message });
+      }
+    }
+  }
+}
+
+export const scheduler = new JobScheduler();
@@ -0,0 +1,230 @@
+/**
+ * lib/schedules.ts
+ * Data access for analysis schedules and their jobs.
+ * Every query is scoped to the owning organization; user_id records the
+ * member who created a schedule (and whose runs it queues).
+ */
+
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import db from "./db";
+import { parseCron, nextRun, minIntervalMinutes, CronParseError } from "./cron";
+import { ValidationError } from "./errors";
+
+export interface Schedule {
+  id            : number;
+  name          : string;
+  cronExpression: string;
+  enabled       : boolean;
+  nextRunAt     : Date | null;
+  lastRunAt     : Date | null;
+  createdAt     : Date;
+}
+
+export interface Job {
+  id          : number;
+  scheduleId  : number | null;
+  status      : "queued" | "running" | "succeeded" | "failed";
+  attempts    : number;
+  maxAttempts : number;
+  runAfter    : Date;
+  startedAt   : Date | null;
+  finishedAt  : Date | null;
+  durationMs  : number | null;
+  assessmentId: number | null;
+  error       : string | null;
+  createdAt   : Date;
+}
+
+interface ScheduleRow extends RowDataPacket {
+  id             : number;
+  name           : string;
+  cron_expression: string;
+  enabled        : number;
+  next_run_at    : Date | null;
+  last_run_at    : Date | null;
+  created_at     : Date;
+}
+
+interface JobRow extends RowDataPacket {
+  id           : number;
+  schedule_id  : number | null;
+  status       : Job["status"];
+  attempts     : number;
+  max_attempts : number;
+  run_after    : Date;
+  started_at   : Date | null;
+  finished_at  : Date | null;
+  duration_ms  : number | null;
+  assessment_id: number | null;
+  error        : string | null;
+  created_at   : Date;
+}
+
+function minScheduleInterval(): number {
+  const n = parseInt(process.env.SCHEDULE_MIN_INTERVAL_MINUTES ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : 15;
+}
+
+const MAX_SCHEDULES_PER_ORG = 20;
+
+function toSchedule(r: ScheduleRow): Schedule {
+  return {
+    id            : r.id,
+    name          : r.name,
+    cronExpression: r.cron_expression,
+    enabled       : r.enabled === 1,
+    nextRunAt     : r.next_run_at,
+    lastRunAt     : r.last_run_at,
+    createdAt     : r.created_at,
+  };
+}
+
+function toJob(r: JobRow): Job {
+  return {
+    id          : r.id,
+    scheduleId  : r.schedule_id,
+    status      : r.status,
+    attempts    : r.attempts,
+    maxAttempts : r.max_attempts,
+    runAfter    : r.run_after,
+    startedAt   : r.started_at,
+    finishedAt  : r.finished_at,
+    durationMs  : r.duration_ms,
+    assessmentId: r.assessment_id,
+    error       : r.error,
+    createdAt   : r.created_at,
+  };
+}
+
+/**
+ * Throws ValidationError when the expression does not parse or fires more
+ * often than SCHEDULE_MIN_INTERVAL_MINUTES (each run costs news + AI quota).
+ */
+export function validateCronExpression(expression: string): void {
+  try {
+    parseCron(expression);
+  } catch (err) {
+    if (err instanceof CronParseError) {
+      throw new ValidationError(`Invalid cron expression: ${err.message}`, { field: "cronExpression" });
+    }
+    throw err;
+  }
+
+  const minInterval = minScheduleInterval();
+  if (minIntervalMinutes(expression) < minInterval) {
+    throw new ValidationError(
+      `Schedules may run at most once every ${minInterval} minutes.`,
+      { field: "cronExpression" }
+    );
+  }
+}
+
+const SCHEDULE_COLUMNS = "id, name, cron_expression, enabled, next_run_at, last_run_at, created_at";
+
+class ScheduleStore {
+  async list(orgId: number): Promise<Schedule[]> {
+    const [rows] = await db.query<ScheduleRow[]>(
+      `SELECT ${SCHEDULE_COLUMNS} FROM schedules WHERE org_id = ? ORDER BY created_at DESC`,
+      [orgId]
+    );
+    return rows.map(toSchedule);
+  }
+
+  async get(orgId: number, id: number): Promise<Schedule | null> {
+    const [rows] = await db.query<ScheduleRow[]>(
+      `SELECT ${SCHEDULE_COLUMNS} FROM schedules WHERE id = ? AND org_id = ?`,
+      [id, orgId]
+    );
+    return rows[0] ? toSchedule(rows[0]) : null;
+  }
+
+  async create(
+    orgId: number,
+    userId: number,
+    input: { name: string; cronExpression: string; enabled: boolean }
+  ): Promise<Schedule> {
+    validateCronExpression(input.cronExpression);
+
+    const [countRows] = await db.query<RowDataPacket[]>(
+      "SELECT COUNT(*) AS total FROM schedules WHERE org_id = ?",
+      [orgId]
+    );
+    if ((countRows[0]?.total as number) >= MAX_SCHEDULES_PER_ORG) {
+      throw new ValidationError(`An organization may have at most ${MAX_SCHEDULES_PER_ORG} schedules.`);
+    }
+
+    const [result] = await db.query<ResultSetHeader>(
+      `INSERT INTO schedules (org_id, user_id, name, cron_expression, enabled, next_run_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        orgId,
+        userId,
+        input.name,
+        input.cronExpression,
+        input.enabled ? 1 : 0,
+        input.enabled ? nextRun(input.cronExpression) : null,
+      ]
+    );
+
+    return (await this.get(orgId, result.insertId))!;
+  }
+
+  async update(
+    orgId: number,
+    id: number,
+    patch: { name?: string; cronExpression?: string; enabled?: boolean }
+  ): Promise<Schedule | null> {
+    const current = await this.get(orgId, id);
+    if (!current) return null;
+
+    const cronExpression = patch.cronExpression ?? current.cronExpression;
+    const enabled        = patch.enabled ?? current.enabled;
+    if (patch.cronExpression !== undefined) validateCronExpression(cronExpression);
+
+    // Recompute next_run_at whenever timing or enablement changes.
+    const timingChanged = patch.cronExpression !== undefined || patch.enabled !== undefined;
+    const nextRunAt = timingChanged
+      ? (enabled ? nextRun(cronExpression) : null)
+      : current.nextRunAt;
+
+    await db.query(
+      `UPDATE schedules
+          SET name = ?, cron_expression = ?, enabled = ?, next_run_at = ?
+        WHERE id = ? AND org_id = ?`,
+      [patch.name ?? current.name, cronExpression, enabled ? 1 : 0, nextRunAt, id, orgId]
+    );
+
+    return this.get(orgId, id);
+  }
+
+  async delete(orgId: number, id: number): Promise<boolean> {
+    const [result] = await db.query<ResultSetHeader>(
+      "DELETE FROM schedules WHERE id = ? AND org_id = ?",
+      [id, orgId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async listJobs(orgId: number, opts: { scheduleId?: number; limit?: number } = {}): Promise<Job[]> {
+    const conditions = ["org_id = ?"];
+    const params: number[] = [orgId];
+
+    if (opts.scheduleId !== undefined) {
+      conditions.push("schedule_id = ?");
+      params.push(opts.scheduleId);
+    }
+
+    const [rows] = await db.query<JobRow[]>(
+      `SELECT id, schedule_id, status, attempts, max_attempts, run_after, started_at,
+              finished_at, duration_ms, assessment_id, error, created_at
+         FROM jobs
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?`,
+      [...params, Math.min(opts.limit ?? 20, 100)]
+    );
+    return rows.map(toJob);
+  }
+}
+
+export const scheduleStore = new ScheduleStore();
@@ -0,0 +1,319 @@
+/**
+ * lib/sessions.ts
+ * Server-side sessions. Each sign-in creates a `sessions` row; its id is
+ * the `jti` of every access token issued for it, so revoking the row ends
+ * the session on the next request instead of when the JWT expires.
+ *
+ * Access tokens live ACCESS_TOKEN_TTL_SECONDS (default 15 minutes). The
+ * refresh token ("<session id>.<secret>", only its SHA-256 is stored) is
+ * rotated on every use; presenting an already-rotated token outside a
+ * short grace window revokes the session, since it means the token was
+ * copied. Sessions end after SESSION_IDLE_DAYS without a refresh (default
+ * 7) and SESSION_MAX_DAYS after sign-in (default 30).
+ */
+
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import db from "./db";
+import { sessionCache } from "./cache";
+import { auditLog } from "./auditLog";
+import { Role } from "./roles";
+
+export interface SessionClient {
+  ip       : string;
+  userAgent: string;
+}
+
+export interface SessionInfo {
+  id        : string;
+  device    : string;
+  userAgent : string;
+  ipAddress : string;
+  createdAt : Date;
+  lastSeenAt: Date;
+  expiresAt : Date;
+}
+
+/** What sessionCache holds per session id; role is null once the session has ended. */
+export interface CachedSession {
+  userId: number;
+  role  : Role | null;
+}
+
+export interface RotatedSession {
+  sessionId   : string;
+  userId      : number;
+  email       : string;
+  role        : Role;
+  /** null inside the grace window: the client already holds the newest token. */
+  refreshToken: string | null;
+  expiresAt   : Date;
+}
+
+export type RevokeReason =
+  "logout" | "revoked" | "sign_out_everywhere" | "refresh_reuse" | "password_changed" | "password_reset";
+
+interface SessionRow extends RowDataPacket {
+  id                   : string;
+  user_id              : number;
+  email                : string;
+  role                 : Role;
+  refresh_hash         : string;
+  previous_refresh_hash: string | null;
+  user_agent           : string;
+  ip_address           : string;
+  created_at           : Date;
+  last_seen_at         : Date;
+  rotated_at           : Date;
+  expires_at           : Date;
+  revoked_at           : Date | null;
+}
+
+const DAY_MS          = 24 * 60 * 60 * 1000;
+const USER_AGENT_MAX  = 255;
+const REUSE_GRACE_MS  = 30_000;   // concurrent refreshes from tabs sharing one cookie
+const CACHE_SECONDS   = 60;       // how long a revocation can take to reach other instances
+
+function envInt(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] ?? "", 10);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+export const ACCESS_TOKEN_TTL_SECONDS = envInt("ACCESS_TOKEN_TTL_SECONDS", 15 * 60);
+const IDLE_MS = envInt("SESSION_IDLE_DAYS", 7) * DAY_MS;
+const MAX_MS  = envInt("SESSION_MAX_DAYS", 30) * DAY_MS;
+
+/** Seconds the refresh cookie should live. */
+export const REFRESH_TOKEN_TTL_SECONDS = Math.floor(IDLE_MS / 1000);
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function nextExpiry(createdAt: Date): Date {
+  return new Date(Math.min(Date.now() + IDLE_MS, createdAt.getTime() + MAX_MS));
+}
+
+/** "Chrome on macOS"-style label from a user agent string. */
+export function describeDevice(userAgent: string): string {
+  const browser =
+    /Edg\//.test(userAgent)                             ? "Edge"    :
+    /OPR\/|Opera/.test(userAgent)                       ? "Opera"   :
+    /Firefox\//.test(userAgent)                         ? "Firefox" :
+    /Chrome\//.test(userAgent)                          ? "Chrome"  :
+    /Safari\//.test(userAgent)                          ? "Safari"  :
+    /curl|python|node|axios|Go-http/i.test(userAgent)   ? "Script"  :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent)   ? "iOS"     :
+    /Android/.test(userAgent)       ? "Android" :
+    /Mac OS X/.test(userAgent)      ? "macOS"   :
+    /Windows/.test(userAgent)       ? "Windows" :
+    /Linux/.test(userAgent)         ? "Linux"   :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? "Unknown device";
+}
+
+class SessionStore {
+  /** Start a session; returns its id (the access token jti) and refresh token. */
+  async create(userId: number, client: SessionClient): Promise<{ sessionId: string; refreshToken: string; expiresAt: Date }> {
+    const sessionId = randomUUID();
+    const secret    = newSecret();
+    const now       = new Date();
+    const expiresAt = nextExpiry(now);
+
+    await db.query(
+      `INSERT INTO sessions
+         (id, user_id, refresh_hash, user_agent, ip_address, created_at, last_seen_at, rotated_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [sessionId, userId, hashSecret(secret), client.userAgent.slice(0, USER_AGENT_MAX), client.ip, now, now, now, expiresAt]
+    );
+    return { sessionId, refreshToken: `${sessionId}.${secret}`, expiresAt };
+  }
+
+  /**
+   * The user's current role while access tokens for `sessionId` are still
+   * honoured, null once the session has ended. Read with the session so a
+   * role change applies without signing in again. Cached for a minute; a
+   * cache miss also records the session as seen.
+   */
+  async currentRole(sessionId: string, userId: number): Promise<Role | null> {
+    const cached = sessionCache.get(sessionId);
+    if (cached) return cached.userId === userId ? cached.role : null;
+
+    const [rows] = await db.query<SessionRow[]>(
+      `SELECT s.user_id, u.role
+         FROM sessions s JOIN users u ON u.id = s.user_id
+        WHERE s.id = ? AND s.revoked_at IS NULL AND s.expires_at > ?`,
+      [sessionId, new Date()]
+    );
+    const role = rows.length > 0 && rows[0].user_id === userId ? rows[0].role : null;
+    sessionCache.set(sessionId, { userId, role }, CACHE_SECONDS);
+
+    if (role) {
+      await db.query("UPDATE sessions SET last_seen_at = ? WHERE id = ?", [new Date(), sessionId]);
+    }
+    return role;
+  }
+
+  /** Drop a user's cached session state on this instance, e.g. after a role change. */
+  async forgetUser(userId: number): Promise<void> {
+    const [rows] = await db.query<SessionRow[]>(
+      "SELECT id FROM sessions WHERE user_id = ? AND revoked_at IS NULL",
+      [userId]
+    );
+    for (const r of rows) sessionCache.delete(r.id);
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Returns null when the token is
+   * unknown, expired or revoked.
+   */
+  async rotate(refreshToken: string, client: SessionClient): Promise<RotatedSession | null> {
+    const [sessionId, secret] = refreshToken.split(".");
+    if (!sessionId || !secret) return null;
+    const presented = hashSecret(secret);
+
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+      const [rows] = await conn.query<SessionRow[]>(
+        `SELECT s.*, u.email, u.role
+           FROM sessions s JOIN users u ON u.id = s.user_id
+          WHERE s.id = ? FOR UPDATE`,
+        [sessionId]
+      );
+      const s = rows[0];
+      if (!s || s.revoked_at || s.expires_at.getTime() <= Date.now()) {
+        await conn.commit();
+        return null;
+      }
+
+      if (presented !== s.refresh_hash) {
+        const inGrace =
+          presented === s.previous_refresh_hash &&
+          Date.now() - s.rotated_at.getTime() < REUSE_GRACE_MS;
+
+        if (inGrace) {
+          await conn.commit();
+          return { sessionId, userId: s.user_id, email: s.email, role: s.role, refreshToken: null, expiresAt: s.expires_at };
+        }
+
+        if (presented === s.previous_refresh_hash) {
+          await conn.query(
+            "UPDATE sessions SET revoked_at = ?, revoked_reason = 'refresh_reuse' WHERE id = ?",
+            [new Date(), sessionId]
+          );
+          await conn.commit();
+          sessionCache.delete(sessionId);
+          auditLog.sessionRevoked(s.user_id, sessionId, "refresh_reuse", client.ip);
+          return null;
+        }
+
+        await conn.commit();
+        return null;
+      }
+
+      const next      = newSecret();
+      const now       = new Date();
+      const expiresAt = nextExpiry(s.created_at);
+      await conn.query(
+        `UPDATE sessions
+            SET previous_refresh_hash = refresh_hash, refresh_hash = ?, rotated_at = ?,
+                last_seen_at = ?, ip_address = ?, user_agent = ?, expires_at = ?
+          WHERE id = ?`,
+        [hashSecret(next), now, now, client.ip, client.userAgent.slice(0, USER_AGENT_MAX), expiresAt, sessionId]
+      );
+      await conn.commit();
+      return { sessionId, userId: s.user_id, email: s.email, role: s.role, refreshToken: `${sessionId}.${next}`, expiresAt };
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+  }
+
+  /** Active sessions for a user, most recently used first. */
+  async list(userId: number): Promise<SessionInfo[]> {
+    const [rows] = await db.query<SessionRow[]>(
+      `SELECT id, user_agent, ip_address, created_at, last_seen_at, expires_at
+         FROM sessions
+        WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+        ORDER BY last_seen_at DESC`,
+      [userId, new Date()]
+    );
+    return rows.map((r) => ({
+      id        : r.id,
+      device    : describeDevice(r.user_agent),
+      userAgent : r.user_agent,
+      ipAddress : r.ip_address,
+      createdAt : r.created_at,
+      lastSeenAt: r.last_seen_at,
+      expiresAt : r.expires_at,
+    }));
+  }
+
+  /** Revoke one of the user's sessions. False when it is not theirs or already ended. */
+  async revoke(userId: number, sessionId: string, reason: RevokeReason, ip?: string): Promise<boolean> {
+    const [result] = await db.query<ResultSetHeader>(
+      `UPDATE sessions SET revoked_at = ?, revoked_reason = ?
+        WHERE id = ? AND user_id = ? AND revoked_at IS NULL`,
+      [new Date(), reason, sessionId, userId]
+    );
+    sessionCache.delete(sessionId);
+    if (result.affectedRows === 0) return false;
+
+    auditLog.sessionRevoked(userId, sessionId, reason, ip);
+    return true;
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (sign-out after the
+   * access token expired). Returns the user id, or null when the token
+   * does not match.
+   */
+  async revokeByRefreshToken(refreshToken: string, reason: RevokeReason, ip?: string): Promise<number | null> {
+    const [sessionId, secret] = refreshToken.split(".");
+    if (!sessionId || !secret) return null;
+    const presented = hashSecret(secret);
+
+    const [rows] = await db.query<SessionRow[]>(
+      "SELECT user_id FROM sessions WHERE id = ? AND (refresh_hash = ? OR previous_refresh_hash = ?)",
+      [sessionId, presented, presented]
+    );
+    if (rows.length === 0) return null;
+
+    return (await this.revoke(rows[0].user_id, sessionId, reason, ip)) ? rows[0].user_id : null;
+  }
+
+  /**
+   * Revoke every active session of a user, except `keepSessionId` when
+   * given (the one changing the password); returns how many were ended.
+   */
+  async revokeAll(userId: number, reason: RevokeReason, ip?: string, keepSessionId?: string): Promise<number> {
+    const keep = keepSessionId ?? "";
+    const [rows] = await db.query<SessionRow[]>(
+      "SELECT id FROM sessions WHERE user_id = ? AND revoked_at IS NULL AND id <> ?",
+      [userId, keep]
+    );
+    if (rows.length === 0) return 0;
+
+    const [result] = await db.query<ResultSetHeader>(
+      "UPDATE sessions SET revoked_at = ?, revoked_reason = ? WHERE user_id = ? AND revoked_at IS NULL AND id <> ?",
+      [new Date(), reason, userId, keep]
+    );
+    for (const r of rows) sessionCache.delete(r.id);
+
+    auditLog.sessionRevoked(userId, "*", reason, ip, result.affectedRows);
+    return result.affectedRows;
+  }
+}
+
+export const sessionStore = new SessionStore();
@@ -0,0 +1,189 @@
+/**
+ * lib/settings.ts
+ * System settings admins change at runtime (/admin/settings,
+ * /api/admin/settings).
+ *
+ * Each setting defaults to its environment variable, then to a built-in
+ * value; a value saved in `system_settings` overrides both until it is
+ * reset. Settings are cached per process (settingsCache, 60s TTL) and the
+ * cache is cleared on save, so other instances follow within a minute.
+ * Changes are audited as SETTINGS_CHANGED.
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "./db";
+import { auditLog } from "./auditLog";
+import { settingsCache } from "./cache";
+import { Parser, parseValue, v } from "./validation";
+
+interface SettingDefinition<T> {
+  label   : string;
+  env     : string;
+  parser  : Parser<T>;
+  fallback: T;
+}
+
+const DEFINITIONS = {
+  weightingDefault: {
+    label: "Apply recency and credibility weighting to runs that don't say",
+    env: "WEIGHTING_DEFAULT", parser: v.boolean(), fallback: false,
+  },
+  weightingHalfLifeHours: {
+    label: "Recency half-life in hours",
+    env: "WEIGHTING_HALF_LIFE_HOURS", parser: v.number({ min: 1, max: 24 * 30 }), fallback: 24,
+  },
+  weightingMinRecency: {
+    label: "Minimum recency weight",
+    env: "WEIGHTING_MIN_RECENCY", parser: v.number({ min: 0, max: 1 }), fallback: 0.1,
+  },
+  weightingDefaultReliability: {
+    label: "Reliability of outlets not in the sources table",
+    env: "WEIGHTING_DEFAULT_RELIABILITY", parser: v.number({ min: 0, max: 1 }), fallback: 0.6,
+  },
+  schedulerPaused: {
+    label: "Pause scheduled runs",
+    env: "SCHEDULER_PAUSED", parser: v.boolean(), fallback: false,
+  },
+} satisfies Record<string, SettingDefinition<unknown>>;
+
+export type SettingKey = keyof typeof DEFINITIONS;
+
+export type SystemSettings = { [K in SettingKey]: (typeof DEFINITIONS)[K]["fallback"] };
+
+export const SETTING_KEYS = Object.keys(DEFINITIONS) as SettingKey[];
+
+export interface SettingView {
+  key         : SettingKey;
+  label       : string;
+  type        : "boolean" | "number";
+  value       : boolean | number;
+  defaultValue: boolean | number;
+  /** Where `value` comes from. */
+  source      : "database" | "environment" | "default";
+  env         : string;
+  updatedAt   : Date | null;
+  updatedBy   : string | null;
+}
+
+interface SettingRow extends RowDataPacket {
+  name      : string;
+  value     : unknown;
+  updated_at: Date;
+  email     : string | null;
+}
+
+const CACHE_KEY = "system";
+
+function definition(key: SettingKey): SettingDefinition<unknown> {
+  return DEFINITIONS[key];
+}
+
+/** The environment value when it is set and valid, else the built-in one. */
+function envDefault(key: SettingKey): { value: unknown; fromEnv: boolean } {
+  const def = definition(key);
+  const raw = process.env[def.env];
+  if (raw === undefined || raw.trim() === "") return { value: def.fallback, fromEnv: false };
+  try {
+    return { value: parseValue(raw.trim(), def.parser, key), fromEnv: true };
+  } catch {
+    return { value: def.fallback, fromEnv: false };
+  }
+}
+
+/** A stored value, or undefined when it no longer validates (edited in the DB?). */
+function storedValue(key: SettingKey, value: unknown): unknown {
+  try {
+    return parseValue(value, definition(key).parser, key);
+  } catch {
+    return undefined;
+  }
+}
+
+class SettingsStore {
+  private async rows(): Promise<Map<SettingKey, SettingRow>> {
+    const [rows] = await db.query<SettingRow[]>(
+      `SELECT s.name, s.value, s.updated_at, u.email
+         FROM system_settings s
+         LEFT JOIN users u ON u.id = s.updated_by`
+    );
+    return new Map(
+      rows
+        .filter((r) => Object.prototype.hasOwnProperty.call(DEFINITIONS, r.name))
+        .map((r) => [r.name as SettingKey, r])
+    );
+  }
+
+  /** Every setting's effective value. */
+  async all(): Promise<SystemSettings> {
+    const cached = settingsCache.get(CACHE_KEY);
+    if (cached) return cached;
+
+    const rows = await this.rows();
+    const settings = {} as Record<SettingKey, unknown>;
+    for (const key of SETTING_KEYS) {
+      const stored = rows.has(key) ? storedValue(key, rows.get(key)!.value) : undefined;
+      settings[key] = stored ?? envDefault(key).value;
+    }
+
+    settingsCache.set(CACHE_KEY, settings as SystemSettings);
+    return settings as SystemSettings;
+  }
+
+  async get<K extends SettingKey>(key: K): Promise<SystemSettings[K]> {
+    return (await this.all())[key];
+  }
+
+  /** Settings with their defaults and provenance, for the admin page. */
+  async list(): Promise<SettingView[]> {
+    const rows = await this.rows();
+
+    return SETTING_KEYS.map((key) => {
+      const def    = definition(key);
+      const row    = rows.get(key);
+      const stored = row ? storedValue(key, row.value) : undefined;
+      const { value: defaultValue, fromEnv } = envDefault(key);
+
+      return {
+        key,
+        label       : def.label,
+        type        : typeof def.fallback === "boolean" ? "boolean" : "number",
+        value       : (stored ?? defaultValue) as boolean | number,
+        defaultValue: defaultValue as boolean | number,
+        source      : stored !== undefined ? "database" : fromEnv ? "environment" : "default",
+        env         : def.env,
+        updatedAt   : stored !== undefined ? row!.updated_at : null,
+        updatedBy   : stored !== undefined ? row!.email : null,
+      };
+    });
+  }
+
+  /**
+   * Save `raw` as the value of `key`, or with null go back to the
+   * environment default. Throws a ValidationError on `value` when `raw`
+   * is not valid for the setting.
+   */
+  async set(key: SettingKey, raw: unknown, adminId: number, ip?: string): Promise<SettingView> {
+    const previous = await this.get(key);
+
+    if (raw === null) {
+      await db.query("DELETE FROM system_settings WHERE name = ?", [key]);
+    } else {
+      const value = parseValue(raw, definition(key).parser, "value");
+      await db.query(
+        `INSERT INTO system_settings (name, value, updated_by, updated_at)
+         VALUES (?, ?, ?, UTC_TIMESTAMP())
+         ON DUPLICATE KEY UPDATE value = VALUES(value), updated_by = VALUES(updated_by), updated_at = VALUES(updated_at)`,
+        [key, JSON.stringify(value), adminId]
+      );
+    }
+    settingsCache.delete(CACHE_KEY);
+
+    const view = (await this.list()).find((s) => s.key === key)!;
+    auditLog.configChanged("SETTINGS_CHANGED", adminId, `setting:${key}`, "updated", ip, {
+      previous, value: view.value, ...(raw === null ? { reset: true } : {}),
+    });
+    return view;
+  }
+}
+
+export const settingsStore = new SettingsStore();
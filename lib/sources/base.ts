@@ -0,0 +1,76 @@
+/**
+ * lib/sources/base.ts
+ * Shared contract and normalisation helpers for news source adapters.
+ * Every adapter returns plain RawArticle objects so the classifier never
+ * needs to know where an article came from.
+ */
+
+import { RawArticle } from "../classifier";
+
+export interface NewsSource {
+  /** Stable identifier used in NEWS_SOURCES and in fetch reports. */
+  readonly name: string;
+  fetch(): Promise<RawArticle[]>;
+}
+
+/** Per-adapter cap so one noisy feed cannot crowd out the others. */
+export const MAX_PER_SOURCE = 20;
+
+const FETCH_TIMEOUT_MS = 15_000;
+
+/** fetch() with the platform User-Agent and a hard timeout. */
+export async function fetchText(url: string, label: string): Promise<string> {
+  const res = await fetch(url, {
+    cache  : "no-store",
+    headers: { "User-Agent": "EventIntelligencePlatform/1.0" },
+    signal : AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`${label} HTTP ${res.status}: ${body.slice(0, 200)}`);
+  }
+
+  return res.text();
+}
+
+/** Parse any date string into ISO-8601, or "" when unparseable. */
+export function toIsoDate(value: string | null | undefined): string {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toISOString();
+}
+
+/** Articles without a title or link are useless to the pipeline. */
+export function isUsableArticle(a: RawArticle): boolean {
+  return !!a.title && a.title !== "[Removed]" && !!a.url;
+}
+
+/**
+ * Coerce a loosely-shaped JSON object (NewsAPI export, hand-written fixture)
+ * into a RawArticle. Returns null when required fields are missing.
+ */
+export function normalizeRawArticle(obj: unknown): RawArticle | null {
+  if (!obj || typeof obj !== "object") return null;
+  const o = obj as Record<string, unknown>;
+
+  const title = typeof o.title === "string" ? o.title.trim() : "";
+  const url   = typeof o.url === "string" ? o.url.trim() : typeof o.link === "string" ? o.link.trim() : "";
+  if (!title || !url) return null;
+
+  let source: string = "Unknown";
+  if (typeof o.source === "string") source = o.source;
+  else if (o.source && typeof (o.source as { name?: unknown }).name === "string") {
+    source = (o.source as { name: string }).name;
+  }
+
+  const description =
+    typeof o.description === "string" ? o.description :
+    typeof o.summary === "string"     ? o.summary     : null;
+
+  const published =
+    typeof o.publishedAt === "string" ? o.publishedAt :
+    typeof o.published_at === "string" ? o.published_at : null;
+
+  return { title, description, source, url, publishedAt: toIsoDate(published) };
+}
@@ -0,0 +1,75 @@
+/**
+ * lib/sources/gdelt.ts
+ * GDELT DOC 2.0 "artlist" JSON adapter.
+ * Uses GDELT_EXPORT_URL when set (any endpoint or mirror serving the same
+ * JSON shape), otherwise queries the public DOC API with the macro keywords.
+ */
+
+import { RawArticle } from "../classifier";
+import { NewsSource, MAX_PER_SOURCE, fetchText, isUsableArticle } from "./base";
+import { MACRO_QUERY_TERMS } from "./newsapi";
+
+const GDELT_DOC_API = "https://api.gdeltproject.org/api/v2/doc/doc";
+
+interface GdeltArticle {
+  url?          : string;
+  title?        : string;
+  seendate?     : string;
+  domain?       : string;
+  sourcecountry?: string;
+  language?     : string;
+}
+
+/** GDELT timestamps look like "20240315T123000Z". */
+function parseSeenDate(value: string | undefined): string {
+  const m = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!m) return "";
+  const [, y, mo, d, h, mi, s] = m;
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}.000Z`;
+}
+
+function defaultExportUrl(): string {
+  const url = new URL(GDELT_DOC_API);
+  url.searchParams.set("query",      `(${MACRO_QUERY_TERMS.join(" OR ")}) sourcelang:english`);
+  url.searchParams.set("mode",       "artlist");
+  url.searchParams.set("format",     "json");
+  url.searchParams.set("sort",       "datedesc");
+  url.searchParams.set("maxrecords", String(MAX_PER_SOURCE));
+  return url.toString();
+}
+
+/** Parse a GDELT artlist document ({ articles: [...] }) into RawArticles. */
+export function parseGdeltExport(data: unknown): RawArticle[] {
+  const list = (data as { articles?: GdeltArticle[] } | null)?.articles;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .map((a): RawArticle => ({
+      title      : (a.title ?? "").trim(),
+      // The artlist export carries no body text.
+      description: null,
+      source     : a.domain ?? "GDELT",
+      url        : a.url ?? "",
+      publishedAt: parseSeenDate(a.seendate),
+    }))
+    .filter(isUsableArticle);
+}
+
+export function createGdeltSource(exportUrl?: string): NewsSource {
+  return {
+    name: "gdelt",
+    async fetch() {
+      const body = await fetchText(exportUrl || defaultExportUrl(), "GDELT");
+
+      let data: unknown;
+      try {
+        data = JSON.parse(body);
+      } catch {
+        // GDELT answers malformed queries with a plain-text explanation.
+        throw new Error(`GDELT returned non-JSON response: ${body.slice(0, 200)}`);
+      }
+
+      return parseGdeltExport(data).slice(0, MAX_PER_SOURCE);
+    },
+  };
+}
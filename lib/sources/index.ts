@@ -0,0 +1,125 @@
+/**
+ * lib/sources/index.ts
+ * News source registry and fan-out.
+ *
+ * NEWS_SOURCES selects the adapters (comma-separated, default "newsapi"):
+ *   newsapi → NewsAPI.org            (NEWS_API_KEY)
+ *   rss     → RSS/Atom feeds         (RSS_FEED_URLS)
+ *   gdelt   → GDELT artlist JSON     (GDELT_EXPORT_URL, optional)
+ *   file    → local file/directory   (NEWS_FILE_PATH)
+ *
+ * fetchFromSources() queries every adapter in parallel. A failing source is
+ * reported but does not abort the run unless every source fails.
+ */
+
+import { RawArticle } from "../classifier";
+import { logger } from "../logger";
+import { NewsSource } from "./base";
+import { newsApiSource } from "./newsapi";
+import { createRssSource } from "./rss";
+import { createGdeltSource } from "./gdelt";
+import { createFileSource } from "./file";
+
+export type { NewsSource } from "./base";
+
+export interface SourceReport {
+  name        : string;
+  articleCount: number;
+  error?      : string;
+}
+
+export interface SourceFetchResult {
+  articles: RawArticle[];
+  reports : SourceReport[];
+}
+
+const DEFAULT_MAX_ARTICLES = 60;
+
+function envList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/** Build the adapter list from environment configuration. */
+export function getConfiguredSources(): NewsSource[] {
+  const names   = envList(process.env.NEWS_SOURCES);
+  const enabled = names.length > 0 ? names : ["newsapi"];
+  const sources: NewsSource[] = [];
+
+  for (const name of enabled) {
+    switch (name.toLowerCase()) {
+      case "newsapi":
+        sources.push(newsApiSource);
+        break;
+      case "rss": {
+        const feeds = envList(process.env.RSS_FEED_URLS);
+        if (feeds.length === 0) throw new Error("NEWS_SOURCES includes rss but RSS_FEED_URLS is empty.");
+        sources.push(createRssSource(feeds));
+        break;
+      }
+      case "gdelt":
+        sources.push(createGdeltSource(process.env.GDELT_EXPORT_URL?.trim()));
+        break;
+      case "file": {
+        const filePath = process.env.NEWS_FILE_PATH?.trim();
+        if (!filePath) throw new Error("NEWS_SOURCES includes file but NEWS_FILE_PATH is not set.");
+        sources.push(createFileSource(filePath));
+        break;
+      }
+      default:
+        throw new Error(`Unknown news source "${name}" in NEWS_SOURCES.`);
+    }
+  }
+
+  return sources;
+}
+
+function maxArticles(): number {
+  const n = parseInt(process.env.NEWS_MAX_ARTICLES ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_MAX_ARTICLES;
+}
+
+/**
+ * Fetch from every source in parallel and merge the results:
+ * identical URLs are collapsed, newest articles first, capped at NEWS_MAX_ARTICLES.
+ */
+export async function fetchFromSources(
+  sources: NewsSource[] = getConfiguredSources()
+): Promise<SourceFetchResult> {
+  const settled = await Promise.allSettled(sources.map((s) => s.fetch()));
+
+  const reports : SourceReport[] = [];
+  const seenUrls = new Set<string>();
+  const merged  : RawArticle[] = [];
+
+  settled.forEach((result, i) => {
+    const name = sources[i].name;
+
+    if (result.status === "rejected") {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      logger.warn("News source failed", { source: name, error: message });
+      reports.push({ name, articleCount: 0, error: message });
+      return;
+    }
+
+    reports.push({ name, articleCount: result.value.length });
+
+    for (const article of result.value) {
+      if (seenUrls.has(article.url)) continue;
+      seenUrls.add(article.url);
+      merged.push(article);
+    }
+  });
+
+  if (reports.every((r) => r.error)) {
+    throw new Error(
+      `All news sources failed — ${reports.map((r) => `${r.name}: ${r.error}`).join("; ")}`
+    );
+  }
+
+  merged.sort((a, b) => (b.publishedAt ?? "").localeCompare(a.publishedAt ?? ""));
+
+  return { articles: merged.slice(0, maxArticles()), reports };
+}
@@ -1,16 +1,17 @@
 /**
- * lib/newsapi.ts
+ * lib/sources/newsapi.ts
  * Fetches the latest global macro-relevant news from NewsAPI.org.
  * Queries for all required keywords using OR logic.
- * Returns at most 20 clean, usable articles.
+ * Returns at most MAX_PER_SOURCE clean, usable articles.
  */
 
-import { RawArticle } from "./classifier";
+import { RawArticle } from "../classifier";
+import { NewsSource, MAX_PER_SOURCE, isUsableArticle } from "./base";
 
 const NEWS_API_BASE = "https://newsapi.org/v2/everything";
 
 // All required keywords from the assignment spec
-const QUERY = [
+export const MACRO_QUERY_TERMS = [
   "war",
   "oil",
   "inflation",
@@ -18,7 +19,9 @@ const QUERY = [
   "\"central bank\"",
   "\"supply chain\"",
   "geopolitical",
-].join(" OR ");
+];
+
+const QUERY = MACRO_QUERY_TERMS.join(" OR ");
 
 export async function fetchLatestNews(): Promise<RawArticle[]> {
   const apiKey = process.env.NEWS_API_KEY;
@@ -28,7 +31,7 @@ export async function fetchLatestNews(): Promise<RawArticle[]> {
   url.searchParams.set("q",        QUERY);
   url.searchParams.set("language", "en");
   url.searchParams.set("sortBy",   "publishedAt");
-  url.searchParams.set("pageSize", "20");
+  url.searchParams.set("pageSize", String(MAX_PER_SOURCE));
   url.searchParams.set("apiKey",   apiKey);
 
   const res = await fetch(url.toString(), {
@@ -47,9 +50,12 @@ export async function fetchLatestNews(): Promise<RawArticle[]> {
     throw new Error(`NewsAPI error: ${data.message ?? data.status}`);
   }
 
-  const articles = (data.articles as RawArticle[]).filter(
-    (a) => a.title && a.title !== "[Removed]" && a.url
-  );
+  const articles = (data.articles as RawArticle[]).filter(isUsableArticle);
 
-  return articles.slice(0, 20);
+  return articles.slice(0, MAX_PER_SOURCE);
 }
+
+export const newsApiSource: NewsSource = {
+  name : "newsapi",
+  fetch: fetchLatestNews,
+};
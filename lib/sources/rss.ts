@@ -0,0 +1,131 @@
+/**
+ * lib/sources/rss.ts
+ * RSS 2.0 and Atom feed adapter.
+ * Feeds are configured as a comma-separated list in RSS_FEED_URLS.
+ * Parsing is deliberately dependency-free: feeds are flat enough that a
+ * tag-level scan is sufficient and avoids shipping an XML parser.
+ */
+
+import { RawArticle } from "../classifier";
+import { NewsSource, MAX_PER_SOURCE, fetchText, isUsableArticle, toIsoDate } from "./base";
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isNaN(n) ? match : String.fromCodePoint(n);
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+/** Unwrap CDATA, strip markup and collapse whitespace. */
+function cleanText(raw: string): string {
+  const unwrapped = raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  return decodeEntities(unwrapped.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tagContent(xml: string, tag: string): string | null {
+  const m = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return m ? m[1] : null;
+}
+
+function atomLink(entry: string): string | null {
+  const links = entry.match(/<link\b[^>]*>/gi) ?? [];
+  let fallback: string | null = null;
+
+  for (const link of links) {
+    const href = link.match(/href\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!href) continue;
+    const rel = link.match(/rel\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!rel || rel === "alternate") return decodeEntities(href);
+    fallback ??= decodeEntities(href);
+  }
+
+  return fallback;
+}
+
+/**
+ * Parse an RSS or Atom document into RawArticles.
+ * `fallbackSource` is used when the feed has no channel/feed title.
+ */
+export function parseFeed(xml: string, fallbackSource: string): RawArticle[] {
+  const isAtom = /<feed[\s>]/i.test(xml) && !/<rss[\s>]/i.test(xml);
+  const itemTag = isAtom ? "entry" : "item";
+
+  // Channel title sits before the first item/entry.
+  const head        = xml.split(new RegExp(`<${itemTag}[\\s>]`, "i"))[0];
+  const headTitle   = tagContent(head, "title");
+  const feedTitle   = headTitle ? cleanText(headTitle) : "";
+  const items       = xml.match(new RegExp(`<${itemTag}[\\s>][\\s\\S]*?</${itemTag}>`, "gi")) ?? [];
+
+  const articles: RawArticle[] = [];
+
+  for (const item of items) {
+    const title = cleanText(tagContent(item, "title") ?? "");
+
+    const link = isAtom
+      ? atomLink(item)
+      : cleanText(tagContent(item, "link") ?? "") || cleanText(tagContent(item, "guid") ?? "");
+
+    const body =
+      tagContent(item, "description") ??
+      tagContent(item, "summary") ??
+      tagContent(item, "content");
+
+    const published =
+      tagContent(item, "pubDate") ??
+      tagContent(item, "published") ??
+      tagContent(item, "updated") ??
+      tagContent(item, "dc:date");
+
+    // RSS <source> names the original publisher for aggregator feeds.
+    const itemSource = tagContent(item, "source");
+
+    articles.push({
+      title,
+      description: body ? cleanText(body) || null : null,
+      source     : (itemSource && cleanText(itemSource)) || feedTitle || fallbackSource,
+      url        : link ?? "",
+      publishedAt: toIsoDate(published ? cleanText(published) : null),
+    });
+  }
+
+  return articles.filter(isUsableArticle);
+}
+
+export function createRssSource(feedUrls: string[]): NewsSource {
+  return {
+    name: "rss",
+    async fetch() {
+      const results = await Promise.allSettled(
+        feedUrls.map(async (url) => parseFeed(await fetchText(url, "RSS"), new URL(url).hostname))
+      );
+
+      const articles: RawArticle[] = [];
+      const errors  : string[]     = [];
+
+      results.forEach((r, i) => {
+        if (r.status === "fulfilled") articles.push(...r.value);
+        else errors.push(`${feedUrls[i]}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`);
+      });
+
+      // Only fail the adapter when every feed failed.
+      if (articles.length === 0 && errors.length > 0) {
+        throw new Error(`All RSS feeds failed — ${errors.join("; ")}`);
+      }
+
+      return articles
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+        .slice(0, MAX_PER_SOURCE);
+    },
+  };
+}
@@ -0,0 +1,453 @@
+/**
+ * lib/taxonomy.ts
+ * Versioned classifier taxonomy stored in MySQL.
+ *
+ * A version is a complete, self-contained taxonomy: its categories
+ * (name, weight, keywords, fallback flag), severity tiers and baseline
+ * boost. Versions move draft → active → archived. Only drafts are
+ * editable, so the version recorded on an assessment always describes
+ * exactly what scored it. Exactly one version is active at a time; when
+ * the database has none, DEFAULT_TAXONOMY is seeded as version 1.
+ *
+ * The active taxonomy is cached per process (taxonomyCache, 60s TTL) and
+ * invalidated locally on activation; other instances pick it up on expiry.
+ */
+
+import { RowDataPacket, ResultSetHeader } from "mysql2";
+import type { PoolConnection } from "mysql2/promise";
+import db from "./db";
+import { DEFAULT_TAXONOMY, Taxonomy, TaxonomyCategory, SeverityTier } from "./classifier";
+import { taxonomyCache } from "./cache";
+import { ConflictError, ValidationError } from "./errors";
+import { logger } from "./logger";
+
+export type TaxonomyStatus = "draft" | "active" | "archived";
+
+export interface TaxonomyVersionSummary {
+  version    : number;
+  label      : string;
+  status     : TaxonomyStatus;
+  basedOn    : number | null;
+  createdBy  : number | null;
+  createdAt  : Date;
+  activatedAt: Date | null;
+}
+
+export interface TaxonomyVersion extends TaxonomyVersionSummary {
+  taxonomy: Taxonomy;
+}
+
+export interface ActiveTaxonomy {
+  version : number | null;   // null only when the built-in default could not be seeded
+  taxonomy: Taxonomy;
+}
+
+export interface TaxonomyInput {
+  label?        : unknown;
+  basedOn?      : unknown;
+  categories?   : unknown;
+  severityTiers?: unknown;
+  baselineBoost?: unknown;
+}
+
+interface VersionRow extends RowDataPacket {
+  id            : number;
+  label         : string;
+  status        : TaxonomyStatus;
+  baseline_boost: number;
+  based_on      : number | null;
+  created_by    : number | null;
+  created_at    : Date;
+  activated_at  : Date | null;
+}
+
+interface CategoryRow extends RowDataPacket {
+  name       : string;
+  weight     : string;
+  keywords   : string[];
+  is_fallback: number;
+}
+
+interface TierRow extends RowDataPacket {
+  boost: number;
+  words: string[];
+}
+
+const ACTIVE_CACHE_KEY = "taxonomy:active";
+const MAX_CATEGORIES   = 30;
+const MAX_TIERS        = 10;
+const MAX_TERMS        = 300;
+const CATEGORY_NAME_RE = /^[A-Za-z][A-Za-z0-9 _-]{0,63}$/;
+
+// ─── Validation ───────────────────────────────────────────────────
+
+function validateLabel(label: unknown): string {
+  if (typeof label !== "string" || !label.trim() || label.length > 120) {
+    throw new ValidationError("label must be 1-120 characters.", { field: "label" });
+  }
+  return label.trim();
+}
+
+function validateTerms(raw: unknown, field: string, allowEmpty: boolean): string[] {
+  if (!Array.isArray(raw)) {
+    throw new ValidationError(`${field} must be an array of strings.`, { field });
+  }
+
+  const terms = new Set<string>();
+  for (const t of raw) {
+    if (typeof t !== "string" || !t.trim() || t.length > 100) {
+      throw new ValidationError(`${field} entries must be 1-100 character strings.`, { field });
+    }
+    terms.add(t.trim().toLowerCase().replace(/\s+/g, " "));
+  }
+
+  if (!allowEmpty && terms.size === 0) {
+    throw new ValidationError(`${field} must not be empty.`, { field });
+  }
+  if (terms.size > MAX_TERMS) {
+    throw new ValidationError(`${field} may hold at most ${MAX_TERMS} terms.`, { field });
+  }
+  return Array.from(terms);
+}
+
+function validateCategories(raw: unknown): TaxonomyCategory[] {
+  if (!Array.isArray(raw) || raw.length < 2 || raw.length > MAX_CATEGORIES) {
+    throw new ValidationError(`categories must hold 2-${MAX_CATEGORIES} entries.`, { field: "categories" });
+  }
+
+  const seen = new Set<string>();
+  const categories = raw.map((c, i): TaxonomyCategory => {
+    const field = `categories[${i}]`;
+    const p = (c && typeof c === "object" ? c : {}) as Record<string, unknown>;
+
+    if (typeof p.name !== "string" || !CATEGORY_NAME_RE.test(p.name.trim())) {
+      throw new ValidationError(
+        `${field}.name must start with a letter and use letters, digits, spaces, "-" or "_" (max 64).`,
+        { field: `${field}.name` }
+      );
+    }
+    const name = p.name.trim();
+    if (seen.has(name.toLowerCase())) {
+      throw new ValidationError(`Duplicate category name "${name}".`, { field: `${field}.name` });
+    }
+    seen.add(name.toLowerCase());
+
+    if (typeof p.weight !== "number" || p.weight < 0 || p.weight > 1) {
+      throw new ValidationError(`${field}.weight must be a number between 0 and 1.`, { field: `${field}.weight` });
+    }
+    if (p.fallback !== undefined && typeof p.fallback !== "boolean") {
+      throw new ValidationError(`${field}.fallback must be a boolean.`, { field: `${field}.fallback` });
+    }
+
+    const fallback = p.fallback === true;
+    return {
+      name,
+      weight  : Math.round(p.weight * 1000) / 1000,
+      keywords: validateTerms(p.keywords ?? [], `${field}.keywords`, fallback),
+      ...(fallback && { fallback }),
+    };
+  });
+
+  if (categories.filter((c) => c.fallback).length !== 1) {
+    throw new ValidationError("Exactly one category must have fallback: true.", { field: "categories" });
+  }
+  return categories;
+}
+
+function validateTiers(raw: unknown): SeverityTier[] {
+  if (!Array.isArray(raw) || raw.length > MAX_TIERS) {
+    throw new ValidationError(`severityTiers must be an array of at most ${MAX_TIERS} tiers.`, { field: "severityTiers" });
+  }
+
+  const tiers = raw.map((t, i): SeverityTier => {
+    const field = `severityTiers[${i}]`;
+    const p = (t && typeof t === "object" ? t : {}) as Record<string, unknown>;
+
+    if (typeof p.boost !== "number" || !Number.isInteger(p.boost) || p.boost < 0 || p.boost > 100) {
+      throw new ValidationError(`${field}.boost must be an integer between 0 and 100.`, { field: `${field}.boost` });
+    }
+    return { boost: p.boost, words: validateTerms(p.words, `${field}.words`, false) };
+  });
+
+  // The classifier takes the first matching tier, so strongest goes first.
+  return tiers.sort((a, b) => b.boost - a.boost);
+}
+
+function validateBaselineBoost(raw: unknown): number {
+  if (typeof raw !== "number" || !Number.isInteger(raw) || raw < 0 || raw > 100) {
+    throw new ValidationError("baselineBoost must be an integer between 0 and 100.", { field: "baselineBoost" });
+  }
+  return raw;
+}
+
+/** Merge `input` over `base`, validating every supplied field. */
+function buildTaxonomy(base: Taxonomy, input: TaxonomyInput): Taxonomy {
+  return {
+    categories   : input.categories    === undefined ? base.categories    : validateCategories(input.categories),
+    severityTiers: input.severityTiers === undefined ? base.severityTiers : validateTiers(input.severityTiers),
+    baselineBoost: input.baselineBoost === undefined ? base.baselineBoost : validateBaselineBoost(input.baselineBoost),
+  };
+}
+
+// ─── Store ────────────────────────────────────────────────────────
+
+function toSummary(r: VersionRow): TaxonomyVersionSummary {
+  return {
+    version    : r.id,
+    label      : r.label,
+    status     : r.status,
+    basedOn    : r.based_on,
+    createdBy  : r.created_by,
+    createdAt  : r.created_at,
+    activatedAt: r.activated_at,
+  };
+}
+
+const VERSION_COLUMNS =
+  "id, label, status, baseline_boost, based_on, created_by, created_at, activated_at";
+
+class TaxonomyStore {
+  /** The taxonomy new analysis runs should use. */
+  async getActive(): Promise<ActiveTaxonomy> {
+    const cached = taxonomyCache.get(ACTIVE_CACHE_KEY);
+    if (cached) return cached;
+
+    const [rows] = await db.query<VersionRow[]>(
+      `SELECT ${VERSION_COLUMNS} FROM taxonomy_versions WHERE status = 'active' ORDER BY id DESC LIMIT 1`
+    );
+
+    let active: ActiveTaxonomy;
+    if (rows[0]) {
+      active = { version: rows[0].id, taxonomy: await this.loadTaxonomy(rows[0]) };
+    } else if (await this.seedDefault()) {
+      active = { version: 1, taxonomy: DEFAULT_TAXONOMY };
+    } else {
+      logger.warn("No active taxonomy version; using the built-in default");
+      active = { version: null, taxonomy: DEFAULT_TAXONOMY };
+    }
+
+    taxonomyCache.set(ACTIVE_CACHE_KEY, active);
+    return active;
+  }
+
+  async listVersions(): Promise<TaxonomyVersionSummary[]> {
+    const [rows] = await db.query<VersionRow[]>(
+      `SELECT ${VERSION_COLUMNS} FROM taxonomy_versions ORDER BY id DESC`
+    );
+    return rows.map(toSummary);
+  }
+
+  async getVersion(version: number): Promise<TaxonomyVersion | null> {
+    const [rows] = await db.query<VersionRow[]>(
+      `SELECT ${VERSION_COLUMNS} FROM taxonomy_versions WHERE id = ?`,
+      [version]
+    );
+    if (!rows[0]) return null;
+    return { ...toSummary(rows[0]), taxonomy: await this.loadTaxonomy(rows[0]) };
+  }
+
+  /**
+   * Create a draft. Fields not supplied are copied from `basedOn`
+   * (default: the active version), so a small edit needs a small body.
+   */
+  async createVersion(userId: number, input: TaxonomyInput): Promise<TaxonomyVersion> {
+    const label = validateLabel(input.label);
+
+    let base: ActiveTaxonomy;
+    if (input.basedOn === undefined) {
+      base = await this.getActive();
+    } else {
+      if (typeof input.basedOn !== "number" || !Number.isInteger(input.basedOn)) {
+        throw new ValidationError("basedOn must be a version number.", { field: "basedOn" });
+      }
+      const source = await this.getVersion(input.basedOn);
+      if (!source) throw new ValidationError(`Taxonomy version ${input.basedOn} does not exist.`, { field: "basedOn" });
+      base = { version: source.version, taxonomy: source.taxonomy };
+    }
+
+    const taxonomy = buildTaxonomy(base.taxonomy, input);
+
+    const conn = await db.getConnection();
+    let version: number;
+    try {
+      await conn.beginTransaction();
+      const [result] = await conn.query<ResultSetHeader>(
+        `INSERT INTO taxonomy_versions (label, status, baseline_boost, based_on, created_by)
+         VALUES (?, 'draft', ?, ?, ?)`,
+        [label, taxonomy.baselineBoost, base.version, userId]
+      );
+      version = result.insertId;
+      await this.writeContents(conn, version, taxonomy);
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    return (await this.getVersion(version))!;
+  }
+
+  /** Edit a draft. Active and archived versions are immutable. */
+  async updateVersion(version: number, input: TaxonomyInput): Promise<TaxonomyVersion | null> {
+    const current = await this.getVersion(version);
+    if (!current) return null;
+    if (current.status !== "draft") {
+      throw new ConflictError(`Taxonomy version ${version} is ${current.status}; only drafts can be edited.`);
+    }
+
+    const label    = input.label === undefined ? current.label : validateLabel(input.label);
+    const taxonomy = buildTaxonomy(current.taxonomy, input);
+
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+      await conn.query(
+        "UPDATE taxonomy_versions SET label = ?, baseline_boost = ? WHERE id = ? AND status = 'draft'",
+        [label, taxonomy.baselineBoost, version]
+      );
+      await conn.query("DELETE FROM taxonomy_categories WHERE version_id = ?", [version]);
+      await conn.query("DELETE FROM taxonomy_severity_tiers WHERE version_id = ?", [version]);
+      await this.writeContents(conn, version, taxonomy);
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    return this.getVersion(version);
+  }
+
+  async deleteDraft(version: number): Promise<boolean> {
+    const current = await this.getVersion(version);
+    if (!current) return false;
+    if (current.status !== "draft") {
+      throw new ConflictError(`Taxonomy version ${version} is ${current.status}; only drafts can be deleted.`);
+    }
+
+    const [result] = await db.query<ResultSetHeader>(
+      "DELETE FROM taxonomy_versions WHERE id = ? AND status = 'draft'",
+      [version]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /** Make `version` the active taxonomy; the previous one is archived. */
+  async activate(version: number): Promise<TaxonomyVersion | null> {
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+
+      const [rows] = await conn.query<VersionRow[]>(
+        "SELECT id, status FROM taxonomy_versions WHERE id = ? FOR UPDATE",
+        [version]
+      );
+      if (!rows[0]) {
+        await conn.rollback();
+        return null;
+      }
+
+      if (rows[0].status !== "active") {
+        await conn.query("UPDATE taxonomy_versions SET status = 'archived' WHERE status = 'active'");
+        await conn.query(
+          "UPDATE taxonomy_versions SET status = 'active', activated_at = UTC_TIMESTAMP() WHERE id = ?",
+          [version]
+        );
+      }
+
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    taxonomyCache.delete(ACTIVE_CACHE_KEY);
+    logger.info("Taxonomy version activated", { version });
+    return this.getVersion(version);
+  }
+
+  private async loadTaxonomy(row: VersionRow): Promise<Taxonomy> {
+    const [[categories], [tiers]] = await Promise.all([
+      db.query<CategoryRow[]>(
+        `SELECT name, weight, keywords, is_fallback FROM taxonomy_categories
+          WHERE version_id = ? ORDER BY sort_order, id`,
+        [row.id]
+      ),
+      db.query<TierRow[]>(
+        `SELECT boost, words FROM taxonomy_severity_tiers
+          WHERE version_id = ? ORDER BY boost DESC, id`,
+        [row.id]
+      ),
+    ]);
+
+    return {
+      categories: categories.map((c) => ({
+        name    : c.name,
+        weight  : Number(c.weight),
+        keywords: c.keywords,
+        ...(c.is_fallback === 1 && { fallback: true }),
+      })),
+      severityTiers: tiers.map((t) => ({ boost: t.boost, words: t.words })),
+      baselineBoost: row.baseline_boost,
+    };
+  }
+
+  private async writeContents(conn: PoolConnection, version: number, taxonomy: Taxonomy): Promise<void> {
+    for (const [i, c] of Array.from(taxonomy.categories.entries())) {
+      await conn.query(
+        `INSERT INTO taxonomy_categories (version_id, name, weight, keywords, is_fallback, sort_order)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [version, c.name, c.weight, JSON.stringify(c.keywords), c.fallback ? 1 : 0, i]
+      );
+    }
+    for (const t of taxonomy.severityTiers) {
+      await conn.query(
+        "INSERT INTO taxonomy_severity_tiers (version_id, boost, words) VALUES (?, ?, ?)",
+        [version, t.boost, JSON.stringify(t.words)]
+      );
+    }
+  }
+
+  /**
+   * Insert DEFAULT_TAXONOMY as active version 1. Idempotent across
+   * concurrent callers: only the one whose INSERT IGNORE lands writes contents.
+   * Returns false when version 1 already exists but nothing is active.
+   */
+  private async seedDefault(): Promise<boolean> {
+    const conn = await db.getConnection();
+    try {
+      await conn.beginTransaction();
+      const [result] = await conn.query<ResultSetHeader>(
+        `INSERT IGNORE INTO taxonomy_versions (id, label, status, baseline_boost, activated_at)
+         VALUES (1, 'Built-in default', 'active', ?, UTC_TIMESTAMP())`,
+        [DEFAULT_TAXONOMY.baselineBoost]
+      );
+      if (result.affectedRows === 1) {
+        await this.writeContents(conn, 1, DEFAULT_TAXONOMY);
+      }
+      await conn.commit();
+
+      if (result.affectedRows === 1) {
+        logger.info("Seeded default taxonomy as version 1");
+        return true;
+      }
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    const [rows] = await db.query<VersionRow[]>(
+      "SELECT id FROM taxonomy_versions WHERE id = 1 AND status = 'active'"
+    );
+    return rows.length > 0;
+  }
+}
+
+export const taxonomyStore = new TaxonomyStore();
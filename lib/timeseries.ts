@@ -0,0 +1,159 @@
+/**
+ * lib/timeseries.ts
+ * Bucketed aggregates of an organization's impact_assessments over time.
+ *
+ * Buckets are UTC: hour, day, or ISO week (starting Monday 00:00).
+ * Every bucket in [from, to) is returned, including empty ones (runs = 0,
+ * score fields null), so charts get a continuous time axis.
+ * Category averages cover every category seen in the range; a run that
+ * predates a category (older taxonomy version) counts as 0% for it.
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "./db";
+import { ImpactLevel } from "./classifier";
+import { ValidationError } from "./errors";
+
+export type Bucket = "hour" | "day" | "week";
+
+export interface TimeseriesPoint {
+  bucketStart     : string;   // ISO-8601 UTC
+  runs            : number;
+  avgScore        : number | null;
+  maxScore        : number | null;
+  minScore        : number | null;
+  avgWeightedScore: number | null;   // over weighted runs only
+  levels          : Record<ImpactLevel, number>;
+  categories      : Record<string, number | null>;
+}
+
+export interface Timeseries {
+  bucket    : Bucket;
+  from      : string;
+  to        : string;
+  categories: string[];
+  points    : TimeseriesPoint[];
+}
+
+interface RunRow extends RowDataPacket {
+  created_at        : Date;
+  overall_score     : string;
+  weighted_score    : string | null;
+  impact_level      : ImpactLevel;
+  category_breakdown: Record<string, number>;
+}
+
+const BUCKET_MS: Record<Bucket, number> = {
+  hour: 3_600_000,
+  day : 86_400_000,
+  week: 7 * 86_400_000,
+};
+
+// Range used when `from` is omitted
+const DEFAULT_SPAN_BUCKETS: Record<Bucket, number> = { hour: 48, day: 30, week: 12 };
+
+const MAX_BUCKETS = 1000;
+
+export const BUCKETS: Bucket[] = ["hour", "day", "week"];
+
+/** Start of the UTC bucket containing `t`. */
+export function bucketStart(t: number, bucket: Bucket): number {
+  const d = new Date(t);
+  switch (bucket) {
+    case "hour":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours());
+    case "day":
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+    case "week": {
+      const day = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+      const sinceMonday = (d.getUTCDay() + 6) % 7;
+      return day - sinceMonday * BUCKET_MS.day;
+    }
+  }
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Fill in the default range and check it. Throws ValidationError for
+ * from ≥ to or a range wider than MAX_BUCKETS buckets.
+ */
+export function resolveRange(
+  bucket: Bucket,
+  fromParam?: Date,
+  toParam?: Date
+): { bucket: Bucket; from: Date; to: Date } {
+  const to   = toParam ?? new Date();
+  const from = fromParam
+    ?? new Date(bucketStart(to.getTime(), bucket) - (DEFAULT_SPAN_BUCKETS[bucket] - 1) * BUCKET_MS[bucket]);
+
+  if (from >= to) {
+    throw new ValidationError("from must be earlier than to.", { field: "from" });
+  }
+  if ((to.getTime() - from.getTime()) / BUCKET_MS[bucket] > MAX_BUCKETS) {
+    throw new ValidationError(
+      `Range spans more than ${MAX_BUCKETS} ${bucket} buckets; use a larger bucket or a shorter range.`,
+      { field: "from" }
+    );
+  }
+
+  return { bucket, from, to };
+}
+
+export async function getTimeseries(orgId: number, bucket: Bucket, from: Date, to: Date): Promise<Timeseries> {
+  const [rows] = await db.query<RunRow[]>(
+    `SELECT created_at, overall_score, weighted_score, impact_level, category_breakdown
+       FROM impact_assessments
+      WHERE org_id = ? AND created_at >= ? AND created_at < ?
+      ORDER BY created_at`,
+    [orgId, from, to]
+  );
+
+  // Category set across the whole range, in first-seen order.
+  const categories: string[] = [];
+  for (const r of rows) {
+    for (const cat of Object.keys(r.category_breakdown ?? {})) {
+      if (!categories.includes(cat)) categories.push(cat);
+    }
+  }
+
+  const byBucket = new Map<number, RunRow[]>();
+  for (const r of rows) {
+    const key = bucketStart(r.created_at.getTime(), bucket);
+    const list = byBucket.get(key);
+    if (list) list.push(r);
+    else byBucket.set(key, [r]);
+  }
+
+  const points: TimeseriesPoint[] = [];
+  for (let t = bucketStart(from.getTime(), bucket); t < to.getTime(); t += BUCKET_MS[bucket]) {
+    const runs     = byBucket.get(t) ?? [];
+    const scores   = runs.map((r) => Number(r.overall_score));
+    const weighted = runs.filter((r) => r.weighted_score !== null).map((r) => Number(r.weighted_score));
+
+    const levels: Record<ImpactLevel, number> = { LOW: 0, MEDIUM: 0, HIGH: 0 };
+    for (const r of runs) levels[r.impact_level]++;
+
+    const categoryAvg: Record<string, number | null> = {};
+    for (const cat of categories) {
+      categoryAvg[cat] = runs.length
+        ? round1(runs.reduce((sum, r) => sum + (r.category_breakdown?.[cat] ?? 0), 0) / runs.length)
+        : null;
+    }
+
+    points.push({
+      bucketStart     : new Date(t).toISOString(),
+      runs            : runs.length,
+      avgScore        : scores.length ? round1(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+      maxScore        : scores.length ? Math.max(...scores) : null,
+      minScore        : scores.length ? Math.min(...scores) : null,
+      avgWeightedScore: weighted.length ? round1(weighted.reduce((a, b) => a + b, 0) / weighted.length) : null,
+      levels,
+      categories      : categoryAvg,
+    });
+  }
+
+  return { bucket, from: from.toISOString(), to: to.toISOString(), categories, points };
+}
@@ -0,0 +1,127 @@
+/**
+ * lib/users.ts
+ * User administration: listing accounts and changing roles. Role changes
+ * are audited and refuse to remove the last administrator.
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "./db";
+import { auditLog } from "./auditLog";
+import { ConflictError, NotFoundError } from "./errors";
+import { Role } from "./roles";
+import { sessionStore } from "./sessions";
+
+export interface UserSummary {
+  id              : number;
+  email           : string;
+  role            : Role;
+  lockedUntil     : Date | null;
+  failedLoginCount: number;
+  createdAt       : Date;
+  lastLoginAt     : Date | null;
+  activeSessions  : number;
+}
+
+export interface UserListQuery {
+  search?: string;
+  role?  : Role;
+  /** Return users with an id below this one (the previous page's nextCursor). */
+  before?: number;
+  limit  : number;
+}
+
+interface UserRow extends RowDataPacket {
+  id                : number;
+  email             : string;
+  role              : Role;
+  locked_until      : Date | null;
+  failed_login_count: number;
+  created_at        : Date;
+  last_login_at     : Date | null;
+  active_sessions   : number;
+}
+
+function toSummary(r: UserRow): UserSummary {
+  return {
+    id              : r.id,
+    email           : r.email,
+    role            : r.role,
+    lockedUntil     : r.locked_until,
+    failedLoginCount: r.failed_login_count,
+    createdAt       : r.created_at,
+    lastLoginAt     : r.last_login_at,
+    activeSessions  : Number(r.active_sessions),
+  };
+}
+
+class UserStore {
+  /** Users, newest first. `search` matches anywhere in the email. */
+  async list(q: UserListQuery): Promise<{ users: UserSummary[]; nextCursor: number | null }> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (q.search) { where.push("u.email LIKE ?"); params.push(`%${q.search.replace(/[\\%_]/g, "\\$&")}%`); }
+    if (q.role)   { where.push("u.role = ?");     params.push(q.role); }
+    if (q.before !== undefined) { where.push("u.id < ?"); params.push(q.before); }
+
+    const [rows] = await db.query<UserRow[]>(
+      `SELECT u.id, u.email, u.role, u.locked_until, u.failed_login_count, u.created_at,
+              (SELECT MAX(created_at) FROM login_attempts
+                WHERE user_id = u.id AND outcome = 'success')                       AS last_login_at,
+              (SELECT COUNT(*) FROM sessions
+                WHERE user_id = u.id AND revoked_at IS NULL AND expires_at > ?)     AS active_sessions
+         FROM users u
+        ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+        ORDER BY u.id DESC
+        LIMIT ?`,
+      [new Date(), ...params, q.limit + 1]
+    );
+
+    const users = rows.slice(0, q.limit).map(toSummary);
+    return { users, nextCursor: rows.length > q.limit ? users[users.length - 1].id : null };
+  }
+
+  /**
+   * Change a user's role. `changedBy` is the acting admin, or null for the
+   * ADMIN_EMAILS bootstrap. Throws NotFoundError / ConflictError.
+   */
+  async setRole(userId: number, role: Role, changedBy: number | null, ip?: string): Promise<UserSummary> {
+    const conn = await db.getConnection();
+    let previous: Role;
+    try {
+      await conn.beginTransaction();
+
+      const [rows] = await conn.query<UserRow[]>("SELECT role FROM users WHERE id = ? FOR UPDATE", [userId]);
+      if (rows.length === 0) throw new NotFoundError("User not found.");
+      previous = rows[0].role;
+
+      if (previous === "admin" && role !== "admin") {
+        // Lock every admin row so two concurrent demotions cannot both pass
+        const [admins] = await conn.query<RowDataPacket[]>(
+          "SELECT id FROM users WHERE role = 'admin' FOR UPDATE"
+        );
+        if (admins.length <= 1) throw new ConflictError("Cannot remove the last administrator.");
+      }
+
+      if (previous !== role) {
+        await conn.query("UPDATE users SET role = ? WHERE id = ?", [role, userId]);
+      }
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+
+    if (previous !== role) {
+      await sessionStore.forgetUser(userId);
+      auditLog.roleChanged(userId, previous, role, changedBy, ip);
+    }
+
+    const { users } = await this.list({ limit: 1, before: userId + 1 });
+    return users[0];
+  }
+}
+
+export const userStore = new UserStore();
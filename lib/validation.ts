@@ -0,0 +1,239 @@
+/**
+ * lib/validation.ts
+ * Schema-based parsing for query strings, JSON bodies and route params.
+ *
+ * A schema maps field names to parsers. Parsing checks every field,
+ * then throws a single ValidationError whose `details.fields` maps each
+ * bad field to its message, so clients can show all problems at once.
+ * Routes return it as a 400 like any other AppError.
+ *
+ *   const HistoryQuery = { limit: v.optional(v.int({ min: 1, max: 50 }), 10) };
+ *   const { limit } = parseQuery(searchParams, HistoryQuery);   // limit: number
+ *
+ * Query strings: empty values count as missing; unknown parameters are
+ * ignored. JSON bodies: must be an object; unknown fields are rejected
+ * so a misspelt field never silently does nothing.
+ */
+
+import { ValidationError } from './errors';
+
+export type Parser<T> = (value: unknown, field: string) => T;
+
+export type Schema = Record<string, Parser<unknown>>;
+
+export type Infer<S extends Schema> = { [K in keyof S]: ReturnType<S[K]> };
+
+/** Thrown by a parser for one field; collected into a ValidationError. */
+class FieldError extends Error {}
+
+function fail(message: string): never {
+  throw new FieldError(message);
+}
+
+function isMissing(value: unknown): value is undefined | null {
+  return value === undefined || value === null;
+}
+
+function range(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return ` between ${min} and ${max}`;
+  if (min !== undefined) return ` of at least ${min}`;
+  if (max !== undefined) return ` of at most ${max}`;
+  return '';
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const v = {
+  string(opts: { min?: number; max?: number; trim?: boolean; pattern?: RegExp; hint?: string } = {}): Parser<string> {
+    const { min = 1, max, trim = true, pattern, hint } = opts;
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      if (typeof value !== 'string') fail(`${field} must be a string.`);
+      const s = trim ? value.trim() : value;
+      if (s.length < min || (max !== undefined && s.length > max)) {
+        fail(max !== undefined
+          ? `${field} must be ${min}-${max} characters.`
+          : `${field} must be at least ${min} character${min === 1 ? '' : 's'}.`);
+      }
+      if (pattern && !pattern.test(s)) fail(`${field} ${hint ?? 'has an invalid format'}.`);
+      return s;
+    };
+  },
+
+  /** Trimmed and lower-cased. */
+  email(): Parser<string> {
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      if (typeof value !== 'string') fail(`${field} must be a string.`);
+      const s = value.trim().toLowerCase();
+      if (s.length > 255 || !EMAIL_RE.test(s)) fail(`${field} must be a valid email address.`);
+      return s;
+    };
+  },
+
+  /** Accepts a JSON number or a decimal string (query parameters). */
+  number(opts: { min?: number; max?: number; int?: boolean } = {}): Parser<number> {
+    const { min, max, int = false } = opts;
+    const kind = int ? 'an integer' : 'a number';
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      const n =
+        typeof value === 'number' ? value :
+        typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim()) ? Number(value) :
+        NaN;
+      if (!Number.isFinite(n) || (int && !Number.isInteger(n))) fail(`${field} must be ${kind}${range(min, max)}.`);
+      if ((min !== undefined && n < min) || (max !== undefined && n > max)) {
+        fail(`${field} must be ${kind}${range(min, max)}.`);
+      }
+      return n;
+    };
+  },
+
+  int(opts: { min?: number; max?: number } = {}): Parser<number> {
+    return v.number({ ...opts, int: true });
+  },
+
+  /** A database id: a positive integer. */
+  id(): Parser<number> {
+    return (value, field) => {
+      try {
+        return v.int({ min: 1 })(value, field);
+      } catch (err) {
+        if (err instanceof FieldError && !isMissing(value)) fail(`${field} must be a positive integer id.`);
+        throw err;
+      }
+    };
+  },
+
+  /** JSON booleans, or "true" / "false" in query strings. */
+  boolean(): Parser<boolean> {
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      if (typeof value === 'boolean') return value;
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return fail(`${field} must be a boolean.`);
+    };
+  },
+
+  enum<T extends string>(values: readonly T[]): Parser<T> {
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+        fail(`${field} must be one of ${values.join(', ')}.`);
+      }
+      return value as T;
+    };
+  },
+
+  /** ISO-8601 date or date-time. */
+  date(): Parser<Date> {
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      const d = typeof value === 'string' ? new Date(value) : new Date(NaN);
+      if (Number.isNaN(d.getTime())) fail(`${field} must be an ISO-8601 date or date-time.`);
+      return d;
+    };
+  },
+
+  /** A JSON object, passed through for a store to validate in depth. */
+  object(): Parser<Record<string, unknown>> {
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      if (typeof value !== 'object' || Array.isArray(value)) fail(`${field} must be an object.`);
+      return value as Record<string, unknown>;
+    };
+  },
+
+  /** A JSON array, passed through for a store to validate in depth. */
+  array(opts: { max?: number } = {}): Parser<unknown[]> {
+    return (value, field) => {
+      if (isMissing(value)) fail(`${field} is required.`);
+      if (!Array.isArray(value)) fail(`${field} must be an array.`);
+      if (opts.max !== undefined && value.length > opts.max) fail(`${field} must have at most ${opts.max} items.`);
+      return value;
+    };
+  },
+
+  /** Any value; the field is known but checked elsewhere. */
+  any(): Parser<unknown> {
+    return (value) => value;
+  },
+
+  /** Missing (undefined or null) yields `fallback`, otherwise `parser` applies. */
+  optional<T, D extends T | undefined = undefined>(parser: Parser<T>, fallback?: D): Parser<T | D> {
+    return (value, field) => (isMissing(value) ? (fallback as D) : parser(value, field));
+  },
+};
+
+function validate<S extends Schema>(input: Record<string, unknown>, schema: S, strict: boolean): Infer<S> {
+  const out: Record<string, unknown> = {};
+  const fields: Record<string, string> = {};
+
+  for (const [field, parser] of Object.entries(schema)) {
+    try {
+      out[field] = parser(input[field], field);
+    } catch (err) {
+      if (!(err instanceof FieldError)) throw err;
+      fields[field] = err.message;
+    }
+  }
+
+  if (strict) {
+    for (const field of Object.keys(input)) {
+      if (!Object.prototype.hasOwnProperty.call(schema, field)) fields[field] = `${field} is not a recognised field.`;
+    }
+  }
+
+  const messages = Object.values(fields);
+  if (messages.length > 0) throw new ValidationError(messages.join(' '), { fields });
+  return out as Infer<S>;
+}
+
+/** Parse URL query parameters against `schema`. */
+export function parseQuery<S extends Schema>(searchParams: URLSearchParams, schema: S): Infer<S> {
+  const input: Record<string, unknown> = {};
+  for (const field of Object.keys(schema)) {
+    const raw = searchParams.get(field);
+    input[field] = raw === null || raw.trim() === '' ? undefined : raw;
+  }
+  return validate(input, schema, false);
+}
+
+/**
+ * Read and parse a JSON request body. With `allowEmpty`, an empty body is
+ * treated as `{}` (for endpoints whose fields are all optional).
+ */
+export async function parseBody<S extends Schema>(
+  req: Request,
+  schema: S,
+  opts: { allowEmpty?: boolean } = {}
+): Promise<Infer<S>> {
+  const text = await req.text();
+  let body: unknown;
+
+  if (text.trim() === '' && opts.allowEmpty) {
+    body = {};
+  } else {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ValidationError('Invalid JSON body.', { fields: { body: 'Body must be valid JSON.' } });
+    }
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Invalid JSON body.', { fields: { body: 'Body must be a JSON object.' } });
+  }
+  return validate(body as Record<string, unknown>, schema, true);
+}
+
+/** Parse one dynamic route segment, e.g. `parseParam(params.id, v.id(), 'id')`. */
+export function parseParam<T>(raw: string, parser: Parser<T>, field: string): T {
+  return validate({ [field]: raw }, { [field]: parser }, false)[field] as T;
+}
+
+/** Parse one already-decoded value, e.g. a stored setting, throwing a ValidationError on `field`. */
+export function parseValue<T>(value: unknown, parser: Parser<T>, field: string): T {
+  return validate({ [field]: value }, { [field]: parser }, false)[field] as T;
+}
@@ -0,0 +1,118 @@
+/**
+ * lib/weighting.ts
+ * Optional recency × credibility weighting for the aggregate score.
+ *
+ *   recency     = max( minRecency , 0.5 ^ (ageHours / halfLifeHours) )
+ *   credibility = reliability (0–1) of the article's most reliable outlet,
+ *                 looked up by domain in the `sources` table;
+ *                 defaultReliability for outlets not listed
+ *
+ * The classifier multiplies each article's aggregate weight by
+ * recency × credibility to produce weightedScore next to the raw
+ * overallScore. Per-article scores are never changed.
+ */
+
+import { RowDataPacket } from "mysql2";
+import db from "./db";
+import { ArticleWeighting, ClassifiedArticle } from "./classifier";
+import { settingsStore } from "./settings";
+
+export interface WeightingConfig {
+  halfLifeHours     : number;
+  minRecency        : number;
+  defaultReliability: number;
+}
+
+export interface SourceCredibility {
+  domain     : string;
+  name       : string;
+  tier       : string;
+  reliability: number;
+}
+
+interface SourceRow extends RowDataPacket {
+  domain     : string;
+  name       : string;
+  tier       : string;
+  reliability: string;
+}
+
+/** Current parameters (admin settings, defaulting to the WEIGHTING_* variables). */
+export async function getWeightingConfig(): Promise<WeightingConfig> {
+  const settings = await settingsStore.all();
+  return {
+    halfLifeHours     : settings.weightingHalfLifeHours,
+    minRecency        : settings.weightingMinRecency,
+    defaultReliability: settings.weightingDefaultReliability,
+  };
+}
+
+/** Whether runs apply weighting when the caller does not say (weightingDefault setting, WEIGHTING_DEFAULT). */
+export async function weightingEnabledByDefault(): Promise<boolean> {
+  return settingsStore.get("weightingDefault");
+}
+
+/** "https://www.reuters.com/x" → "reuters.com" */
+function domainOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+/** Match a host against the table, falling back to parent domains (uk.reuters.com → reuters.com). */
+function lookupDomain(host: string, table: Map<string, SourceCredibility>): SourceCredibility | null {
+  const parts = host.split(".");
+  for (let i = 0; i < parts.length - 1; i++) {
+    const hit = table.get(parts.slice(i).join("."));
+    if (hit) return hit;
+  }
+  return null;
+}
+
+export function recencyWeight(publishedAt: string, now: Date, config: WeightingConfig): { weight: number; ageHours: number | null } {
+  const published = Date.parse(publishedAt);
+  if (Number.isNaN(published)) return { weight: config.minRecency, ageHours: null };
+
+  const ageHours = Math.max(0, (now.getTime() - published) / 3_600_000);
+  const weight   = Math.max(config.minRecency, Math.pow(0.5, ageHours / config.halfLifeHours));
+  return { weight: Math.round(weight * 10_000) / 10_000, ageHours: Math.round(ageHours * 10) / 10 };
+}
+
+export async function loadSourceCredibility(): Promise<Map<string, SourceCredibility>> {
+  const [rows] = await db.query<SourceRow[]>("SELECT domain, name, tier, reliability FROM sources");
+  return new Map(rows.map((r) => [
+    r.domain,
+    { domain: r.domain, name: r.name, tier: r.tier, reliability: Number(r.reliability) },
+  ]));
+}
+
+/**
+ * Build the per-article weighting the classifier applies to the aggregate.
+ * A deduplicated cluster is as credible as its most reliable outlet.
+ */
+export async function createWeighting(now: Date = new Date()): Promise<{ config: WeightingConfig; weighting: ArticleWeighting }> {
+  const config = await getWeightingConfig();
+  const table  = await loadSourceCredibility();
+
+  const weighting: ArticleWeighting = (article: ClassifiedArticle) => {
+    const { weight: recency, ageHours } = recencyWeight(article.publishedAt, now, config);
+
+    let best: SourceCredibility | null = null;
+    for (const s of article.sources) {
+      const host = domainOf(s.url);
+      const hit  = host ? lookupDomain(host, table) : null;
+      if (hit && (!best || hit.reliability > best.reliability)) best = hit;
+    }
+
+    return {
+      recency,
+      ageHours,
+      credibility: best?.reliability ?? config.defaultReliability,
+      sourceTier : best?.tier ?? null,
+    };
+  };
+
+  return { config, weighting };
+}
@@ -1,24 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
+import { readAccessToken } from "@/lib/edgeAuth";
+import { hasRole } from "@/lib/roles";
 
 // Cookie name must match the one in lib/auth.ts
 const COOKIE_NAME = "eip_session";
-const PROTECTED   = ["/dashboard"];
-const AUTH_PAGES  = ["/login", "/register"];
+const PROTECTED   = ["/dashboard", "/admin"];
+const ADMIN_PAGES = ["/admin"];
+const AUTH_PAGES  = ["/login", "/register", "/forgot-password"];
 
 /**
  * Middleware runs on the Edge runtime where Node.js crypto is unavailable.
  * We do NOT call jsonwebtoken here — that runs only in Node.js API routes.
  * Here we just check cookie presence as a fast gate; the API routes
  * do full JWT cryptographic verification on every authenticated request.
+ * Admin pages additionally need a correctly signed token carrying the
+ * admin role (lib/edgeAuth.ts); their APIs check the role again.
  */
-export function middleware(req: NextRequest) {
+export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
-  const hasSession   = !!req.cookies.get(COOKIE_NAME)?.value;
+  const token        = req.cookies.get(COOKIE_NAME)?.value;
+  const hasSession   = !!token;
 
   if (PROTECTED.some((p) => pathname.startsWith(p)) && !hasSession) {
     return NextResponse.redirect(new URL("/login", req.url));
   }
 
+  if (ADMIN_PAGES.some((p) => pathname.startsWith(p)) && !hasRole(await readAccessToken(token), "admin")) {
+    return NextResponse.redirect(new URL("/dashboard", req.url));
+  }
+
   if (AUTH_PAGES.includes(pathname) && hasSession) {
     return NextResponse.redirect(new URL("/dashboard", req.url));
   }
@@ -27,5 +37,5 @@ export function middleware(req: NextRequest) {
 }
 
 export const config = {
-  matcher: ["/dashboard/:path*", "/login", "/register"],
+  matcher: ["/dashboard/:path*", "/admin/:path*", "/login", "/register", "/forgot-password"],
 };
@@ -2,6 +2,7 @@
 const nextConfig = {
   experimental: {
     serverComponentsExternalPackages: ["mysql2"],
+    instrumentationHook: true, // starts the scheduler, see instrumentation.ts
   },
   async headers() {
     return [
@@ -12,71 +12,291 @@ USE event_intelligence;
 -- ----------------------------------------------------------------
 -- users
 --   Stores registered accounts. password_hash uses bcrypt (60 chars).
+--   failed_login_count counts consecutive failed logins; locked_until
+--   is set once it passes the lockout threshold (lib/loginSecurity.ts).
+--   role is viewer < analyst < admin (lib/roles.ts). email_verified_at
+--   is set once the owner follows a verification or reset link.
 -- ----------------------------------------------------------------
 CREATE TABLE IF NOT EXISTS users (
-  id            INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
-  email         VARCHAR(255) NOT NULL,
-  password_hash VARCHAR(255) NOT NULL,
-  created_at    DATETIME     NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  updated_at    DATETIME     NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  id                 INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  email              VARCHAR(255) NOT NULL,
+  password_hash      VARCHAR(255) NOT NULL,
+  failed_login_count INT UNSIGNED NOT NULL DEFAULT 0,
+  locked_until       DATETIME     NULL,
+  role               ENUM('viewer','analyst','admin') NOT NULL DEFAULT 'analyst',
+  email_verified_at  DATETIME     NULL,
+  created_at         DATETIME     NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at         DATETIME     NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   UNIQUE KEY uq_users_email (email)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- ----------------------------------------------------------------
+-- organizations
+--   Shared team workspaces (lib/orgs.ts). Assessments, schedules, jobs
+--   and alert rules belong to one. personal_for is set on the personal
+--   organization every user gets on first use; it is unique so only
+--   one can exist per user.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS organizations (
+  id           INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  name         VARCHAR(120)  NOT NULL,
+  personal_for INT UNSIGNED  NULL,
+  created_by   INT UNSIGNED  NULL,
+  created_at   DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at   DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT fk_org_personal
+    FOREIGN KEY (personal_for) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_org_creator
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL ON UPDATE CASCADE,
+  UNIQUE KEY uq_org_personal (personal_for)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- org_memberships
+--   Who belongs to which organization. role is the organization role
+--   (owner: rename, invite, remove members); what a member may do in
+--   it is still decided by users.role.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS org_memberships (
+  org_id     INT UNSIGNED  NOT NULL,
+  user_id    INT UNSIGNED  NOT NULL,
+  role       ENUM('owner','member') NOT NULL DEFAULT 'member',
+  created_at DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (org_id, user_id),
+  CONSTRAINT fk_membership_org
+    FOREIGN KEY (org_id) REFERENCES organizations(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_membership_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  INDEX idx_memberships_user (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- org_invites
+--   Email invitations to an organization. Only the SHA-256 of the
+--   token in the emailed link is stored. accepted_at / accepted_by are
+--   set once used; unaccepted rows past expires_at are dead.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS org_invites (
+  id          INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  org_id      INT UNSIGNED  NOT NULL,
+  email       VARCHAR(255)  NOT NULL,
+  token_hash  CHAR(64)      NOT NULL,
+  invited_by  INT UNSIGNED  NULL,
+  expires_at  DATETIME      NOT NULL,
+  accepted_at DATETIME      NULL,
+  accepted_by INT UNSIGNED  NULL,
+  created_at  DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT fk_invite_org
+    FOREIGN KEY (org_id) REFERENCES organizations(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_invite_inviter
+    FOREIGN KEY (invited_by) REFERENCES users(id)
+    ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT fk_invite_acceptor
+    FOREIGN KEY (accepted_by) REFERENCES users(id)
+    ON DELETE SET NULL ON UPDATE CASCADE,
+  UNIQUE KEY uq_invites_token (token_hash),
+  INDEX idx_invites_org_email (org_id, email)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- taxonomy_versions
+--   Versioned classifier taxonomy (see lib/taxonomy.ts). A version
+--   moves draft → active → archived; only drafts are editable and
+--   exactly one version is active. Version 1 is seeded from the
+--   built-in default on first use.
+--   baseline_boost applies when no severity tier matches.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS taxonomy_versions (
+  id             INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  label          VARCHAR(120)  NOT NULL,
+  status         ENUM('draft','active','archived') NOT NULL DEFAULT 'draft',
+  baseline_boost TINYINT UNSIGNED NOT NULL DEFAULT 5,
+  based_on       INT UNSIGNED  NULL,
+  created_by     INT UNSIGNED  NULL,
+  created_at     DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  activated_at   DATETIME      NULL,
+  CONSTRAINT fk_taxonomy_creator
+    FOREIGN KEY (created_by) REFERENCES users(id)
+    ON DELETE SET NULL ON UPDATE CASCADE,
+  INDEX idx_taxonomy_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- taxonomy_categories
+--   Risk categories of one taxonomy version. weight (0-1) sets the
+--   base article score (weight × 60) and the aggregate weight.
+--   keywords is a JSON array of lowercase terms. The is_fallback
+--   category is assigned when nothing matches (one per version).
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS taxonomy_categories (
+  id          INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  version_id  INT UNSIGNED  NOT NULL,
+  name        VARCHAR(64)   NOT NULL,
+  weight      DECIMAL(4,3)  NOT NULL,
+  keywords    JSON          NOT NULL,
+  is_fallback TINYINT(1)    NOT NULL DEFAULT 0,
+  sort_order  SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+  UNIQUE KEY uq_taxonomy_category (version_id, name),
+  CONSTRAINT fk_category_version
+    FOREIGN KEY (version_id) REFERENCES taxonomy_versions(id)
+    ON DELETE CASCADE ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- taxonomy_severity_tiers
+--   Severity word lists of one taxonomy version. The classifier
+--   applies the boost of the highest tier with a matching word.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS taxonomy_severity_tiers (
+  id         INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  version_id INT UNSIGNED     NOT NULL,
+  boost      TINYINT UNSIGNED NOT NULL,
+  words      JSON             NOT NULL,
+  CONSTRAINT fk_tier_version
+    FOREIGN KEY (version_id) REFERENCES taxonomy_versions(id)
+    ON DELETE CASCADE ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- ----------------------------------------------------------------
 -- events
---   One row per news article fetched and classified by the backend.
+--   Longitudinal event store: one row per distinct story, keyed by
+--   url_hash (SHA-256 of the canonical URL, see lib/dedup.ts).
+--   Each run upserts the row and bumps last_seen_at / run_count.
 --   risk_category is the output of the deterministic classifier.
---   article_score is the computed 0-100 score for this article.
+--   article_score is the most recent computed 0-100 score.
 --   keyword_matches stores debug JSON of which keywords fired.
+--   source_count / cluster_sources record the dedup cluster: how many
+--   distinct outlets carried the story and each outlet's URL.
 -- ----------------------------------------------------------------
 CREATE TABLE IF NOT EXISTS events (
   id               INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  url_hash         CHAR(64)       NOT NULL,
   title            VARCHAR(1000)  NOT NULL,
   description      TEXT,
   source_name      VARCHAR(255),
   url              TEXT,
   published_at     DATETIME,
-  risk_category    ENUM('Geopolitical','Monetary','Commodity','SupplyChain','General') NOT NULL,
+  risk_category    VARCHAR(64)    NOT NULL,
   article_score    DECIMAL(5,2)   NOT NULL DEFAULT 0.00,
   keyword_matches  JSON,
-  created_at       DATETIME       NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  INDEX idx_events_category   (risk_category),
-  INDEX idx_events_created_at (created_at DESC)
+  source_count     SMALLINT UNSIGNED NOT NULL DEFAULT 1,
+  cluster_sources  JSON,
+  run_count        INT UNSIGNED   NOT NULL DEFAULT 1,
+  first_seen_at    DATETIME       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at     DATETIME       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_events_url_hash (url_hash),
+  INDEX idx_events_category     (risk_category),
+  INDEX idx_events_last_seen    (last_seen_at DESC),
+  FULLTEXT INDEX ft_events_text (title, description)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- ----------------------------------------------------------------
+-- sources
+--   Outlet credibility for the weighted aggregate (lib/weighting.ts).
+--   domain is matched against article URLs, including subdomains.
+--   reliability (0-1) multiplies the article's aggregate weight;
+--   tier is a label for display. Unlisted outlets get
+--   WEIGHTING_DEFAULT_RELIABILITY.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sources (
+  id          INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  domain      VARCHAR(255)  NOT NULL,
+  name        VARCHAR(255)  NOT NULL,
+  tier        ENUM('wire','major','specialist','regional','blog') NOT NULL,
+  reliability DECIMAL(3,2)  NOT NULL,
+  updated_at  DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_sources_domain (domain)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO sources (domain, name, tier, reliability) VALUES
+  ('reuters.com',     'Reuters',             'wire',       0.95),
+  ('apnews.com',      'Associated Press',    'wire',       0.95),
+  ('afp.com',         'AFP',                 'wire',       0.93),
+  ('bloomberg.com',   'Bloomberg',           'wire',       0.93),
+  ('ft.com',          'Financial Times',     'major',      0.90),
+  ('wsj.com',         'Wall Street Journal', 'major',      0.90),
+  ('bbc.co.uk',       'BBC',                 'major',      0.88),
+  ('bbc.com',         'BBC',                 'major',      0.88),
+  ('nytimes.com',     'New York Times',      'major',      0.87),
+  ('economist.com',   'The Economist',       'major',      0.88),
+  ('cnbc.com',        'CNBC',                'major',      0.82),
+  ('aljazeera.com',   'Al Jazeera',          'major',      0.80),
+  ('theguardian.com', 'The Guardian',        'major',      0.82),
+  ('spglobal.com',    'S&P Global',          'specialist', 0.88),
+  ('oilprice.com',    'OilPrice.com',        'specialist', 0.65),
+  ('medium.com',      'Medium',              'blog',       0.35),
+  ('substack.com',    'Substack',            'blog',       0.35);
+
 -- ----------------------------------------------------------------
 -- impact_assessments
---   One row per analysis run triggered by a user.
+--   One row per analysis run, owned by an organization (org_id) and
+--   started by a user (triggered_by).
 --   overall_score and impact_level are the aggregate outputs.
+--   weighted_score is the recency × credibility weighted aggregate, set
+--   only on weighted runs; weighting_config records the parameters used.
 --   category_breakdown stores JSON percentage map per category.
 --   ai_summary stores the Gemini-generated executive brief.
+--   taxonomy_version is the taxonomy_versions row that scored the run.
+--   The (org_id, <sort column>, id) indexes serve keyset pagination;
+--   ft_assessments_summary serves full-text search (lib/queryBuilder.ts).
 -- ----------------------------------------------------------------
 CREATE TABLE IF NOT EXISTS impact_assessments (
   id                  INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  org_id              INT UNSIGNED  NOT NULL,
   triggered_by        INT UNSIGNED,
   overall_score       DECIMAL(5,2)  NOT NULL,
+  weighted_score      DECIMAL(5,2)  NULL,
+  weighting_config    JSON          NULL,
   impact_level        ENUM('LOW','MEDIUM','HIGH') NOT NULL,
-  dominant_category   ENUM('Geopolitical','Monetary','Commodity','SupplyChain','General') NOT NULL,
+  dominant_category   VARCHAR(64)   NOT NULL,
   category_breakdown  JSON          NOT NULL,
   article_count       SMALLINT UNSIGNED NOT NULL DEFAULT 0,
   ai_summary          LONGTEXT,
+  taxonomy_version    INT UNSIGNED  NULL,
   created_at          DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT fk_assessment_org
+    FOREIGN KEY (org_id) REFERENCES organizations(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
   CONSTRAINT fk_assessment_user
     FOREIGN KEY (triggered_by) REFERENCES users(id)
     ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT fk_assessment_taxonomy
+    FOREIGN KEY (taxonomy_version) REFERENCES taxonomy_versions(id)
+    ON DELETE RESTRICT ON UPDATE CASCADE,
   INDEX idx_assessments_user    (triggered_by),
-  INDEX idx_assessments_created (created_at DESC)
+  INDEX idx_assessments_created (created_at DESC),
+  INDEX idx_assessments_org_created (org_id, created_at, id),
+  INDEX idx_assessments_org_score   (org_id, overall_score, id),
+  FULLTEXT INDEX ft_assessments_summary (ai_summary)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
 -- ----------------------------------------------------------------
 -- assessment_events
 --   Junction table: links each analysis run to the events it processed.
 --   Allows an event to appear in multiple runs without duplication.
+--   risk_category / article_score snapshot the classification made in
+--   that run, since the events row only keeps the latest one.
+--   explanation is the classifier's ScoreExplanation for that score:
+--   category candidates, tie-break decision, severity trigger and the
+--   base/boost arithmetic (see lib/classifier.ts).
+--   recency_weight / credibility_weight are the aggregate multipliers
+--   applied on weighted runs (NULL otherwise).
 -- ----------------------------------------------------------------
 CREATE TABLE IF NOT EXISTS assessment_events (
   assessment_id INT UNSIGNED NOT NULL,
   event_id      INT UNSIGNED NOT NULL,
+  risk_category VARCHAR(64)  NOT NULL,
+  article_score DECIMAL(5,2) NOT NULL DEFAULT 0.00,
+  explanation   JSON,
+  recency_weight     DECIMAL(5,4) NULL,
+  credibility_weight DECIMAL(4,3) NULL,
   PRIMARY KEY (assessment_id, event_id),
+  INDEX idx_ae_event (event_id),
   CONSTRAINT fk_ae_assessment
     FOREIGN KEY (assessment_id) REFERENCES impact_assessments(id)
     ON DELETE CASCADE ON UPDATE CASCADE,
@@ -84,3 +304,303 @@ CREATE TABLE IF NOT EXISTS assessment_events (
     FOREIGN KEY (event_id) REFERENCES events(id)
     ON DELETE CASCADE ON UPDATE CASCADE
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- schedules
+--   Recurring analysis runs, shared by an organization; user_id is
+--   the member who created the schedule and whose runs it queues. cron_expression is a standard
+--   five-field expression evaluated in UTC (see lib/cron.ts).
+--   next_run_at is precomputed so the scheduler only scans due rows.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS schedules (
+  id              INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  org_id          INT UNSIGNED  NOT NULL,
+  user_id         INT UNSIGNED  NOT NULL,
+  name            VARCHAR(120)  NOT NULL,
+  cron_expression VARCHAR(120)  NOT NULL,
+  enabled         TINYINT(1)    NOT NULL DEFAULT 1,
+  next_run_at     DATETIME      NULL,
+  last_run_at     DATETIME      NULL,
+  created_at      DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at      DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT fk_schedule_org
+    FOREIGN KEY (org_id) REFERENCES organizations(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_schedule_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  INDEX idx_schedules_org  (org_id),
+  INDEX idx_schedules_due  (enabled, next_run_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- jobs
+--   One row per unattended pipeline execution (queued by a schedule).
+--   Failed attempts are re-queued with backoff via run_after until
+--   attempts reaches max_attempts.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS jobs (
+  id             INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  schedule_id    INT UNSIGNED  NULL,
+  org_id         INT UNSIGNED  NOT NULL,
+  user_id        INT UNSIGNED  NOT NULL,
+  status         ENUM('queued','running','succeeded','failed') NOT NULL DEFAULT 'queued',
+  attempts       TINYINT UNSIGNED NOT NULL DEFAULT 0,
+  max_attempts   TINYINT UNSIGNED NOT NULL DEFAULT 3,
+  run_after      DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at     DATETIME      NULL,
+  finished_at    DATETIME      NULL,
+  duration_ms    INT UNSIGNED  NULL,
+  assessment_id  INT UNSIGNED  NULL,
+  error          TEXT,
+  created_at     DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT fk_job_schedule
+    FOREIGN KEY (schedule_id) REFERENCES schedules(id)
+    ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT fk_job_org
+    FOREIGN KEY (org_id) REFERENCES organizations(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_job_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_job_assessment
+    FOREIGN KEY (assessment_id) REFERENCES impact_assessments(id)
+    ON DELETE SET NULL ON UPDATE CASCADE,
+  INDEX idx_jobs_claim (status, run_after),
+  INDEX idx_jobs_org   (org_id, created_at DESC)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- alert_rules
+--   Conditions evaluated after every assessment persisted in the
+--   rule's organization; user_id is the member who created the rule
+--   (see lib/alerts/rules.ts for rule_type / params shapes).
+--   target is a URL (webhook, slack) or an email address.
+--   secret signs webhook payloads (HMAC-SHA256).
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id                INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  org_id            INT UNSIGNED  NOT NULL,
+  user_id           INT UNSIGNED  NOT NULL,
+  name              VARCHAR(120)  NOT NULL,
+  rule_type         ENUM('score_threshold','level_transition','category_shift') NOT NULL,
+  params            JSON          NOT NULL,
+  channel           ENUM('webhook','email','slack') NOT NULL,
+  target            VARCHAR(1000) NOT NULL,
+  secret            VARCHAR(255)  NULL,
+  enabled           TINYINT(1)    NOT NULL DEFAULT 1,
+  last_triggered_at DATETIME      NULL,
+  created_at        DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at        DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT fk_alert_rule_org
+    FOREIGN KEY (org_id) REFERENCES organizations(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_alert_rule_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  INDEX idx_alert_rules_org (org_id, enabled)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- alert_deliveries
+--   Delivery log: one row per (rule match, assessment), updated on
+--   every attempt until delivered or failed.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+  id              INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  rule_id         INT UNSIGNED  NOT NULL,
+  assessment_id   INT UNSIGNED  NOT NULL,
+  channel         ENUM('webhook','email','slack') NOT NULL,
+  status          ENUM('pending','delivered','failed') NOT NULL DEFAULT 'pending',
+  attempts        TINYINT UNSIGNED NOT NULL DEFAULT 0,
+  response_status SMALLINT UNSIGNED NULL,
+  reason          VARCHAR(500)  NOT NULL,
+  error           TEXT,
+  created_at      DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  delivered_at    DATETIME      NULL,
+  CONSTRAINT fk_delivery_rule
+    FOREIGN KEY (rule_id) REFERENCES alert_rules(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_delivery_assessment
+    FOREIGN KEY (assessment_id) REFERENCES impact_assessments(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  INDEX idx_deliveries_rule (rule_id, created_at DESC)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- rate_limit_buckets
+--   Rate limiter state when RATE_LIMIT_STORE=mysql, shared by all
+--   instances. bucket_key is "<limiter>:<key>", e.g. "auth:ip:1.2.3.4".
+--   tokens / last_refill (epoch ms) hold a token bucket, or the
+--   requests left and start of a fixed window; last_refill = 0 means
+--   the row was just created and has no state yet.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key  VARCHAR(191)    NOT NULL PRIMARY KEY,
+  tokens      DOUBLE          NOT NULL,
+  last_refill BIGINT UNSIGNED NOT NULL,
+  updated_at  DATETIME        NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_rate_limit_updated (updated_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- system_settings
+--   Admin overrides of system settings (see lib/settings.ts), one row
+--   per setting; value is the JSON-encoded boolean or number. Settings
+--   without a row use their environment variable or built-in default.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS system_settings (
+  name        VARCHAR(64)   NOT NULL PRIMARY KEY,
+  value       JSON          NOT NULL,
+  updated_by  INT UNSIGNED  NULL,
+  updated_at  DATETIME      NOT NULL,
+  CONSTRAINT fk_settings_user
+    FOREIGN KEY (updated_by) REFERENCES users(id)
+    ON DELETE SET NULL ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- login_attempts
+--   One row per login attempt, kept for lockout review and anomaly
+--   detection. user_id is NULL when the email has no account.
+--   suspicious_reasons lists why a successful login was flagged
+--   (new_ip, unknown_ip, new_user_agent, after_failures); NULL otherwise.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id                 BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  user_id            INT UNSIGNED  NULL,
+  email              VARCHAR(255)  NOT NULL,
+  ip_address         VARCHAR(45)   NOT NULL,
+  user_agent         VARCHAR(255)  NOT NULL,
+  outcome            ENUM('success','wrong_password','unknown_email','locked') NOT NULL,
+  suspicious_reasons JSON          NULL,
+  created_at         DATETIME      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT fk_login_attempt_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  INDEX idx_login_attempts_user  (user_id, outcome, created_at),
+  INDEX idx_login_attempts_email (email, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- sessions
+--   One row per sign-in (device). id is the jti of every access token
+--   issued for the session; revoked_at set means those tokens are no
+--   longer accepted. refresh_hash is the SHA-256 of the current refresh
+--   token secret; previous_refresh_hash detects reuse of a rotated one.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sessions (
+  id                    CHAR(36)      NOT NULL PRIMARY KEY,
+  user_id               INT UNSIGNED  NOT NULL,
+  refresh_hash          CHAR(64)      NOT NULL,
+  previous_refresh_hash CHAR(64)      NULL,
+  user_agent            VARCHAR(255)  NOT NULL,
+  ip_address            VARCHAR(45)   NOT NULL,
+  created_at            DATETIME      NOT NULL,
+  last_seen_at          DATETIME      NOT NULL,
+  rotated_at            DATETIME      NOT NULL,
+  expires_at            DATETIME      NOT NULL,
+  revoked_at            DATETIME      NULL,
+  revoked_reason        VARCHAR(32)   NULL,
+  CONSTRAINT fk_session_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  INDEX idx_sessions_user (user_id, revoked_at, expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- email_tokens
+--   Single-use tokens mailed to users (lib/account.ts): address
+--   verification and password reset links. token_hash is the SHA-256 of
+--   the token; email is the address the link was sent to. used_at is
+--   set when the link is followed, or when a newer link replaces it.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS email_tokens (
+  id          INT UNSIGNED  AUTO_INCREMENT PRIMARY KEY,
+  user_id     INT UNSIGNED  NOT NULL,
+  purpose     ENUM('verify_email','reset_password') NOT NULL,
+  email       VARCHAR(255)  NOT NULL,
+  token_hash  CHAR(64)      NOT NULL,
+  expires_at  DATETIME      NOT NULL,
+  used_at     DATETIME      NULL,
+  created_at  DATETIME      NOT NULL,
+  CONSTRAINT fk_email_token_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  UNIQUE KEY uq_email_tokens_hash (token_hash),
+  INDEX idx_email_tokens_user (user_id, purpose, used_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- api_keys
+--   Personal API keys ("eip_<8 hex>_<secret>", sent as a Bearer token).
+--   prefix is the public "eip_<8 hex>" part that identifies the key;
+--   key_hash is the SHA-256 of the secret. A key acts for user_id in
+--   org_id only while the user is still a member there. scopes is a JSON
+--   array such as ["assessments:read"]; rate_limit is requests/minute.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS api_keys (
+  id            INT UNSIGNED  AUTO_INCREMENT PRIMARY KEY,
+  user_id       INT UNSIGNED  NOT NULL,
+  org_id        INT UNSIGNED  NOT NULL,
+  name          VARCHAR(100)  NOT NULL,
+  prefix        CHAR(12)      NOT NULL,
+  key_hash      CHAR(64)      NOT NULL,
+  scopes        JSON          NOT NULL,
+  rate_limit    INT UNSIGNED  NOT NULL,
+  expires_at    DATETIME      NULL,
+  last_used_at  DATETIME      NULL,
+  last_used_ip  VARCHAR(45)   NULL,
+  created_at    DATETIME      NOT NULL,
+  revoked_at    DATETIME      NULL,
+  CONSTRAINT fk_api_key_user
+    FOREIGN KEY (user_id) REFERENCES users(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT fk_api_key_org
+    FOREIGN KEY (org_id) REFERENCES organizations(id)
+    ON DELETE CASCADE ON UPDATE CASCADE,
+  UNIQUE KEY uq_api_keys_prefix (prefix),
+  INDEX idx_api_keys_user (user_id, revoked_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- audit_events
+--   Append-only audit trail (AUDIT_SINKS includes "db"). Rows are
+--   hash-chained: hash = SHA-256(prev_hash + "\n" + canonical JSON of
+--   the event), so an edited, deleted or reordered row breaks the chain
+--   (GET /api/audit/verify). user_id has no foreign key: events outlive
+--   the accounts they mention. The application only ever INSERTs here.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS audit_events (
+  id          BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  action      VARCHAR(40)   NOT NULL,
+  user_id     INT UNSIGNED  NULL,
+  ip_address  VARCHAR(45)   NULL,
+  user_agent  VARCHAR(255)  NULL,
+  resource    VARCHAR(255)  NULL,
+  status      ENUM('success','failure') NOT NULL,
+  details     JSON          NULL,
+  request_id  VARCHAR(128)  NULL,
+  created_at  DATETIME(3)   NOT NULL,
+  prev_hash   CHAR(64)      NOT NULL,
+  hash        CHAR(64)      NOT NULL,
+  UNIQUE KEY uq_audit_hash (hash),
+  INDEX idx_audit_user     (user_id, id),
+  INDEX idx_audit_action   (action, id),
+  INDEX idx_audit_resource (resource, id),
+  INDEX idx_audit_created  (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ----------------------------------------------------------------
+-- audit_chain
+--   Single row holding the id and hash of the newest audit_events row.
+--   Appends lock it, which serialises writers across instances; the
+--   genesis hash is 64 zeros.
+-- ----------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS audit_chain (
+  id         TINYINT UNSIGNED NOT NULL PRIMARY KEY,
+  last_id    BIGINT UNSIGNED  NOT NULL,
+  last_hash  CHAR(64)         NOT NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO audit_chain (id, last_id, last_hash) VALUES (1, 0, REPEAT('0', 64));
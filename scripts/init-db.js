@@ -1,12 +1,15 @@
 /**
  * scripts/init-db.js
- * Reads schema.sql and executes it against your MySQL instance.
+ * Reads schema.sql and executes it against your MySQL instance, then
+ * applies any pending upgrades to existing tables (scripts/migrations.js).
+ * Safe to re-run; use it both for a fresh install and after upgrading.
  * Run: npm run db:init
  */
 
 const mysql = require("mysql2/promise");
 const fs    = require("fs");
 const path  = require("path");
+const { migrate } = require("./migrations");
 
 async function init() {
   const connection = await mysql.createConnection({
@@ -24,6 +27,7 @@ async function init() {
 
   try {
     await connection.query(sql);
+    await migrate(connection);
     console.log("✅ Schema initialised — database and all tables are ready.");
   } catch (err) {
     console.error("❌ Schema error:", err.message);
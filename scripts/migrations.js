@@ -0,0 +1,441 @@
+/**
+ * scripts/migrations.js
+ * Upgrades for databases created from an older schema.sql.
+ *
+ * schema.sql only uses CREATE TABLE IF NOT EXISTS, so re-running it adds
+ * new tables but never changes existing ones. Each migration below brings
+ * existing tables up to the current schema (ALTERs plus backfills) and is
+ * recorded in schema_migrations so it runs once. Every step checks
+ * information_schema before it changes anything, so on a database created
+ * from the current schema.sql the migrations find nothing to do, and a
+ * migration that stopped half-way can simply be run again.
+ *
+ * Run by scripts/init-db.js after schema.sql.
+ */
+
+const crypto = require("crypto");
+
+// ─── information_schema helpers ───────────────────────────────────
+
+async function column(conn, table, name) {
+  const [rows] = await conn.query(
+    `SELECT COLUMN_TYPE AS type, IS_NULLABLE AS nullable
+       FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+    [table, name]
+  );
+  return rows[0] ? { type: rows[0].type, nullable: rows[0].nullable === "YES" } : null;
+}
+
+async function hasIndex(conn, table, name) {
+  const [rows] = await conn.query(
+    `SELECT 1 FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ? LIMIT 1`,
+    [table, name]
+  );
+  return rows.length > 0;
+}
+
+async function hasConstraint(conn, table, name) {
+  const [rows] = await conn.query(
+    `SELECT 1 FROM information_schema.TABLE_CONSTRAINTS
+      WHERE CONSTRAINT_SCHEMA = DATABASE() AND TABLE_NAME = ? AND CONSTRAINT_NAME = ?`,
+    [table, name]
+  );
+  return rows.length > 0;
+}
+
+/** Add a column unless it exists. Returns true when it was added. */
+async function addColumn(conn, table, name, definition) {
+  if (await column(conn, table, name)) return false;
+  await conn.query(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+  return true;
+}
+
+async function addIndex(conn, table, name, definition) {
+  if (await hasIndex(conn, table, name)) return;
+  await conn.query(`ALTER TABLE ${table} ADD ${definition}`);
+}
+
+async function dropIndex(conn, table, name) {
+  if (!(await hasIndex(conn, table, name))) return;
+  await conn.query(`ALTER TABLE ${table} DROP INDEX ${name}`);
+}
+
+async function addConstraint(conn, table, name, definition) {
+  if (await hasConstraint(conn, table, name)) return;
+  await conn.query(`ALTER TABLE ${table} ADD CONSTRAINT ${name} ${definition}`);
+}
+
+/** True when the column exists and is still nullable, i.e. its backfill has not finished. */
+async function needsBackfill(conn, table, name) {
+  const col = await column(conn, table, name);
+  return col !== null && col.nullable;
+}
+
+// ─── URL canonicalisation (as lib/dedup.ts canonicalUrl) ──────────
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|mc_cid|mc_eid|ocid|cmpid|ref|ref_src|smid|taid|guccounter)$/i;
+
+function canonicalUrl(raw) {
+  let url;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return raw.trim().toLowerCase();
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m|amp)\./, "");
+
+  let pathname = url.pathname
+    .replace(/\/amp\/?$/i, "")
+    .replace(/\.amp(\.html)?$/i, "$1")
+    .replace(/\/+$/, "");
+
+  if (pathname === "") pathname = "/";
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const query = params.length > 0
+    ? "?" + params.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join("&")
+    : "";
+
+  return `${host}${pathname}${query}`;
+}
+
+function sha256(value) {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+// Keywords that stopped matching when matching moved to whole-word stems (user-008)
+const KEYWORD_FIXES = {
+  geopolitic: ["geopolitics", "geopolitical"],
+};
+
+// ─── Migrations, oldest first ─────────────────────────────────────
+
+const MIGRATIONS = [
+  {
+    // user-003 / user-004: events became one row per story keyed by url_hash;
+    // assessment_events keeps each run's own classification.
+    id: "004_events_store",
+    async up(conn) {
+      await addColumn(conn, "assessment_events", "risk_category", "VARCHAR(64) NULL AFTER event_id");
+      await addColumn(conn, "assessment_events", "article_score", "DECIMAL(5,2) NULL AFTER risk_category");
+      if (await needsBackfill(conn, "assessment_events", "risk_category")) {
+        // Old runs each had their own events row, so it still holds that run's score
+        await conn.query(
+          `UPDATE assessment_events ae JOIN events e ON e.id = ae.event_id
+              SET ae.risk_category = e.risk_category, ae.article_score = e.article_score
+            WHERE ae.risk_category IS NULL`
+        );
+        await conn.query(
+          `ALTER TABLE assessment_events
+             MODIFY risk_category VARCHAR(64)  NOT NULL,
+             MODIFY article_score DECIMAL(5,2) NOT NULL DEFAULT 0.00`
+        );
+      }
+      await addIndex(conn, "assessment_events", "idx_ae_event", "INDEX idx_ae_event (event_id)");
+
+      await addColumn(conn, "events", "url_hash",        "CHAR(64) NULL AFTER id");
+      await addColumn(conn, "events", "source_count",    "SMALLINT UNSIGNED NOT NULL DEFAULT 1");
+      await addColumn(conn, "events", "cluster_sources", "JSON");
+      await addColumn(conn, "events", "run_count",       "INT UNSIGNED NOT NULL DEFAULT 1");
+      await addColumn(conn, "events", "first_seen_at",   "DATETIME NULL");
+      await addColumn(conn, "events", "last_seen_at",    "DATETIME NULL");
+
+      if (await needsBackfill(conn, "events", "first_seen_at")) {
+        const seenFrom = (await column(conn, "events", "created_at")) ? "created_at" : "CURRENT_TIMESTAMP";
+        await conn.query(
+          `UPDATE events SET first_seen_at = COALESCE(first_seen_at, ${seenFrom}),
+                             last_seen_at  = COALESCE(last_seen_at, ${seenFrom})`
+        );
+      }
+
+      if (await needsBackfill(conn, "events", "url_hash")) {
+        const [rows] = await conn.query("SELECT id, url FROM events WHERE url_hash IS NULL");
+        for (const row of rows) {
+          // Rows without a URL cannot be matched to anything; keep them distinct
+          const hash = row.url && row.url.trim() ? sha256(canonicalUrl(row.url)) : sha256(`event:${row.id}`);
+          await conn.query("UPDATE events SET url_hash = ? WHERE id = ?", [hash, row.id]);
+        }
+        console.log(`   hashed ${rows.length} event URLs`);
+
+        // Merge rows for the same story into the newest one, which holds the latest classification
+        const [groups] = await conn.query(
+          `SELECT url_hash, MAX(id) AS keep_id, MIN(first_seen_at) AS first_seen, MAX(last_seen_at) AS last_seen,
+                  MAX(source_count) AS source_count
+             FROM events GROUP BY url_hash HAVING COUNT(*) > 1`
+        );
+        for (const g of groups) {
+          await conn.beginTransaction();
+          try {
+            const [dups] = await conn.query(
+              "SELECT id FROM events WHERE url_hash = ? AND id <> ?",
+              [g.url_hash, g.keep_id]
+            );
+            const ids = dups.map((d) => d.id);
+            // A run linked to two of the rows keeps its link to the surviving one
+            await conn.query("UPDATE IGNORE assessment_events SET event_id = ? WHERE event_id IN (?)", [g.keep_id, ids]);
+            await conn.query("DELETE FROM assessment_events WHERE event_id IN (?)", [ids]);
+            await conn.query("DELETE FROM events WHERE id IN (?)", [ids]);
+            await conn.query(
+              "UPDATE events SET first_seen_at = ?, last_seen_at = ?, source_count = ? WHERE id = ?",
+              [g.first_seen, g.last_seen, g.source_count, g.keep_id]
+            );
+            await conn.commit();
+          } catch (err) {
+            await conn.rollback();
+            throw err;
+          }
+        }
+        console.log(`   merged ${groups.length} duplicated stories`);
+
+        await conn.query(
+          `UPDATE events e
+              SET e.run_count = GREATEST(1, (SELECT COUNT(*) FROM assessment_events ae WHERE ae.event_id = e.id))`
+        );
+        await conn.query("ALTER TABLE events MODIFY url_hash CHAR(64) NOT NULL");
+      }
+      await addIndex(conn, "events", "uq_events_url_hash", "UNIQUE KEY uq_events_url_hash (url_hash)");
+
+      if (await needsBackfill(conn, "events", "first_seen_at")) {
+        await conn.query(
+          `ALTER TABLE events
+             MODIFY first_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+             MODIFY last_seen_at  DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP`
+        );
+      }
+      await dropIndex(conn, "events", "idx_events_created_at");
+      if (await column(conn, "events", "created_at")) {
+        await conn.query("ALTER TABLE events DROP COLUMN created_at");
+      }
+      await addIndex(conn, "events", "idx_events_last_seen", "INDEX idx_events_last_seen (last_seen_at DESC)");
+    },
+  },
+  {
+    // user-007: category names come from the taxonomy tables, not a fixed ENUM,
+    // and each run records the taxonomy version that scored it.
+    id: "007_taxonomy_versions",
+    async up(conn) {
+      for (const [table, name] of [
+        ["events", "risk_category"],
+        ["assessment_events", "risk_category"],
+        ["impact_assessments", "dominant_category"],
+      ]) {
+        const col = await column(conn, table, name);
+        if (col && col.type.startsWith("enum")) {
+          await conn.query(`ALTER TABLE ${table} MODIFY ${name} VARCHAR(64) NOT NULL`);
+        }
+      }
+
+      // Earlier runs keep NULL: they were scored by the built-in taxonomy
+      await addColumn(conn, "impact_assessments", "taxonomy_version", "INT UNSIGNED NULL AFTER ai_summary");
+      await addConstraint(
+        conn, "impact_assessments", "fk_assessment_taxonomy",
+        "FOREIGN KEY (taxonomy_version) REFERENCES taxonomy_versions(id) ON DELETE RESTRICT ON UPDATE CASCADE"
+      );
+    },
+  },
+  {
+    // user-008: keywords now match whole-word stems, so "geopolitic" no longer
+    // matches "geopolitical". Versions are immutable, so the fix is published
+    // as a new active version copied from the current one.
+    id: "008_taxonomy_keyword_stems",
+    async up(conn) {
+      const [active] = await conn.query(
+        "SELECT id, label, baseline_boost FROM taxonomy_versions WHERE status = 'active' ORDER BY id DESC LIMIT 1"
+      );
+      // Nothing seeded yet: the app seeds the current built-in default on first use
+      if (active.length === 0) return;
+      const current = active[0];
+
+      const [categories] = await conn.query(
+        `SELECT name, weight, keywords, is_fallback, sort_order
+           FROM taxonomy_categories WHERE version_id = ? ORDER BY sort_order, id`,
+        [current.id]
+      );
+      let changed = false;
+      const fixed = categories.map((c) => {
+        const keywords = typeof c.keywords === "string" ? JSON.parse(c.keywords) : c.keywords;
+        const next = Array.from(new Set(keywords.flatMap((k) => KEYWORD_FIXES[k] ?? [k])));
+        if (next.length !== keywords.length || next.some((k, i) => k !== keywords[i])) changed = true;
+        return { ...c, keywords: next };
+      });
+      if (!changed) return;
+
+      await conn.beginTransaction();
+      try {
+        await conn.query("UPDATE taxonomy_versions SET status = 'archived' WHERE status = 'active'");
+        const [result] = await conn.query(
+          `INSERT INTO taxonomy_versions (label, status, baseline_boost, based_on, activated_at)
+           VALUES (?, 'active', ?, ?, UTC_TIMESTAMP())`,
+          [`${current.label} (stem keywords)`.slice(0, 120), current.baseline_boost, current.id]
+        );
+        const version = result.insertId;
+        for (const c of fixed) {
+          await conn.query(
+            `INSERT INTO taxonomy_categories (version_id, name, weight, keywords, is_fallback, sort_order)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [version, c.name, c.weight, JSON.stringify(c.keywords), c.is_fallback, c.sort_order]
+          );
+        }
+        await conn.query(
+          `INSERT INTO taxonomy_severity_tiers (version_id, boost, words)
+           SELECT ?, boost, words FROM taxonomy_severity_tiers WHERE version_id = ? ORDER BY id`,
+          [version, current.id]
+        );
+        await conn.commit();
+        console.log(`   published taxonomy version ${version} from version ${current.id} with corrected keywords`);
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      }
+    },
+  },
+  {
+    // user-009: per-article score explanation; NULL on runs before it was recorded.
+    id: "009_score_explanations",
+    async up(conn) {
+      await addColumn(conn, "assessment_events", "explanation", "JSON AFTER article_score");
+    },
+  },
+  {
+    // user-010: optional recency × credibility weighting; NULL on unweighted runs.
+    id: "010_weighted_scores",
+    async up(conn) {
+      await addColumn(conn, "impact_assessments", "weighted_score",     "DECIMAL(5,2) NULL AFTER overall_score");
+      await addColumn(conn, "impact_assessments", "weighting_config",   "JSON NULL AFTER weighted_score");
+      await addColumn(conn, "assessment_events",  "recency_weight",     "DECIMAL(5,4) NULL");
+      await addColumn(conn, "assessment_events",  "credibility_weight", "DECIMAL(4,3) NULL");
+    },
+  },
+  {
+    // user-014: FULLTEXT indexes behind the boolean search. Building them
+    // rewrites the table, so this can take a while on a large history.
+    id: "014_fulltext_search",
+    async up(conn) {
+      await addIndex(conn, "events", "ft_events_text", "FULLTEXT INDEX ft_events_text (title, description)");
+      await addIndex(conn, "impact_assessments", "ft_assessments_summary", "FULLTEXT INDEX ft_assessments_summary (ai_summary)");
+    },
+  },
+  {
+    // user-019: progressive lockout state.
+    id: "019_login_lockout",
+    async up(conn) {
+      await addColumn(conn, "users", "failed_login_count", "INT UNSIGNED NOT NULL DEFAULT 0 AFTER password_hash");
+      await addColumn(conn, "users", "locked_until",       "DATETIME NULL AFTER failed_login_count");
+    },
+  },
+  {
+    // user-022: account roles. Existing accounts get the default, analyst;
+    // ADMIN_EMAILS accounts are promoted by the app as for new ones.
+    id: "022_user_roles",
+    async up(conn) {
+      await addColumn(conn, "users", "role", "ENUM('viewer','analyst','admin') NOT NULL DEFAULT 'analyst' AFTER locked_until");
+    },
+  },
+  {
+    // user-023: assessments, schedules, jobs and alert rules belong to an
+    // organization. Existing rows move to their user's personal organization,
+    // created here as lib/orgs.ts ensurePersonal() would on first use.
+    id: "023_organizations",
+    async up(conn) {
+      const tables = [
+        { table: "impact_assessments", after: "id",          owner: "triggered_by" },
+        { table: "schedules",          after: "id",          owner: "user_id" },
+        { table: "jobs",               after: "schedule_id", owner: "user_id" },
+        { table: "alert_rules",        after: "id",          owner: "user_id" },
+      ];
+      for (const t of tables) {
+        await addColumn(conn, t.table, "org_id", `INT UNSIGNED NULL AFTER ${t.after}`);
+      }
+
+      const pending = [];
+      for (const t of tables) {
+        if (await needsBackfill(conn, t.table, "org_id")) pending.push(t);
+      }
+      if (pending.length > 0) {
+        await conn.query(
+          "INSERT IGNORE INTO organizations (name, personal_for, created_by) SELECT 'Personal', id, id FROM users"
+        );
+        await conn.query(
+          `INSERT IGNORE INTO org_memberships (org_id, user_id, role)
+           SELECT id, personal_for, 'owner' FROM organizations WHERE personal_for IS NOT NULL`
+        );
+      }
+
+      for (const t of pending) {
+        if (t.table === "jobs") {
+          // A scheduled job follows its schedule
+          await conn.query(
+            "UPDATE jobs j JOIN schedules s ON s.id = j.schedule_id SET j.org_id = s.org_id WHERE j.org_id IS NULL"
+          );
+        }
+        await conn.query(
+          `UPDATE ${t.table} x JOIN organizations o ON o.personal_for = x.${t.owner}
+              SET x.org_id = o.id WHERE x.org_id IS NULL`
+        );
+
+        // Runs whose user was deleted had no owner; keep them in an organization of their own
+        const [[left]] = await conn.query(`SELECT COUNT(*) AS n FROM ${t.table} WHERE org_id IS NULL`);
+        if (Number(left.n) > 0) {
+          const [result] = await conn.query("INSERT INTO organizations (name) VALUES ('Runs without an owner')");
+          await conn.query(`UPDATE ${t.table} SET org_id = ? WHERE org_id IS NULL`, [result.insertId]);
+          console.log(`   moved ${left.n} ${t.table} rows without an owner to organization ${result.insertId}`);
+        }
+
+        await conn.query(`ALTER TABLE ${t.table} MODIFY org_id INT UNSIGNED NOT NULL`);
+      }
+
+      const orgForeignKey = "FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE ON UPDATE CASCADE";
+      await addConstraint(conn, "impact_assessments", "fk_assessment_org", orgForeignKey);
+      await addConstraint(conn, "schedules",          "fk_schedule_org",   orgForeignKey);
+      await addConstraint(conn, "jobs",               "fk_job_org",        orgForeignKey);
+      await addConstraint(conn, "alert_rules",        "fk_alert_rule_org", orgForeignKey);
+
+      // Keyset pagination is per organization now
+      await dropIndex(conn, "impact_assessments", "idx_assessments_user_created");
+      await dropIndex(conn, "impact_assessments", "idx_assessments_user_score");
+      await addIndex(conn, "impact_assessments", "idx_assessments_org_created", "INDEX idx_assessments_org_created (org_id, created_at, id)");
+      await addIndex(conn, "impact_assessments", "idx_assessments_org_score",   "INDEX idx_assessments_org_score (org_id, overall_score, id)");
+      await addIndex(conn, "schedules",   "idx_schedules_org",   "INDEX idx_schedules_org (org_id)");
+      await addIndex(conn, "jobs",        "idx_jobs_org",        "INDEX idx_jobs_org (org_id, created_at DESC)");
+      await addIndex(conn, "alert_rules", "idx_alert_rules_org", "INDEX idx_alert_rules_org (org_id, enabled)");
+    },
+  },
+  {
+    // user-025: email verification. Existing accounts start unverified: their
+    // address was never confirmed, and verification is what lets an
+    // ADMIN_EMAILS account become an admin.
+    id: "025_email_verification",
+    async up(conn) {
+      await addColumn(conn, "users", "email_verified_at", "DATETIME NULL AFTER role");
+    },
+  },
+];
+
+// ─── Runner ───────────────────────────────────────────────────────
+
+/** Apply every migration not yet recorded in schema_migrations. */
+async function migrate(conn) {
+  await conn.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       id         VARCHAR(64) NOT NULL PRIMARY KEY,
+       applied_at DATETIME    NOT NULL DEFAULT CURRENT_TIMESTAMP
+     ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`
+  );
+  const [rows] = await conn.query("SELECT id FROM schema_migrations");
+  const applied = new Set(rows.map((r) => r.id));
+
+  for (const m of MIGRATIONS) {
+    if (applied.has(m.id)) continue;
+    console.log(`↻ Migration ${m.id}…`);
+    await m.up(conn);
+    await conn.query("INSERT INTO schema_migrations (id) VALUES (?)", [m.id]);
+  }
+}
+
+module.exports = { migrate };
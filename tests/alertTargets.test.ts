@@ -0,0 +1,40 @@
+/**
+ * tests/alertTargets.test.ts
+ * Outbound address policy for webhook and Slack targets (lib/alerts/targets).
+ * Only IP literals are used so the tests never depend on DNS.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { assertDeliverableUrl, assertPublicTarget, isBlockedAddress } from "../lib/alerts/targets";
+import { ValidationError } from "../lib/errors";
+
+test("internal addresses are blocked", () => {
+  for (const ip of [
+    "127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0",
+    "100.64.0.1", "::1", "::", "fe80::1", "fd00::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe",
+  ]) {
+    assert.ok(isBlockedAddress(ip), ip);
+  }
+});
+
+test("public addresses are allowed", () => {
+  for (const ip of ["93.184.216.34", "8.8.8.8", "172.32.0.1", "2606:4700::1111"]) {
+    assert.ok(!isBlockedAddress(ip), ip);
+  }
+});
+
+test("rules cannot be saved with an internal target", async () => {
+  for (const target of [
+    "http://127.0.0.1:3000/hook", "http://169.254.169.254/latest/meta-data", "http://[::1]/hook", "http://[::ffff:10.0.0.1]/",
+  ]) {
+    await assert.rejects(assertPublicTarget(target), ValidationError, target);
+  }
+  await assertPublicTarget("https://93.184.216.34/hook");
+});
+
+test("delivery refuses internal IP literals and non-http schemes", () => {
+  assert.throws(() => assertDeliverableUrl("http://10.0.0.5/hook"));
+  assert.throws(() => assertDeliverableUrl("ftp://93.184.216.34/hook"));
+  assert.equal(assertDeliverableUrl("https://93.184.216.34/hook").hostname, "93.184.216.34");
+});
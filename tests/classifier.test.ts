@@ -0,0 +1,76 @@
+/**
+ * tests/classifier.test.ts
+ * Golden headline corpus for the keyword matcher (tests/fixtures/headlines.json).
+ *
+ * Each entry names the category the default taxonomy must pick and,
+ * optionally, keywords that must match, keywords that must not match
+ * anywhere (category keywords or severity trigger), keywords that must be
+ * reported as negated, the de-escalation phrase found and the severity tier.
+ * The first entries are the substring false positives the matcher replaced:
+ * "war" in "award"/"software", "oil" in "turmoil", "port" in "report",
+ * "ban" in "urban".
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyArticles, ClassifiedArticle } from "../lib/classifier";
+import { analyzeText, compileTerms, findTerms } from "../lib/matcher";
+import corpus from "./fixtures/headlines.json";
+
+interface HeadlineCase {
+  headline     : string;
+  category     : string;
+  match?       : string[];
+  absent?      : string[];
+  negated?     : string[];
+  deEscalation?: string;
+  severityTier : number | null;
+}
+
+const cases = corpus as HeadlineCase[];
+
+function classify(headline: string): ClassifiedArticle {
+  const result = classifyArticles([
+    { title: headline, description: null, source: "Test", url: "https://example.com/a", publishedAt: "" },
+  ]);
+  return result.articles[0];
+}
+
+function matchedTerms(article: ClassifiedArticle): string[] {
+  const terms = Object.values(article.keywordMatches).flat() as string[];
+  const trigger = article.explanation.severity.trigger;
+  return trigger ? [...terms, trigger] : terms;
+}
+
+for (const c of cases) {
+  test(`headline: ${c.headline}`, () => {
+    const article = classify(c.headline);
+    const matched = matchedTerms(article);
+
+    assert.equal(article.riskCategory, c.category);
+    for (const term of c.match ?? []) {
+      assert.ok(matched.includes(term), `expected "${term}" to match; matched ${JSON.stringify(matched)}`);
+    }
+    for (const term of c.absent ?? []) {
+      assert.ok(!matched.includes(term), `"${term}" must not match; matched ${JSON.stringify(matched)}`);
+    }
+    for (const term of c.negated ?? []) {
+      assert.ok(article.explanation.negated.includes(term), `expected "${term}" to be reported as negated`);
+    }
+    assert.equal(article.explanation.severity.deEscalation, c.deEscalation ?? null);
+    assert.equal(article.explanation.severity.tier, c.severityTier);
+  });
+}
+
+test("inflected forms match their keyword stem", () => {
+  const terms = compileTerms(["sanction", "supply chain"]);
+  for (const text of ["New sanctions announced", "Bank sanctioned by regulator", "Sanctioning Moscow", "Supply chains strained"]) {
+    assert.notEqual(findTerms(analyzeText(text), terms).length, 0, text);
+  }
+});
+
+test("phrases only match consecutive words within one sentence", () => {
+  const terms = compileTerms(["supply chain"]);
+  assert.deepEqual(findTerms(analyzeText("Supply of chain saws rises"), terms), []);
+  assert.deepEqual(findTerms(analyzeText("Water supply. Chain stores close"), terms), []);
+});
@@ -0,0 +1,102 @@
+/**
+ * tests/requestContext.test.ts
+ * Log correlation under concurrency (lib/requestContext, lib/logger).
+ *
+ * Several requests run at once and yield to each other between log
+ * calls, the way handlers interleave on real awaits. Every captured line
+ * must carry the requestId, userId and route of the request that wrote it.
+ * Also covers which client address the context trusts and how it is
+ * normalised before it reaches the database.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  createRequestContext, runWithRequestContext, updateRequestContext, getRequestId, normalizeIp,
+} from "../lib/requestContext";
+import { logger } from "../lib/logger";
+
+interface Line {
+  message   : string;
+  requestId?: string;
+  userId?   : number;
+  route?    : string;
+}
+
+async function fakeRequest(n: number): Promise<void> {
+  const headers = new Headers({ "x-request-id": `req-${n}` });
+  const context = createRequestContext(headers, `GET /api/items/${n}`);
+
+  await runWithRequestContext(context, async () => {
+    logger.info(`start ${n}`);
+    // Later requests resolve sooner, so authentication finishes out of order.
+    await sleep((10 - n) * 3);
+    updateRequestContext(100 + n);
+    logger.info(`authenticated ${n}`);
+    await Promise.all([sleep(n % 3), sleep(1)]);
+    logger.warn(`done ${n}`);
+  });
+}
+
+test("interleaved requests log their own requestId, userId and route", async (t) => {
+  const lines: Line[] = [];
+  t.mock.method(console, "log", (out: string) => { lines.push(JSON.parse(out)); });
+
+  await Promise.all(Array.from({ length: 10 }, (_, n) => fakeRequest(n)));
+
+  assert.equal(lines.length, 30);
+  // Every request started before any finished, and they authenticated out of order.
+  assert.deepEqual(lines.slice(0, 10).map((l) => l.message), Array.from({ length: 10 }, (_, n) => `start ${n}`));
+  assert.equal(lines.find((l) => l.message.startsWith("authenticated"))?.message, "authenticated 9");
+
+  for (const line of lines) {
+    const [phase, n] = line.message.split(" ");
+    assert.equal(line.requestId, `req-${n}`, line.message);
+    assert.equal(line.route, `GET /api/items/${n}`, line.message);
+    assert.equal(line.userId, phase === "start" ? undefined : 100 + Number(n), line.message);
+  }
+});
+
+test("outside a request there is no context", () => {
+  assert.equal(getRequestId(), "unknown");
+});
+
+test("X-Forwarded-For is ignored unless proxies are trusted", (t) => {
+  const headers = new Headers({ "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2" });
+
+  t.after(() => { delete process.env.TRUST_PROXY_HOPS; });
+  assert.equal(createRequestContext(headers, "GET /", "10.0.0.9").ipAddress, "10.0.0.9");
+  assert.equal(createRequestContext(headers).ipAddress, "unknown");
+
+  process.env.TRUST_PROXY_HOPS = "2";
+  assert.equal(createRequestContext(headers, "GET /", "10.0.0.9").ipAddress, "203.0.113.7");
+  process.env.TRUST_PROXY_HOPS = "1";
+  assert.equal(createRequestContext(headers, "GET /", "10.0.0.9").ipAddress, "10.0.0.2");
+});
+
+test("client addresses are normalised to a bare IP of at most 45 characters", () => {
+  const cases: [string | undefined, string][] = [
+    ["203.0.113.7", "203.0.113.7"],
+    [" 203.0.113.7:51234 ", "203.0.113.7"],
+    ["[2001:DB8::1]:443", "2001:db8::1"],
+    ["fe80::1%eth0", "fe80::1"],
+    ["::ffff:203.0.113.7", "203.0.113.7"],
+    ["not-an-ip", "unknown"],
+    ["1.2.3.4' OR '1'='1", "unknown"],
+    ["a".repeat(500), "unknown"],
+    ["", "unknown"],
+    [undefined, "unknown"],
+  ];
+  for (const [raw, expected] of cases) {
+    assert.equal(normalizeIp(raw), expected, String(raw).slice(0, 40));
+  }
+
+  process.env.TRUST_PROXY_HOPS = "1";
+  try {
+    const headers = new Headers({ "x-forwarded-for": "x".repeat(300) });
+    assert.equal(createRequestContext(headers).ipAddress, "unknown");
+  } finally {
+    delete process.env.TRUST_PROXY_HOPS;
+  }
+});